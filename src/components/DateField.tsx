@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Platform, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { useTranslation } from '../context';
+
+interface DateFieldProps {
+    // YYYY-MM-DD, or '' when unset
+    value: string;
+    onChange: (value: string) => void;
+    placeholder: string;
+    minimumDate?: Date;
+    maximumDate?: Date;
+    style?: ViewStyle;
+}
+
+// Picked dates are local calendar days; going through UTC could shift them by one
+const pad = (value: number) => String(value).padStart(2, '0');
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * A clearable date input: the native picker on iOS and Android, a plain
+ * date input on web.
+ */
+export default function DateField({ value, onChange, placeholder, minimumDate, maximumDate, style }: DateFieldProps) {
+    const { t } = useTranslation();
+    const [showPicker, setShowPicker] = useState(false);
+    const dateValue = value ? new Date(`${value}T00:00:00`) : new Date();
+
+    const handlePickerChange = (_event: any, date?: Date) => {
+        if (Platform.OS === 'android') {
+            setShowPicker(false);
+        }
+        if (!date) return;
+        onChange(toDateString(date));
+    };
+
+    const clearButton = value ? (
+        <TouchableOpacity onPress={() => onChange('')} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Ionicons name="close-circle" size={16} color={colors.textLight} />
+        </TouchableOpacity>
+    ) : (
+        <Ionicons name="calendar-outline" size={16} color={colors.textSecondary} />
+    );
+
+    if (Platform.OS === 'web') {
+        return (
+            <View style={[styles.field, style]}>
+                <TextInput
+                    style={styles.webInput}
+                    value={value}
+                    onChangeText={onChange}
+                    placeholder={placeholder}
+                    placeholderTextColor={colors.textLight}
+                    // @ts-ignore - web-only input type
+                    type="date"
+                />
+                {clearButton}
+            </View>
+        );
+    }
+
+    return (
+        <>
+            <TouchableOpacity style={[styles.field, style]} onPress={() => setShowPicker(true)}>
+                <Text style={value ? styles.valueText : styles.placeholderText}>{value || placeholder}</Text>
+                {clearButton}
+            </TouchableOpacity>
+
+            {Platform.OS === 'ios' && showPicker && (
+                <Modal transparent animationType="slide" onRequestClose={() => setShowPicker(false)}>
+                    <View style={styles.modalOverlay}>
+                        <View style={styles.modalContent}>
+                            <DateTimePicker
+                                value={dateValue}
+                                mode="date"
+                                display="inline"
+                                onChange={handlePickerChange}
+                                minimumDate={minimumDate}
+                                maximumDate={maximumDate}
+                            />
+                            <TouchableOpacity style={styles.doneButton} onPress={() => setShowPicker(false)}>
+                                <Text style={styles.doneText}>{t('common.done', 'Done')}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </Modal>
+            )}
+
+            {Platform.OS === 'android' && showPicker && (
+                <DateTimePicker
+                    value={dateValue}
+                    mode="date"
+                    display="default"
+                    onChange={handlePickerChange}
+                    minimumDate={minimumDate}
+                    maximumDate={maximumDate}
+                />
+            )}
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    field: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.sm,
+        height: 40,
+        backgroundColor: colors.background,
+    },
+    webInput: {
+        flex: 1,
+        fontSize: fontSize.sm,
+        color: colors.textPrimary,
+    },
+    valueText: {
+        fontSize: fontSize.sm,
+        color: colors.textPrimary,
+    },
+    placeholderText: {
+        fontSize: fontSize.sm,
+        color: colors.textLight,
+    },
+    modalOverlay: {
+        flex: 1,
+        justifyContent: 'flex-end',
+        backgroundColor: 'rgba(0,0,0,0.3)',
+    },
+    modalContent: {
+        backgroundColor: colors.white,
+        padding: spacing.md,
+        borderTopLeftRadius: borderRadius.lg,
+        borderTopRightRadius: borderRadius.lg,
+    },
+    doneButton: {
+        alignSelf: 'flex-end',
+        paddingVertical: spacing.sm,
+        paddingHorizontal: spacing.lg,
+    },
+    doneText: {
+        color: colors.primary,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+    },
+});
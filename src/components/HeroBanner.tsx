@@ -16,7 +16,7 @@ import { getLocalizedField } from '../i18n/locale';
 
 interface HeroBannerProps {
     slides: Slide[];
-    onSlidePress?: (slide: Slide) => void;
+    onSlidePress?: (slide: Slide, index: number) => void;
     autoPlayInterval?: number;
 }
 
@@ -88,7 +88,7 @@ export default function HeroBanner({
                         <TouchableOpacity
                             key={slide.id || index}
                             style={styles.slide}
-                            onPress={() => onSlidePress?.(slide)}
+                            onPress={() => onSlidePress?.(slide, index)}
                             activeOpacity={0.9}
                         >
                             {slide.image ? (
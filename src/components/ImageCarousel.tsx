@@ -5,6 +5,7 @@ import {
     ScrollView,
     Image,
     Dimensions,
+    TouchableOpacity,
 } from 'react-native';
 import { colors, borderRadius } from '../theme';
 
@@ -12,11 +13,17 @@ interface ImageCarouselProps {
     images: string[];
     height?: number;
     onIndexChange?: (index: number) => void;
+    onImagePress?: (index: number) => void;
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-export default function ImageCarousel({ images, height = Math.round(SCREEN_WIDTH * 0.6), onIndexChange }: ImageCarouselProps) {
+export default function ImageCarousel({
+    images,
+    height = Math.round(SCREEN_WIDTH * 0.6),
+    onIndexChange,
+    onImagePress,
+}: ImageCarouselProps) {
     const scrollViewRef = useRef<ScrollView>(null);
     const [currentIndex, setCurrentIndex] = useState(0);
 
@@ -47,9 +54,15 @@ export default function ImageCarousel({ images, height = Math.round(SCREEN_WIDTH
                 decelerationRate="fast"
             >
                 {images.map((uri, index) => (
-                    <View key={`${uri}-${index}`} style={[styles.slide, { width: SCREEN_WIDTH, height }]}>
+                    <TouchableOpacity
+                        key={`${uri}-${index}`}
+                        style={[styles.slide, { width: SCREEN_WIDTH, height }]}
+                        activeOpacity={0.9}
+                        disabled={!onImagePress}
+                        onPress={() => onImagePress?.(index)}
+                    >
                         <Image source={{ uri }} style={styles.image} resizeMode="contain" />
-                    </View>
+                    </TouchableOpacity>
                 ))}
             </ScrollView>
 
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent, ViewStyle } from 'react-native';
+import Svg, { Circle, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import { colors, fontSize } from '../theme';
+
+interface LineChartProps {
+    values: number[];
+    // Drawn dashed behind the main line, matched by index
+    comparison?: number[];
+    // One per value; only the first, middle and last are shown
+    labels: string[];
+    color?: string;
+    height?: number;
+    formatValue?: (value: number) => string;
+    style?: ViewStyle;
+}
+
+const PADDING = { top: 8, right: 8, bottom: 20, left: 44 };
+const GRID_STEPS = [0, 0.5, 1];
+
+export default function LineChart({
+    values,
+    comparison,
+    labels,
+    color = colors.primary,
+    height = 180,
+    formatValue = (value) => String(Math.round(value)),
+    style,
+}: LineChartProps) {
+    const [width, setWidth] = useState(0);
+
+    const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+    const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const max = Math.max(1, ...values, ...(comparison ?? []));
+    const count = Math.max(values.length, comparison?.length ?? 0);
+
+    const x = (index: number) => PADDING.left + (count > 1 ? (index / (count - 1)) * plotWidth : plotWidth / 2);
+    const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+    const toPoints = (series: number[]) => series.map((value, index) => `${x(index)},${y(value)}`).join(' ');
+
+    const labelIndexes = Array.from(new Set([0, Math.floor((labels.length - 1) / 2), labels.length - 1]))
+        .filter((index) => index >= 0);
+
+    return (
+        <View style={[styles.container, { height }, style]} onLayout={handleLayout}>
+            {width > 0 && (
+                <Svg width={width} height={height}>
+                    {GRID_STEPS.map((step) => (
+                        <React.Fragment key={step}>
+                            <Line
+                                x1={PADDING.left}
+                                x2={width - PADDING.right}
+                                y1={y(max * step)}
+                                y2={y(max * step)}
+                                stroke={colors.borderLight}
+                                strokeWidth={1}
+                            />
+                            <SvgText
+                                x={PADDING.left - 6}
+                                y={y(max * step) + 4}
+                                fontSize={fontSize.xs}
+                                fill={colors.textLight}
+                                textAnchor="end"
+                            >
+                                {formatValue(max * step)}
+                            </SvgText>
+                        </React.Fragment>
+                    ))}
+
+                    {comparison && comparison.length > 1 && (
+                        <Polyline
+                            points={toPoints(comparison)}
+                            fill="none"
+                            stroke={colors.textLight}
+                            strokeWidth={1.5}
+                            strokeDasharray="4,4"
+                        />
+                    )}
+
+                    {values.length > 1 ? (
+                        <Polyline points={toPoints(values)} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+                    ) : values.length === 1 ? (
+                        <Circle cx={x(0)} cy={y(values[0])} r={3} fill={color} />
+                    ) : null}
+
+                    {labelIndexes.map((index) => (
+                        <SvgText
+                            key={index}
+                            x={x(index)}
+                            y={height - 4}
+                            fontSize={fontSize.xs}
+                            fill={colors.textSecondary}
+                            textAnchor={index === 0 ? 'start' : index === labels.length - 1 ? 'end' : 'middle'}
+                        >
+                            {labels[index]}
+                        </SvgText>
+                    ))}
+                </Svg>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        width: '100%',
+    },
+});
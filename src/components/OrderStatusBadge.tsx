@@ -0,0 +1,34 @@
+import React from 'react';
+import { View, Text, StyleSheet, ViewStyle } from 'react-native';
+import { spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { useTranslation } from '../context';
+import { ORDER_STATUS_TONES, getOrderStatus } from '../services/orders';
+
+interface OrderStatusBadgeProps {
+    status: string;
+    style?: ViewStyle;
+}
+
+export default function OrderStatusBadge({ status, style }: OrderStatusBadgeProps) {
+    const { t } = useTranslation();
+    const definition = getOrderStatus(status);
+    const tone = ORDER_STATUS_TONES[definition.tone];
+
+    return (
+        <View style={[styles.badge, { backgroundColor: tone.background }, style]}>
+            <Text style={[styles.text, { color: tone.color }]}>{t(definition.labelKey, definition.label)}</Text>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    badge: {
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 4,
+        borderRadius: borderRadius.sm,
+    },
+    text: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.bold,
+    },
+});
@@ -1,28 +1,28 @@
 import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Image, Platform } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Image, Platform, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import type { Product } from '../types';
 import { getImageUrl } from '../services/api';
-import { useTranslation } from '../context';
+import { useTranslation, useWishlist } from '../context';
 import { getLocalizedField } from '../i18n/locale';
 
 interface ProductCardProps {
     product: Product;
     onPress: () => void;
-    onWishlistPress?: () => void;
-    isInWishlist?: boolean;
+    showWishlist?: boolean;
     style?: object;
 }
 
 export default function ProductCard({
     product,
     onPress,
-    onWishlistPress,
-    isInWishlist = false,
+    showWishlist = false,
     style
 }: ProductCardProps) {
-    useTranslation();
+    const { t } = useTranslation();
+    const { isWishlisted, toggle } = useWishlist();
+    const isInWishlist = isWishlisted(product.id);
     const hasDiscount = product.discount_percentage && product.discount_percentage > 0;
     const imageUrl = getImageUrl(product.thumbnail);
     const priceValue = Number.parseFloat(product.price);
@@ -36,6 +36,14 @@ export default function ProductCard({
         product.short_description || product.category?.name || ''
     );
 
+    const handleWishlistPress = async () => {
+        try {
+            await toggle(product);
+        } catch (err: any) {
+            Alert.alert(t('common.error', 'Error'), err.message || t('wishlist.update_failed', 'Failed to update wishlist'));
+        }
+    };
+
     return (
         <TouchableOpacity
             style={[styles.container, style]}
@@ -43,10 +51,10 @@ export default function ProductCard({
             activeOpacity={0.7}
         >
             {/* Wishlist Button */}
-            {onWishlistPress && (
+            {showWishlist && (
                 <TouchableOpacity
                     style={styles.wishlistButton}
-                    onPress={onWishlistPress}
+                    onPress={handleWishlistPress}
                     hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
                 >
                     <Ionicons
@@ -0,0 +1,348 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { useTranslation } from '../context';
+import {
+    RATING_OPTIONS,
+    SORT_OPTIONS,
+    cleanProductFilters,
+    getSortOption,
+    toggleAttributeValue,
+} from '../services/productFilters';
+import type { ProductFacets } from '../services/productFilters';
+import type { ProductFilterState } from '../types';
+
+interface ProductFilterSheetProps {
+    visible: boolean;
+    filters: ProductFilterState;
+    facets: ProductFacets;
+    onApply: (filters: ProductFilterState) => void;
+    onClose: () => void;
+}
+
+const parsePriceInput = (value: string) => {
+    const parsed = Number.parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+export default function ProductFilterSheet({
+    visible,
+    filters,
+    facets,
+    onApply,
+    onClose,
+}: ProductFilterSheetProps) {
+    const { t } = useTranslation();
+    const [draft, setDraft] = useState<ProductFilterState>(filters);
+    const [minPriceText, setMinPriceText] = useState('');
+    const [maxPriceText, setMaxPriceText] = useState('');
+
+    // Start from the applied filters every time the sheet opens
+    useEffect(() => {
+        if (!visible) return;
+        setDraft(filters);
+        setMinPriceText(filters.min_price !== undefined ? String(filters.min_price) : '');
+        setMaxPriceText(filters.max_price !== undefined ? String(filters.max_price) : '');
+    }, [visible, filters]);
+
+    const selectedSort = getSortOption(draft);
+
+    const handleApply = () => {
+        let minPrice = parsePriceInput(minPriceText);
+        let maxPrice = parsePriceInput(maxPriceText);
+        if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+            [minPrice, maxPrice] = [maxPrice, minPrice];
+        }
+        onApply(cleanProductFilters({ ...draft, min_price: minPrice, max_price: maxPrice }));
+    };
+
+    const handleReset = () => {
+        setDraft({});
+        setMinPriceText('');
+        setMaxPriceText('');
+    };
+
+    const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={onPress}
+        >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    const attributeNames = Object.keys(facets.attributes);
+
+    return (
+        <Modal
+            visible={visible}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onClose}
+        >
+            <View style={styles.overlay}>
+                <View style={styles.sheet}>
+                    <View style={styles.header}>
+                        <Text style={styles.title}>{t('filters.title', 'Filter & Sort')}</Text>
+                        <TouchableOpacity onPress={onClose}>
+                            <Ionicons name="close" size={24} color={colors.textPrimary} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+                        {/* Sort */}
+                        <Text style={styles.sectionTitle}>{t('filters.sort_by', 'Sort by')}</Text>
+                        <View style={styles.chipRow}>
+                            {SORT_OPTIONS.map((option) =>
+                                renderChip(option.id, t(option.labelKey, option.label), selectedSort?.id === option.id, () =>
+                                    setDraft((prev) =>
+                                        selectedSort?.id === option.id
+                                            ? { ...prev, sort_by: undefined, sort_order: undefined }
+                                            : { ...prev, sort_by: option.sort_by, sort_order: option.sort_order }
+                                    )
+                                )
+                            )}
+                        </View>
+
+                        {/* Price */}
+                        <Text style={styles.sectionTitle}>{t('filters.price', 'Price')}</Text>
+                        <View style={styles.priceRow}>
+                            <TextInput
+                                style={styles.priceInput}
+                                value={minPriceText}
+                                onChangeText={setMinPriceText}
+                                placeholder={
+                                    facets.minPrice !== null
+                                        ? `${t('filters.min', 'Min')} (${facets.minPrice})`
+                                        : t('filters.min', 'Min')
+                                }
+                                placeholderTextColor={colors.textLight}
+                                keyboardType="decimal-pad"
+                            />
+                            <Text style={styles.priceSeparator}>-</Text>
+                            <TextInput
+                                style={styles.priceInput}
+                                value={maxPriceText}
+                                onChangeText={setMaxPriceText}
+                                placeholder={
+                                    facets.maxPrice !== null
+                                        ? `${t('filters.max', 'Max')} (${facets.maxPrice})`
+                                        : t('filters.max', 'Max')
+                                }
+                                placeholderTextColor={colors.textLight}
+                                keyboardType="decimal-pad"
+                            />
+                        </View>
+
+                        {/* Vendor */}
+                        {facets.vendors.length > 0 && (
+                            <>
+                                <Text style={styles.sectionTitle}>{t('filters.vendor', 'Vendor')}</Text>
+                                <View style={styles.chipRow}>
+                                    {facets.vendors.map((vendor) =>
+                                        renderChip(String(vendor.id), vendor.name, draft.vendor_id === vendor.id, () =>
+                                            setDraft((prev) => ({
+                                                ...prev,
+                                                vendor_id: prev.vendor_id === vendor.id ? undefined : vendor.id,
+                                            }))
+                                        )
+                                    )}
+                                </View>
+                            </>
+                        )}
+
+                        {/* Availability */}
+                        <View style={styles.switchRow}>
+                            <Text style={styles.switchLabel}>{t('filters.in_stock_only', 'In stock only')}</Text>
+                            <Switch
+                                value={!!draft.in_stock}
+                                onValueChange={(value) => setDraft((prev) => ({ ...prev, in_stock: value }))}
+                                trackColor={{ false: colors.borderLight, true: colors.primary }}
+                                thumbColor={colors.white}
+                            />
+                        </View>
+
+                        {/* Rating */}
+                        <Text style={styles.sectionTitle}>{t('filters.rating', 'Rating')}</Text>
+                        <View style={styles.chipRow}>
+                            {RATING_OPTIONS.map((rating) =>
+                                renderChip(
+                                    String(rating),
+                                    t('filters.rating_min', '{{rating}}★ & up').replace('{{rating}}', String(rating)),
+                                    draft.min_rating === rating,
+                                    () => setDraft((prev) => ({
+                                        ...prev,
+                                        min_rating: prev.min_rating === rating ? undefined : rating,
+                                    }))
+                                )
+                            )}
+                        </View>
+
+                        {/* Variant attributes (size, color, ...) */}
+                        {attributeNames.map((name) => (
+                            <View key={name}>
+                                <Text style={styles.sectionTitle}>{t(`filters.attribute_${name}`, name)}</Text>
+                                <View style={styles.chipRow}>
+                                    {facets.attributes[name].map((value) =>
+                                        renderChip(
+                                            `${name}:${value}`,
+                                            value,
+                                            !!draft.attributes?.[name]?.includes(value),
+                                            () => setDraft((prev) => toggleAttributeValue(prev, name, value))
+                                        )
+                                    )}
+                                </View>
+                            </View>
+                        ))}
+                    </ScrollView>
+
+                    <View style={styles.footer}>
+                        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+                            <Text style={styles.resetButtonText}>{t('filters.reset', 'Reset')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+                            <Text style={styles.applyButtonText}>{t('filters.apply', 'Apply')}</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    overlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    sheet: {
+        backgroundColor: colors.white,
+        borderTopLeftRadius: borderRadius.xl,
+        borderTopRightRadius: borderRadius.xl,
+        maxHeight: '85%',
+        padding: spacing.md,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingBottom: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    title: {
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    body: {
+        flexGrow: 0,
+    },
+    sectionTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+        marginTop: spacing.md,
+        marginBottom: spacing.sm,
+        textTransform: 'capitalize',
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    chip: {
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.md,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.border,
+        marginRight: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    chipSelected: {
+        backgroundColor: colors.primary,
+        borderColor: colors.primary,
+    },
+    chipText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    chipTextSelected: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+    },
+    priceRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    priceInput: {
+        flex: 1,
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        height: 44,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+    },
+    priceSeparator: {
+        marginHorizontal: spacing.sm,
+        color: colors.textSecondary,
+    },
+    switchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginTop: spacing.md,
+    },
+    switchLabel: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    footer: {
+        flexDirection: 'row',
+        paddingTop: spacing.md,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+    },
+    resetButton: {
+        flex: 1,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.lg,
+        borderWidth: 1,
+        borderColor: colors.border,
+        alignItems: 'center',
+        marginRight: spacing.sm,
+    },
+    resetButtonText: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    applyButton: {
+        flex: 2,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.primary,
+        alignItems: 'center',
+    },
+    applyButtonText: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+        color: colors.white,
+    },
+});
@@ -0,0 +1,438 @@
+import React, { useCallback, useRef, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    TouchableOpacity,
+    Image,
+    Modal,
+    ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import StarRating from './StarRating';
+import { getProductReviews } from '../services/endpoints';
+import { REVIEW_SORT_OPTIONS, findReviewableOrder } from '../services/reviews';
+import type { Review, ReviewSort, ReviewSummary } from '../types';
+import { useAuth, useTranslation } from '../context';
+
+interface ProductReviewsProps {
+    productId: number;
+    onWriteReview: (orderId: number) => void;
+}
+
+export default function ProductReviews({ productId, onWriteReview }: ProductReviewsProps) {
+    const { t } = useTranslation();
+    const { isAuthenticated } = useAuth();
+    const [reviews, setReviews] = useState<Review[]>([]);
+    const [summary, setSummary] = useState<ReviewSummary | null>(null);
+    const [sort, setSort] = useState<ReviewSort>('newest');
+    const [ratingFilter, setRatingFilter] = useState<number | null>(null);
+    const [page, setPage] = useState(1);
+    const [lastPage, setLastPage] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [reviewableOrderId, setReviewableOrderId] = useState<number | null>(null);
+    const [previewPhoto, setPreviewPhoto] = useState<string | null>(null);
+    // Changing the sort or filter quickly must not let an older page win
+    const requestIdRef = useRef(0);
+
+    const loadReviews = useCallback(async (nextPage: number) => {
+        const requestId = nextPage === 1 ? ++requestIdRef.current : requestIdRef.current;
+        try {
+            const { reviews: result, summary: nextSummary } = await getProductReviews(productId, {
+                sort,
+                rating: ratingFilter ?? undefined,
+                page: nextPage,
+            });
+            if (requestId !== requestIdRef.current) return;
+            setReviews((prev) => (nextPage === 1 ? result.data : [...prev, ...result.data]));
+            setSummary(nextSummary);
+            setPage(result.meta.current_page);
+            setLastPage(result.meta.last_page);
+        } catch (error) {
+            if (requestId !== requestIdRef.current) return;
+            console.error('Failed to load reviews:', error);
+        } finally {
+            if (requestId === requestIdRef.current) {
+                setIsLoading(false);
+                setIsLoadingMore(false);
+            }
+        }
+    }, [productId, sort, ratingFilter]);
+
+    const loadEligibility = useCallback(async () => {
+        if (!isAuthenticated) {
+            setReviewableOrderId(null);
+            return;
+        }
+        try {
+            setReviewableOrderId((await findReviewableOrder(productId))?.id ?? null);
+        } catch (error) {
+            console.error('Failed to check review eligibility:', error);
+        }
+    }, [isAuthenticated, productId]);
+
+    // Refetch when coming back from writing a review
+    useFocusEffect(
+        useCallback(() => {
+            loadReviews(1);
+            loadEligibility();
+        }, [loadReviews, loadEligibility])
+    );
+
+    const handleLoadMore = () => {
+        if (isLoadingMore || page >= lastPage) return;
+        setIsLoadingMore(true);
+        loadReviews(page + 1);
+    };
+
+    const handleSortChange = (nextSort: ReviewSort) => {
+        setIsLoading(true);
+        setSort(nextSort);
+    };
+
+    const handleRatingFilter = (star: number) => {
+        setIsLoading(true);
+        setRatingFilter((current) => (current === star ? null : star));
+    };
+
+    const reviewsCount = summary?.reviews_count ?? 0;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.headerRow}>
+                <Text style={styles.title}>{t('reviews.title', 'Reviews')}</Text>
+                {reviewableOrderId !== null && (
+                    <TouchableOpacity style={styles.writeButton} onPress={() => onWriteReview(reviewableOrderId)}>
+                        <Ionicons name="create-outline" size={16} color={colors.primary} />
+                        <Text style={styles.writeButtonText}>{t('reviews.write', 'Write a Review')}</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {/* Star breakdown; tapping a row filters by that rating */}
+            {summary && reviewsCount > 0 && (
+                <View style={styles.summary}>
+                    <View style={styles.summaryScore}>
+                        <Text style={styles.averageText}>{summary.average_rating.toFixed(1)}</Text>
+                        <StarRating rating={summary.average_rating} size={14} />
+                        <Text style={styles.countText}>
+                            {t('reviews.count', '{{count}} reviews').replace('{{count}}', String(reviewsCount))}
+                        </Text>
+                    </View>
+                    <View style={styles.breakdown}>
+                        {[5, 4, 3, 2, 1].map((star) => {
+                            const count = summary.breakdown[star] ?? 0;
+                            const share = reviewsCount > 0 ? count / reviewsCount : 0;
+                            return (
+                                <TouchableOpacity
+                                    key={star}
+                                    style={[styles.breakdownRow, ratingFilter === star && styles.breakdownRowActive]}
+                                    onPress={() => handleRatingFilter(star)}
+                                >
+                                    <Text style={styles.breakdownLabel}>{star}</Text>
+                                    <Ionicons name="star" size={10} color="#FFD700" />
+                                    <View style={styles.breakdownTrack}>
+                                        <View style={[styles.breakdownFill, { width: `${Math.round(share * 100)}%` }]} />
+                                    </View>
+                                    <Text style={styles.breakdownCount}>{count}</Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                </View>
+            )}
+
+            {/* Sorting */}
+            {reviewsCount > 0 && (
+                <View style={styles.sortRow}>
+                    {REVIEW_SORT_OPTIONS.map((option) => (
+                        <TouchableOpacity
+                            key={option.id}
+                            style={[styles.sortChip, sort === option.id && styles.sortChipActive]}
+                            onPress={() => handleSortChange(option.id)}
+                        >
+                            <Text style={[styles.sortChipText, sort === option.id && styles.sortChipTextActive]}>
+                                {t(option.labelKey, option.label)}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+
+            {isLoading ? (
+                <ActivityIndicator style={styles.loader} color={colors.primary} />
+            ) : reviews.length === 0 ? (
+                <Text style={styles.emptyText}>
+                    {ratingFilter !== null
+                        ? t('reviews.none_for_rating', 'No reviews with this rating yet.')
+                        : t('reviews.empty', 'No reviews yet.')}
+                </Text>
+            ) : (
+                reviews.map((review) => (
+                    <View key={review.id} style={styles.review}>
+                        <View style={styles.reviewHeader}>
+                            <StarRating rating={review.rating} size={12} />
+                            <Text style={styles.reviewDate}>
+                                {review.created_at ? new Date(review.created_at).toLocaleDateString() : ''}
+                            </Text>
+                        </View>
+                        {review.title ? <Text style={styles.reviewTitle}>{review.title}</Text> : null}
+                        {review.body ? <Text style={styles.reviewBody}>{review.body}</Text> : null}
+                        {review.photos.length > 0 && (
+                            <View style={styles.photoRow}>
+                                {review.photos.map((uri) => (
+                                    <TouchableOpacity key={uri} onPress={() => setPreviewPhoto(uri)}>
+                                        <Image source={{ uri }} style={styles.photo} />
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        )}
+                        <View style={styles.authorRow}>
+                            <Text style={styles.authorName}>{review.author_name || t('reviews.anonymous', 'Customer')}</Text>
+                            {review.is_verified_purchase && (
+                                <View style={styles.verifiedBadge}>
+                                    <Ionicons name="checkmark-circle" size={12} color={colors.success} />
+                                    <Text style={styles.verifiedText}>{t('reviews.verified', 'Verified purchase')}</Text>
+                                </View>
+                            )}
+                        </View>
+                        {review.reply && (
+                            <View style={styles.reply}>
+                                <Text style={styles.replyLabel}>{t('reviews.seller_reply', 'Seller response')}</Text>
+                                <Text style={styles.reviewBody}>{review.reply.body}</Text>
+                            </View>
+                        )}
+                    </View>
+                ))
+            )}
+
+            {!isLoading && page < lastPage && (
+                <TouchableOpacity style={styles.moreButton} onPress={handleLoadMore} disabled={isLoadingMore}>
+                    {isLoadingMore ? (
+                        <ActivityIndicator color={colors.primary} />
+                    ) : (
+                        <Text style={styles.moreButtonText}>{t('reviews.load_more', 'Show more reviews')}</Text>
+                    )}
+                </TouchableOpacity>
+            )}
+
+            <Modal visible={previewPhoto !== null} transparent animationType="fade" onRequestClose={() => setPreviewPhoto(null)}>
+                <TouchableOpacity style={styles.previewBackdrop} activeOpacity={1} onPress={() => setPreviewPhoto(null)}>
+                    {previewPhoto && <Image source={{ uri: previewPhoto }} style={styles.previewImage} resizeMode="contain" />}
+                </TouchableOpacity>
+            </Modal>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.lg,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+    },
+    headerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: spacing.md,
+    },
+    title: {
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    writeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+    },
+    writeButtonText: {
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.semibold,
+        color: colors.primary,
+    },
+    summary: {
+        flexDirection: 'row',
+        marginBottom: spacing.md,
+    },
+    summaryScore: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        width: 96,
+        marginRight: spacing.md,
+    },
+    averageText: {
+        fontSize: fontSize.xxxl,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    countText: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+        marginTop: spacing.xs,
+    },
+    breakdown: {
+        flex: 1,
+    },
+    breakdownRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 2,
+        paddingHorizontal: spacing.xs,
+        borderRadius: borderRadius.sm,
+    },
+    breakdownRowActive: {
+        backgroundColor: colors.background,
+    },
+    breakdownLabel: {
+        width: 12,
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+    },
+    breakdownTrack: {
+        flex: 1,
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: colors.borderLight,
+        marginHorizontal: spacing.xs,
+        overflow: 'hidden',
+    },
+    breakdownFill: {
+        height: '100%',
+        backgroundColor: '#FFD700',
+    },
+    breakdownCount: {
+        width: 28,
+        textAlign: 'right',
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+    },
+    sortRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginBottom: spacing.sm,
+    },
+    sortChip: {
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.sm,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        marginRight: spacing.xs,
+        marginBottom: spacing.xs,
+    },
+    sortChipActive: {
+        backgroundColor: colors.primary,
+        borderColor: colors.primary,
+    },
+    sortChipText: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+    },
+    sortChipTextActive: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+    },
+    loader: {
+        marginVertical: spacing.lg,
+    },
+    emptyText: {
+        fontSize: fontSize.md,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        marginVertical: spacing.md,
+    },
+    review: {
+        paddingVertical: spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    reviewHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    reviewDate: {
+        fontSize: fontSize.xs,
+        color: colors.textLight,
+    },
+    reviewTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+        marginTop: spacing.xs,
+    },
+    reviewBody: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginTop: spacing.xs,
+        lineHeight: 20,
+    },
+    photoRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: spacing.sm,
+    },
+    photo: {
+        width: 64,
+        height: 64,
+        borderRadius: borderRadius.sm,
+        marginRight: spacing.xs,
+        backgroundColor: colors.background,
+    },
+    authorRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: spacing.sm,
+    },
+    authorName: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.medium,
+        color: colors.textPrimary,
+    },
+    verifiedBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginLeft: spacing.sm,
+        gap: 2,
+    },
+    verifiedText: {
+        fontSize: fontSize.xs,
+        color: colors.success,
+    },
+    reply: {
+        marginTop: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.background,
+    },
+    replyLabel: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    moreButton: {
+        alignItems: 'center',
+        paddingVertical: spacing.md,
+    },
+    moreButtonText: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.primary,
+    },
+    previewBackdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.9)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    previewImage: {
+        width: '100%',
+        height: '80%',
+    },
+});
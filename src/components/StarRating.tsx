@@ -0,0 +1,56 @@
+import React from 'react';
+import { View, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors } from '../theme';
+
+const STAR_COLOR = '#FFD700';
+
+interface StarRatingProps {
+    rating: number;
+    size?: number;
+    // Makes the stars tappable, for picking a rating
+    onChange?: (rating: number) => void;
+    style?: ViewStyle;
+}
+
+export default function StarRating({ rating, size = 14, onChange, style }: StarRatingProps) {
+    return (
+        <View style={[styles.row, style]}>
+            {[1, 2, 3, 4, 5].map((star) => {
+                const name = rating >= star ? 'star' : rating >= star - 0.5 ? 'star-half' : 'star-outline';
+                const icon = (
+                    <Ionicons
+                        name={name}
+                        size={size}
+                        color={rating >= star - 0.5 ? STAR_COLOR : colors.textLight}
+                    />
+                );
+
+                if (!onChange) {
+                    return <View key={star}>{icon}</View>;
+                }
+
+                return (
+                    <TouchableOpacity
+                        key={star}
+                        onPress={() => onChange(star)}
+                        style={styles.touchable}
+                        accessibilityLabel={`${star}`}
+                    >
+                        {icon}
+                    </TouchableOpacity>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    touchable: {
+        paddingHorizontal: 2,
+    },
+});
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { useTranslation } from '../context';
+import {
+    MAX_VARIANT_AXES,
+    SUGGESTED_AXES,
+    getDraftLabel,
+    normalizeAxisName,
+} from '../services/variantEditor';
+import type { VariantAxis, VariantDraft, VariantDraftField } from '../services/variantEditor';
+
+interface VariantEditorProps {
+    axes: VariantAxis[];
+    drafts: VariantDraft[];
+    // Highlights the field that failed validation
+    invalid?: { key: string; field: VariantDraftField } | null;
+    onAxesChange: (axes: VariantAxis[]) => void;
+    onDraftChange: (key: string, field: VariantDraftField, value: string) => void;
+}
+
+export default function VariantEditor({ axes, drafts, invalid, onAxesChange, onDraftChange }: VariantEditorProps) {
+    const { t } = useTranslation();
+    // New value being typed, per axis index
+    const [valueInputs, setValueInputs] = useState<Record<number, string>>({});
+
+    const updateAxis = (index: number, axis: VariantAxis) => {
+        onAxesChange(axes.map((current, i) => (i === index ? axis : current)));
+    };
+
+    const addAxis = (name = '') => {
+        if (axes.length >= MAX_VARIANT_AXES) return;
+        onAxesChange([...axes, { name, values: [] }]);
+    };
+
+    const removeAxis = (index: number) => {
+        onAxesChange(axes.filter((_, i) => i !== index));
+        setValueInputs({});
+    };
+
+    const addValue = (index: number) => {
+        const value = (valueInputs[index] ?? '').trim();
+        const axis = axes[index];
+        if (!value || axis.values.some((existing) => existing.toLowerCase() === value.toLowerCase())) return;
+        updateAxis(index, { ...axis, values: [...axis.values, value] });
+        setValueInputs({ ...valueInputs, [index]: '' });
+    };
+
+    const removeValue = (index: number, value: string) => {
+        const axis = axes[index];
+        updateAxis(index, { ...axis, values: axis.values.filter((existing) => existing !== value) });
+    };
+
+    const unusedSuggestions = SUGGESTED_AXES.filter((name) => !axes.some((axis) => axis.name === name));
+
+    const renderDraftInput = (draft: VariantDraft, field: VariantDraftField, label: string, keyboardType: 'default' | 'numeric') => (
+        <View style={styles.draftField}>
+            <Text style={styles.draftLabel}>{label}</Text>
+            <TextInput
+                style={[styles.draftInput, invalid?.key === draft.key && invalid.field === field && styles.inputError]}
+                value={draft[field]}
+                onChangeText={(value) => onDraftChange(draft.key, field, value)}
+                keyboardType={keyboardType}
+                autoCapitalize={field === 'sku' ? 'characters' : 'none'}
+                placeholderTextColor={colors.textLight}
+                placeholder={field === 'compare_price' ? '-' : ''}
+            />
+        </View>
+    );
+
+    return (
+        <View>
+            {/* Axes */}
+            {axes.map((axis, index) => (
+                <View key={index} style={styles.axisCard}>
+                    <View style={styles.axisHeader}>
+                        <TextInput
+                            style={[styles.input, styles.axisNameInput]}
+                            value={axis.name}
+                            onChangeText={(name) => updateAxis(index, { ...axis, name: normalizeAxisName(name) })}
+                            placeholder={t('variants.axis_name', 'Option name, e.g. color')}
+                            placeholderTextColor={colors.textLight}
+                            autoCapitalize="none"
+                        />
+                        <TouchableOpacity onPress={() => removeAxis(index)} style={styles.iconButton}>
+                            <Ionicons name="trash-outline" size={20} color={colors.error} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.valuesRow}>
+                        {axis.values.map((value) => (
+                            <View key={value} style={styles.valueChip}>
+                                <Text style={styles.valueChipText}>{value}</Text>
+                                <TouchableOpacity onPress={() => removeValue(index, value)}>
+                                    <Ionicons name="close" size={14} color={colors.textSecondary} />
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                    </View>
+
+                    <View style={styles.addValueRow}>
+                        <TextInput
+                            style={[styles.input, styles.addValueInput]}
+                            value={valueInputs[index] ?? ''}
+                            onChangeText={(value) => setValueInputs({ ...valueInputs, [index]: value })}
+                            onSubmitEditing={() => addValue(index)}
+                            placeholder={t('variants.add_value', 'Add a value, e.g. Red')}
+                            placeholderTextColor={colors.textLight}
+                            returnKeyType="done"
+                        />
+                        <TouchableOpacity style={styles.addValueButton} onPress={() => addValue(index)}>
+                            <Ionicons name="add" size={20} color={colors.white} />
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ))}
+
+            {axes.length < MAX_VARIANT_AXES && (
+                <View style={styles.addAxisRow}>
+                    {unusedSuggestions.map((name) => (
+                        <TouchableOpacity key={name} style={styles.suggestionChip} onPress={() => addAxis(name)}>
+                            <Ionicons name="add" size={14} color={colors.primary} />
+                            <Text style={styles.suggestionText}>{t(`product.attribute_${name}`, name.charAt(0).toUpperCase() + name.slice(1))}</Text>
+                        </TouchableOpacity>
+                    ))}
+                    <TouchableOpacity style={styles.suggestionChip} onPress={() => addAxis()}>
+                        <Ionicons name="add" size={14} color={colors.primary} />
+                        <Text style={styles.suggestionText}>{t('variants.custom_option', 'Custom option')}</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+
+            {/* Generated combinations */}
+            {drafts.length > 0 && (
+                <View style={styles.drafts}>
+                    <Text style={styles.draftsTitle}>
+                        {t('variants.combinations', '{{count}} variants').replace('{{count}}', String(drafts.length))}
+                    </Text>
+                    {drafts.map((draft) => (
+                        <View key={draft.key} style={styles.draftCard}>
+                            <View style={styles.draftHeader}>
+                                <Text style={styles.draftTitle}>{getDraftLabel(draft, axes)}</Text>
+                                {draft.id === null && (
+                                    <Text style={styles.newBadge}>{t('variants.new', 'New')}</Text>
+                                )}
+                            </View>
+                            <View style={styles.draftRow}>
+                                {renderDraftInput(draft, 'price', t('product.price', 'Price'), 'numeric')}
+                                {renderDraftInput(draft, 'compare_price', t('variants.compare_price', 'Compare at'), 'numeric')}
+                            </View>
+                            <View style={styles.draftRow}>
+                                {renderDraftInput(draft, 'stock', t('product.stock', 'Stock'), 'numeric')}
+                                {renderDraftInput(draft, 'sku', t('variants.sku', 'SKU'), 'default')}
+                            </View>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    input: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+        height: 44,
+    },
+    inputError: {
+        borderColor: colors.error,
+    },
+    axisCard: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        padding: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    axisHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    axisNameInput: {
+        flex: 1,
+    },
+    iconButton: {
+        padding: spacing.sm,
+    },
+    valuesRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: spacing.sm,
+    },
+    valueChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.xs,
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.sm,
+        borderRadius: borderRadius.full,
+        backgroundColor: colors.background,
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        marginRight: spacing.xs,
+        marginBottom: spacing.xs,
+    },
+    valueChipText: {
+        fontSize: fontSize.sm,
+        color: colors.textPrimary,
+    },
+    addValueRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: spacing.xs,
+    },
+    addValueInput: {
+        flex: 1,
+        marginRight: spacing.sm,
+    },
+    addValueButton: {
+        width: 44,
+        height: 44,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    addAxisRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginBottom: spacing.sm,
+    },
+    suggestionChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 2,
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.sm,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.primary,
+        marginRight: spacing.xs,
+        marginBottom: spacing.xs,
+    },
+    suggestionText: {
+        fontSize: fontSize.sm,
+        color: colors.primary,
+    },
+    drafts: {
+        marginTop: spacing.sm,
+    },
+    draftsTitle: {
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.semibold,
+        color: colors.textSecondary,
+        marginBottom: spacing.sm,
+    },
+    draftCard: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        padding: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    draftHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: spacing.xs,
+    },
+    draftTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    newBadge: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.bold,
+        color: colors.primary,
+    },
+    draftRow: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+    },
+    draftField: {
+        flex: 1,
+        marginTop: spacing.xs,
+    },
+    draftLabel: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+        marginBottom: 2,
+    },
+    draftInput: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.sm,
+        paddingHorizontal: spacing.sm,
+        fontSize: fontSize.sm,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+        height: 38,
+    },
+});
@@ -3,3 +3,10 @@ export { default as CategoryCard } from './CategoryCard';
 export { default as HeroBanner } from './HeroBanner';
 export { default as ImageCarousel } from './ImageCarousel';
 export { default as Loading } from './Loading';
+export { default as ProductFilterSheet } from './ProductFilterSheet';
+export { default as StarRating } from './StarRating';
+export { default as ProductReviews } from './ProductReviews';
+export { default as VariantEditor } from './VariantEditor';
+export { default as OrderStatusBadge } from './OrderStatusBadge';
+export { default as DateField } from './DateField';
+export { default as LineChart } from './LineChart';
@@ -1,21 +1,27 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { setAuthToken, removeAuthToken, getAuthToken } from '../services/api';
+import { setAuthToken, removeAuthToken, getAuthToken, onSessionExpired, migrateLegacyCredentials } from '../services/api';
+import { ApiError, isNetworkError } from '../services/errors';
 import { login as apiLogin, register as apiRegister, logout as apiLogout, getProfile, verifyTwoFactor as verifyTwoFactorApi } from '../services/endpoints';
 import { normalizeUser } from '../services/normalizers';
-import type { User } from '../types';
+import { mergeGuestSession } from '../services/guestSession';
+import { clearQueryCache } from '../services/queryCache';
+import { navigationRef } from '../navigation/navigationRef';
+import type { GuestMergeResult, User } from '../types';
 
 interface AuthContextType {
     user: User | null;
     isLoading: boolean;
     isAuthenticated: boolean;
-    login: (email: string, password: string) => Promise<void>;
+    // Resolves false when the account still has to pass two-factor verification
+    login: (email: string, password: string) => Promise<boolean>;
     register: (name: string, email: string, password: string) => Promise<void>;
     logout: () => Promise<void>;
     refreshUser: () => Promise<void>;
     verifyTwoFactor: (email: string, code: string) => Promise<void>;
-    processExternalToken: (token: string) => Promise<void>;
+    processExternalToken: (token: string, refreshToken?: string | null) => Promise<void>;
     requiresTwoFactor: boolean;
+    lastGuestMerge: GuestMergeResult | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,26 +32,66 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [requiresTwoFactor, setRequiresTwoFactor] = useState(false);
+    const [lastGuestMerge, setLastGuestMerge] = useState<GuestMergeResult | null>(null);
 
     const handleAndStoreToken = async (response: any) => {
         const token = response.token || (response as any).access_token || (response as any).bearer_token;
         if (!token) {
             throw new Error('No token received from backend');
         }
-        const tokenSaved = await setAuthToken(token);
+        const refreshToken = response.refresh_token ?? null;
+        const tokenSaved = await setAuthToken(token, refreshToken);
         if (!tokenSaved) {
             throw new Error('Failed to save authentication token');
         }
         return token;
     };
 
+    // Saves the signed-in profile, dropping cached listings that belonged to
+    // a different account (or to the guest session before it)
+    const storeUser = async (nextUser: User) => {
+        const previous = await AsyncStorage.getItem(USER_KEY);
+        const previousId = previous ? normalizeUser(JSON.parse(previous)).id : null;
+        if (previousId !== nextUser.id) {
+            await clearQueryCache();
+        }
+        await AsyncStorage.setItem(USER_KEY, JSON.stringify(nextUser));
+    };
+
+    const clearStoredUser = async () => {
+        await AsyncStorage.removeItem(USER_KEY);
+        await clearQueryCache();
+    };
+
+    // Called right after a token is stored, before the user is exposed to the
+    // cart/wishlist providers, so they load the already merged account data.
+    const mergeGuestData = async () => {
+        const result = await mergeGuestSession();
+        setLastGuestMerge(result);
+    };
+
     useEffect(() => {
         // Check for existing session on app start
         checkAuthStatus();
     }, []);
 
+    // The API client could not refresh an expired session: sign out locally
+    useEffect(() => {
+        return onSessionExpired(async () => {
+            await clearStoredUser();
+            setUser(null);
+            setRequiresTwoFactor(false);
+            setLastGuestMerge(null);
+            if (navigationRef.isReady()) {
+                navigationRef.navigate('Login');
+            }
+        });
+    }, []);
+
     const checkAuthStatus = async () => {
         try {
+            // Move tokens saved by older builds out of AsyncStorage first
+            await migrateLegacyCredentials();
             const token = await getAuthToken();
             if (token) {
                 // Try to get user profile
@@ -53,15 +99,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 setUser(userData);
             }
         } catch (error) {
+            if (isNetworkError(error)) {
+                // Offline on launch: keep the session and fall back to the cached profile
+                const cachedUser = await AsyncStorage.getItem(USER_KEY);
+                if (cachedUser) {
+                    setUser(normalizeUser(JSON.parse(cachedUser)));
+                }
+                return;
+            }
             // Token invalid or expired
             await removeAuthToken();
-            await AsyncStorage.removeItem(USER_KEY);
+            await clearStoredUser();
         } finally {
             setIsLoading(false);
         }
     };
 
-    const login = async (email: string, password: string) => {
+    const login = async (email: string, password: string): Promise<boolean> => {
         try {
             const response = await apiLogin({ email, password });
 
@@ -69,18 +123,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             // If API returns a flag:
             if ((response as any).two_factor) {
                 setRequiresTwoFactor(true);
-                return;
+                return false;
             }
 
             await handleAndStoreToken(response);
+            await mergeGuestData();
             const normalizedUser = normalizeUser(response.user);
-            await AsyncStorage.setItem(USER_KEY, JSON.stringify(normalizedUser));
+            await storeUser(normalizedUser);
             setUser(normalizedUser);
             setRequiresTwoFactor(false);
-        } catch (error: any) {
-            if (error.response?.data?.two_factor) {
+            return true;
+        } catch (error) {
+            if (error instanceof ApiError && error.data?.two_factor) {
                 setRequiresTwoFactor(true);
-                return;
+                return false;
             }
             throw error;
         }
@@ -96,8 +152,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             });
 
             await handleAndStoreToken(response);
+            await mergeGuestData();
             const normalizedUser = normalizeUser(response.user);
-            await AsyncStorage.setItem(USER_KEY, JSON.stringify(normalizedUser));
+            await storeUser(normalizedUser);
             setUser(normalizedUser);
         } catch (error) {
             throw error;
@@ -111,9 +168,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             // Ignore logout API errors
         } finally {
             await removeAuthToken();
-            await AsyncStorage.removeItem(USER_KEY);
+            await clearStoredUser();
             setUser(null);
             setRequiresTwoFactor(false);
+            setLastGuestMerge(null);
         }
     };
 
@@ -138,9 +196,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 throw new Error('2FA verification failed: missing token');
             }
 
-            await setAuthToken(token);
+            await setAuthToken(token, (response as any).refresh_token);
+            await mergeGuestData();
             const normalizedUser = normalizeUser((response as any).user);
-            await AsyncStorage.setItem(USER_KEY, JSON.stringify(normalizedUser));
+            await storeUser(normalizedUser);
             setUser(normalizedUser);
             setRequiresTwoFactor(false);
         } catch (error) {
@@ -148,11 +207,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
     };
 
-    const processExternalToken = async (token: string) => {
+    const processExternalToken = async (token: string, refreshToken?: string | null) => {
         try {
-            await setAuthToken(token);
+            await setAuthToken(token, refreshToken);
             const profileData = await getProfile();
-            await AsyncStorage.setItem(USER_KEY, JSON.stringify(profileData));
+            await mergeGuestData();
+            await storeUser(profileData);
             setUser(profileData);
         } catch (error) {
             console.error('Failed to process external token:', error);
@@ -175,6 +235,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
                 verifyTwoFactor,
                 requiresTwoFactor,
                 processExternalToken,
+                lastGuestMerge,
             }}
         >
             {children}
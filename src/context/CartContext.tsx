@@ -1,100 +1,353 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { getCart, addToCart as apiAddToCart, updateCartItem, removeFromCart, clearCart as apiClearCart } from '../services/endpoints';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
+import { AppState } from 'react-native';
+import { getCart, clearCart as apiClearCart } from '../services/endpoints';
+import { isNetworkError } from '../services/errors';
+import {
+    applyCartMutation,
+    clearCartStorage,
+    describeRejectedMutation,
+    emptyCart,
+    enqueueCartMutation,
+    getCartLineKey,
+    isTempLineId,
+    loadCartQueue,
+    loadCartSnapshot,
+    loadGuestCart,
+    mergeGuestCart,
+    nextTempLineId,
+    reconcileCart,
+    saveCartQueue,
+    saveCartSnapshot,
+    saveGuestCart,
+    sendCartMutation,
+} from '../services/cartSync';
 import { useAuth } from './AuthContext';
-import type { Cart, CartItem } from '../types';
+import type { Cart, CartConflict, CartMutation, Product, ProductVariant } from '../types';
 
 interface CartContextType {
     cart: Cart | null;
     isLoading: boolean;
     itemsCount: number;
-    addToCart: (productId: number, variantId?: number, quantity?: number) => Promise<void>;
+    isOffline: boolean;
+    pendingChanges: number;
+    conflicts: CartConflict[];
+    addToCart: (product: Product, variant?: ProductVariant | null, quantity?: number) => Promise<void>;
     updateQuantity: (itemId: number, quantity: number) => Promise<void>;
     removeItem: (itemId: number) => Promise<void>;
     clearCart: () => Promise<void>;
     refreshCart: () => Promise<void>;
     syncCart: (cartData: Cart) => void;
+    syncPendingChanges: () => Promise<void>;
+    dismissConflicts: () => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
-const emptyCart: Cart = {
-    items: [],
-    items_count: 0,
-    subtotal: '0.00',
-    total: '0.00',
-};
+// How often queued changes are retried while the device looks offline
+const RETRY_INTERVAL_MS = 15000;
 
 export function CartProvider({ children }: { children: ReactNode }) {
-    const { isAuthenticated } = useAuth();
+    const { isAuthenticated, isLoading: isAuthLoading, lastGuestMerge } = useAuth();
     const [cart, setCart] = useState<Cart | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const [isOffline, setIsOffline] = useState(false);
+    const [pendingChanges, setPendingChanges] = useState(0);
+    const [conflicts, setConflicts] = useState<CartConflict[]>([]);
+
+    // Refs mirror state so async replays always see the latest cart and queue
+    const cartRef = useRef<Cart | null>(null);
+    const queueRef = useRef<CartMutation[]>([]);
+    const isSyncingRef = useRef(false);
+    const inFlightRef = useRef(0);
+    // Adds in flight, by temporary line id, so changes to a line still shown
+    // with its temporary id can wait for the real one
+    const pendingAddsRef = useRef(new Map<number, { key: string; request: Promise<Cart> }>());
+    const isAuthenticatedRef = useRef(isAuthenticated);
+    isAuthenticatedRef.current = isAuthenticated;
+
+    // Guests get a device-only cart, stored apart from the account snapshot
+    const commitCart = useCallback((next: Cart | null) => {
+        cartRef.current = next;
+        setCart(next);
+        if (next) {
+            if (isAuthenticatedRef.current) {
+                saveCartSnapshot(next);
+            } else {
+                saveGuestCart(next);
+            }
+        }
+    }, []);
+
+    const commitQueue = useCallback((next: CartMutation[]) => {
+        queueRef.current = next;
+        setPendingChanges(next.length);
+        saveCartQueue(next);
+    }, []);
+
+    useEffect(() => {
+        const hydrate = async () => {
+            const [snapshot, queue] = await Promise.all([loadCartSnapshot(), loadCartQueue()]);
+            if (snapshot) {
+                cartRef.current = snapshot;
+                setCart(snapshot);
+            }
+            queueRef.current = queue;
+            setPendingChanges(queue.length);
+            setIsHydrated(true);
+        };
+        hydrate();
+    }, []);
+
+    const syncPendingChanges = useCallback(async () => {
+        if (!isAuthenticated || isSyncingRef.current) return;
+        isSyncingRef.current = true;
+
+        const optimisticCart = cartRef.current;
+        const rejected: CartConflict[] = [];
+        let serverCart: Cart | null = null;
+
+        try {
+            while (queueRef.current.length > 0) {
+                const mutation = queueRef.current[0];
+                try {
+                    serverCart = await sendCartMutation(mutation);
+                } catch (error) {
+                    if (isNetworkError(error)) {
+                        setIsOffline(true);
+                        return;
+                    }
+                    const conflict = describeRejectedMutation(mutation, optimisticCart, error);
+                    if (conflict) rejected.push(conflict);
+                }
+                commitQueue(queueRef.current.slice(1));
+            }
+
+            const latestCart = serverCart ?? await getCart();
+            const rejectedKeys = new Set(rejected.map((conflict) => conflict.key));
+            const changed = reconcileCart(optimisticCart, latestCart).filter(
+                (conflict) => !rejectedKeys.has(conflict.key)
+            );
+            commitCart(latestCart);
+            setIsOffline(false);
+            if (changed.length > 0) {
+                rejected.push(...changed);
+            }
+        } catch (error) {
+            if (isNetworkError(error)) {
+                setIsOffline(true);
+            } else {
+                console.error('Failed to sync cart:', error);
+            }
+        } finally {
+            if (rejected.length > 0) {
+                setConflicts((prev) => [...prev, ...rejected]);
+            }
+            isSyncingRef.current = false;
+        }
+    }, [isAuthenticated, commitCart, commitQueue]);
 
     const refreshCart = useCallback(async () => {
+        if (isAuthLoading || !isHydrated) return;
+
         if (!isAuthenticated) {
-            setCart(emptyCart);
+            commitQueue([]);
+            const guestCart = await loadGuestCart();
+            commitCart(guestCart ?? emptyCart);
+            return;
+        }
+
+        // A guest cart left over from a sign-in that could not reach the server
+        try {
+            const notices = await mergeGuestCart();
+            if (notices.length > 0) {
+                setConflicts((prev) => [...prev, ...notices]);
+            }
+        } catch (error) {
+            console.warn('Failed to merge guest cart:', error);
+        }
+
+        if (queueRef.current.length > 0) {
+            await syncPendingChanges();
             return;
         }
 
         try {
             setIsLoading(true);
             const cartData = await getCart();
-            setCart(cartData);
+            commitCart(cartData);
+            setIsOffline(false);
         } catch (error) {
-            console.error('Failed to fetch cart:', error);
-            setCart(emptyCart);
+            if (isNetworkError(error)) {
+                setIsOffline(true);
+            } else {
+                console.error('Failed to fetch cart:', error);
+            }
+            // Keep showing the last known cart rather than wiping it
+            if (!cartRef.current) {
+                commitCart(emptyCart);
+            }
         } finally {
             setIsLoading(false);
         }
-    }, [isAuthenticated]);
+    }, [isAuthenticated, isAuthLoading, isHydrated, syncPendingChanges, commitCart, commitQueue]);
 
     useEffect(() => {
         refreshCart();
     }, [refreshCart]);
 
-    const addToCart = async (productId: number, variantId?: number, quantity: number = 1) => {
+    // Replay queued changes when the app comes back to the foreground
+    useEffect(() => {
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') {
+                refreshCart();
+            }
+        });
+        return () => subscription.remove();
+    }, [refreshCart]);
+
+    // ...and keep retrying in the background while anything is pending
+    useEffect(() => {
+        if (pendingChanges === 0 || !isAuthenticated) return;
+        const timer = setInterval(() => {
+            syncPendingChanges();
+        }, RETRY_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [pendingChanges, isAuthenticated, syncPendingChanges]);
+
+    /**
+     * An update or remove for a line whose add is still in flight waits for
+     * that add and swaps in the server's line id. Returns null when there is
+     * nothing left to send: the add failed, or it was queued offline and the
+     * change was folded into it.
+     */
+    const resolvePendingLine = async (mutation: CartMutation): Promise<CartMutation | null> => {
+        if (mutation.type === 'add' || !isTempLineId(mutation.itemId)) return mutation;
+
+        const pendingAdd = pendingAddsRef.current.get(mutation.itemId);
+        if (!pendingAdd) return mutation;
+
+        const addedCart = await pendingAdd.request.catch(() => null);
+        if (!addedCart) {
+            const isQueued = queueRef.current.some((entry) => entry.type === 'add' && entry.lineId === mutation.itemId);
+            if (isQueued) {
+                commitQueue(enqueueCartMutation(queueRef.current, mutation));
+            }
+            return null;
+        }
+
+        const line = addedCart.items.find(
+            (item) => getCartLineKey(item.product.id, item.variant?.id) === pendingAdd.key
+        );
+        return line ? { ...mutation, itemId: line.id } : null;
+    };
+
+    /**
+     * Keeps an add findable while it is in flight. Once it settles the line
+     * takes its server id, so nothing needs the entry any more; waiters that
+     * already hold the request still read it.
+     */
+    const trackPendingAdd = (lineId: number, key: string, request: Promise<Cart>) => {
+        pendingAddsRef.current.set(lineId, { key, request });
+        request
+            .then((addedCart) => {
+                const line = addedCart.items.find(
+                    (item) => getCartLineKey(item.product.id, item.variant?.id) === key
+                );
+                const current = cartRef.current;
+                if (!line || !current?.items.some((item) => item.id === lineId)) return;
+                commitCart({
+                    ...current,
+                    items: current.items.map((item) => (item.id === lineId ? { ...item, id: line.id } : item)),
+                });
+            })
+            .catch(() => {})
+            .finally(() => pendingAddsRef.current.delete(lineId));
+    };
+
+    const runMutation = async (mutation: CartMutation) => {
+        const previousCart = cartRef.current;
+        commitCart(applyCartMutation(previousCart ?? emptyCart, mutation));
+
+        if (!isAuthenticated) return;
+
+        // Anything queued must be replayed first to keep mutations in order
+        if (queueRef.current.length > 0) {
+            commitQueue(enqueueCartMutation(queueRef.current, mutation));
+            syncPendingChanges();
+            return;
+        }
+
+        let outgoing = mutation;
         try {
+            inFlightRef.current += 1;
             setIsLoading(true);
-            const updatedCart = await apiAddToCart(productId, variantId, quantity);
-            setCart(updatedCart);
+            const resolved = await resolvePendingLine(mutation);
+            if (!resolved) return;
+            outgoing = resolved;
+
+            const request = sendCartMutation(outgoing);
+            if (outgoing.type === 'add') {
+                trackPendingAdd(outgoing.lineId, getCartLineKey(outgoing.product.id, outgoing.variant?.id), request);
+            }
+            const updatedCart = await request;
+            setIsOffline(false);
+            // A newer optimistic change is still pending; let its response win
+            if (inFlightRef.current === 1 && queueRef.current.length === 0) {
+                commitCart(updatedCart);
+            }
         } catch (error) {
-            console.error('Failed to add to cart:', error);
+            if (isNetworkError(error)) {
+                setIsOffline(true);
+                commitQueue(enqueueCartMutation(queueRef.current, outgoing));
+                return;
+            }
+            commitCart(previousCart);
             throw error;
         } finally {
-            setIsLoading(false);
+            inFlightRef.current -= 1;
+            setIsLoading(inFlightRef.current > 0);
+        }
+    };
+
+    const addToCart = async (product: Product, variant: ProductVariant | null = null, quantity: number = 1) => {
+        try {
+            await runMutation({ type: 'add', lineId: nextTempLineId(), product, variant, quantity });
+        } catch (error) {
+            console.error('Failed to add to cart:', error);
+            throw error;
         }
     };
 
     const updateQuantity = async (itemId: number, quantity: number) => {
         try {
-            setIsLoading(true);
-            const updatedCart = await updateCartItem(itemId, quantity);
-            setCart(updatedCart);
+            await runMutation({ type: 'update', itemId, quantity });
         } catch (error) {
             console.error('Failed to update cart:', error);
             throw error;
-        } finally {
-            setIsLoading(false);
         }
     };
 
     const removeItem = async (itemId: number) => {
         try {
-            setIsLoading(true);
-            const updatedCart = await removeFromCart(itemId);
-            setCart(updatedCart);
+            await runMutation({ type: 'remove', itemId });
         } catch (error) {
             console.error('Failed to remove from cart:', error);
             throw error;
-        } finally {
-            setIsLoading(false);
         }
     };
 
     const clearCart = async () => {
+        if (!isAuthenticated) {
+            commitCart(emptyCart);
+            return;
+        }
+
         try {
             setIsLoading(true);
             await apiClearCart();
-            setCart(emptyCart);
+            commitQueue([]);
+            commitCart(emptyCart);
         } catch (error) {
             console.error('Failed to clear cart:', error);
             throw error;
@@ -103,18 +356,39 @@ export function CartProvider({ children }: { children: ReactNode }) {
         }
     };
 
+    // Report duplicate or rejected lines from the guest cart merged at sign-in
+    useEffect(() => {
+        if (lastGuestMerge && lastGuestMerge.cart.length > 0) {
+            setConflicts((prev) => [...prev, ...lastGuestMerge.cart]);
+        }
+    }, [lastGuestMerge]);
+
+    // Drop the previous account's cart from the device on sign-out
+    useEffect(() => {
+        if (!isAuthLoading && isHydrated && !isAuthenticated) {
+            pendingAddsRef.current.clear();
+            clearCartStorage();
+            setConflicts([]);
+        }
+    }, [isAuthenticated, isAuthLoading, isHydrated]);
+
     return (
         <CartContext.Provider
             value={{
                 cart,
                 isLoading,
                 itemsCount: cart?.items_count || 0,
+                isOffline,
+                pendingChanges,
+                conflicts,
                 addToCart,
                 updateQuantity,
                 removeItem,
                 clearCart,
                 refreshCart,
-                syncCart: setCart,
+                syncCart: commitCart,
+                syncPendingChanges,
+                dismissConflicts: () => setConflicts([]),
             }}
         >
             {children}
@@ -1,34 +1,65 @@
-import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
-import { getWishlist } from '../services/endpoints';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { getWishlist, removeFromWishlist, toggleWishlist } from '../services/endpoints';
+import { loadGuestWishlist, mergeGuestWishlist, saveGuestWishlist } from '../services/guestSession';
 import { useAuth } from './AuthContext';
+import type { Product } from '../types';
 
 interface WishlistContextType {
+    items: Product[];
+    wishlistIds: Set<number>;
     wishlistCount: number;
     isLoading: boolean;
+    isWishlisted: (productId: number) => boolean;
+    toggle: (product: Product) => Promise<boolean>;
+    remove: (productId: number) => Promise<void>;
     refreshWishlist: () => Promise<void>;
-    setWishlistCount: (count: number) => void;
 }
 
 const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
 
+const withoutProduct = (items: Product[], productId: number) =>
+    items.filter((item) => item.id !== productId);
+
 export function WishlistProvider({ children }: { children: React.ReactNode }) {
     const { isAuthenticated } = useAuth();
-    const [wishlistCount, setWishlistCount] = useState(0);
+    const [items, setItems] = useState<Product[]>([]);
     const [isLoading, setIsLoading] = useState(false);
 
+    // Latest list for async toggles, and ids with a request in flight
+    const itemsRef = useRef<Product[]>([]);
+    const pendingRef = useRef(new Set<number>());
+
+    // Guests keep a device-only wishlist, moved into the account on sign-in
+    const commitItems = useCallback((next: Product[]) => {
+        itemsRef.current = next;
+        setItems(next);
+        if (!isAuthenticated) {
+            saveGuestWishlist(next);
+        }
+    }, [isAuthenticated]);
+
     const refreshWishlist = useCallback(async () => {
         if (!isAuthenticated) {
-            setWishlistCount(0);
+            const guestItems = await loadGuestWishlist();
+            itemsRef.current = guestItems;
+            setItems(guestItems);
             return;
         }
 
+        // A guest wishlist left over from a sign-in that could not reach the server
+        try {
+            await mergeGuestWishlist();
+        } catch (error) {
+            console.warn('Failed to merge guest wishlist:', error);
+        }
+
         try {
             setIsLoading(true);
-            const items = await getWishlist();
-            setWishlistCount(items.length);
+            const wishlist = await getWishlist();
+            itemsRef.current = wishlist;
+            setItems(wishlist);
         } catch (error) {
             console.error('Failed to fetch wishlist:', error);
-            setWishlistCount(0);
         } finally {
             setIsLoading(false);
         }
@@ -38,13 +69,76 @@ export function WishlistProvider({ children }: { children: React.ReactNode }) {
         refreshWishlist();
     }, [refreshWishlist]);
 
+    const wishlistIds = useMemo(() => new Set(items.map((item) => item.id)), [items]);
+
+    const isWishlisted = useCallback((productId: number) => wishlistIds.has(productId), [wishlistIds]);
+
+    /**
+     * Flips the product in the list right away and confirms with the API.
+     * Resolves with the new state; on failure the change is rolled back
+     * and the error rethrown.
+     */
+    const toggle = useCallback(async (product: Product) => {
+        const wasWishlisted = itemsRef.current.some((item) => item.id === product.id);
+        if (pendingRef.current.has(product.id)) return wasWishlisted;
+
+        commitItems(
+            wasWishlisted
+                ? withoutProduct(itemsRef.current, product.id)
+                : [...itemsRef.current, product]
+        );
+        if (!isAuthenticated) return !wasWishlisted;
+
+        try {
+            pendingRef.current.add(product.id);
+            const { added } = await toggleWishlist(product.id);
+            // The server toggles its own state, which may differ from ours
+            if (added === wasWishlisted) {
+                commitItems(
+                    added
+                        ? [...withoutProduct(itemsRef.current, product.id), product]
+                        : withoutProduct(itemsRef.current, product.id)
+                );
+            }
+            return added;
+        } catch (error) {
+            commitItems(
+                wasWishlisted
+                    ? [...withoutProduct(itemsRef.current, product.id), product]
+                    : withoutProduct(itemsRef.current, product.id)
+            );
+            throw error;
+        } finally {
+            pendingRef.current.delete(product.id);
+        }
+    }, [isAuthenticated, commitItems]);
+
+    const remove = useCallback(async (productId: number) => {
+        const product = itemsRef.current.find((item) => item.id === productId);
+        if (!product) return;
+
+        commitItems(withoutProduct(itemsRef.current, productId));
+        if (!isAuthenticated) return;
+
+        try {
+            await removeFromWishlist(productId);
+        } catch (error) {
+            commitItems([...itemsRef.current, product]);
+            throw error;
+        }
+    }, [isAuthenticated, commitItems]);
+
     return (
         <WishlistContext.Provider
             value={{
-                wishlistCount,
+                items,
+                wishlistIds,
+                wishlistCount: items.length,
                 isLoading,
+                isWishlisted,
+                toggle,
+                remove,
                 refreshWishlist,
-                setWishlistCount,
             }}
         >
             {children}
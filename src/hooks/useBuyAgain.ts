@@ -0,0 +1,95 @@
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { getOrderById } from '../services/endpoints';
+import { reorderItems } from '../services/reorder';
+import type { ReorderResult, ReorderSkipReason } from '../services/reorder';
+import { useCart, useTranslation } from '../context';
+import type { Order, OrderItem, RootStackParamList } from '../types';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+/**
+ * "Buy again" for whole orders or single lines: re-adds what is still
+ * available and summarises what was skipped, reduced or repriced.
+ */
+export function useBuyAgain() {
+    const navigation = useNavigation<NavigationProp>();
+    const { addToCart } = useCart();
+    const { t } = useTranslation();
+    const [isReordering, setIsReordering] = useState(false);
+
+    const describeSkip = useCallback((reason: ReorderSkipReason) => {
+        switch (reason) {
+            case 'unresolved':
+                return t('reorder.unresolved', 'could not be found');
+            case 'variant_unavailable':
+                return t('reorder.variant_unavailable', 'option no longer available');
+            case 'out_of_stock':
+                return t('reorder.out_of_stock', 'out of stock');
+            case 'failed':
+                return t('reorder.failed', 'could not be added');
+            default:
+                return t('reorder.unavailable', 'no longer available');
+        }
+    }, [t]);
+
+    const reportResult = useCallback((result: ReorderResult) => {
+        const lines: string[] = [];
+        result.skipped.forEach(({ item, reason }) => {
+            lines.push(`• ${item.product.name}: ${describeSkip(reason)}`);
+        });
+        result.reduced.forEach((line) => {
+            lines.push(`• ${t('reorder.reduced', '{{name}}: only {{count}} available')
+                .replace('{{name}}', line.product.name)
+                .replace('{{count}}', String(line.quantity))}`);
+        });
+        result.added
+            .filter((line) => line.previousPrice !== null)
+            .forEach((line) => {
+                lines.push(`• ${t('reorder.price_changed', '{{name}}: price is now ${{price}}')
+                    .replace('{{name}}', line.product.name)
+                    .replace('{{price}}', line.variant?.price ?? line.product.price)}`);
+            });
+
+        const title = result.added.length === 0
+            ? t('reorder.nothing_added', 'Nothing was added')
+            : t('reorder.added', '{{count}} item(s) added to your cart').replace('{{count}}', String(result.added.length));
+        const buttons = result.added.length > 0
+            ? [
+                { text: t('common.ok', 'OK'), style: 'cancel' as const },
+                { text: t('slides.go_to_cart', 'Go to Cart'), onPress: () => navigation.navigate('Main', { screen: 'Cart' }) },
+            ]
+            : [{ text: t('common.ok', 'OK') }];
+
+        Alert.alert(title, lines.join('\n') || undefined, buttons);
+    }, [describeSkip, navigation, t]);
+
+    const buyAgain = useCallback(async (items: OrderItem[]) => {
+        if (isReordering) return;
+        setIsReordering(true);
+        try {
+            reportResult(await reorderItems(items, addToCart));
+        } finally {
+            setIsReordering(false);
+        }
+    }, [addToCart, isReordering, reportResult]);
+
+    // Order lists may come without line items; load them first
+    const buyOrderAgain = useCallback(async (order: Order) => {
+        let items = order.items;
+        if (items.length === 0) {
+            try {
+                items = (await getOrderById(order.id)).items;
+            } catch (error) {
+                console.error('Failed to load order items:', error);
+                Alert.alert(t('common.error', 'Error'), t('reorder.load_failed', 'Could not load this order'));
+                return;
+            }
+        }
+        await buyAgain(items);
+    }, [buyAgain, t]);
+
+    return { buyAgain, buyOrderAgain, isReordering };
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PaginatedResponse } from '../types';
+
+/**
+ * Page-by-page list for FlatList screens with a row selection for bulk
+ * actions. A new `fetchPage` (new filters) starts over from the first page
+ * with nothing selected, and only the latest first-page request may write
+ * results, errors or loading flags; older responses are dropped.
+ */
+export function usePaginatedList<T extends { id: number }>(
+    fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+    onError: (error: unknown) => void
+) {
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+    const requestIdRef = useRef(0);
+
+    const [items, setItems] = useState<T[]>([]);
+    const [page, setPage] = useState(1);
+    const [lastPage, setLastPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+    const load = useCallback(async (nextPage: number) => {
+        const requestId = nextPage === 1 ? ++requestIdRef.current : requestIdRef.current;
+        const isCurrent = () => requestId === requestIdRef.current;
+        try {
+            const result = await fetchPage(nextPage);
+            if (!isCurrent()) return;
+            setItems((prev) => (nextPage === 1 ? result.data : [...prev, ...result.data]));
+            setPage(result.meta.current_page);
+            setLastPage(result.meta.last_page);
+            setTotal(result.meta.total);
+        } catch (error) {
+            if (!isCurrent()) return;
+            onErrorRef.current(error);
+        } finally {
+            if (isCurrent()) {
+                setIsLoading(false);
+                setIsRefreshing(false);
+                setIsLoadingMore(false);
+            }
+        }
+    }, [fetchPage]);
+
+    useEffect(() => {
+        setSelectedIds([]);
+        load(1);
+    }, [load]);
+
+    // Reloads the first page in the background, keeping the current rows
+    const reload = useCallback(() => load(1), [load]);
+
+    const refresh = useCallback(() => {
+        setIsRefreshing(true);
+        load(1);
+    }, [load]);
+
+    const loadMore = useCallback(() => {
+        if (isLoading || isLoadingMore || page >= lastPage) return;
+        setIsLoadingMore(true);
+        load(page + 1);
+    }, [load, isLoading, isLoadingMore, page, lastPage]);
+
+    const toggleSelected = useCallback((id: number) => {
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+    }, []);
+
+    const toggleSelectAll = useCallback(() => {
+        setSelectedIds((prev) => (prev.length === items.length ? [] : items.map((item) => item.id)));
+    }, [items]);
+
+    return {
+        items,
+        setItems,
+        total,
+        setTotal,
+        isLoading,
+        setIsLoading,
+        isRefreshing,
+        isLoadingMore,
+        selectedIds,
+        setSelectedIds,
+        toggleSelected,
+        toggleSelectAll,
+        reload,
+        refresh,
+        loadMore,
+    };
+}
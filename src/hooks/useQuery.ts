@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    fetchQuery,
+    isQueryStale,
+    peekQuery,
+    readQuery,
+    subscribeQuery,
+} from '../services/queryCache';
+import type { CacheEntry, QueryDefinition } from '../services/queryCache';
+
+/**
+ * Stale-while-revalidate read of a cached query: cached data is returned
+ * immediately and refreshed in the background once it is stale or invalidated.
+ * `isLoading` is only true while there is nothing to show yet.
+ */
+export function useQuery<T>(query: QueryDefinition<T>) {
+    const { key } = query;
+    const queryRef = useRef(query);
+    queryRef.current = query;
+
+    const [entry, setEntry] = useState<CacheEntry<T> | null>(() => peekQuery<T>(key, query.options));
+    const [error, setError] = useState<Error | null>(null);
+    const [isFetching, setIsFetching] = useState(false);
+
+    const refetch = useCallback(async () => {
+        setIsFetching(true);
+        try {
+            await fetchQuery(key, queryRef.current.fetcher);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error(String(err)));
+        } finally {
+            setIsFetching(false);
+        }
+    }, [key]);
+
+    useEffect(() => {
+        let isActive = true;
+        const { options } = queryRef.current;
+        setEntry(peekQuery<T>(key, options));
+        setError(null);
+
+        const unsubscribe = subscribeQuery(key, () => {
+            if (!isActive) return;
+            const next = peekQuery<T>(key, queryRef.current.options);
+            setEntry(next);
+            if (next?.invalidated) {
+                refetch();
+            }
+        });
+
+        readQuery<T>(key, options).then((cached) => {
+            if (!isActive) return;
+            if (cached) {
+                setEntry(cached);
+            }
+            if (!cached || isQueryStale(cached, options)) {
+                refetch();
+            }
+        });
+
+        return () => {
+            isActive = false;
+            unsubscribe();
+        };
+    }, [key, refetch]);
+
+    return {
+        data: entry?.data,
+        error,
+        isLoading: !entry && !error,
+        isFetching,
+        refetch,
+    };
+}
@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { resolveSlideAction } from '../services/slideActions';
+import { trackEvent } from '../services/analytics';
+import { useTranslation } from '../context';
+import type { RootStackParamList, Slide } from '../types';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+/**
+ * Returns a press handler that runs a slide's link action. `source` tells
+ * analytics which banner was tapped, e.g. 'home_hero' or 'category_hero'.
+ */
+export function useSlideAction(source: string) {
+    const navigation = useNavigation<NavigationProp>();
+    const { t } = useTranslation();
+
+    return useCallback(async (slide: Slide, position?: number) => {
+        const action = resolveSlideAction(slide);
+
+        trackEvent('slide_tap', {
+            source,
+            slide_id: slide.id,
+            position,
+            link_type: slide.link_type,
+            link_value: slide.link_value,
+            action: action.type,
+        });
+
+        switch (action.type) {
+            case 'product':
+                navigation.navigate('ProductDetail', { slug: action.slug });
+                break;
+            case 'category':
+                navigation.navigate('CategoryProducts', { categoryId: action.categoryId, categoryName: '' });
+                break;
+            case 'vendor':
+                navigation.navigate('VendorStore', { slug: action.slug });
+                break;
+            case 'search':
+                navigation.navigate('Search', { query: action.query });
+                break;
+            case 'coupon':
+                Alert.alert(
+                    t('slides.coupon_title', 'Coupon'),
+                    t('slides.coupon_message', 'Use code {{code}} at checkout.').replace('{{code}}', action.code),
+                    [
+                        { text: t('common.ok', 'OK'), style: 'cancel' },
+                        {
+                            text: t('slides.go_to_cart', 'Go to Cart'),
+                            onPress: () => navigation.navigate('Main', { screen: 'Cart' }),
+                        },
+                    ]
+                );
+                break;
+            case 'url':
+                try {
+                    if (action.isInternal) {
+                        // App links go through the navigator's linking config
+                        await Linking.openURL(action.url);
+                    } else {
+                        await WebBrowser.openBrowserAsync(action.url);
+                    }
+                } catch (error) {
+                    console.error('Failed to open slide link:', error);
+                }
+                break;
+            case 'invalid':
+                console.warn(`Ignoring slide ${slide.id}: ${action.reason}`);
+                trackEvent('slide_link_invalid', { source, slide_id: slide.id, reason: action.reason });
+                break;
+            case 'none':
+                break;
+        }
+    }, [navigation, source, t]);
+}
@@ -1,8 +1,12 @@
-import React from 'react';
+import React, { useMemo, useRef } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
 import MainTabNavigator from './MainTabNavigator';
+import { navigationRef } from './navigationRef';
+import { createLinking } from './linking';
+import { Loading } from '../components';
+import { useAuth } from '../context';
 import LoginScreen from '../screens/LoginScreen';
 import RegisterScreen from '../screens/RegisterScreen';
 import ProductDetailScreen from '../screens/ProductDetailScreen';
@@ -13,23 +17,40 @@ import CheckoutScreen from '../screens/CheckoutScreen';
 import OrderSuccessScreen from '../screens/OrderSuccessScreen';
 import OrderHistoryScreen from '../screens/OrderHistoryScreen';
 import OrderDetailScreen from '../screens/OrderDetailScreen';
+import RequestReturnScreen from '../screens/RequestReturnScreen';
 import AddAddressScreen from '../screens/AddAddressScreen';
 import VendorStoreScreen from '../screens/VendorStoreScreen';
 import BecomeSellerScreen from '../screens/BecomeSellerScreen';
 import SellerDashboardScreen from '../screens/SellerDashboardScreen';
 import AddProductScreen from '../screens/AddProductScreen';
 import SellerOrdersScreen from '../screens/SellerOrdersScreen';
+import SellerOrderDetailScreen from '../screens/SellerOrderDetailScreen';
 import SellerProductsScreen from '../screens/SellerProductsScreen';
 import SellerStoreProfileScreen from '../screens/SellerStoreProfileScreen';
 import SellerCouponsScreen from '../screens/SellerCouponsScreen';
+import SellerReviewsScreen from '../screens/SellerReviewsScreen';
+import SellerAnalyticsScreen from '../screens/SellerAnalyticsScreen';
+import WriteReviewScreen from '../screens/WriteReviewScreen';
 
 import type { RootStackParamList } from '../types';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function RootNavigator() {
+    const { isAuthenticated, isLoading } = useAuth();
+
+    // Links are resolved against the latest auth state, not the one at mount
+    const isAuthenticatedRef = useRef(isAuthenticated);
+    isAuthenticatedRef.current = isAuthenticated;
+    const linking = useMemo(() => createLinking(() => isAuthenticatedRef.current), []);
+
+    // Wait for the stored session so the launch link is not gated by mistake
+    if (isLoading) {
+        return <Loading />;
+    }
+
     return (
-        <NavigationContainer>
+        <NavigationContainer ref={navigationRef} linking={linking}>
             <Stack.Navigator
                 screenOptions={{
                     headerShown: false,
@@ -42,9 +63,12 @@ export default function RootNavigator() {
                 <Stack.Screen name="SellerDashboard" component={SellerDashboardScreen} />
                 <Stack.Screen name="AddProduct" component={AddProductScreen} />
                 <Stack.Screen name="SellerOrders" component={SellerOrdersScreen} />
+                <Stack.Screen name="SellerOrderDetail" component={SellerOrderDetailScreen} />
                 <Stack.Screen name="SellerProducts" component={SellerProductsScreen} />
                 <Stack.Screen name="SellerStoreProfile" component={SellerStoreProfileScreen} />
                 <Stack.Screen name="SellerCoupons" component={SellerCouponsScreen} />
+                <Stack.Screen name="SellerReviews" component={SellerReviewsScreen} />
+                <Stack.Screen name="SellerAnalytics" component={SellerAnalyticsScreen} />
                 <Stack.Screen name="ProductDetail" component={ProductDetailScreen} />
                 <Stack.Screen name="VendorStore" component={VendorStoreScreen} />
                 <Stack.Screen name="CategoryProducts" component={CategoryProductsScreen} />
@@ -53,6 +77,8 @@ export default function RootNavigator() {
                 <Stack.Screen name="OrderSuccess" component={OrderSuccessScreen} />
                 <Stack.Screen name="OrderHistory" component={OrderHistoryScreen} />
                 <Stack.Screen name="OrderDetail" component={OrderDetailScreen} />
+                <Stack.Screen name="RequestReturn" component={RequestReturnScreen} />
+                <Stack.Screen name="WriteReview" component={WriteReviewScreen} />
                 <Stack.Screen name="AddAddress" component={AddAddressScreen} />
             </Stack.Navigator>
         </NavigationContainer>
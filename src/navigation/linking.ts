@@ -0,0 +1,134 @@
+import * as Linking from 'expo-linking';
+import { getStateFromPath as getDefaultStateFromPath } from '@react-navigation/native';
+import type { LinkingOptions } from '@react-navigation/native';
+import { BASE_URL } from '../services/api';
+import { PAYMENT_RETURN_PATH } from '../services/payments';
+import type { RootStackParamList } from '../types';
+
+type RouteName = keyof RootStackParamList;
+
+export interface PendingRoute {
+    name: RouteName;
+    params?: object;
+}
+
+// Screens that need a signed-in user; links to them go through Login first
+export const AUTH_REQUIRED_ROUTES: ReadonlySet<RouteName> = new Set<RouteName>([
+    'Checkout',
+    'OrderSuccess',
+    'OrderHistory',
+    'OrderDetail',
+    'RequestReturn',
+    'AddAddress',
+    'BecomeSeller',
+    'SellerDashboard',
+    'AddProduct',
+    'SellerOrders',
+    'SellerOrderDetail',
+    'SellerProducts',
+    'SellerStoreProfile',
+    'SellerCoupons',
+    'SellerReviews',
+    'SellerAnalytics',
+]);
+
+// Return URLs of the Google sign-in and hosted payment browser sessions,
+// handled by whoever opened the session and never routed
+const BROWSER_SESSION_PATHS = ['auth-callback', PAYMENT_RETURN_PATH];
+
+// Web links share the host of the API, e.g. https://tonas.example/products/shoe
+const WEB_URL = BASE_URL.replace(/\/api$/, '');
+
+const parseId = (value: string) => Number.parseInt(value, 10);
+
+let pendingRoute: PendingRoute | null = null;
+
+/**
+ * The gated route a link tried to open while signed out. Reading it clears
+ * it, so it is resumed at most once.
+ */
+export const consumePendingRoute = (): PendingRoute | null => {
+    const route = pendingRoute;
+    pendingRoute = null;
+    return route;
+};
+
+export const clearPendingRoute = () => {
+    pendingRoute = null;
+};
+
+export const createLinking = (isAuthenticated: () => boolean): LinkingOptions<RootStackParamList> => ({
+    prefixes: [Linking.createURL('/'), WEB_URL],
+    config: {
+        screens: {
+            Main: {
+                screens: {
+                    Home: '',
+                    Categories: 'categories',
+                    Cart: 'cart',
+                    Wishlist: 'wishlist',
+                    Profile: 'profile',
+                },
+            },
+            ProductDetail: 'products/:slug',
+            CategoryProducts: {
+                path: 'categories/:categoryId/:categoryName?',
+                parse: {
+                    categoryId: parseId,
+                },
+            },
+            VendorStore: 'stores/:slug',
+            Search: 'search',
+            Login: 'login',
+            Register: 'register',
+            Checkout: 'checkout',
+            OrderHistory: 'orders',
+            OrderDetail: {
+                path: 'orders/:orderId',
+                parse: { orderId: parseId },
+            },
+            RequestReturn: {
+                path: 'orders/:orderId/return',
+                parse: { orderId: parseId, itemId: parseId },
+            },
+            OrderSuccess: {
+                path: 'orders/success',
+                parse: { orderIds: (value: string) => value.split(',').map(parseId) },
+                stringify: { orderIds: (value: number[]) => value.join(',') },
+            },
+            AddAddress: 'addresses/new',
+            BecomeSeller: 'seller/apply',
+            SellerDashboard: 'seller',
+            SellerOrders: 'seller/orders',
+            SellerOrderDetail: {
+                path: 'seller/orders/:orderId',
+                parse: { orderId: parseId },
+            },
+            SellerReviews: 'seller/reviews',
+            SellerAnalytics: 'seller/analytics',
+            SellerProducts: 'seller/products',
+            AddProduct: {
+                path: 'seller/products/edit/:productId?',
+                parse: { productId: parseId },
+            },
+            SellerStoreProfile: 'seller/store',
+            SellerCoupons: 'seller/coupons',
+        },
+    },
+    getStateFromPath(path, options) {
+        const trimmedPath = path.replace(/^\//, '');
+        if (BROWSER_SESSION_PATHS.some((sessionPath) => trimmedPath.startsWith(sessionPath))) {
+            return undefined;
+        }
+
+        const state = getDefaultStateFromPath(path, options);
+        const target = state?.routes[state.routes.length - 1];
+        if (!target || isAuthenticated() || !AUTH_REQUIRED_ROUTES.has(target.name as RouteName)) {
+            return state;
+        }
+
+        // Remember where the link was going and sign in first
+        pendingRoute = { name: target.name as RouteName, params: target.params };
+        return { routes: [{ name: 'Main' }, { name: 'Login' }] };
+    },
+});
@@ -0,0 +1,5 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import type { RootStackParamList } from '../types';
+
+// Lets providers that live above the NavigationContainer (e.g. AuthProvider) navigate
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { createAddress } from '../services/endpoints';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
 import { Loading } from '../components';
 import { useAuth } from '../context/AuthContext';
 import { useTranslation } from '../context';
@@ -20,6 +21,18 @@ interface CreateAddressPayload {
     is_default: boolean;
 }
 
+type AddressField = 'fullAddress' | 'city' | 'state' | 'zipCode' | 'country' | 'phone';
+
+// Backend payload keys -> form inputs
+const ADDRESS_FIELD_MAP: Record<string, AddressField> = {
+    address_line_1: 'fullAddress',
+    city: 'city',
+    state: 'state',
+    postal_code: 'zipCode',
+    country: 'country',
+    phone: 'phone',
+};
+
 export default function AddAddressScreen() {
     const navigation = useNavigation();
     const { user } = useAuth();
@@ -35,6 +48,11 @@ export default function AddAddressScreen() {
     const [zipCode, setZipCode] = useState('');
     const [phone, setPhone] = useState('');
     const [isDefault, setIsDefault] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<Partial<Record<AddressField, string>>>({});
+
+    const clearFieldError = (field: AddressField) => {
+        if (fieldErrors[field]) setFieldErrors({ ...fieldErrors, [field]: undefined });
+    };
 
     const validate = () => {
         if (!fullAddress || !city || !state || !country || !zipCode || !phone) {
@@ -57,6 +75,7 @@ export default function AddAddressScreen() {
         }
 
         setIsLoading(true);
+        setFieldErrors({});
         try {
             if (!user) {
                 Alert.alert(t('common.error', 'Error'), t('auth.user_not_authenticated', 'User not authenticated'));
@@ -86,11 +105,10 @@ export default function AddAddressScreen() {
                     { text: t('common.ok', 'OK'), onPress: () => navigation.goBack() }
                 ]);
             }
-        } catch (error: any) {
+        } catch (error) {
             console.error('Add address error:', error);
-            console.error('Error response:', error.response?.data);
-            console.error('Error status:', error.response?.status);
-            const msg = error.response?.data?.message || error.message || t('address.save_failed', 'Failed to save address');
+            setFieldErrors(mapFieldErrors(error, ADDRESS_FIELD_MAP));
+            const msg = getErrorMessage(error, t('address.save_failed', 'Failed to save address'));
 
             if (Platform.OS === 'web') {
                 window.alert(`Error: ${msg}`);
@@ -143,34 +161,46 @@ export default function AddAddressScreen() {
                 <View style={styles.inputGroup}>
                     <Text style={styles.label}>{t('address.street', 'Street Address')}</Text>
                     <TextInput
-                        style={styles.input}
+                        style={[styles.input, fieldErrors.fullAddress && styles.inputError]}
                         value={fullAddress}
-                        onChangeText={setFullAddress}
+                        onChangeText={(value) => {
+                            setFullAddress(value);
+                            clearFieldError('fullAddress');
+                        }}
                         placeholder={t('address.street_placeholder', '123 Main St, Apt 4B')}
                         placeholderTextColor={colors.textLight}
                     />
+                    {fieldErrors.fullAddress && <Text style={styles.errorText}>{fieldErrors.fullAddress}</Text>}
                 </View>
 
                 <View style={styles.row}>
                     <View style={[styles.inputGroup, { flex: 1, marginRight: spacing.sm }]}>
                         <Text style={styles.label}>{t('address.city', 'City')}</Text>
                         <TextInput
-                            style={styles.input}
+                            style={[styles.input, fieldErrors.city && styles.inputError]}
                             value={city}
-                            onChangeText={setCity}
+                            onChangeText={(value) => {
+                                setCity(value);
+                                clearFieldError('city');
+                            }}
                             placeholder={t('address.city_placeholder', 'New York')}
                             placeholderTextColor={colors.textLight}
                         />
+                        {fieldErrors.city && <Text style={styles.errorText}>{fieldErrors.city}</Text>}
                     </View>
                     <View style={[styles.inputGroup, { flex: 1, marginLeft: spacing.sm }]}>
                         <Text style={styles.label}>{t('address.state', 'State')}</Text>
                         <TextInput
-                            style={styles.input}
+                            style={[styles.input, fieldErrors.state && styles.inputError]}
                             value={state}
-                            onChangeText={setState}
+                            onChangeText={(value) => {
+                                setState(value);
+                                clearFieldError('state');
+                            }}
                             placeholder={t('address.state_placeholder', 'NY')}
                             placeholderTextColor={colors.textLight}
                         />
+                        {fieldErrors.state && <Text style={styles.errorText}>{fieldErrors.state}</Text>}
                     </View>
                 </View>
 
@@ -178,36 +208,48 @@ export default function AddAddressScreen() {
                     <View style={[styles.inputGroup, { flex: 1, marginRight: spacing.sm }]}>
                         <Text style={styles.label}>{t('address.zip', 'Zip Code')}</Text>
                         <TextInput
-                            style={styles.input}
+                            style={[styles.input, fieldErrors.zipCode && styles.inputError]}
                             value={zipCode}
-                            onChangeText={setZipCode}
+                            onChangeText={(value) => {
+                                setZipCode(value);
+                                clearFieldError('zipCode');
+                            }}
                             placeholder={t('address.zip_placeholder', '10001')}
                             keyboardType="number-pad"
                             placeholderTextColor={colors.textLight}
                         />
+                        {fieldErrors.zipCode && <Text style={styles.errorText}>{fieldErrors.zipCode}</Text>}
                     </View>
                     <View style={[styles.inputGroup, { flex: 1, marginLeft: spacing.sm }]}>
                         <Text style={styles.label}>{t('address.country', 'Country')}</Text>
                         <TextInput
-                            style={styles.input}
+                            style={[styles.input, fieldErrors.country && styles.inputError]}
                             value={country}
-                            onChangeText={setCountry}
+                            onChangeText={(value) => {
+                                setCountry(value);
+                                clearFieldError('country');
+                            }}
                             placeholder={t('address.country_placeholder', 'United States')}
                             placeholderTextColor={colors.textLight}
                         />
+                        {fieldErrors.country && <Text style={styles.errorText}>{fieldErrors.country}</Text>}
                     </View>
                 </View>
 
                 <View style={styles.inputGroup}>
                     <Text style={styles.label}>{t('address.phone', 'Phone Number')}</Text>
                     <TextInput
-                        style={styles.input}
+                        style={[styles.input, fieldErrors.phone && styles.inputError]}
                         value={phone}
-                        onChangeText={setPhone}
+                        onChangeText={(value) => {
+                            setPhone(value);
+                            clearFieldError('phone');
+                        }}
                         placeholder={t('address.phone_placeholder', '+1 234 567 8900')}
                         keyboardType="phone-pad"
                         placeholderTextColor={colors.textLight}
                     />
+                    {fieldErrors.phone && <Text style={styles.errorText}>{fieldErrors.phone}</Text>}
                 </View>
 
                 {/* Default Switch */}
@@ -288,6 +330,14 @@ const styles = StyleSheet.create({
         backgroundColor: colors.background,
         height: 48,
     },
+    inputError: {
+        borderColor: colors.error,
+    },
+    errorText: {
+        fontSize: fontSize.sm,
+        color: colors.error,
+        marginTop: spacing.xs,
+    },
     row: {
         flexDirection: 'row',
     },
@@ -18,8 +18,17 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { getCategories, createSellerProduct, getSellerProductById, updateSellerProduct } from '../services/endpoints';
+import { getErrorMessage } from '../services/errors';
+import {
+    appendVariants,
+    draftsFromVariants,
+    findInvalidDraft,
+    generateVariantDrafts,
+    getDraftLabel,
+} from '../services/variantEditor';
+import type { VariantAxis, VariantDraft, VariantDraftField } from '../services/variantEditor';
 import type { Category, RootStackParamList } from '../types';
-import { Loading } from '../components';
+import { Loading, VariantEditor } from '../components';
 import { useTranslation } from '../context';
 import { getLocalizedField } from '../i18n/locale';
 
@@ -40,12 +49,20 @@ export default function AddProductScreen() {
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
     const [price, setPrice] = useState('');
+    const [comparePrice, setComparePrice] = useState('');
     const [stock, setStock] = useState('');
     const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
     const [images, setImages] = useState<string[]>([]);
     const [existingImages, setExistingImages] = useState<string[]>([]);
     const [showCategoryModal, setShowCategoryModal] = useState(false);
 
+    // Variants
+    const [axes, setAxes] = useState<VariantAxis[]>([]);
+    const [drafts, setDrafts] = useState<VariantDraft[]>([]);
+    const [hadVariants, setHadVariants] = useState(false);
+    const [invalidDraft, setInvalidDraft] = useState<{ key: string; field: VariantDraftField } | null>(null);
+    const hasVariants = drafts.length > 0;
+
     const MAX_IMAGES = 5;
 
     useEffect(() => {
@@ -72,6 +89,14 @@ export default function AddProductScreen() {
             setName(product.name || '');
             setDescription(product.description || '');
             setPrice(product.price || '');
+            setComparePrice(product.compare_price || '');
+            setStock(product.stock !== undefined ? String(product.stock) : '');
+            if (product.variants && product.variants.length > 0) {
+                const loaded = draftsFromVariants(product.variants);
+                setAxes(loaded.axes);
+                setDrafts(loaded.drafts);
+                setHadVariants(true);
+            }
             setExistingImages(Array.isArray(product.images) ? product.images : []);
             if (product.category) {
                 setSelectedCategory(product.category);
@@ -124,6 +149,17 @@ export default function AddProductScreen() {
         setImages(newImages);
     };
 
+    const handleAxesChange = (nextAxes: VariantAxis[]) => {
+        setAxes(nextAxes);
+        setDrafts(generateVariantDrafts(nextAxes, drafts, price));
+        setInvalidDraft(null);
+    };
+
+    const handleDraftChange = (key: string, field: VariantDraftField, value: string) => {
+        setDrafts(drafts.map((draft) => (draft.key === key ? { ...draft, [field]: value } : draft)));
+        if (invalidDraft?.key === key && invalidDraft.field === field) setInvalidDraft(null);
+    };
+
     const validate = () => {
         if (!name.trim()) {
             Alert.alert(t('common.error', 'Error'), t('product.name_required', 'Product name is required'));
@@ -133,10 +169,33 @@ export default function AddProductScreen() {
             Alert.alert(t('common.error', 'Error'), t('product.price_invalid', 'Price must be a number greater than 0'));
             return false;
         }
-        if (!isEdit && (!stock || isNaN(Number(stock)) || Number(stock) < 0 || !Number.isInteger(Number(stock)))) {
+        if (comparePrice && (isNaN(Number(comparePrice)) || Number(comparePrice) <= Number(price))) {
+            Alert.alert(t('common.error', 'Error'), t('product.compare_price_invalid', 'Compare price must be higher than the price'));
+            return false;
+        }
+        if (!hasVariants && (!stock || isNaN(Number(stock)) || Number(stock) < 0 || !Number.isInteger(Number(stock)))) {
             Alert.alert(t('common.error', 'Error'), t('product.stock_invalid', 'Stock must be an integer >= 0'));
             return false;
         }
+        if (axes.some((axis) => !axis.name || axis.values.length === 0)) {
+            Alert.alert(t('common.error', 'Error'), t('variants.axis_incomplete', 'Give every option a name and at least one value'));
+            return false;
+        }
+        const invalid = findInvalidDraft(drafts);
+        if (invalid) {
+            const fieldMessages: Record<VariantDraftField, string> = {
+                price: t('product.price_invalid', 'Price must be a number greater than 0'),
+                compare_price: t('product.compare_price_invalid', 'Compare price must be higher than the price'),
+                stock: t('product.stock_invalid', 'Stock must be an integer >= 0'),
+                sku: t('variants.sku_duplicate', 'SKUs must be unique'),
+            };
+            setInvalidDraft({ key: invalid.draft.key, field: invalid.field });
+            Alert.alert(
+                t('common.error', 'Error'),
+                `${getDraftLabel(invalid.draft, axes)}: ${fieldMessages[invalid.field]}`
+            );
+            return false;
+        }
         if (!selectedCategory) {
             Alert.alert(t('common.error', 'Error'), t('product.category_required', 'Category is required'));
             return false;
@@ -157,8 +216,13 @@ export default function AddProductScreen() {
             formData.append('name', name);
             formData.append('description', description);
             formData.append('base_price', price);
-            if (!isEdit && stock) {
+            formData.append('compare_price', comparePrice);
+            if (hasVariants) {
+                appendVariants(formData, drafts);
+            } else {
                 formData.append('stock', stock);
+                // Removing the last option deletes the variants on the server
+                if (hadVariants) formData.append('sync_variants', '1');
             }
             formData.append('category_id', selectedCategory!.id.toString());
 
@@ -205,9 +269,9 @@ export default function AddProductScreen() {
                     { text: t('common.ok', 'OK'), onPress: () => navigation.goBack() },
                 ]);
             }
-        } catch (error: any) {
+        } catch (error) {
             console.error('Save product error:', error);
-            const msg = error.response?.data?.message || t('product.save_failed', 'Failed to save product');
+            const msg = getErrorMessage(error, t('product.save_failed', 'Failed to save product'));
             Alert.alert(t('common.error', 'Error'), msg);
         } finally {
             setIsLoading(false);
@@ -277,9 +341,9 @@ export default function AddProductScreen() {
                     />
                 </View>
 
-                {/* Price & Stock */}
-                {isEdit ? (
-                    <View style={styles.inputGroup}>
+                {/* Price & Compare Price */}
+                <View style={styles.row}>
+                    <View style={[styles.inputGroup, { flex: 1, marginRight: spacing.sm }]}>
                         <Text style={styles.label}>{t('product.price', 'Price')} ($) *</Text>
                         <TextInput
                             style={styles.input}
@@ -290,33 +354,49 @@ export default function AddProductScreen() {
                             placeholderTextColor={colors.textLight}
                         />
                     </View>
-                ) : (
-                    <View style={styles.row}>
-                        <View style={[styles.inputGroup, { flex: 1, marginRight: spacing.sm }]}>
-                            <Text style={styles.label}>{t('product.price', 'Price')} ($) *</Text>
-                            <TextInput
-                                style={styles.input}
-                                value={price}
-                                onChangeText={setPrice}
-                                placeholder="0.00"
-                                keyboardType="numeric"
-                                placeholderTextColor={colors.textLight}
-                            />
-                        </View>
-                        <View style={[styles.inputGroup, { flex: 1, marginLeft: spacing.sm }]}>
-                            <Text style={styles.label}>{t('product.stock', 'Stock')} *</Text>
-                            <TextInput
-                                style={styles.input}
-                                value={stock}
-                                onChangeText={setStock}
-                                placeholder="1"
-                                keyboardType="numeric"
-                                placeholderTextColor={colors.textLight}
-                            />
-                        </View>
+                    <View style={[styles.inputGroup, { flex: 1, marginLeft: spacing.sm }]}>
+                        <Text style={styles.label}>{t('product.compare_price', 'Compare at')} ($)</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={comparePrice}
+                            onChangeText={setComparePrice}
+                            placeholder="0.00"
+                            keyboardType="numeric"
+                            placeholderTextColor={colors.textLight}
+                        />
+                    </View>
+                </View>
+
+                {/* Stock (tracked per variant once options exist) */}
+                {!hasVariants && (
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{t('product.stock', 'Stock')} *</Text>
+                        <TextInput
+                            style={styles.input}
+                            value={stock}
+                            onChangeText={setStock}
+                            placeholder="1"
+                            keyboardType="numeric"
+                            placeholderTextColor={colors.textLight}
+                        />
                     </View>
                 )}
 
+                {/* Variants */}
+                <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{t('variants.title', 'Options & Variants')}</Text>
+                    <Text style={styles.hint}>
+                        {t('variants.hint', 'Add options like color or size to sell this product in several variants, each with its own price and stock.')}
+                    </Text>
+                    <VariantEditor
+                        axes={axes}
+                        drafts={drafts}
+                        invalid={invalidDraft}
+                        onAxesChange={handleAxesChange}
+                        onDraftChange={handleDraftChange}
+                    />
+                </View>
+
                 {/* Category Selection */}
                 <View style={styles.inputGroup}>
                     <Text style={styles.label}>{t('categories.title', 'Category')} *</Text>
@@ -465,6 +545,11 @@ const styles = StyleSheet.create({
     row: {
         flexDirection: 'row',
     },
+    hint: {
+        fontSize: fontSize.xs,
+        color: colors.textLight,
+        marginBottom: spacing.sm,
+    },
     selectButton: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -16,6 +16,7 @@ import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { becomeVendor } from '../services/endpoints';
+import { ApiError, getErrorMessage } from '../services/errors';
 import { Loading } from '../components';
 import { useAuth } from '../context/AuthContext';
 import { useTranslation } from '../context';
@@ -77,11 +78,11 @@ export default function BecomeSellerScreen() {
                     ]
                 );
             }
-        } catch (error: any) {
-            console.error('Become Seller Error:', error.message || 'Unknown error');
-            const msg = error.response?.status
-                ? `${t('common.request_failed', 'Request failed')} (${error.response.status})`
-                : error.message || t('seller.application_failed', 'Failed to submit application. Please try again.');
+        } catch (error) {
+            console.error('Become Seller Error:', getErrorMessage(error, 'Unknown error'));
+            const msg = error instanceof ApiError && error.status
+                ? `${t('common.request_failed', 'Request failed')} (${error.status})`
+                : getErrorMessage(error, t('seller.application_failed', 'Failed to submit application. Please try again.'));
 
             if (Platform.OS === 'web') {
                 window.alert(`Error: ${msg}`);
@@ -16,81 +16,43 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
 import { Loading } from '../components';
-import { getCart, updateCartItem, removeFromCart, applyCoupon } from '../services/endpoints';
-import { getAuthToken } from '../services/api';
-import type { Cart, CartItem } from '../types';
+import { applyCoupon, removeCoupon } from '../services/endpoints';
+import { getErrorMessage } from '../services/errors';
+import type { CartConflict } from '../types';
+import { useAuth } from '../context/AuthContext';
 import { useCart } from '../context';
 import { useTranslation } from '../context';
 import { getLocalizedField } from '../i18n/locale';
 
 export default function CartScreen() {
     const navigation = useNavigation();
-    const { syncCart } = useCart();
+    const { isAuthenticated } = useAuth();
+    const {
+        cart,
+        syncCart,
+        refreshCart,
+        updateQuantity,
+        removeItem,
+        isOffline,
+        pendingChanges,
+        conflicts,
+        dismissConflicts,
+    } = useCart();
     const { t } = useTranslation();
-    const [cart, setCart] = useState<Cart | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
-    const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [updatingItemId, setUpdatingItemId] = useState<number | null>(null);
     const [couponCode, setCouponCode] = useState('');
     const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
 
-    const calculateCartTotals = (items: CartItem[]) => {
-        const itemsCount = items.reduce((total, item) => total + item.quantity, 0);
-        const subtotalValue = items.reduce((total, item) => {
-            const unitPrice = Number.parseFloat(item.unit_price);
-            const safeUnitPrice = Number.isFinite(unitPrice) ? unitPrice : 0;
-            return total + safeUnitPrice * item.quantity;
-        }, 0);
-        const subtotal = subtotalValue.toFixed(2);
-
-        return {
-            items_count: itemsCount,
-            subtotal,
-            total: subtotal,
-        };
-    };
-
-    const updateCartState = (updater: (items: CartItem[]) => CartItem[]) => {
-        setCart((prev) => {
-            if (!prev) return prev;
-            const items = updater(prev.items);
-            const totals = calculateCartTotals(items);
-            const nextCart = {
-                ...prev,
-                items,
-                ...totals,
-            };
-            syncCart(nextCart);
-            return nextCart;
-        });
-    };
-
-    const checkAuth = async () => {
-        const token = await getAuthToken();
-        setIsAuthenticated(!!token);
-        return !!token;
-    };
-
     const fetchCart = useCallback(async () => {
-        const hasAuth = await checkAuth();
-        if (!hasAuth) {
-            setIsLoading(false);
-            setIsRefreshing(false);
-            return;
-        }
-
         try {
-            const data = await getCart();
-            setCart(data);
-            syncCart(data);
-        } catch (err: any) {
-            console.error('Failed to fetch cart:', err);
+            await refreshCart();
         } finally {
             setIsLoading(false);
             setIsRefreshing(false);
         }
-    }, []);
+    }, [refreshCart]);
 
     useEffect(() => {
         fetchCart();
@@ -108,26 +70,10 @@ export default function CartScreen() {
             return;
         }
 
-        updateCartState((items) =>
-            items.map((item) => {
-                if (item.id !== itemId) return item;
-                const unitPrice = Number.parseFloat(item.unit_price);
-                const safeUnitPrice = Number.isFinite(unitPrice) ? unitPrice : 0;
-                return {
-                    ...item,
-                    quantity: newQuantity,
-                    subtotal: (safeUnitPrice * newQuantity).toFixed(2),
-                };
-            })
-        );
-
         try {
             setUpdatingItemId(itemId);
-            const updatedCart = await updateCartItem(itemId, newQuantity);
-            setCart(updatedCart);
-            syncCart(updatedCart);
+            await updateQuantity(itemId, newQuantity);
         } catch (err: any) {
-            fetchCart();
             Alert.alert(t('common.error', 'Error'), err.message || t('cart.update_failed', 'Failed to update quantity'));
         } finally {
             setUpdatingItemId(null);
@@ -135,15 +81,10 @@ export default function CartScreen() {
     };
 
     const handleRemoveItem = async (itemId: number) => {
-        updateCartState((items) => items.filter((item) => item.id !== itemId));
-
         try {
             setUpdatingItemId(itemId);
-            const updatedCart = await removeFromCart(itemId);
-            setCart(updatedCart);
-            syncCart(updatedCart);
+            await removeItem(itemId);
         } catch (err: any) {
-            fetchCart();
             Alert.alert(t('common.error', 'Error'), err.message || t('cart.remove_failed', 'Failed to remove item'));
         } finally {
             setUpdatingItemId(null);
@@ -159,59 +100,102 @@ export default function CartScreen() {
         setIsApplyingCoupon(true);
         try {
             const updatedCart = await applyCoupon(couponCode);
-            setCart(updatedCart);
             syncCart(updatedCart);
             Alert.alert(t('common.success', 'Success'), t('coupon.applied', 'Coupon applied successfully!'));
             setCouponCode('');
-        } catch (err: any) {
-            const message = err.response?.data?.message || err.message || 'Failed to apply coupon';
+        } catch (err) {
+            const message = getErrorMessage(err, 'Failed to apply coupon');
             Alert.alert(t('common.error', 'Error'), message);
         } finally {
             setIsApplyingCoupon(false);
         }
     };
 
+    const handleRemoveCoupon = async () => {
+        setIsApplyingCoupon(true);
+        try {
+            syncCart(await removeCoupon());
+        } catch (err) {
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(err, t('coupon.remove_failed', 'Failed to remove coupon')));
+        } finally {
+            setIsApplyingCoupon(false);
+        }
+    };
+
+    const getCouponScope = () => {
+        const vendorIds = cart?.coupon?.eligible_vendor_ids;
+        if (!vendorIds) return null;
+        const vendorNames = Array.from(new Set(
+            (cart?.items ?? [])
+                .filter((item) => item.product.vendor && vendorIds.includes(item.product.vendor.id))
+                .map((item) => item.product.vendor!.name)
+        ));
+        return vendorNames.length > 0
+            ? t('coupon.applies_to', 'Applies to items from {{vendors}}').replace('{{vendors}}', vendorNames.join(', '))
+            : t('coupon.no_eligible_items', 'No items in your cart are eligible for this coupon');
+    };
+
     const handleCheckout = () => {
         if (!cart || cart.items.length === 0) {
             Alert.alert(t('cart.empty_title', 'Empty Cart'), t('cart.empty_prompt', 'Please add items to your cart first'));
             return;
         }
+        if (!isAuthenticated) {
+            Alert.alert(
+                t('auth.sign_in_required', 'Sign In Required'),
+                t('cart.sign_in_checkout', 'Please sign in to check out. Your cart will be kept.'),
+                [
+                    { text: t('common.cancel', 'Cancel'), style: 'cancel' },
+                    { text: t('auth.sign_in', 'Sign In'), onPress: () => navigation.navigate('Login' as never) },
+                ]
+            );
+            return;
+        }
+        if (pendingChanges > 0) {
+            Alert.alert(
+                t('cart.pending_title', 'Cart not synced'),
+                t('cart.pending_checkout', 'Some cart changes have not been saved yet. Please reconnect to continue to checkout.')
+            );
+            return;
+        }
         navigation.navigate('Checkout' as never);
     };
 
+    const describeConflict = (conflict: CartConflict) => {
+        switch (conflict.reason) {
+            case 'price_changed':
+                return t('cart.conflict_price', '{{name}}: price changed from ${{from}} to ${{to}}')
+                    .replace('{{name}}', conflict.product_name)
+                    .replace('{{from}}', Number.parseFloat(conflict.previous_price || '0').toFixed(2))
+                    .replace('{{to}}', Number.parseFloat(conflict.current_price || '0').toFixed(2));
+            case 'stock_reduced':
+                return t('cart.conflict_stock', '{{name}}: only {{count}} available')
+                    .replace('{{name}}', conflict.product_name)
+                    .replace('{{count}}', String(conflict.available_quantity ?? 0));
+            case 'merged':
+                return t('cart.conflict_merged', '{{name}} was already in your account cart; keeping {{count}}')
+                    .replace('{{name}}', conflict.product_name)
+                    .replace('{{count}}', String(conflict.available_quantity ?? conflict.requested_quantity ?? 0));
+            case 'unavailable':
+                return t('cart.conflict_unavailable', '{{name}} is no longer available')
+                    .replace('{{name}}', conflict.product_name);
+            default:
+                return conflict.message
+                    ? `${conflict.product_name}: ${conflict.message}`
+                    : t('cart.conflict_rejected', '{{name}} could not be updated').replace('{{name}}', conflict.product_name);
+        }
+    };
+
     if (isLoading) {
         return <Loading message={t('cart.loading', 'Loading cart...')} />;
     }
 
-    if (!isAuthenticated) {
-        return (
-            <SafeAreaView style={styles.container}>
-                <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
-                <View style={styles.header}>
-                    <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
-                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
-                </TouchableOpacity>
-                <Text style={styles.headerTitle}>{t('cart.title', 'Cart')}</Text>
-                <View style={styles.headerRight} />
-            </View>
-            <View style={styles.authPrompt}>
-                <Ionicons name="cart-outline" size={80} color={colors.textLight} />
-                <Text style={styles.authTitle}>{t('cart.sign_in_title', 'Sign in to view your cart')}</Text>
-                <Text style={styles.authText}>{t('cart.sign_in_subtitle', 'Your cart items will be saved and synced across devices')}</Text>
-                <TouchableOpacity
-                    style={styles.signInButton}
-                    onPress={() => navigation.navigate('Login' as never)}
-                >
-                    <Text style={styles.signInButtonText}>{t('auth.sign_in', 'Sign In')}</Text>
-                </TouchableOpacity>
-            </View>
-        </SafeAreaView>
-    );
-    }
-
     const items = cart?.items || [];
     const subtotal = cart?.subtotal || '0.00';
     const total = cart?.total || '0.00';
+    const discount = parseFloat(cart?.discount || '0');
+    const coupon = cart?.coupon ?? null;
+    const couponScope = getCouponScope();
 
     return (
         <SafeAreaView style={styles.container}>
@@ -242,6 +226,47 @@ export default function CartScreen() {
                 </View>
             ) : (
                 <>
+                    {!isAuthenticated && (
+                        <TouchableOpacity
+                            style={styles.guestBanner}
+                            onPress={() => navigation.navigate('Login' as never)}
+                        >
+                            <Ionicons name="person-circle-outline" size={20} color={colors.primary} />
+                            <Text style={styles.guestBannerText}>
+                                {t('cart.guest_banner', 'Sign in to save your cart and check out')}
+                            </Text>
+                            <Ionicons name="chevron-forward" size={18} color={colors.primary} />
+                        </TouchableOpacity>
+                    )}
+
+                    {(isOffline || pendingChanges > 0) && (
+                        <View style={styles.offlineBanner}>
+                            <Ionicons name="cloud-offline-outline" size={18} color={colors.secondary} />
+                            <Text style={styles.offlineBannerText}>
+                                {pendingChanges > 0
+                                    ? t('cart.offline_pending', "You're offline. {{count}} change(s) will sync when you reconnect.")
+                                        .replace('{{count}}', String(pendingChanges))
+                                    : t('cart.offline', "You're offline. Showing your last saved cart.")}
+                            </Text>
+                        </View>
+                    )}
+
+                    {conflicts.length > 0 && (
+                        <View style={styles.conflictBanner}>
+                            <View style={styles.conflictHeader}>
+                                <Text style={styles.conflictTitle}>{t('cart.conflicts_title', 'Your cart was updated')}</Text>
+                                <TouchableOpacity onPress={dismissConflicts} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                                    <Ionicons name="close" size={18} color={colors.textSecondary} />
+                                </TouchableOpacity>
+                            </View>
+                            {conflicts.map((conflict, index) => (
+                                <Text key={`${conflict.key}-${conflict.reason}-${index}`} style={styles.conflictText}>
+                                    • {describeConflict(conflict)}
+                                </Text>
+                            ))}
+                        </View>
+                    )}
+
                     <ScrollView
                         style={styles.scrollView}
                         showsVerticalScrollIndicator={false}
@@ -317,24 +342,44 @@ export default function CartScreen() {
                     {/* Bottom Section */}
                     <View style={styles.bottomSection}>
                         {/* Coupon Section */}
-                        <View style={styles.couponContainer}>
-                            <Ionicons name="pricetag-outline" size={20} color={colors.textSecondary} style={styles.couponIcon} />
-                            <TextInput
-                                style={styles.couponInput}
-                                placeholder={t('coupon.placeholder', 'Enter coupon code')}
-                                placeholderTextColor={colors.textLight}
-                                value={couponCode}
-                                onChangeText={setCouponCode}
-                                autoCapitalize="characters"
-                            />
-                            <TouchableOpacity
-                                style={[styles.applyButton, isApplyingCoupon && styles.applyButtonDisabled]}
-                                onPress={handleApplyCoupon}
-                                disabled={isApplyingCoupon || !couponCode.trim()}
-                            >
-                                <Text style={styles.applyButtonText}>{t('common.apply', 'Apply')}</Text>
-                            </TouchableOpacity>
-                        </View>
+                        {coupon ? (
+                            <View style={styles.couponApplied}>
+                                <Ionicons name="pricetag" size={18} color={colors.success} style={styles.couponIcon} />
+                                <View style={styles.couponAppliedInfo}>
+                                    <Text style={styles.couponAppliedCode}>{coupon.code}</Text>
+                                    {couponScope && <Text style={styles.couponNote}>{couponScope}</Text>}
+                                </View>
+                                <TouchableOpacity
+                                    style={[styles.applyButton, isApplyingCoupon && styles.applyButtonDisabled]}
+                                    onPress={handleRemoveCoupon}
+                                    disabled={isApplyingCoupon}
+                                >
+                                    <Text style={styles.removeCouponText}>{t('coupon.remove', 'Remove')}</Text>
+                                </TouchableOpacity>
+                            </View>
+                        ) : (
+                            <View style={styles.couponContainer}>
+                                <Ionicons name="pricetag-outline" size={20} color={colors.textSecondary} style={styles.couponIcon} />
+                                <TextInput
+                                    style={styles.couponInput}
+                                    placeholder={t('coupon.placeholder', 'Enter coupon code')}
+                                    placeholderTextColor={colors.textLight}
+                                    value={couponCode}
+                                    onChangeText={setCouponCode}
+                                    autoCapitalize="characters"
+                                />
+                                <TouchableOpacity
+                                    style={[styles.applyButton, isApplyingCoupon && styles.applyButtonDisabled]}
+                                    onPress={handleApplyCoupon}
+                                    disabled={isApplyingCoupon || !couponCode.trim()}
+                                >
+                                    <Text style={styles.applyButtonText}>{t('common.apply', 'Apply')}</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                        {cart?.coupon_messages.map((message) => (
+                            <Text key={message} style={styles.couponMessage}>{message}</Text>
+                        ))}
 
                         {/* Subtotal */}
                         <View style={styles.subtotalRow}>
@@ -342,6 +387,13 @@ export default function CartScreen() {
                             <Text style={styles.subtotalValue}>${parseFloat(subtotal).toFixed(2)}</Text>
                         </View>
 
+                        {discount > 0 && (
+                            <View style={styles.subtotalRow}>
+                                <Text style={styles.subtotalLabel}>{t('checkout.discount', 'Coupon discount')}</Text>
+                                <Text style={[styles.subtotalValue, styles.discountValue]}>-${discount.toFixed(2)}</Text>
+                            </View>
+                        )}
+
                         {/* Total */}
                         <View style={styles.totalRow}>
                             <Text style={styles.totalLabel}>{t('cart.total', 'Total')}</Text>
@@ -550,35 +602,18 @@ const styles = StyleSheet.create({
         fontSize: fontSize.md,
         fontWeight: fontWeight.semibold,
     },
-    authPrompt: {
-        flex: 1,
-        justifyContent: 'center',
+    guestBanner: {
+        flexDirection: 'row',
         alignItems: 'center',
-        padding: spacing.xl,
-    },
-    authTitle: {
-        fontSize: fontSize.xl,
-        fontWeight: fontWeight.bold,
-        color: colors.textPrimary,
-        marginTop: spacing.md,
-    },
-    authText: {
-        fontSize: fontSize.md,
-        color: colors.textSecondary,
-        marginTop: spacing.sm,
-        textAlign: 'center',
-    },
-    signInButton: {
-        backgroundColor: colors.primary,
+        gap: spacing.sm,
+        paddingHorizontal: spacing.md,
         paddingVertical: spacing.sm,
-        paddingHorizontal: spacing.xl,
-        borderRadius: borderRadius.lg,
-        marginTop: spacing.lg,
+        backgroundColor: colors.background,
     },
-    signInButtonText: {
-        color: colors.white,
-        fontSize: fontSize.md,
-        fontWeight: fontWeight.semibold,
+    guestBannerText: {
+        flex: 1,
+        fontSize: fontSize.sm,
+        color: colors.textPrimary,
     },
     couponContainer: {
         flexDirection: 'row',
@@ -603,6 +638,42 @@ const styles = StyleSheet.create({
         paddingVertical: spacing.xs,
         paddingHorizontal: spacing.md,
     },
+    couponApplied: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: '#E8F5E9',
+        borderRadius: borderRadius.lg,
+        paddingHorizontal: spacing.sm,
+        paddingVertical: spacing.sm,
+        marginBottom: spacing.md,
+    },
+    couponAppliedInfo: {
+        flex: 1,
+    },
+    couponAppliedCode: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+        color: colors.success,
+    },
+    couponNote: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+        marginTop: 2,
+    },
+    couponMessage: {
+        fontSize: fontSize.sm,
+        color: colors.error,
+        marginTop: -spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    removeCouponText: {
+        color: colors.error,
+        fontWeight: fontWeight.bold,
+        fontSize: fontSize.md,
+    },
+    discountValue: {
+        color: colors.success,
+    },
     applyButtonDisabled: {
         opacity: 0.5,
     },
@@ -611,4 +682,42 @@ const styles = StyleSheet.create({
         fontWeight: fontWeight.bold,
         fontSize: fontSize.md,
     },
+    offlineBanner: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: colors.background,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        gap: spacing.sm,
+    },
+    offlineBannerText: {
+        flex: 1,
+        fontSize: fontSize.sm,
+        color: colors.secondary,
+    },
+    conflictBanner: {
+        marginHorizontal: spacing.md,
+        marginTop: spacing.md,
+        padding: spacing.md,
+        borderRadius: borderRadius.lg,
+        borderWidth: 1,
+        borderColor: colors.warning,
+        backgroundColor: colors.white,
+    },
+    conflictHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.xs,
+    },
+    conflictTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    conflictText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginTop: spacing.xs,
+    },
 });
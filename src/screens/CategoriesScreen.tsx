@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import {
     View,
     Text,
@@ -14,39 +14,26 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { CategoryCard, Loading } from '../components';
-import { getCategories } from '../services/endpoints';
+import { categoriesQuery } from '../services/catalogQueries';
+import { useQuery } from '../hooks/useQuery';
 import type { Category } from '../types';
-import { useTranslation } from '../context';
+import { useLocalization, useTranslation } from '../context';
 
 export default function CategoriesScreen() {
     const navigation = useNavigation();
     const { t } = useTranslation();
-    const [categories, setCategories] = useState<Category[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const { locale } = useLocalization();
+    const { data, error: categoriesError, isLoading, refetch: refetchCategories } = useQuery(categoriesQuery(locale));
     const [isRefreshing, setIsRefreshing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const categories = data ?? [];
+    const error = categoriesError
+        ? categoriesError.message || t('categories.load_failed', 'Failed to load categories.')
+        : null;
 
-    const fetchCategories = useCallback(async () => {
-        try {
-            setError(null);
-            const data = await getCategories();
-            setCategories(data);
-        } catch (err: any) {
-            console.error('Failed to fetch categories:', err);
-            setError(err.message || t('categories.load_failed', 'Failed to load categories.'));
-        } finally {
-            setIsLoading(false);
-            setIsRefreshing(false);
-        }
-    }, []);
-
-    useEffect(() => {
-        fetchCategories();
-    }, [fetchCategories]);
-
-    const handleRefresh = () => {
+    const handleRefresh = async () => {
         setIsRefreshing(true);
-        fetchCategories();
+        await refetchCategories();
+        setIsRefreshing(false);
     };
 
     const handleCategoryPress = (category: Category) => {
@@ -80,7 +67,7 @@ export default function CategoriesScreen() {
                 <View style={styles.errorContainer}>
                     <Ionicons name="cloud-offline-outline" size={64} color={colors.textLight} />
                     <Text style={styles.errorText}>{error}</Text>
-                    <TouchableOpacity style={styles.retryButton} onPress={fetchCategories}>
+                    <TouchableOpacity style={styles.retryButton} onPress={refetchCategories}>
                         <Text style={styles.retryButtonText}>{t('common.try_again', 'Try Again')}</Text>
                     </TouchableOpacity>
                 </View>
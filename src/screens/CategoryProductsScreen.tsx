@@ -1,136 +1,195 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
     View,
     Text,
     StyleSheet,
     SafeAreaView,
     FlatList,
+    ScrollView,
     TouchableOpacity,
     StatusBar,
     RefreshControl,
-    Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
-import { ProductCard, Loading, ImageCarousel } from '../components';
-import { getProducts, getWishlist, toggleWishlist, getCategories } from '../services/endpoints';
-import type { Product, RootStackParamList, Category } from '../types';
-import { useAuth } from '../context/AuthContext';
-import { useWishlist } from '../context';
-import { useTranslation } from '../context';
+import { ProductCard, Loading, ImageCarousel, ProductFilterSheet } from '../components';
+import { categoriesQuery, productsQuery } from '../services/catalogQueries';
+import { fetchQuery } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { useSlideAction } from '../hooks/useSlideAction';
+import {
+    cleanProductFilters,
+    collectProductFacets,
+    countActiveFilters,
+    getSortOption,
+    matchesProductFilters,
+} from '../services/productFilters';
+import type { Product, ProductFilterState, RootStackParamList, Category } from '../types';
+import { useLocalization, useTranslation } from '../context';
 
 type RouteProps = RouteProp<RootStackParamList, 'CategoryProducts'>;
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+const PAGE_SIZE = 10;
+
 export default function CategoryProductsScreen() {
     const navigation = useNavigation<NavigationProp>();
     const route = useRoute<RouteProps>();
     const { categoryId, categoryName } = route.params;
-    const { isAuthenticated } = useAuth();
-    const { setWishlistCount } = useWishlist();
+    // Links and older params may still carry empty attribute lists
+    const filters = useMemo<ProductFilterState>(() => cleanProductFilters(route.params.filters ?? {}), [route.params.filters]);
     const { t } = useTranslation();
 
+    const { locale } = useLocalization();
+
     const [products, setProducts] = useState<Product[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [page, setPage] = useState(1);
     const [hasMore, setHasMore] = useState(true);
     const [isLoadingMore, setIsLoadingMore] = useState(false);
-    const [wishlistIds, setWishlistIds] = useState<Set<number>>(new Set());
-    const [categoryImages, setCategoryImages] = useState<string[]>([]);
+    const [showFilters, setShowFilters] = useState(false);
 
-    const fetchProducts = useCallback(async (pageNum: number = 1, refresh: boolean = false) => {
-        try {
-            if (refresh) {
-                setIsRefreshing(true);
-            } else if (pageNum === 1) {
-                setIsLoading(true);
-            } else {
-                setIsLoadingMore(true);
-            }
-
-            const response = await getProducts({
-                category_id: categoryId,
-                page: pageNum,
-                per_page: 10,
-            });
+    // The first page comes from the cache; later pages are appended on scroll
+    const { data: firstPage, isLoading, refetch: refetchFirstPage } = useQuery(
+        productsQuery({ ...filters, category_id: categoryId, page: 1, per_page: PAGE_SIZE }, locale)
+    );
+    // Unfiltered first page: the sample facets are built from (same cache entry when no filter is set)
+    const { data: facetSample } = useQuery(
+        productsQuery({ category_id: categoryId, page: 1, per_page: PAGE_SIZE }, locale)
+    );
+    const { data: categories } = useQuery(categoriesQuery(locale));
+
+    useEffect(() => {
+        if (!firstPage) return;
+        setProducts(firstPage.data);
+        setHasMore(firstPage.meta.current_page < firstPage.meta.last_page);
+        setPage(1);
+    }, [firstPage]);
+
+    const heroSlides = useMemo(() => {
+        const match = categories?.find((item: Category) => item.id === categoryId);
+        return match?.hero_slides ?? [];
+    }, [categories, categoryId]);
 
-            if (pageNum === 1) {
-                setProducts(response.data);
-            } else {
-                setProducts(prev => [...prev, ...response.data]);
-            }
+    const categoryImages = useMemo(() => {
+        const match = categories?.find((item: Category) => item.id === categoryId);
+        if (!match) return [];
+        const images = Array.isArray(match.hero_images) && match.hero_images.length > 0
+            ? match.hero_images
+            : match.image
+                ? [match.image]
+                : [];
+        return images.filter(Boolean);
+    }, [categories, categoryId]);
 
+    const handleHeroPress = useSlideAction('category_hero');
+
+    const handleHeroImagePress = (index: number) => {
+        const slide = heroSlides[index];
+        if (slide) {
+            handleHeroPress(slide, index);
+        }
+    };
+
+    const fetchNextPage = async () => {
+        const nextPage = page + 1;
+        const query = productsQuery({ ...filters, category_id: categoryId, page: nextPage, per_page: PAGE_SIZE }, locale);
+        try {
+            setIsLoadingMore(true);
+            const response = await fetchQuery(query.key, query.fetcher);
+            setProducts(prev => [...prev, ...response.data]);
             setHasMore(response.meta.current_page < response.meta.last_page);
-            setPage(pageNum);
+            setPage(nextPage);
         } catch (err: any) {
             console.error('Failed to fetch products:', err);
         } finally {
-            setIsLoading(false);
-            setIsRefreshing(false);
             setIsLoadingMore(false);
         }
-    }, [categoryId]);
+    };
 
-    useEffect(() => {
-        fetchProducts(1);
-    }, [fetchProducts]);
+    // Also applied locally in case the API ignores a facet it does not support
+    const visibleProducts = useMemo(
+        () => products.filter((product) => matchesProductFilters(product, filters)),
+        [products, filters]
+    );
 
-    useEffect(() => {
-        let isMounted = true;
-        const fetchCategory = async () => {
-            try {
-                const categories = await getCategories();
-                const match = categories.find((item: Category) => item.id === categoryId);
-                if (match) {
-                    const images = Array.isArray(match.hero_images) && match.hero_images.length > 0
-                        ? match.hero_images
-                        : match.image
-                            ? [match.image]
-                            : [];
-                    if (isMounted) {
-                        setCategoryImages(images.filter(Boolean));
-                    }
-                }
-            } catch {
-                // ignore
-            }
-        };
-        fetchCategory();
-        return () => {
-            isMounted = false;
-        };
-    }, [categoryId]);
-
-    const refreshWishlist = useCallback(async () => {
-        if (!isAuthenticated) {
-            setWishlistIds(new Set());
-            return;
+    const facets = useMemo(
+        () => collectProductFacets([...(facetSample?.data ?? []), ...products]),
+        [facetSample, products]
+    );
+
+    const activeFilterCount = countActiveFilters(filters);
+
+    const applyFilters = (next: ProductFilterState) => {
+        setShowFilters(false);
+        navigation.setParams({ filters: cleanProductFilters(next) });
+    };
+
+    const activeChips = useMemo(() => {
+        const chips: { key: string; label: string; next: ProductFilterState }[] = [];
+        const sort = getSortOption(filters);
+
+        if (sort) {
+            chips.push({
+                key: 'sort',
+                label: t(sort.labelKey, sort.label),
+                next: { ...filters, sort_by: undefined, sort_order: undefined },
+            });
         }
-        try {
-            const wishlist = await getWishlist();
-            setWishlistIds(new Set(wishlist.map((item) => item.id)));
-            setWishlistCount(wishlist.length);
-        } catch (err) {
-            console.error('Failed to load wishlist:', err);
+        if (filters.min_price !== undefined || filters.max_price !== undefined) {
+            chips.push({
+                key: 'price',
+                label: `${filters.min_price ?? 0} - ${filters.max_price ?? '∞'}`,
+                next: { ...filters, min_price: undefined, max_price: undefined },
+            });
         }
-    }, [isAuthenticated, setWishlistCount]);
+        if (filters.vendor_id !== undefined) {
+            const vendor = facets.vendors.find((item) => item.id === filters.vendor_id);
+            chips.push({
+                key: 'vendor',
+                label: vendor?.name ?? t('filters.vendor', 'Vendor'),
+                next: { ...filters, vendor_id: undefined },
+            });
+        }
+        if (filters.in_stock) {
+            chips.push({
+                key: 'in_stock',
+                label: t('filters.in_stock_only', 'In stock only'),
+                next: { ...filters, in_stock: undefined },
+            });
+        }
+        if (filters.min_rating !== undefined) {
+            chips.push({
+                key: 'rating',
+                label: t('filters.rating_min', '{{rating}}★ & up').replace('{{rating}}', String(filters.min_rating)),
+                next: { ...filters, min_rating: undefined },
+            });
+        }
+        Object.entries(filters.attributes ?? {}).forEach(([name, values]) => {
+            values.forEach((value) => {
+                const remaining = values.filter((item) => item !== value);
+                chips.push({
+                    key: `${name}:${value}`,
+                    label: `${t(`filters.attribute_${name}`, name)}: ${value}`,
+                    next: { ...filters, attributes: { ...filters.attributes, [name]: remaining } },
+                });
+            });
+        });
 
-    useFocusEffect(
-        useCallback(() => {
-            refreshWishlist();
-        }, [refreshWishlist])
-    );
+        return chips;
+    }, [filters, facets, t]);
 
-    const handleRefresh = () => {
-        fetchProducts(1, true);
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        await refetchFirstPage();
+        setIsRefreshing(false);
     };
 
     const handleLoadMore = () => {
         if (!isLoadingMore && hasMore) {
-            fetchProducts(page + 1);
+            fetchNextPage();
         }
     };
 
@@ -138,43 +197,12 @@ export default function CategoryProductsScreen() {
         navigation.navigate('ProductDetail', { slug: product.slug });
     };
 
-    const handleWishlistToggle = async (product: Product) => {
-        if (!isAuthenticated) {
-            Alert.alert(
-                t('auth.sign_in_required', 'Sign In Required'),
-                t('wishlist.sign_in_prompt', 'Please sign in to add items to your wishlist'),
-                [
-                    { text: t('common.cancel', 'Cancel'), style: 'cancel' },
-                    { text: t('auth.sign_in', 'Sign In'), onPress: () => navigation.navigate('Login' as never) },
-                ]
-            );
-            return;
-        }
-
-        try {
-            const result = await toggleWishlist(product.id);
-            setWishlistIds((prev) => {
-                const next = new Set(prev);
-                if (result.added) {
-                    next.add(product.id);
-                } else {
-                    next.delete(product.id);
-                }
-                setWishlistCount(next.size);
-                return next;
-            });
-        } catch (err: any) {
-            Alert.alert(t('common.error', 'Error'), err.message || t('wishlist.update_failed', 'Failed to update wishlist'));
-        }
-    };
-
     const renderProduct = ({ item, index }: { item: Product; index: number }) => (
         <View style={[styles.productWrapper, index % 2 === 0 ? styles.productLeft : styles.productRight]}>
             <ProductCard
                 product={item}
                 onPress={() => handleProductPress(item)}
-                onWishlistPress={() => handleWishlistToggle(item)}
-                isInWishlist={wishlistIds.has(item.id)}
+                showWishlist
                 style={styles.productCard}
             />
         </View>
@@ -205,28 +233,69 @@ export default function CategoryProductsScreen() {
                 >
                     <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
                 </TouchableOpacity>
-                <Text style={styles.headerTitle} numberOfLines={1}>{categoryName}</Text>
-                <TouchableOpacity style={styles.filterButton}>
+                <Text style={styles.headerTitle} numberOfLines={1}>{categoryName || categories?.find((item: Category) => item.id === categoryId)?.name}</Text>
+                <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)}>
                     <Ionicons name="filter-outline" size={22} color={colors.textPrimary} />
+                    {activeFilterCount > 0 && (
+                        <View style={styles.filterBadge}>
+                            <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+                        </View>
+                    )}
                 </TouchableOpacity>
             </View>
 
+            {/* Active Filters */}
+            {activeChips.length > 0 && (
+                <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    style={styles.chipBar}
+                    contentContainerStyle={styles.chipBarContent}
+                >
+                    {activeChips.map((chip) => (
+                        <TouchableOpacity
+                            key={chip.key}
+                            style={styles.activeChip}
+                            onPress={() => applyFilters(chip.next)}
+                        >
+                            <Text style={styles.activeChipText}>{chip.label}</Text>
+                            <Ionicons name="close" size={14} color={colors.primary} />
+                        </TouchableOpacity>
+                    ))}
+                    <TouchableOpacity style={styles.clearChip} onPress={() => applyFilters({})}>
+                        <Text style={styles.clearChipText}>{t('filters.clear_all', 'Clear all')}</Text>
+                    </TouchableOpacity>
+                </ScrollView>
+            )}
+
             {/* Products Count */}
             <View style={styles.countContainer}>
                 <Text style={styles.countText}>
-                    {t('category.products_count', '{{count}} Products').replace('{{count}}', String(products.length))}
+                    {t('category.products_count', '{{count}} Products').replace('{{count}}', String(visibleProducts.length))}
                 </Text>
             </View>
 
-            {products.length === 0 ? (
+            {visibleProducts.length === 0 && !hasMore ? (
                 <View style={styles.emptyState}>
                     <Ionicons name="cube-outline" size={64} color={colors.textLight} />
-                    <Text style={styles.emptyTitle}>{t('category.empty_title', 'No products found')}</Text>
-                    <Text style={styles.emptyText}>{t('category.empty_subtitle', "This category doesn't have any products yet")}</Text>
+                    {activeFilterCount > 0 ? (
+                        <>
+                            <Text style={styles.emptyTitle}>{t('filters.empty_title', 'No matching products')}</Text>
+                            <Text style={styles.emptyText}>{t('filters.empty_subtitle', 'Try removing some filters')}</Text>
+                            <TouchableOpacity style={styles.clearButton} onPress={() => applyFilters({})}>
+                                <Text style={styles.clearButtonText}>{t('filters.clear_all', 'Clear all')}</Text>
+                            </TouchableOpacity>
+                        </>
+                    ) : (
+                        <>
+                            <Text style={styles.emptyTitle}>{t('category.empty_title', 'No products found')}</Text>
+                            <Text style={styles.emptyText}>{t('category.empty_subtitle', "This category doesn't have any products yet")}</Text>
+                        </>
+                    )}
                 </View>
             ) : (
                 <FlatList
-                    data={products}
+                    data={visibleProducts}
                     renderItem={renderProduct}
                     keyExtractor={(item) => item.id.toString()}
                     numColumns={2}
@@ -246,12 +315,20 @@ export default function CategoryProductsScreen() {
                     ListHeaderComponent={
                         categoryImages.length > 0 ? (
                             <View style={styles.carouselWrapper}>
-                                <ImageCarousel images={categoryImages} />
+                                <ImageCarousel images={categoryImages} onImagePress={handleHeroImagePress} />
                             </View>
                         ) : null
                     }
                 />
             )}
+
+            <ProductFilterSheet
+                visible={showFilters}
+                filters={filters}
+                facets={facets}
+                onApply={applyFilters}
+                onClose={() => setShowFilters(false)}
+            />
         </SafeAreaView>
     );
 }
@@ -284,6 +361,57 @@ const styles = StyleSheet.create({
         width: 40,
         alignItems: 'flex-end',
     },
+    filterBadge: {
+        position: 'absolute',
+        top: -6,
+        right: -8,
+        backgroundColor: colors.primary,
+        borderRadius: borderRadius.full,
+        minWidth: 18,
+        height: 18,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 4,
+    },
+    filterBadgeText: {
+        color: colors.white,
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.bold,
+    },
+    chipBar: {
+        flexGrow: 0,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    chipBarContent: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        alignItems: 'center',
+    },
+    activeChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.sm,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.primary,
+        marginRight: spacing.sm,
+    },
+    activeChipText: {
+        fontSize: fontSize.sm,
+        color: colors.primary,
+        marginRight: spacing.xs,
+    },
+    clearChip: {
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.sm,
+    },
+    clearChipText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        textDecorationLine: 'underline',
+    },
     countContainer: {
         paddingHorizontal: spacing.md,
         paddingVertical: spacing.sm,
@@ -334,4 +462,16 @@ const styles = StyleSheet.create({
         marginTop: spacing.sm,
         textAlign: 'center',
     },
+    clearButton: {
+        marginTop: spacing.lg,
+        paddingVertical: spacing.sm,
+        paddingHorizontal: spacing.lg,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.primary,
+    },
+    clearButtonText: {
+        color: colors.white,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+    },
 });
@@ -1,22 +1,49 @@
 // src/screens/CheckoutScreen.tsx
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { View, Text, StyleSheet, SafeAreaView, StatusBar, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
-import { getAddresses, createOrder } from '../services/endpoints';
+import { getAddresses, createOrder, cancelOrder, getCheckoutQuote } from '../services/endpoints';
+import { buildCheckoutSummary } from '../services/checkout';
+import { getErrorMessage } from '../services/errors';
+import { PAYMENT_METHODS, getPaymentMethod, payForOrders } from '../services/payments';
 import { useAuth } from '../context/AuthContext';
-import type { Address, Order } from '../types';
-import { useTranslation } from '../context';
+import type { Address, CheckoutQuote, Order, PaymentMethodId, PaymentStatus, RootStackParamList } from '../types';
+import { useCart, useTranslation } from '../context';
+import { getLocalizedField } from '../i18n/locale';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function CheckoutScreen() {
-    const navigation = useNavigation();
+    const navigation = useNavigation<NavigationProp>();
     const { user } = useAuth();
     const { t } = useTranslation();
+    const { cart, refreshCart } = useCart();
     const [addresses, setAddresses] = useState<Address[]>([]);
     const [selectedAddressId, setSelectedAddressId] = useState<number | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isPlacing, setIsPlacing] = useState(false);
+    const [paymentMethod, setPaymentMethod] = useState<PaymentMethodId>('cod');
+    // Orders already created whose online payment has not gone through yet
+    const [placedOrders, setPlacedOrders] = useState<Order[] | null>(null);
+    const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(null);
+    const [paymentError, setPaymentError] = useState<string | null>(null);
+    const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+    const [isQuoting, setIsQuoting] = useState(false);
+    const [quoteError, setQuoteError] = useState<string | null>(null);
+    // Bumped to price again after a failed quote
+    const [quoteAttempt, setQuoteAttempt] = useState(0);
+    const isMountedRef = useRef(true);
+
+    const summary = useMemo(() => buildCheckoutSummary(cart, quote), [cart, quote]);
+
+    useEffect(() => {
+        return () => {
+            isMountedRef.current = false;
+        };
+    }, []);
 
     useEffect(() => {
         const fetch = async () => {
@@ -34,6 +61,32 @@ export default function CheckoutScreen() {
         fetch();
     }, []);
 
+    // Shipping depends on the address, so re-price whenever it or the cart changes
+    useEffect(() => {
+        if (!selectedAddressId || placedOrders) return;
+
+        let isActive = true;
+        setIsQuoting(true);
+        setQuoteError(null);
+        getCheckoutQuote(selectedAddressId)
+            .then((next) => {
+                if (isActive) setQuote(next);
+            })
+            .catch((e) => {
+                console.error('Could not price checkout', e);
+                if (!isActive) return;
+                setQuote(null);
+                setQuoteError(getErrorMessage(e, t('checkout.quote_failed', 'Could not calculate shipping and discounts for this address.')));
+            })
+            .finally(() => {
+                if (isActive) setIsQuoting(false);
+            });
+
+        return () => {
+            isActive = false;
+        };
+    }, [selectedAddressId, cart?.items, placedOrders, quoteAttempt]);
+
     // Refresh addresses when screen comes into focus
     useEffect(() => {
         const unsubscribe = navigation.addListener('focus', async () => {
@@ -51,25 +104,118 @@ export default function CheckoutScreen() {
         return unsubscribe;
     }, [navigation, selectedAddressId]);
 
+    const goToOrderSuccess = (orders: Order[]) => {
+        // The backend emptied the cart when it created the orders
+        refreshCart();
+        navigation.navigate('OrderSuccess', { orderIds: orders.map((order) => order.id) });
+    };
+
+    const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+    const payForPlacedOrders = async (orders: Order[]) => {
+        setPaymentError(null);
+        if (!getPaymentMethod(paymentMethod).isOnline) {
+            setPlacedOrders(null);
+            goToOrderSuccess(orders);
+            return;
+        }
+
+        const session = await payForOrders(orders.map((order) => order.id), paymentMethod, {
+            isCancelled: () => !isMountedRef.current,
+            onStatusChange: (next) => setPaymentStatus(next.status),
+        });
+        if (!isMountedRef.current) return;
+
+        if (session.status === 'paid') {
+            setPlacedOrders(null);
+            goToOrderSuccess(orders);
+            return;
+        }
+
+        if (session.status === 'cancelled') {
+            setPaymentError(t('payment.cancelled', 'Payment was cancelled. You can try again or cancel the order.'));
+        } else if (session.status === 'failed' || session.status === 'expired') {
+            setPaymentError(session.failure_reason || t('payment.failed', 'Payment failed. Please try again or cancel the order.'));
+        } else {
+            // Still pending after polling gave up: the order exists, payment may still land
+            Alert.alert(
+                t('payment.pending_title', 'Payment pending'),
+                t('payment.pending_message', 'We have not received a confirmation yet. Your order will update once the payment is confirmed.'),
+                [{
+                    text: t('common.ok', 'OK'),
+                    onPress: () => {
+                        refreshCart();
+                        navigation.navigate('OrderHistory');
+                    },
+                }]
+            );
+        }
+    };
+
     const handlePlaceOrder = async () => {
         if (!selectedAddressId) {
             Alert.alert(t('address.select_title', 'Select address'), t('address.select_prompt', 'Please select a delivery address'));
             return;
         }
+        if (!placedOrders && summary.groups.length === 0) {
+            Alert.alert(t('common.error', 'Error'), t('cart.empty_title', 'Your cart is empty'));
+            return;
+        }
         setIsPlacing(true);
+        // Set once the orders exist, so a payment error is not reported as a failed order
+        let orders = placedOrders;
         try {
-            const orders = await createOrder(selectedAddressId, 'cod');
-            // Assuming API returns array of orders, take the last one
-            const order = orders[orders.length - 1];
-            navigation.navigate('OrderSuccess' as never, { orderId: order.id });
-        } catch (e: any) {
+            // Retries reuse the orders created by the first attempt
+            orders = orders ?? await createOrder(selectedAddressId, paymentMethod);
+            setPlacedOrders(orders);
+            await payForPlacedOrders(orders);
+        } catch (e) {
             console.error('Order error', e);
-            Alert.alert(t('common.error', 'Error'), e.message || t('checkout.place_order_failed', 'Failed to place order'));
+            const fallback = orders
+                ? t('payment.start_failed', 'Could not start the payment')
+                : t('checkout.place_order_failed', 'Failed to place order');
+            setPaymentError(getErrorMessage(e, fallback));
         } finally {
-            setIsPlacing(false);
+            if (isMountedRef.current) {
+                setIsPlacing(false);
+                setPaymentStatus(null);
+            }
         }
     };
 
+    const handleCancelOrders = () => {
+        if (!placedOrders) return;
+        Alert.alert(
+            t('payment.cancel_order_title', 'Cancel order?'),
+            t('payment.cancel_order_message', 'Your unpaid order will be cancelled.'),
+            [
+                { text: t('common.no', 'No'), style: 'cancel' },
+                {
+                    text: t('payment.cancel_order', 'Cancel Order'),
+                    style: 'destructive',
+                    onPress: async () => {
+                        const results = await Promise.allSettled(placedOrders.map((order) => cancelOrder(order.id)));
+                        if (results.some((result) => result.status === 'rejected')) {
+                            Alert.alert(t('common.error', 'Error'), t('payment.cancel_order_failed', 'Could not cancel every order. Please check your order history.'));
+                        }
+                        setPlacedOrders(null);
+                        refreshCart();
+                        navigation.goBack();
+                    },
+                },
+            ]
+        );
+    };
+
+    const getPlaceOrderLabel = () => {
+        if (isPlacing) {
+            return paymentStatus === 'processing' || paymentStatus === 'pending'
+                ? t('payment.waiting', 'Waiting for payment...')
+                : t('checkout.placing', 'Placing...');
+        }
+        return placedOrders ? t('payment.retry', 'Retry Payment') : t('checkout.place_order', 'Place Order');
+    };
+
     if (isLoading) {
         return <ActivityIndicator style={{ flex: 1 }} size="large" color={colors.primary} />;
     }
@@ -91,28 +237,158 @@ export default function CheckoutScreen() {
                         key={addr.id}
                         style={[styles.addressItem, selectedAddressId === addr.id && styles.addressItemSelected]}
                         onPress={() => setSelectedAddressId(addr.id)}
+                        disabled={!!placedOrders}
                     >
                         <Text style={styles.addressLabel}>{addr.label}</Text>
                         <Text style={styles.addressDetails}>{addr.full_address}</Text>
                     </TouchableOpacity>
                 ))}
 
-                <TouchableOpacity
-                    style={styles.addAddressButton}
-                    onPress={() => navigation.navigate('AddAddress' as never)}
-                >
-                    <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
-                    <Text style={styles.addAddressText}>{t('address.add_new', 'Add New Address')}</Text>
-                </TouchableOpacity>
-                <Text style={styles.sectionTitle}>{t('checkout.payment_method', 'Payment Method')}</Text>
-                <View style={styles.paymentPlaceholder}>
-                    <Text style={styles.paymentText}>{t('checkout.payment_cod', 'Cash on Delivery (COD) - Coming soon')}</Text>
+                {!placedOrders && (
+                    <TouchableOpacity
+                        style={styles.addAddressButton}
+                        onPress={() => navigation.navigate('AddAddress')}
+                    >
+                        <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
+                        <Text style={styles.addAddressText}>{t('address.add_new', 'Add New Address')}</Text>
+                    </TouchableOpacity>
+                )}
+                <Text style={styles.sectionTitle}>{t('checkout.review', 'Review Order')}</Text>
+                {summary.groups.map((group) => (
+                    <View key={group.key} style={styles.vendorGroup}>
+                        <View style={styles.vendorHeader}>
+                            <Ionicons name="storefront-outline" size={18} color={colors.textSecondary} />
+                            <Text style={styles.vendorName}>
+                                {group.vendor?.name ?? t('checkout.unknown_vendor', 'Other items')}
+                            </Text>
+                            {group.isCouponEligible && (
+                                <View style={styles.couponTag}>
+                                    <Text style={styles.couponTagText}>{summary.couponCode}</Text>
+                                </View>
+                            )}
+                        </View>
+                        {group.items.map((item) => (
+                            <View key={item.id} style={styles.lineItem}>
+                                <View style={styles.lineInfo}>
+                                    <Text style={styles.lineName} numberOfLines={1}>
+                                        {getLocalizedField(item.product as any, 'name', item.product.name)}
+                                    </Text>
+                                    <Text style={styles.lineMeta}>
+                                        {item.variant ? `${item.variant.name} · ` : ''}{item.quantity} × ${item.unit_price}
+                                    </Text>
+                                </View>
+                                <Text style={styles.linePrice}>
+                                    {formatAmount(Number.parseFloat(item.subtotal) || 0)}
+                                </Text>
+                            </View>
+                        ))}
+                        <View style={styles.summaryRow}>
+                            <Text style={styles.lineMeta}>{t('checkout.shipping', 'Shipping')}</Text>
+                            <Text style={styles.lineMeta}>
+                                {group.shipping === null
+                                    ? t('checkout.shipping_pending', 'Calculated at delivery')
+                                    : group.shipping === 0
+                                        ? t('checkout.shipping_free', 'Free')
+                                        : formatAmount(group.shipping)}
+                            </Text>
+                        </View>
+                    </View>
+                ))}
+
+                <View style={styles.totals}>
+                    <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>{t('cart.subtotal', 'Subtotal')}</Text>
+                        <Text style={styles.summaryValue}>{formatAmount(summary.subtotal)}</Text>
+                    </View>
+                    <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>{t('checkout.shipping', 'Shipping')}</Text>
+                        {isQuoting ? (
+                            <ActivityIndicator size="small" color={colors.primary} />
+                        ) : (
+                            <Text style={styles.summaryValue}>
+                                {quoteError
+                                    ? t('checkout.shipping_unavailable', 'Unavailable')
+                                    : summary.shipping === null
+                                        ? t('checkout.shipping_pending', 'Calculated at delivery')
+                                        : formatAmount(summary.shipping)}
+                            </Text>
+                        )}
+                    </View>
+                    {summary.discount > 0 && (
+                        <View style={styles.summaryRow}>
+                            <Text style={styles.summaryLabel}>
+                                {summary.couponCode
+                                    ? t('checkout.discount_code', 'Coupon ({{code}})').replace('{{code}}', summary.couponCode)
+                                    : t('checkout.discount', 'Coupon discount')}
+                            </Text>
+                            <Text style={[styles.summaryValue, styles.discountValue]}>-{formatAmount(summary.discount)}</Text>
+                        </View>
+                    )}
+                    <View style={[styles.summaryRow, styles.totalRow]}>
+                        <Text style={styles.totalLabel}>{t('cart.total', 'Total')}</Text>
+                        <Text style={styles.totalValue}>{formatAmount(summary.total)}</Text>
+                    </View>
+                    {quoteError && !isQuoting && (
+                        <View style={[styles.paymentError, styles.quoteError]}>
+                            <Ionicons name="alert-circle" size={20} color={colors.error} />
+                            <Text style={styles.paymentErrorText}>{quoteError}</Text>
+                            <TouchableOpacity onPress={() => setQuoteAttempt((attempt) => attempt + 1)}>
+                                <Text style={styles.retryText}>{t('common.retry', 'Retry')}</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                    {summary.groups.length > 1 && (
+                        <Text style={styles.splitNote}>
+                            {t('checkout.split_note', 'Your items ship from {{count}} sellers and will be placed as separate orders.')
+                                .replace('{{count}}', String(summary.groups.length))}
+                        </Text>
+                    )}
                 </View>
+
+                <Text style={styles.sectionTitle}>{t('checkout.payment_method', 'Payment Method')}</Text>
+                {PAYMENT_METHODS.map((method) => {
+                    const isSelected = paymentMethod === method.id;
+                    return (
+                        <TouchableOpacity
+                            key={method.id}
+                            style={[styles.paymentItem, isSelected && styles.paymentItemSelected]}
+                            onPress={() => setPaymentMethod(method.id)}
+                            // The orders were created with this method; cancel them to pick another
+                            disabled={isPlacing || (!!placedOrders && !isSelected)}
+                        >
+                            <Ionicons
+                                name={method.icon as keyof typeof Ionicons.glyphMap}
+                                size={22}
+                                color={isSelected ? colors.primary : colors.textSecondary}
+                            />
+                            <View style={styles.paymentInfo}>
+                                <Text style={styles.paymentLabel}>{t(method.labelKey, method.label)}</Text>
+                                <Text style={styles.paymentText}>{t(method.descriptionKey, method.description)}</Text>
+                            </View>
+                            <Ionicons
+                                name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                                size={20}
+                                color={isSelected ? colors.primary : colors.textLight}
+                            />
+                        </TouchableOpacity>
+                    );
+                })}
+
+                {paymentError && (
+                    <View style={styles.paymentError}>
+                        <Ionicons name="alert-circle" size={20} color={colors.error} />
+                        <Text style={styles.paymentErrorText}>{paymentError}</Text>
+                    </View>
+                )}
+
                 <TouchableOpacity style={styles.placeOrderButton} onPress={handlePlaceOrder} disabled={isPlacing}>
-                    <Text style={styles.placeOrderButtonText}>
-                        {isPlacing ? t('checkout.placing', 'Placing...') : t('checkout.place_order', 'Place Order')}
-                    </Text>
+                    <Text style={styles.placeOrderButtonText}>{getPlaceOrderLabel()}</Text>
                 </TouchableOpacity>
+                {placedOrders && !isPlacing && (
+                    <TouchableOpacity style={styles.cancelOrderButton} onPress={handleCancelOrders}>
+                        <Text style={styles.cancelOrderText}>{t('payment.cancel_order', 'Cancel Order')}</Text>
+                    </TouchableOpacity>
+                )}
             </ScrollView>
         </SafeAreaView>
     );
@@ -130,10 +406,38 @@ const styles = StyleSheet.create({
     addressItemSelected: { borderColor: colors.primary },
     addressLabel: { fontSize: fontSize.md, fontWeight: fontWeight.medium, color: colors.textPrimary },
     addressDetails: { fontSize: fontSize.sm, color: colors.textSecondary },
-    paymentPlaceholder: { padding: spacing.sm, borderWidth: 1, borderColor: colors.borderLight, borderRadius: borderRadius.md, marginBottom: spacing.lg },
+    vendorGroup: { borderWidth: 1, borderColor: colors.borderLight, borderRadius: borderRadius.md, padding: spacing.sm, marginBottom: spacing.sm },
+    vendorHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: spacing.xs },
+    vendorName: { marginLeft: spacing.xs, fontSize: fontSize.md, fontWeight: fontWeight.semibold, color: colors.textPrimary },
+    couponTag: { marginLeft: 'auto', backgroundColor: '#E8F5E9', borderRadius: borderRadius.sm, paddingHorizontal: spacing.xs, paddingVertical: 2 },
+    couponTagText: { fontSize: fontSize.xs, fontWeight: fontWeight.semibold, color: colors.success },
+    lineItem: { flexDirection: 'row', alignItems: 'center', paddingVertical: spacing.xs },
+    lineInfo: { flex: 1, marginRight: spacing.sm },
+    lineName: { fontSize: fontSize.sm, color: colors.textPrimary },
+    lineMeta: { fontSize: fontSize.sm, color: colors.textSecondary },
+    linePrice: { fontSize: fontSize.sm, fontWeight: fontWeight.medium, color: colors.textPrimary },
+    totals: { backgroundColor: colors.background, borderRadius: borderRadius.md, padding: spacing.md, marginBottom: spacing.lg },
+    summaryRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: spacing.xs },
+    summaryLabel: { fontSize: fontSize.md, color: colors.textSecondary },
+    summaryValue: { fontSize: fontSize.md, color: colors.textPrimary },
+    discountValue: { color: colors.success },
+    totalRow: { borderTopWidth: 1, borderTopColor: colors.borderLight, marginTop: spacing.xs, paddingTop: spacing.sm },
+    totalLabel: { fontSize: fontSize.lg, fontWeight: fontWeight.bold, color: colors.textPrimary },
+    totalValue: { fontSize: fontSize.lg, fontWeight: fontWeight.bold, color: colors.primary },
+    splitNote: { fontSize: fontSize.xs, color: colors.textSecondary, marginTop: spacing.sm },
+    paymentItem: { flexDirection: 'row', alignItems: 'center', padding: spacing.sm, borderWidth: 1, borderColor: colors.borderLight, borderRadius: borderRadius.md, marginBottom: spacing.sm },
+    paymentItemSelected: { borderColor: colors.primary },
+    paymentInfo: { flex: 1, marginHorizontal: spacing.sm },
+    paymentLabel: { fontSize: fontSize.md, fontWeight: fontWeight.medium, color: colors.textPrimary },
     paymentText: { fontSize: fontSize.sm, color: colors.textSecondary },
-    placeOrderButton: { backgroundColor: colors.primary, paddingVertical: spacing.md, borderRadius: borderRadius.lg, alignItems: 'center' },
+    paymentError: { flexDirection: 'row', alignItems: 'center', padding: spacing.sm, borderRadius: borderRadius.md, backgroundColor: '#FDECEA', marginBottom: spacing.sm },
+    paymentErrorText: { flex: 1, marginLeft: spacing.sm, fontSize: fontSize.sm, color: colors.error },
+    quoteError: { marginTop: spacing.sm, marginBottom: 0 },
+    retryText: { marginLeft: spacing.sm, fontSize: fontSize.sm, fontWeight: fontWeight.semibold, color: colors.primary },
+    placeOrderButton: { backgroundColor: colors.primary, paddingVertical: spacing.md, borderRadius: borderRadius.lg, alignItems: 'center', marginTop: spacing.md },
     placeOrderButtonText: { color: colors.white, fontSize: fontSize.lg, fontWeight: fontWeight.bold },
+    cancelOrderButton: { paddingVertical: spacing.md, alignItems: 'center' },
+    cancelOrderText: { color: colors.error, fontSize: fontSize.md, fontWeight: fontWeight.medium },
     addAddressButton: {
         flexDirection: 'row',
         alignItems: 'center',
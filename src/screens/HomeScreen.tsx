@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     View,
     Text,
@@ -9,75 +9,59 @@ import {
     TouchableOpacity,
     StatusBar,
     RefreshControl,
-    Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { ProductCard, CategoryCard, HeroBanner, Loading } from '../components';
-import { getHome, getWishlist, toggleWishlist } from '../services/endpoints';
-import type { HomeResponse, Product, Category, Slide } from '../types';
+import { homeQuery } from '../services/catalogQueries';
+import { useQuery } from '../hooks/useQuery';
+import { useSlideAction } from '../hooks/useSlideAction';
+import { getOrders } from '../services/endpoints';
+import { getPreviouslyPurchased } from '../services/reorder';
+import type { Product, Category } from '../types';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../types';
-import { useAuth } from '../context/AuthContext';
-import { useCart, useWishlist } from '../context';
-import { useTranslation } from '../context';
+import { useAuth, useCart } from '../context';
+import { useLocalization, useTranslation } from '../context';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function HomeScreen() {
     const navigation = useNavigation<NavigationProp>();
-    const { isAuthenticated } = useAuth();
+    const handleSlidePress = useSlideAction('home_hero');
     const { itemsCount } = useCart();
-    const { setWishlistCount } = useWishlist();
     const { t } = useTranslation();
-    const [homeData, setHomeData] = useState<HomeResponse | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
+    const { locale } = useLocalization();
+    const { data: homeData, error: homeError, isLoading, refetch: refetchHome } = useQuery(homeQuery(locale));
     const [isRefreshing, setIsRefreshing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [wishlistIds, setWishlistIds] = useState<Set<number>>(new Set());
-
-    const fetchHomeData = useCallback(async () => {
-        try {
-            setError(null);
-            const data = await getHome();
-            setHomeData(data);
-        } catch (err: any) {
-            console.error('Failed to fetch home data:', err);
-            setError(err.message || t('home.error_load', 'Failed to load data. Please try again.'));
-        } finally {
-            setIsLoading(false);
-            setIsRefreshing(false);
-        }
-    }, []);
-
-    useEffect(() => {
-        fetchHomeData();
-    }, [fetchHomeData]);
+    const { isAuthenticated } = useAuth();
+    const [previouslyPurchased, setPreviouslyPurchased] = useState<Product[]>([]);
+    const error = homeError
+        ? homeError.message || t('home.error_load', 'Failed to load data. Please try again.')
+        : null;
 
-    const refreshWishlist = useCallback(async () => {
+    // The shelf is a nice-to-have; a failed order fetch just hides it
+    const fetchPreviouslyPurchased = useCallback(async () => {
         if (!isAuthenticated) {
-            setWishlistIds(new Set());
+            setPreviouslyPurchased([]);
             return;
         }
         try {
-            const wishlist = await getWishlist();
-            setWishlistIds(new Set(wishlist.map((item) => item.id)));
-            setWishlistCount(wishlist.length);
-        } catch (err) {
-            console.error('Failed to load wishlist:', err);
+            setPreviouslyPurchased(getPreviouslyPurchased(await getOrders()));
+        } catch (e) {
+            console.error('Failed to load previously purchased products', e);
         }
-    }, [isAuthenticated, setWishlistCount]);
+    }, [isAuthenticated]);
 
-    useFocusEffect(
-        useCallback(() => {
-            refreshWishlist();
-        }, [refreshWishlist])
-    );
+    useEffect(() => {
+        fetchPreviouslyPurchased();
+    }, [fetchPreviouslyPurchased]);
 
-    const handleRefresh = () => {
+    const handleRefresh = async () => {
         setIsRefreshing(true);
-        fetchHomeData();
+        await Promise.all([refetchHome(), fetchPreviouslyPurchased()]);
+        setIsRefreshing(false);
     };
 
     const handleProductPress = (product: Product) => {
@@ -91,41 +75,6 @@ export default function HomeScreen() {
         });
     };
 
-    const handleSlidePress = (slide: Slide) => {
-        // Handle slide navigation based on link_type and link_value
-        console.log('Slide pressed:', slide);
-    };
-
-    const handleWishlistToggle = async (product: Product) => {
-        if (!isAuthenticated) {
-            Alert.alert(
-                t('auth.sign_in_required', 'Sign In Required'),
-                t('wishlist.sign_in_prompt', 'Please sign in to add items to your wishlist'),
-                [
-                    { text: t('common.cancel', 'Cancel'), style: 'cancel' },
-                    { text: t('auth.sign_in', 'Sign In'), onPress: () => navigation.navigate('Login' as never) },
-                ]
-            );
-            return;
-        }
-
-        try {
-            const result = await toggleWishlist(product.id);
-            setWishlistIds((prev) => {
-                const next = new Set(prev);
-                if (result.added) {
-                    next.add(product.id);
-                } else {
-                    next.delete(product.id);
-                }
-                setWishlistCount(next.size);
-                return next;
-            });
-        } catch (err: any) {
-            Alert.alert(t('common.error', 'Error'), err.message || t('wishlist.update_failed', 'Failed to update wishlist'));
-        }
-    };
-
     const handleSearchPress = () => {
         navigation.navigate('Search' as never);
     };
@@ -140,7 +89,7 @@ export default function HomeScreen() {
                 <View style={styles.errorContainer}>
                     <Ionicons name="cloud-offline-outline" size={64} color={colors.textLight} />
                     <Text style={styles.errorText}>{error}</Text>
-                    <TouchableOpacity style={styles.retryButton} onPress={fetchHomeData}>
+                    <TouchableOpacity style={styles.retryButton} onPress={refetchHome}>
                         <Text style={styles.retryButtonText}>{t('common.try_again', 'Try Again')}</Text>
                     </TouchableOpacity>
                 </View>
@@ -210,6 +159,30 @@ export default function HomeScreen() {
                     onSlidePress={handleSlidePress}
                 />
 
+                {/* Previously Purchased Section */}
+                {previouslyPurchased.length > 0 && (
+                    <View style={styles.section}>
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>{t('home.previously_purchased', 'Previously Purchased')}</Text>
+                            <TouchableOpacity onPress={() => navigation.navigate('OrderHistory')}>
+                                <Text style={styles.seeAllText}>{t('orders.history', 'Order History')}</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                            {previouslyPurchased.map((product) => (
+                                <ProductCard
+                                    key={product.id}
+                                    product={product}
+                                    onPress={() => handleProductPress(product)}
+                                    showWishlist
+                                    style={styles.productCard}
+                                />
+                            ))}
+                        </ScrollView>
+                    </View>
+                )}
+
                 {/* New Arrivals Section */}
                 {newArrivals.length > 0 && (
                     <View style={styles.section}>
@@ -226,8 +199,7 @@ export default function HomeScreen() {
                                     key={product.id}
                                     product={product}
                                     onPress={() => handleProductPress(product)}
-                                    onWishlistPress={() => handleWishlistToggle(product)}
-                                    isInWishlist={wishlistIds.has(product.id)}
+                                    showWishlist
                                     style={styles.productCard}
                                 />
                             ))}
@@ -251,8 +223,7 @@ export default function HomeScreen() {
                                     key={product.id}
                                     product={product}
                                     onPress={() => handleProductPress(product)}
-                                    onWishlistPress={() => handleWishlistToggle(product)}
-                                    isInWishlist={wishlistIds.has(product.id)}
+                                    showWishlist
                                     style={styles.productCard}
                                 />
                             ))}
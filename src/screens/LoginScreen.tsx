@@ -17,12 +17,14 @@ import {
 import * as WebBrowser from 'expo-web-browser';
 import * as Linking from 'expo-linking';
 import { BASE_URL } from '../services/api';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { StackActions, useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { Loading } from '../components';
 import { useAuth } from '../context/AuthContext';
 import { useTranslation } from '../context';
+import { clearPendingRoute, consumePendingRoute } from '../navigation/linking';
 
 export default function LoginScreen() {
     const navigation = useNavigation();
@@ -38,6 +40,9 @@ export default function LoginScreen() {
     const [twoFactorEmail, setTwoFactorEmail] = useState('');
     const [isVerifyingTwoFactor, setIsVerifyingTwoFactor] = useState(false);
 
+    // Leaving without signing in drops any link that was waiting on it
+    React.useEffect(() => navigation.addListener('beforeRemove', clearPendingRoute), [navigation]);
+
     // Watch for 2FA requirement
     React.useEffect(() => {
         if (requiresTwoFactor) {
@@ -46,6 +51,18 @@ export default function LoginScreen() {
         }
     }, [requiresTwoFactor]);
 
+    // Continue to the screen a deep link was heading to, otherwise go back
+    const leaveLoginScreen = () => {
+        const pendingRoute = consumePendingRoute();
+        if (pendingRoute) {
+            navigation.dispatch(StackActions.replace(pendingRoute.name, pendingRoute.params));
+        } else if (navigation.canGoBack()) {
+            navigation.goBack();
+        } else {
+            navigation.navigate('Main' as never);
+        }
+    };
+
     const handleGoogleLogin = async () => {
         try {
             const redirectUrl = Linking.createURL('auth-callback');
@@ -65,17 +82,13 @@ export default function LoginScreen() {
                 // Format: tonas://auth-callback?token=xyz
                 const url = new URL(result.url);
                 const token = url.searchParams.get('token');
+                const refreshToken = url.searchParams.get('refresh_token');
 
                 if (token) {
                     setIsLoading(true); // show loading on main screen while processing
                     try {
-                        await processExternalToken(token);
-                        // Navigate home
-                        if (navigation.canGoBack()) {
-                            navigation.goBack();
-                        } else {
-                            navigation.navigate('Main' as never);
-                        }
+                        await processExternalToken(token, refreshToken);
+                        leaveLoginScreen();
                     } finally {
                         setIsLoading(false);
                     }
@@ -99,13 +112,9 @@ export default function LoginScreen() {
             await verifyTwoFactor(twoFactorEmail || email, twoFactorCode);
             setShowTwoFactor(false);
             setTwoFactorCode('');
-            if (navigation.canGoBack()) {
-                navigation.goBack();
-            } else {
-                navigation.navigate('Main' as never);
-            }
-        } catch (error: any) {
-            const message = error.response?.data?.message || t('auth.2fa_invalid', 'Invalid code');
+            leaveLoginScreen();
+        } catch (error) {
+            const message = getErrorMessage(error, t('auth.2fa_invalid', 'Invalid code'));
             Alert.alert(t('auth.2fa_failed', 'Verification Failed'), message);
         } finally {
             setIsVerifyingTwoFactor(false);
@@ -136,18 +145,24 @@ export default function LoginScreen() {
 
         try {
             setIsLoading(true);
-            await login(email.trim(), password);
-
-            // Navigate back or to home
-            if (navigation.canGoBack()) {
-                navigation.goBack();
-            } else {
-                navigation.navigate('Main' as never);
+            const isLoggedIn = await login(email.trim(), password);
+            if (!isLoggedIn) {
+                // The saved deep link waits until the code is verified
+                setTwoFactorEmail(email.trim());
+                setShowTwoFactor(true);
+                return;
             }
-        } catch (err: any) {
+
+            leaveLoginScreen();
+        } catch (err) {
             console.error('Login error:', err);
-            const errorMessage = err.response?.data?.message || err.message || t('auth.invalid_credentials', 'Invalid email or password');
+            const errorMessage = getErrorMessage(err, t('auth.invalid_credentials', 'Invalid email or password'));
             Alert.alert(t('auth.login_failed', 'Login Failed'), errorMessage);
+
+            const { email: emailError, password: passwordError } = mapFieldErrors(err);
+            if (emailError || passwordError) {
+                setErrors({ email: emailError, password: passwordError });
+            }
         } finally {
             setIsLoading(false);
         }
@@ -1,24 +1,52 @@
 // src/screens/OrderDetailScreen.tsx
-import React, { useEffect, useState, useCallback } from 'react';
-import { View, Text, StyleSheet, SafeAreaView, StatusBar, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import React, { useState, useCallback } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    StatusBar,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    Image,
+    Alert,
+    RefreshControl,
+} from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
-import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
-import { getOrderById } from '../services/endpoints';
+import * as WebBrowser from 'expo-web-browser';
+import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { cancelOrder, getOrderById } from '../services/endpoints';
+import { getErrorMessage } from '../services/errors';
+import { buildOrderTimeline, canCancelOrder } from '../services/orders';
+import { PAYMENT_METHODS } from '../services/payments';
+import { RETURN_STATUS_LABELS, canRequestReturn, getReturnReason, getReturnableQuantity } from '../services/returns';
 import type { Order } from '../types';
 import type { RootStackParamList } from '../types';
 import { useTranslation } from '../context';
+import { useBuyAgain } from '../hooks/useBuyAgain';
+import { getLocalizedField } from '../i18n/locale';
 
 type OrderDetailRouteProp = RouteProp<RootStackParamList, 'OrderDetail'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const formatAmount = (value: string) => `$${(Number.parseFloat(value) || 0).toFixed(2)}`;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '');
 
 export default function OrderDetailScreen() {
-    const navigation = useNavigation();
+    const navigation = useNavigation<NavigationProp>();
     const route = useRoute<OrderDetailRouteProp>();
     const { orderId } = route.params;
     const { t } = useTranslation();
 
     const [order, setOrder] = useState<Order | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const { buyAgain, isReordering } = useBuyAgain();
 
     const fetchOrder = useCallback(async () => {
         try {
@@ -31,9 +59,52 @@ export default function OrderDetailScreen() {
         }
     }, [orderId]);
 
-    useEffect(() => {
-        fetchOrder();
-    }, [fetchOrder]);
+    // Also picks up return requests filed from the RequestReturn screen
+    useFocusEffect(
+        useCallback(() => {
+            fetchOrder();
+        }, [fetchOrder])
+    );
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        await fetchOrder();
+        setIsRefreshing(false);
+    };
+
+    const handleCancel = () => {
+        Alert.alert(
+            t('orders.cancel_title', 'Cancel order?'),
+            t('orders.cancel_message', 'This order will be cancelled and any payment refunded.'),
+            [
+                { text: t('common.no', 'No'), style: 'cancel' },
+                {
+                    text: t('orders.cancel', 'Cancel Order'),
+                    style: 'destructive',
+                    onPress: async () => {
+                        setIsCancelling(true);
+                        try {
+                            await cancelOrder(orderId);
+                            // Re-read so the timeline picks up the cancellation event
+                            await fetchOrder();
+                        } catch (e) {
+                            Alert.alert(t('common.error', 'Error'), getErrorMessage(e, t('orders.cancel_failed', 'Could not cancel the order')));
+                        } finally {
+                            setIsCancelling(false);
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleTrack = async (url: string) => {
+        try {
+            await WebBrowser.openBrowserAsync(url);
+        } catch (e) {
+            console.error('Failed to open tracking page', e);
+        }
+    };
 
     if (isLoading) {
         return <ActivityIndicator style={{ flex: 1 }} size="large" color={colors.primary} />;
@@ -50,6 +121,12 @@ export default function OrderDetailScreen() {
         );
     }
 
+    const timeline = buildOrderTimeline(order);
+    const paymentMethod = PAYMENT_METHODS.find((method) => method.id === order.payment_method);
+    const address = order.shipping_address;
+    const discount = Number.parseFloat(order.discount) || 0;
+    const isDelivered = order.status === 'delivered';
+
     return (
         <SafeAreaView style={styles.container}>
             <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
@@ -62,20 +139,272 @@ export default function OrderDetailScreen() {
                 </Text>
                 <View style={styles.headerRight} />
             </View>
-            <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            <ScrollView
+                style={styles.scrollView}
+                contentContainerStyle={styles.scrollContent}
+                refreshControl={
+                    <RefreshControl
+                        refreshing={isRefreshing}
+                        onRefresh={handleRefresh}
+                        colors={[colors.primary]}
+                        tintColor={colors.primary}
+                    />
+                }
+            >
+                {/* Status timeline */}
                 <View style={styles.section}>
                     <Text style={styles.sectionTitle}>{t('orders.status', 'Status')}</Text>
-                    <Text style={styles.sectionValue}>{order.status}</Text>
+                    <View style={styles.timeline}>
+                        {timeline.map((step, index) => {
+                            const isCancelledStep = step.status === 'cancelled';
+                            const dotColor = isCancelledStep
+                                ? colors.error
+                                : step.isComplete ? colors.primary : colors.borderLight;
+                            return (
+                                <View key={step.status} style={styles.timelineRow}>
+                                    <View style={styles.timelineMarker}>
+                                        <View style={[styles.timelineDot, { backgroundColor: dotColor }]}>
+                                            {step.isComplete && (
+                                                <Ionicons
+                                                    name={isCancelledStep ? 'close' : 'checkmark'}
+                                                    size={12}
+                                                    color={colors.white}
+                                                />
+                                            )}
+                                        </View>
+                                        {index < timeline.length - 1 && (
+                                            <View
+                                                style={[
+                                                    styles.timelineLine,
+                                                    timeline[index + 1].isComplete && styles.timelineLineComplete,
+                                                ]}
+                                            />
+                                        )}
+                                    </View>
+                                    <View style={styles.timelineInfo}>
+                                        <Text style={[styles.timelineLabel, !step.isComplete && styles.timelineLabelPending, step.isCurrent && styles.timelineLabelCurrent]}>
+                                            {t(step.labelKey, step.label)}
+                                        </Text>
+                                        {step.reachedAt ? <Text style={styles.timelineDate}>{formatDate(step.reachedAt)}</Text> : null}
+                                        {isCancelledStep && order.cancellation_reason ? (
+                                            <Text style={styles.timelineDate}>{order.cancellation_reason}</Text>
+                                        ) : null}
+                                    </View>
+                                </View>
+                            );
+                        })}
+                    </View>
                 </View>
+
+                {/* Tracking */}
+                {order.tracking && (
+                    <View style={styles.section}>
+                        <Text style={styles.sectionTitle}>{t('orders.tracking', 'Tracking')}</Text>
+                        <View style={styles.card}>
+                            <Text style={styles.cardTitle}>{order.tracking.carrier || t('orders.carrier', 'Carrier')}</Text>
+                            <Text style={styles.cardText}>
+                                {t('orders.tracking_number', 'Tracking number')}: {order.tracking.tracking_number}
+                            </Text>
+                            {order.tracking.estimated_delivery ? (
+                                <Text style={styles.cardText}>
+                                    {t('orders.estimated_delivery', 'Estimated delivery')}: {new Date(order.tracking.estimated_delivery).toLocaleDateString()}
+                                </Text>
+                            ) : null}
+                            {order.tracking.tracking_url ? (
+                                <TouchableOpacity style={styles.trackButton} onPress={() => handleTrack(order.tracking!.tracking_url!)}>
+                                    <Ionicons name="navigate-outline" size={16} color={colors.primary} />
+                                    <Text style={styles.trackButtonText}>{t('orders.track_package', 'Track Package')}</Text>
+                                </TouchableOpacity>
+                            ) : null}
+                        </View>
+                    </View>
+                )}
+
+                {/* Line items */}
                 <View style={styles.section}>
-                    <Text style={styles.sectionTitle}>{t('orders.total', 'Total')}</Text>
-                    <Text style={styles.sectionValue}>{order.total}</Text>
+                    <Text style={styles.sectionTitle}>
+                        {t('orders.items', 'Items')}
+                        {order.vendor ? ` · ${order.vendor.name}` : ''}
+                    </Text>
+                    {order.items.map((item) => (
+                        <TouchableOpacity
+                            key={item.id}
+                            style={styles.itemRow}
+                            disabled={!item.product.slug}
+                            onPress={() => navigation.navigate('ProductDetail', { slug: item.product.slug })}
+                        >
+                            {item.product.thumbnail ? (
+                                <Image source={{ uri: item.product.thumbnail }} style={styles.itemImage} />
+                            ) : (
+                                <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+                                    <Ionicons name="image-outline" size={20} color={colors.textLight} />
+                                </View>
+                            )}
+                            <View style={styles.itemInfo}>
+                                <Text style={styles.itemName} numberOfLines={2}>
+                                    {getLocalizedField(item.product as any, 'name', item.product.name)}
+                                </Text>
+                                {item.variant ? <Text style={styles.itemMeta}>{item.variant.name}</Text> : null}
+                                <Text style={styles.itemMeta}>{item.quantity} × {formatAmount(item.unit_price)}</Text>
+                                {isDelivered && getReturnableQuantity(order, item) > 0 && (
+                                    <TouchableOpacity onPress={() => navigation.navigate('RequestReturn', { orderId: order.id, itemId: item.id })}>
+                                        <Text style={styles.returnLink}>{t('returns.request_item', 'Return or refund')}</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                            <View style={styles.itemEnd}>
+                                <Text style={styles.itemPrice}>{formatAmount(item.subtotal)}</Text>
+                                <TouchableOpacity
+                                    style={styles.itemBuyAgain}
+                                    onPress={() => buyAgain([item])}
+                                    disabled={isReordering}
+                                    accessibilityLabel={t('reorder.buy_again', 'Buy again')}
+                                >
+                                    <Ionicons name="cart-outline" size={18} color={isReordering ? colors.textLight : colors.primary} />
+                                </TouchableOpacity>
+                            </View>
+                        </TouchableOpacity>
+                    ))}
+                    <View style={styles.totals}>
+                        <View style={styles.totalRow}>
+                            <Text style={styles.cardText}>{t('cart.subtotal', 'Subtotal')}</Text>
+                            <Text style={styles.cardText}>{formatAmount(order.subtotal)}</Text>
+                        </View>
+                        <View style={styles.totalRow}>
+                            <Text style={styles.cardText}>{t('checkout.shipping', 'Shipping')}</Text>
+                            <Text style={styles.cardText}>{formatAmount(order.shipping)}</Text>
+                        </View>
+                        {discount > 0 && (
+                            <View style={styles.totalRow}>
+                                <Text style={styles.cardText}>{t('checkout.discount', 'Coupon discount')}</Text>
+                                <Text style={[styles.cardText, styles.discountText]}>-{formatAmount(order.discount)}</Text>
+                            </View>
+                        )}
+                        <View style={styles.totalRow}>
+                            <Text style={styles.totalLabel}>{t('orders.total', 'Total')}</Text>
+                            <Text style={styles.totalValue}>{formatAmount(order.total)}</Text>
+                        </View>
+                    </View>
                 </View>
+
+                {/* Returns */}
+                {order.return_requests.length > 0 && (
+                    <View style={styles.section}>
+                        <Text style={styles.sectionTitle}>{t('returns.title', 'Returns & Refunds')}</Text>
+                        {order.return_requests.map((request) => {
+                            const item = order.items.find((line) => line.id === request.order_item_id);
+                            const reason = getReturnReason(request.reason);
+                            const statusLabel = RETURN_STATUS_LABELS[request.status];
+                            return (
+                                <View key={request.id} style={[styles.card, styles.returnCard]}>
+                                    <View style={styles.returnHeader}>
+                                        <Text style={[styles.cardTitle, styles.returnTitle]} numberOfLines={1}>
+                                            {request.quantity} × {item?.product.name ?? t('returns.item', 'Item')}
+                                        </Text>
+                                        <View style={[styles.returnBadge, styles[`return_${request.status}`]]}>
+                                            <Text style={styles.returnBadgeText}>{t(statusLabel.labelKey, statusLabel.label)}</Text>
+                                        </View>
+                                    </View>
+                                    <Text style={styles.cardText}>
+                                        {request.type === 'refund'
+                                            ? t('returns.type_refund', 'Refund only')
+                                            : t('returns.type_return', 'Return for refund')}
+                                        {' · '}
+                                        {reason ? t(reason.labelKey, reason.label) : request.reason}
+                                    </Text>
+                                    {request.comment ? <Text style={styles.cardText}>{request.comment}</Text> : null}
+                                    {request.photos.length > 0 && (
+                                        <View style={styles.returnPhotos}>
+                                            {request.photos.map((uri) => (
+                                                <Image key={uri} source={{ uri }} style={styles.returnPhoto} />
+                                            ))}
+                                        </View>
+                                    )}
+                                    {request.resolution_note ? (
+                                        <Text style={styles.returnNote}>
+                                            {t('returns.seller_note', 'Seller')}: {request.resolution_note}
+                                        </Text>
+                                    ) : null}
+                                    {request.refund_amount ? (
+                                        <Text style={styles.cardText}>
+                                            {t('returns.refund_amount', 'Refund')}: {formatAmount(request.refund_amount)}
+                                        </Text>
+                                    ) : null}
+                                    <Text style={styles.timelineDate}>{formatDate(request.created_at)}</Text>
+                                </View>
+                            );
+                        })}
+                    </View>
+                )}
+
+                {/* Shipping address */}
+                {address && (
+                    <View style={styles.section}>
+                        <Text style={styles.sectionTitle}>{t('orders.shipping_address', 'Shipping Address')}</Text>
+                        <View style={styles.card}>
+                            <Text style={styles.cardTitle}>{address.recipient_name || address.label}</Text>
+                            <Text style={styles.cardText}>
+                                {address.full_address || [address.street_address, address.city, address.state, address.country].filter(Boolean).join(', ')}
+                            </Text>
+                            {address.phone ? <Text style={styles.cardText}>{address.phone}</Text> : null}
+                        </View>
+                    </View>
+                )}
+
+                {/* Payment */}
+                <View style={styles.section}>
+                    <Text style={styles.sectionTitle}>{t('checkout.payment_method', 'Payment Method')}</Text>
+                    <View style={styles.card}>
+                        <Text style={styles.cardTitle}>
+                            {paymentMethod ? t(paymentMethod.labelKey, paymentMethod.label) : order.payment_method || '-'}
+                        </Text>
+                        {order.payment_status ? (
+                            <Text style={[styles.cardText, styles.capitalize]}>{order.payment_status}</Text>
+                        ) : null}
+                    </View>
+                </View>
+
                 <View style={styles.section}>
                     <Text style={styles.sectionTitle}>{t('orders.created_at', 'Created At')}</Text>
-                    <Text style={styles.sectionValue}>{new Date(order.created_at).toLocaleString()}</Text>
+                    <Text style={styles.sectionValue}>{formatDate(order.created_at)}</Text>
                 </View>
-                {/* Items list could be expanded here */}
+
+                {order.items.length > 0 && (
+                    <TouchableOpacity
+                        style={[styles.buyAgainButton, isReordering && styles.cancelButtonDisabled]}
+                        onPress={() => buyAgain(order.items)}
+                        disabled={isReordering}
+                    >
+                        {isReordering ? (
+                            <ActivityIndicator color={colors.white} />
+                        ) : (
+                            <Text style={styles.buyAgainButtonText}>{t('reorder.buy_order_again', 'Buy Order Again')}</Text>
+                        )}
+                    </TouchableOpacity>
+                )}
+
+                {canRequestReturn(order) && (
+                    <TouchableOpacity
+                        style={styles.returnButton}
+                        onPress={() => navigation.navigate('RequestReturn', { orderId: order.id })}
+                    >
+                        <Text style={styles.returnButtonText}>{t('returns.request', 'Request a Return')}</Text>
+                    </TouchableOpacity>
+                )}
+
+                {canCancelOrder(order) && (
+                    <TouchableOpacity
+                        style={[styles.cancelButton, isCancelling && styles.cancelButtonDisabled]}
+                        onPress={handleCancel}
+                        disabled={isCancelling}
+                    >
+                        {isCancelling ? (
+                            <ActivityIndicator color={colors.error} />
+                        ) : (
+                            <Text style={styles.cancelButtonText}>{t('orders.cancel', 'Cancel Order')}</Text>
+                        )}
+                    </TouchableOpacity>
+                )}
             </ScrollView>
         </SafeAreaView>
     );
@@ -90,7 +419,59 @@ const styles = StyleSheet.create({
     scrollView: { flex: 1 },
     scrollContent: { padding: spacing.md },
     section: { marginBottom: spacing.lg },
-    sectionTitle: { fontSize: fontSize.lg, fontWeight: fontWeight.semibold, color: colors.textPrimary },
-    sectionValue: { fontSize: fontSize.md, color: colors.textSecondary, marginTop: spacing.sm },
+    sectionTitle: { fontSize: fontSize.lg, fontWeight: fontWeight.semibold, color: colors.textPrimary, marginBottom: spacing.sm },
+    sectionValue: { fontSize: fontSize.md, color: colors.textSecondary },
     errorText: { fontSize: fontSize.lg, color: colors.error, textAlign: 'center', marginTop: spacing.lg },
+    timeline: { paddingLeft: spacing.xs },
+    timelineRow: { flexDirection: 'row', minHeight: 48 },
+    timelineMarker: { alignItems: 'center', width: 24 },
+    timelineDot: { width: 20, height: 20, borderRadius: 10, alignItems: 'center', justifyContent: 'center' },
+    timelineLine: { flex: 1, width: 2, backgroundColor: colors.borderLight },
+    timelineLineComplete: { backgroundColor: colors.primary },
+    timelineInfo: { flex: 1, marginLeft: spacing.sm, paddingBottom: spacing.md },
+    timelineLabel: { fontSize: fontSize.md, color: colors.textPrimary },
+    timelineLabelPending: { color: colors.textLight },
+    timelineLabelCurrent: { fontWeight: fontWeight.bold },
+    timelineDate: { fontSize: fontSize.xs, color: colors.textSecondary, marginTop: 2 },
+    card: { borderWidth: 1, borderColor: colors.borderLight, borderRadius: borderRadius.md, padding: spacing.md },
+    cardTitle: { fontSize: fontSize.md, fontWeight: fontWeight.semibold, color: colors.textPrimary, marginBottom: spacing.xs },
+    cardText: { fontSize: fontSize.sm, color: colors.textSecondary },
+    capitalize: { textTransform: 'capitalize' },
+    trackButton: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.sm },
+    trackButtonText: { marginLeft: spacing.xs, fontSize: fontSize.md, fontWeight: fontWeight.semibold, color: colors.primary },
+    itemRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: spacing.sm, borderBottomWidth: 1, borderBottomColor: colors.borderLight },
+    itemImage: { width: 56, height: 56, borderRadius: borderRadius.sm, backgroundColor: colors.background },
+    itemImagePlaceholder: { alignItems: 'center', justifyContent: 'center' },
+    itemInfo: { flex: 1, marginHorizontal: spacing.sm },
+    itemName: { fontSize: fontSize.md, color: colors.textPrimary },
+    itemMeta: { fontSize: fontSize.sm, color: colors.textSecondary, marginTop: 2 },
+    itemPrice: { fontSize: fontSize.md, fontWeight: fontWeight.medium, color: colors.textPrimary },
+    totals: { marginTop: spacing.sm },
+    totalRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: spacing.xs },
+    discountText: { color: colors.success },
+    totalLabel: { fontSize: fontSize.md, fontWeight: fontWeight.bold, color: colors.textPrimary },
+    totalValue: { fontSize: fontSize.md, fontWeight: fontWeight.bold, color: colors.primary },
+    itemEnd: { alignItems: 'flex-end' },
+    itemBuyAgain: { marginTop: spacing.xs, padding: spacing.xs },
+    buyAgainButton: { backgroundColor: colors.primary, borderRadius: borderRadius.lg, paddingVertical: spacing.md, alignItems: 'center', marginBottom: spacing.md },
+    buyAgainButtonText: { color: colors.white, fontSize: fontSize.md, fontWeight: fontWeight.bold },
+    returnLink: { fontSize: fontSize.sm, fontWeight: fontWeight.semibold, color: colors.primary, marginTop: spacing.xs },
+    returnCard: { marginBottom: spacing.sm },
+    returnHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+    returnTitle: { flex: 1, marginRight: spacing.sm },
+    returnBadge: { paddingHorizontal: spacing.sm, paddingVertical: 2, borderRadius: borderRadius.sm },
+    returnBadgeText: { fontSize: fontSize.xs, fontWeight: fontWeight.bold, color: colors.textPrimary },
+    return_pending: { backgroundColor: '#FFF3E0' },
+    return_approved: { backgroundColor: '#E3F2FD' },
+    return_refunded: { backgroundColor: '#E8F5E9' },
+    return_rejected: { backgroundColor: '#FDECEA' },
+    return_cancelled: { backgroundColor: colors.background },
+    returnPhotos: { flexDirection: 'row', flexWrap: 'wrap', marginTop: spacing.xs },
+    returnPhoto: { width: 48, height: 48, borderRadius: borderRadius.sm, marginRight: spacing.xs, marginTop: spacing.xs },
+    returnNote: { fontSize: fontSize.sm, color: colors.textPrimary, marginTop: spacing.xs },
+    returnButton: { borderWidth: 1, borderColor: colors.primary, borderRadius: borderRadius.lg, paddingVertical: spacing.md, alignItems: 'center', marginBottom: spacing.md },
+    returnButtonText: { color: colors.primary, fontSize: fontSize.md, fontWeight: fontWeight.bold },
+    cancelButton: { borderWidth: 1, borderColor: colors.error, borderRadius: borderRadius.lg, paddingVertical: spacing.md, alignItems: 'center', marginBottom: spacing.lg },
+    cancelButtonDisabled: { opacity: 0.6 },
+    cancelButtonText: { color: colors.error, fontSize: fontSize.md, fontWeight: fontWeight.bold },
 });
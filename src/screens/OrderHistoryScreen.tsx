@@ -7,6 +7,8 @@ import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '..
 import { getOrders } from '../services/endpoints';
 import type { Order } from '../types';
 import { useTranslation } from '../context';
+import { useBuyAgain } from '../hooks/useBuyAgain';
+import { OrderStatusBadge } from '../components';
 
 export default function OrderHistoryScreen() {
     const navigation = useNavigation();
@@ -14,6 +16,8 @@ export default function OrderHistoryScreen() {
     const [orders, setOrders] = useState<Order[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
+    const [reorderingId, setReorderingId] = useState<number | null>(null);
+    const { buyOrderAgain, isReordering } = useBuyAgain();
 
     const fetchOrders = useCallback(async () => {
         try {
@@ -40,6 +44,15 @@ export default function OrderHistoryScreen() {
         navigation.navigate('OrderDetail' as never, { orderId });
     };
 
+    const handleBuyAgain = async (order: Order) => {
+        setReorderingId(order.id);
+        try {
+            await buyOrderAgain(order);
+        } finally {
+            setReorderingId(null);
+        }
+    };
+
     if (isLoading) {
         return <ActivityIndicator style={{ flex: 1 }} size="large" color={colors.primary} />;
     }
@@ -68,9 +81,25 @@ export default function OrderHistoryScreen() {
                         <TouchableOpacity key={order.id} style={styles.orderItem} onPress={() => handlePressOrder(order.id)}>
                             <View style={styles.orderInfo}>
                                 <Text style={styles.orderNumber}>#{order.order_number}</Text>
-                                <Text style={styles.orderStatus}>{order.status}</Text>
+                                <OrderStatusBadge status={order.status} />
+                            </View>
+                            <View style={styles.orderFooter}>
+                                <Text style={styles.orderDate}>{new Date(order.created_at).toLocaleDateString()}</Text>
+                                <TouchableOpacity
+                                    style={styles.buyAgainButton}
+                                    onPress={() => handleBuyAgain(order)}
+                                    disabled={isReordering}
+                                >
+                                    {reorderingId === order.id ? (
+                                        <ActivityIndicator size="small" color={colors.primary} />
+                                    ) : (
+                                        <>
+                                            <Ionicons name="refresh" size={14} color={colors.primary} />
+                                            <Text style={styles.buyAgainText}>{t('reorder.buy_again', 'Buy again')}</Text>
+                                        </>
+                                    )}
+                                </TouchableOpacity>
                             </View>
-                            <Text style={styles.orderDate}>{new Date(order.created_at).toLocaleDateString()}</Text>
                         </TouchableOpacity>
                     ))
                 )}
@@ -88,10 +117,12 @@ const styles = StyleSheet.create({
     scrollView: { flex: 1 },
     scrollContent: { padding: spacing.md },
     orderItem: { backgroundColor: colors.white, padding: spacing.md, marginBottom: spacing.sm, borderRadius: borderRadius.lg, borderWidth: 1, borderColor: colors.borderLight, ...shadows.sm },
-    orderInfo: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: spacing.xs },
+    orderInfo: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: spacing.xs },
     orderNumber: { fontSize: fontSize.lg, fontWeight: fontWeight.semibold, color: colors.textPrimary },
-    orderStatus: { fontSize: fontSize.md, color: colors.textSecondary },
+    orderFooter: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
     orderDate: { fontSize: fontSize.sm, color: colors.textSecondary },
+    buyAgainButton: { flexDirection: 'row', alignItems: 'center', gap: spacing.xs, paddingHorizontal: spacing.sm, paddingVertical: spacing.xs, borderRadius: borderRadius.md, borderWidth: 1, borderColor: colors.primary, minWidth: 90, justifyContent: 'center' },
+    buyAgainText: { fontSize: fontSize.sm, fontWeight: fontWeight.semibold, color: colors.primary },
     emptyState: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: spacing.lg },
     emptyText: { fontSize: fontSize.lg, color: colors.textSecondary },
 });
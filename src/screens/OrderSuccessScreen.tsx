@@ -1,47 +1,114 @@
 // src/screens/OrderSuccessScreen.tsx
-import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView, StatusBar, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, StatusBar, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, RouteProp, useRoute } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
-import type { RootStackParamList } from '../types';
+import { getOrderById } from '../services/endpoints';
+import type { Order, RootStackParamList } from '../types';
 import { useTranslation } from '../context';
 
 type OrderSuccessRouteProp = RouteProp<RootStackParamList, 'OrderSuccess'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function OrderSuccessScreen() {
-    const navigation = useNavigation();
+    const navigation = useNavigation<NavigationProp>();
     const route = useRoute<OrderSuccessRouteProp>();
-    const { orderId } = route.params;
+    const { orderIds } = route.params;
     const { t } = useTranslation();
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchOrders = async () => {
+            // One order per vendor; show whatever loads, fall back to ids otherwise
+            const results = await Promise.allSettled(orderIds.map((id) => getOrderById(id)));
+            setOrders(
+                results
+                    .filter((result): result is PromiseFulfilledResult<Order> => result.status === 'fulfilled')
+                    .map((result) => result.value)
+            );
+            setIsLoading(false);
+        };
+        fetchOrders();
+    }, [orderIds]);
 
     const handleContinueShopping = () => {
-        navigation.navigate('Main' as never);
+        navigation.navigate('Main');
     };
 
+    const grandTotal = orders.reduce((total, order) => total + (Number.parseFloat(order.total) || 0), 0);
+
     return (
         <SafeAreaView style={styles.container}>
             <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
-            <View style={styles.content}>
+            <ScrollView contentContainerStyle={styles.content}>
                 <Ionicons name="checkmark-circle" size={96} color={colors.success} />
                 <Text style={styles.title}>{t('orders.placed', 'Order Placed!')}</Text>
                 <Text style={styles.message}>
-                    {t('orders.placed_message', 'Your order #{{id}} has been successfully placed.')
-                        .replace('{{id}}', String(orderId))}
+                    {orderIds.length > 1
+                        ? t('orders.placed_message_multiple', 'Your {{count}} orders have been successfully placed.')
+                            .replace('{{count}}', String(orderIds.length))
+                        : t('orders.placed_message', 'Your order #{{id}} has been successfully placed.')
+                            .replace('{{id}}', String(orders[0]?.order_number || orderIds[0]))}
                 </Text>
+
+                {isLoading ? (
+                    <ActivityIndicator color={colors.primary} style={styles.loader} />
+                ) : (
+                    <View style={styles.orderList}>
+                        {orderIds.map((id) => {
+                            const order = orders.find((item) => item.id === id);
+                            return (
+                                <TouchableOpacity
+                                    key={id}
+                                    style={styles.orderRow}
+                                    onPress={() => navigation.navigate('OrderDetail', { orderId: id })}
+                                >
+                                    <View style={styles.orderInfo}>
+                                        <Text style={styles.orderNumber}>#{order?.order_number || id}</Text>
+                                        {order?.status ? <Text style={styles.orderStatus}>{order.status}</Text> : null}
+                                    </View>
+                                    {order ? (
+                                        <Text style={styles.orderTotal}>${(Number.parseFloat(order.total) || 0).toFixed(2)}</Text>
+                                    ) : null}
+                                    <Ionicons name="chevron-forward" size={18} color={colors.textLight} />
+                                </TouchableOpacity>
+                            );
+                        })}
+                        {orders.length > 1 && (
+                            <View style={styles.totalRow}>
+                                <Text style={styles.totalLabel}>{t('cart.total', 'Total')}</Text>
+                                <Text style={styles.totalValue}>${grandTotal.toFixed(2)}</Text>
+                            </View>
+                        )}
+                    </View>
+                )}
+
                 <TouchableOpacity style={styles.button} onPress={handleContinueShopping}>
                     <Text style={styles.buttonText}>{t('orders.continue_shopping', 'Continue Shopping')}</Text>
                 </TouchableOpacity>
-            </View>
+            </ScrollView>
         </SafeAreaView>
     );
 }
 
 const styles = StyleSheet.create({
     container: { flex: 1, backgroundColor: colors.white },
-    content: { flex: 1, justifyContent: 'center', alignItems: 'center', padding: spacing.lg },
+    content: { flexGrow: 1, justifyContent: 'center', alignItems: 'center', padding: spacing.lg },
     title: { fontSize: fontSize.xxxl, fontWeight: fontWeight.bold, color: colors.textPrimary, marginTop: spacing.md },
     message: { fontSize: fontSize.md, color: colors.textSecondary, textAlign: 'center', marginVertical: spacing.md },
+    loader: { marginVertical: spacing.md },
+    orderList: { alignSelf: 'stretch', borderWidth: 1, borderColor: colors.borderLight, borderRadius: borderRadius.md },
+    orderRow: { flexDirection: 'row', alignItems: 'center', padding: spacing.md, borderBottomWidth: 1, borderBottomColor: colors.borderLight },
+    orderInfo: { flex: 1 },
+    orderNumber: { fontSize: fontSize.md, fontWeight: fontWeight.semibold, color: colors.textPrimary },
+    orderStatus: { fontSize: fontSize.sm, color: colors.textSecondary, textTransform: 'capitalize', marginTop: 2 },
+    orderTotal: { fontSize: fontSize.md, fontWeight: fontWeight.medium, color: colors.textPrimary, marginRight: spacing.sm },
+    totalRow: { flexDirection: 'row', justifyContent: 'space-between', padding: spacing.md },
+    totalLabel: { fontSize: fontSize.md, fontWeight: fontWeight.bold, color: colors.textPrimary },
+    totalValue: { fontSize: fontSize.md, fontWeight: fontWeight.bold, color: colors.primary },
     button: { backgroundColor: colors.primary, paddingVertical: spacing.md, paddingHorizontal: spacing.xl, borderRadius: borderRadius.lg, marginTop: spacing.lg },
     buttonText: { color: colors.white, fontSize: fontSize.lg, fontWeight: fontWeight.bold },
 });
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
     View,
     Text,
@@ -15,11 +15,18 @@ import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
-import { ProductCard, Loading, ImageCarousel } from '../components';
-import { getProductBySlug, addToCart, getWishlist, toggleWishlist } from '../services/endpoints';
-import { getAuthToken } from '../services/api';
-import type { Product, ProductVariant, RootStackParamList } from '../types';
-import { useAuth } from '../context/AuthContext';
+import { ProductCard, Loading, ImageCarousel, ProductReviews, StarRating } from '../components';
+import { getProductBySlug } from '../services/endpoints';
+import {
+    VARIANT_NAME_ATTRIBUTE,
+    findVariant,
+    getInitialSelection,
+    getVariantAttributes,
+    isOptionAvailable,
+    selectOption,
+} from '../services/variants';
+import type { VariantSelection } from '../services/variants';
+import type { Product, RootStackParamList } from '../types';
 import { useCart, useWishlist } from '../context';
 import { useTranslation } from '../context';
 import { getLocalizedField } from '../i18n/locale';
@@ -29,23 +36,26 @@ type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
+// Below this many units the stepper shows how many are left
+const LOW_STOCK_THRESHOLD = 5;
+
 export default function ProductDetailScreen() {
     const navigation = useNavigation<NavigationProp>();
     const route = useRoute<RouteProps>();
     const { slug } = route.params;
-    const { isAuthenticated } = useAuth();
-    const { syncCart } = useCart();
-    const { wishlistCount, setWishlistCount } = useWishlist();
+    const { addToCart } = useCart();
+    const { isWishlisted, toggle: toggleWishlist } = useWishlist();
     const { t } = useTranslation();
 
     const [product, setProduct] = useState<Product | null>(null);
     const [relatedProducts, setRelatedProducts] = useState<Product[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(null);
+    const [selection, setSelection] = useState<VariantSelection>({});
     const [selectedImageIndex, setSelectedImageIndex] = useState(0);
     const [quantity, setQuantity] = useState(1);
     const [isAddingToCart, setIsAddingToCart] = useState(false);
-    const [isInWishlist, setIsInWishlist] = useState(false);
+
+    const isInWishlist = product ? isWishlisted(product.id) : false;
 
     const fetchProduct = useCallback(async () => {
         try {
@@ -54,10 +64,8 @@ export default function ProductDetailScreen() {
             setProduct(response.product);
             setRelatedProducts(response.related || []);
 
-            // Select first variant by default if available
-            if (response.product.variants?.length > 0) {
-                setSelectedVariant(response.product.variants[0]);
-            }
+            // Start on the first variant that can be bought
+            setSelection(getInitialSelection(response.product.variants ?? []));
         } catch (err: any) {
             console.error('Failed to fetch product:', err);
             Alert.alert(t('common.error', 'Error'), t('product.details_load_failed', 'Failed to load product details'));
@@ -71,64 +79,39 @@ export default function ProductDetailScreen() {
         fetchProduct();
     }, [fetchProduct]);
 
-    const productId = product?.id;
-    const productWishlisted = product?.is_wishlisted;
+    const variants = useMemo(() => product?.variants ?? [], [product]);
+    const variantAttributes = useMemo(() => getVariantAttributes(variants), [variants]);
+    const hasVariants = variants.length > 0;
+    const selectedVariant = useMemo(
+        () => findVariant(variants, variantAttributes, selection),
+        [variants, variantAttributes, selection]
+    );
+    // null when stock is not tracked (products without variants)
+    const maxQuantity = selectedVariant
+        ? selectedVariant.stock
+        : hasVariants || product?.in_stock === false ? 0 : null;
+    const isPurchasable = !hasVariants || (selectedVariant !== null && selectedVariant.stock > 0);
 
+    // Keep the quantity within the stock of whatever is now selected
     useEffect(() => {
-        let isMounted = true;
-        const syncWishlist = async () => {
-            if (!productId || !isAuthenticated) {
-                if (isMounted) {
-                    setIsInWishlist(false);
-                }
-                return;
-            }
-
-            if (typeof productWishlisted === 'boolean') {
-                if (isMounted) {
-                    setIsInWishlist(productWishlisted);
-                }
-                return;
-            }
-
-            try {
-                const wishlist = await getWishlist();
-                if (isMounted) {
-                    setIsInWishlist(wishlist.some((item) => item.id === productId));
-                    setWishlistCount(wishlist.length);
-                }
-            } catch (err) {
-                console.error('Failed to load wishlist status:', err);
-            }
-        };
-
-        syncWishlist();
-
-        return () => {
-            isMounted = false;
-        };
-    }, [productId, productWishlisted, isAuthenticated, setWishlistCount]);
+        if (maxQuantity === null) return;
+        setQuantity((current) => Math.max(1, Math.min(current, maxQuantity)));
+    }, [maxQuantity]);
+
+    const handleSelectOption = (name: string, value: string) => {
+        setSelection((current) => selectOption(variants, variantAttributes, current, name, value));
+    };
 
     const handleAddToCart = async () => {
-        const token = await getAuthToken();
-        if (!token) {
-            Alert.alert(
-                t('auth.sign_in_required', 'Sign In Required'),
-                t('cart.sign_in_prompt', 'Please sign in to add items to your cart'),
-                [
-                    { text: t('common.cancel', 'Cancel'), style: 'cancel' },
-                    { text: t('auth.sign_in', 'Sign In'), onPress: () => navigation.navigate('Login') },
-                ]
-            );
+        if (!product) return;
+        if (hasVariants && !selectedVariant) {
+            Alert.alert(t('product.select_options', 'Select options'), t('product.select_options_message', 'Choose all options before adding to cart.'));
             return;
         }
 
-        if (!product) return;
-
         try {
             setIsAddingToCart(true);
-            const cart = await addToCart(product.id, selectedVariant?.id, quantity);
-            syncCart(cart);
+            await addToCart(product, selectedVariant, quantity);
             const productName = getLocalizedField(product as any, 'name', product.name);
             Alert.alert(t('common.success', 'Success'), `${productName} ${t('cart.added_to_cart', 'added to cart!')}`);
         } catch (err: any) {
@@ -139,25 +122,10 @@ export default function ProductDetailScreen() {
     };
 
     const handleWishlistToggle = async () => {
-        const token = await getAuthToken();
-        if (!token) {
-            Alert.alert(
-                t('auth.sign_in_required', 'Sign In Required'),
-                t('wishlist.sign_in_prompt', 'Please sign in to add items to your wishlist'),
-                [
-                    { text: t('common.cancel', 'Cancel'), style: 'cancel' },
-                    { text: t('auth.sign_in', 'Sign In'), onPress: () => navigation.navigate('Login') },
-                ]
-            );
-            return;
-        }
-
         if (!product) return;
 
         try {
-            const result = await toggleWishlist(product.id);
-            setIsInWishlist(result.added);
-            setWishlistCount(Math.max(0, wishlistCount + (result.added ? 1 : -1)));
+            await toggleWishlist(product);
         } catch (err: any) {
             Alert.alert(t('common.error', 'Error'), err.message || t('wishlist.update_failed', 'Failed to update wishlist'));
         }
@@ -168,7 +136,7 @@ export default function ProductDetailScreen() {
     };
 
     const incrementQuantity = () => {
-        setQuantity(prev => prev + 1);
+        setQuantity(prev => (maxQuantity !== null && prev >= maxQuantity ? prev : prev + 1));
     };
 
     const decrementQuantity = () => {
@@ -185,7 +153,8 @@ export default function ProductDetailScreen() {
         return null;
     }
 
-    const productImages = (product.images || []).filter((image) => !!image);
+    const productImages = (selectedVariant?.images.length ? selectedVariant.images : product.images || [])
+        .filter((image) => !!image);
     const images = productImages.length > 0
         ? productImages
         : product.thumbnail
@@ -228,6 +197,8 @@ export default function ProductDetailScreen() {
                 {/* Product Image */}
                 <View style={styles.imageContainer}>
                     <ImageCarousel
+                        // Start from the first photo when the variant's photos replace the set
+                        key={images.join('|')}
                         images={images}
                         height={Math.round(SCREEN_WIDTH * 0.5)}
                         onIndexChange={setSelectedImageIndex}
@@ -291,7 +262,7 @@ export default function ProductDetailScreen() {
 
                     {/* Rating */}
                     <View style={styles.ratingContainer}>
-                        <Ionicons name="star" size={16} color="#FFD700" />
+                        <StarRating rating={product.average_rating || 0} size={16} />
                         <Text style={styles.ratingText}>
                             {product.average_rating?.toFixed(1) || '0.0'} ({product.reviews_count || 0} {t('product.reviews', 'reviews')})
                         </Text>
@@ -313,31 +284,43 @@ export default function ProductDetailScreen() {
                         </TouchableOpacity>
                     )}
 
-                    {/* Variants */}
-                    {product.variants && product.variants.length > 0 && (
-                        <View style={styles.variantsSection}>
-                            <Text style={styles.sectionTitle}>{t('product.options', 'Options')}</Text>
+                    {/* Variants, one attribute at a time */}
+                    {variantAttributes.map((attribute) => (
+                        <View key={attribute.name} style={styles.variantsSection}>
+                            <Text style={styles.sectionTitle}>
+                                {attribute.name === VARIANT_NAME_ATTRIBUTE
+                                    ? t('product.options', 'Options')
+                                    : t(`product.attribute_${attribute.name}`, attribute.name.charAt(0).toUpperCase() + attribute.name.slice(1))}
+                                {selection[attribute.name] ? `: ${selection[attribute.name]}` : ''}
+                            </Text>
                             <View style={styles.variantsContainer}>
-                                {product.variants.map((variant) => (
-                                    <TouchableOpacity
-                                        key={variant.id}
-                                        style={[
-                                            styles.variantButton,
-                                            selectedVariant?.id === variant.id && styles.variantButtonActive,
-                                        ]}
-                                        onPress={() => setSelectedVariant(variant)}
-                                    >
-                                        <Text style={[
-                                            styles.variantText,
-                                            selectedVariant?.id === variant.id && styles.variantTextActive,
-                                        ]}>
-                                            {variant.name}
-                                        </Text>
-                                    </TouchableOpacity>
-                                ))}
+                                {attribute.values.map((value) => {
+                                    const isSelected = selection[attribute.name] === value;
+                                    const isAvailable = isOptionAvailable(variants, variantAttributes, selection, attribute.name, value);
+                                    return (
+                                        <TouchableOpacity
+                                            key={value}
+                                            style={[
+                                                styles.variantButton,
+                                                isSelected && styles.variantButtonActive,
+                                                !isAvailable && styles.variantButtonUnavailable,
+                                            ]}
+                                            onPress={() => handleSelectOption(attribute.name, value)}
+                                            disabled={!isAvailable && !isSelected}
+                                        >
+                                            <Text style={[
+                                                styles.variantText,
+                                                isSelected && styles.variantTextActive,
+                                                !isAvailable && styles.variantTextUnavailable,
+                                            ]}>
+                                                {value}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
                             </View>
                         </View>
-                    )}
+                    ))}
 
                     {/* Quantity */}
                     <View style={styles.quantitySection}>
@@ -351,15 +334,35 @@ export default function ProductDetailScreen() {
                             </TouchableOpacity>
                             <Text style={styles.quantityText}>{quantity}</Text>
                             <TouchableOpacity
-                                style={[styles.quantityButton, styles.quantityButtonActive]}
+                                style={[
+                                    styles.quantityButton,
+                                    styles.quantityButtonActive,
+                                    maxQuantity !== null && quantity >= maxQuantity && styles.quantityButtonDisabled,
+                                ]}
                                 onPress={incrementQuantity}
+                                disabled={maxQuantity !== null && quantity >= maxQuantity}
                             >
                                 <Ionicons name="add" size={20} color={colors.white} />
                             </TouchableOpacity>
                         </View>
+                        {hasVariants && !selectedVariant ? (
+                            <Text style={styles.stockNote}>{t('product.select_options_message', 'Choose all options before adding to cart.')}</Text>
+                        ) : maxQuantity === 0 ? (
+                            <Text style={[styles.stockNote, styles.stockNoteOut]}>{t('product.out_of_stock', 'Out of stock')}</Text>
+                        ) : maxQuantity !== null && maxQuantity <= LOW_STOCK_THRESHOLD ? (
+                            <Text style={styles.stockNote}>
+                                {t('product.only_left', 'Only {{count}} left').replace('{{count}}', String(maxQuantity))}
+                            </Text>
+                        ) : null}
                     </View>
                 </View>
 
+                {/* Reviews */}
+                <ProductReviews
+                    productId={product.id}
+                    onWriteReview={(orderId) => navigation.navigate('WriteReview', { productId: product.id, productName, orderId })}
+                />
+
                 {/* Related Products */}
                 {relatedProducts.length > 0 && (
                     <View style={styles.relatedSection}>
@@ -381,16 +384,20 @@ export default function ProductDetailScreen() {
             {/* Add to Cart Button */}
             <View style={styles.bottomBar}>
                 <TouchableOpacity
-                    style={[styles.addToCartButton, isAddingToCart && styles.addToCartButtonDisabled]}
+                    style={[styles.addToCartButton, (isAddingToCart || !isPurchasable) && styles.addToCartButtonDisabled]}
                     onPress={handleAddToCart}
-                    disabled={isAddingToCart}
+                    disabled={isAddingToCart || (hasVariants && selectedVariant !== null && selectedVariant.stock <= 0)}
                 >
                     {isAddingToCart ? (
                         <Loading fullScreen={false} />
                     ) : (
                         <>
                             <Ionicons name="cart-outline" size={22} color={colors.white} />
-                            <Text style={styles.addToCartText}>{t('cart.add_to_cart', 'Add to Cart')}</Text>
+                            <Text style={styles.addToCartText}>
+                                {hasVariants && selectedVariant && selectedVariant.stock <= 0
+                                    ? t('product.out_of_stock', 'Out of stock')
+                                    : t('cart.add_to_cart', 'Add to Cart')}
+                            </Text>
                         </>
                     )}
                 </TouchableOpacity>
@@ -563,6 +570,14 @@ const styles = StyleSheet.create({
         color: colors.primary,
         fontWeight: fontWeight.semibold,
     },
+    variantButtonUnavailable: {
+        borderStyle: 'dashed',
+        backgroundColor: colors.background,
+    },
+    variantTextUnavailable: {
+        color: colors.textLight,
+        textDecorationLine: 'line-through',
+    },
     quantitySection: {
         marginBottom: spacing.lg,
     },
@@ -584,6 +599,18 @@ const styles = StyleSheet.create({
         backgroundColor: colors.primary,
         borderColor: colors.primary,
     },
+    quantityButtonDisabled: {
+        opacity: 0.4,
+    },
+    stockNote: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginTop: spacing.sm,
+    },
+    stockNoteOut: {
+        color: colors.error,
+        fontWeight: fontWeight.semibold,
+    },
     quantityText: {
         fontSize: fontSize.lg,
         fontWeight: fontWeight.semibold,
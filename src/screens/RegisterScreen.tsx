@@ -19,6 +19,8 @@ import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { Loading } from '../components';
 import { useAuth } from '../context/AuthContext';
 import { useTranslation } from '../context';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
+import { consumePendingRoute } from '../navigation/linking';
 
 export default function RegisterScreen() {
     const navigation = useNavigation();
@@ -75,26 +77,29 @@ export default function RegisterScreen() {
             setIsLoading(true);
             // Used auth context register which updates global state
             await register(name.trim(), email.trim(), password);
+            const pendingRoute = consumePendingRoute();
+            const routes = pendingRoute
+                ? [{ name: 'Main' as never }, { name: pendingRoute.name as never, params: pendingRoute.params }]
+                : [{ name: 'Main' as never }];
 
             Alert.alert(
                 t('auth.welcome', 'Welcome!'),
                 t('auth.account_created', 'Your account has been created successfully.'),
-                [{ text: t('common.ok', 'OK'), onPress: () => navigation.reset({ index: 0, routes: [{ name: 'Main' as never }] }) }]
+                [{ text: t('common.ok', 'OK'), onPress: () => navigation.reset({ index: routes.length - 1, routes }) }]
             );
-        } catch (err: any) {
+        } catch (err) {
             console.error('Registration error:', err);
-            const errorMessage = err.response?.data?.message || err.message || t('auth.register_failed_generic', 'Could not create account');
+            const errorMessage = getErrorMessage(err, t('auth.register_failed_generic', 'Could not create account'));
             Alert.alert(t('auth.register_failed', 'Registration Failed'), errorMessage);
 
-            // If validation errors from backend
-            if (err.response?.data?.errors) {
-                const backendErrors = err.response.data.errors;
-                const formattedErrors: any = {};
-                if (backendErrors.email) formattedErrors.email = backendErrors.email[0];
-                if (backendErrors.password) formattedErrors.password = backendErrors.password[0];
-                if (backendErrors.name) formattedErrors.name = backendErrors.name[0];
-                setErrors(prev => ({ ...prev, ...formattedErrors }));
-            }
+            // Show backend validation errors under the matching inputs
+            const { name: nameError, email: emailError, password: passwordError } = mapFieldErrors(err);
+            setErrors(prev => ({
+                ...prev,
+                ...(nameError && { name: nameError }),
+                ...(emailError && { email: emailError }),
+                ...(passwordError && { password: passwordError }),
+            }));
         } finally {
             setIsLoading(false);
         }
@@ -0,0 +1,553 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    StatusBar,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    Image,
+    Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { createReturnRequest, getOrderById } from '../services/endpoints';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
+import {
+    MAX_RETURN_PHOTOS,
+    RETURN_REASONS,
+    buildReturnFormData,
+    getReturnReason,
+    getReturnableQuantity,
+} from '../services/returns';
+import { Loading } from '../components';
+import type { Order, ReturnRequestType, RootStackParamList } from '../types';
+import { useTranslation } from '../context';
+
+type RequestReturnRouteProp = RouteProp<RootStackParamList, 'RequestReturn'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+type ReturnField = 'item' | 'quantity' | 'reason' | 'comment' | 'photos';
+
+const RETURN_FIELD_MAP: Record<string, ReturnField> = { order_item_id: 'item' };
+
+export default function RequestReturnScreen() {
+    const navigation = useNavigation<NavigationProp>();
+    const route = useRoute<RequestReturnRouteProp>();
+    const { orderId, itemId } = route.params;
+    const { t } = useTranslation();
+
+    const [order, setOrder] = useState<Order | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const [selectedItemId, setSelectedItemId] = useState<number | null>(itemId ?? null);
+    const [type, setType] = useState<ReturnRequestType>('return');
+    const [quantity, setQuantity] = useState(1);
+    const [reason, setReason] = useState<string | null>(null);
+    const [comment, setComment] = useState('');
+    const [photos, setPhotos] = useState<string[]>([]);
+    const [fieldErrors, setFieldErrors] = useState<Partial<Record<ReturnField, string>>>({});
+
+    const loadOrder = useCallback(async () => {
+        try {
+            const data = await getOrderById(orderId);
+            setOrder(data);
+            // Preselect when only one line can still be returned
+            const returnable = data.items.filter((item) => getReturnableQuantity(data, item) > 0);
+            if (itemId === undefined && returnable.length === 1) {
+                setSelectedItemId(returnable[0].id);
+            }
+        } catch (error) {
+            console.error('Failed to load order for return:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [orderId, itemId]);
+
+    useEffect(() => {
+        loadOrder();
+    }, [loadOrder]);
+
+    const clearFieldError = (field: ReturnField) => {
+        if (fieldErrors[field]) setFieldErrors({ ...fieldErrors, [field]: undefined });
+    };
+
+    const returnableItems = order
+        ? order.items.filter((item) => getReturnableQuantity(order, item) > 0)
+        : [];
+    const selectedItem = returnableItems.find((item) => item.id === selectedItemId) ?? null;
+    const maxQuantity = order && selectedItem ? getReturnableQuantity(order, selectedItem) : 1;
+
+    const handleSelectItem = (id: number) => {
+        setSelectedItemId(id);
+        setQuantity(1);
+        clearFieldError('item');
+    };
+
+    const pickPhoto = async () => {
+        try {
+            const result = await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ImagePicker.MediaTypeOptions.Images,
+                allowsMultipleSelection: true,
+                selectionLimit: MAX_RETURN_PHOTOS - photos.length,
+                quality: 0.7,
+            });
+
+            if (!result.canceled) {
+                const uris = result.assets.map((asset) => asset.uri).filter(Boolean);
+                setPhotos((prev) => [...prev, ...uris].slice(0, MAX_RETURN_PHOTOS));
+                clearFieldError('photos');
+            }
+        } catch (error) {
+            console.error('Image picker error:', error);
+            Alert.alert(t('common.error', 'Error'), t('returns.photo_pick_failed', 'Failed to pick photo'));
+        }
+    };
+
+    const removePhoto = (uri: string) => {
+        setPhotos((prev) => prev.filter((photo) => photo !== uri));
+    };
+
+    const validate = () => {
+        const errors: Partial<Record<ReturnField, string>> = {};
+        if (!selectedItem) {
+            errors.item = t('returns.item_required', 'Choose the item to return');
+        }
+        if (!reason) {
+            errors.reason = t('returns.reason_required', 'Choose a reason');
+        } else if (getReturnReason(reason)?.requiresPhotos && photos.length === 0) {
+            errors.photos = t('returns.photos_required', 'Add at least one photo showing the problem');
+        }
+        if (reason === 'other' && !comment.trim()) {
+            errors.comment = t('returns.comment_required', 'Tell us what went wrong');
+        }
+        setFieldErrors(errors);
+        return Object.keys(errors).length === 0;
+    };
+
+    const handleSubmit = async () => {
+        if (!validate() || !selectedItem || !reason) return;
+
+        setIsSubmitting(true);
+        try {
+            const formData = await buildReturnFormData({
+                itemId: selectedItem.id,
+                type,
+                quantity,
+                reason,
+                comment,
+                photos,
+            });
+            await createReturnRequest(orderId, formData);
+            Alert.alert(
+                t('returns.submitted_title', 'Request sent'),
+                t('returns.submitted_message', 'The seller will review your request. You can follow its status on the order.'),
+                [{ text: t('common.ok', 'OK'), onPress: () => navigation.goBack() }]
+            );
+        } catch (error) {
+            console.error('Create return request error:', error);
+            setFieldErrors(mapFieldErrors(error, RETURN_FIELD_MAP));
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(error, t('returns.submit_failed', 'Could not send your request')));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (isLoading) {
+        return <Loading message={t('common.loading', 'Loading...')} />;
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
+
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{t('returns.request', 'Request a Return')}</Text>
+                <View style={styles.headerRight} />
+            </View>
+
+            {!order || order.status !== 'delivered' || returnableItems.length === 0 ? (
+                <View style={styles.emptyContainer}>
+                    <Ionicons name="return-down-back-outline" size={64} color={colors.textLight} />
+                    <Text style={styles.emptyText}>
+                        {!order
+                            ? t('orders.not_found', 'Order not found.')
+                            : t('returns.nothing_returnable', 'Nothing in this order can be returned.')}
+                    </Text>
+                </View>
+            ) : (
+                <ScrollView contentContainerStyle={styles.content}>
+                    {/* Item */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{t('returns.item', 'Item')}</Text>
+                        {returnableItems.map((item) => {
+                            const isSelected = item.id === selectedItemId;
+                            return (
+                                <TouchableOpacity
+                                    key={item.id}
+                                    style={[styles.itemOption, isSelected && styles.itemOptionSelected]}
+                                    onPress={() => handleSelectItem(item.id)}
+                                >
+                                    {item.product.thumbnail ? (
+                                        <Image source={{ uri: item.product.thumbnail }} style={styles.itemImage} />
+                                    ) : (
+                                        <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+                                            <Ionicons name="image-outline" size={18} color={colors.textLight} />
+                                        </View>
+                                    )}
+                                    <View style={styles.itemInfo}>
+                                        <Text style={styles.itemName} numberOfLines={2}>{item.product.name}</Text>
+                                        {item.variant ? <Text style={styles.itemMeta}>{item.variant.name}</Text> : null}
+                                        <Text style={styles.itemMeta}>
+                                            {t('returns.returnable', '{{count}} returnable').replace('{{count}}', String(getReturnableQuantity(order, item)))}
+                                        </Text>
+                                    </View>
+                                    <Ionicons
+                                        name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                                        size={20}
+                                        color={isSelected ? colors.primary : colors.textLight}
+                                    />
+                                </TouchableOpacity>
+                            );
+                        })}
+                        {fieldErrors.item && <Text style={styles.errorText}>{fieldErrors.item}</Text>}
+                    </View>
+
+                    {/* Quantity */}
+                    {selectedItem && (
+                        <View style={styles.inputGroup}>
+                            <Text style={styles.label}>{t('returns.quantity', 'Quantity')}</Text>
+                            <View style={styles.stepper}>
+                                <TouchableOpacity
+                                    style={styles.stepperButton}
+                                    onPress={() => setQuantity((value) => Math.max(1, value - 1))}
+                                    disabled={quantity <= 1}
+                                >
+                                    <Ionicons name="remove" size={18} color={quantity <= 1 ? colors.textLight : colors.textPrimary} />
+                                </TouchableOpacity>
+                                <Text style={styles.stepperValue}>{quantity}</Text>
+                                <TouchableOpacity
+                                    style={styles.stepperButton}
+                                    onPress={() => setQuantity((value) => Math.min(maxQuantity, value + 1))}
+                                    disabled={quantity >= maxQuantity}
+                                >
+                                    <Ionicons name="add" size={18} color={quantity >= maxQuantity ? colors.textLight : colors.textPrimary} />
+                                </TouchableOpacity>
+                            </View>
+                            {fieldErrors.quantity && <Text style={styles.errorText}>{fieldErrors.quantity}</Text>}
+                        </View>
+                    )}
+
+                    {/* Type */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{t('returns.type', 'What would you like?')}</Text>
+                        <View style={styles.chipRow}>
+                            {[
+                                { value: 'return' as const, label: t('returns.type_return', 'Return for refund') },
+                                { value: 'refund' as const, label: t('returns.type_refund', 'Refund only') },
+                            ].map((option) => (
+                                <TouchableOpacity
+                                    key={option.value}
+                                    style={[styles.chip, type === option.value && styles.chipSelected]}
+                                    onPress={() => setType(option.value)}
+                                >
+                                    <Text style={[styles.chipText, type === option.value && styles.chipTextSelected]}>
+                                        {option.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    </View>
+
+                    {/* Reason */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{t('returns.reason', 'Reason')}</Text>
+                        <View style={styles.chipRow}>
+                            {RETURN_REASONS.map((option) => (
+                                <TouchableOpacity
+                                    key={option.id}
+                                    style={[styles.chip, reason === option.id && styles.chipSelected]}
+                                    onPress={() => {
+                                        setReason(option.id);
+                                        clearFieldError('reason');
+                                    }}
+                                >
+                                    <Text style={[styles.chipText, reason === option.id && styles.chipTextSelected]}>
+                                        {t(option.labelKey, option.label)}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                        {fieldErrors.reason && <Text style={styles.errorText}>{fieldErrors.reason}</Text>}
+                    </View>
+
+                    {/* Comment */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>{t('returns.comment', 'Details')}</Text>
+                        <TextInput
+                            style={[styles.input, styles.textArea, fieldErrors.comment && styles.inputError]}
+                            value={comment}
+                            onChangeText={(value) => {
+                                setComment(value);
+                                clearFieldError('comment');
+                            }}
+                            placeholder={t('returns.comment_placeholder', 'Describe the problem (optional)')}
+                            placeholderTextColor={colors.textLight}
+                            multiline
+                            textAlignVertical="top"
+                        />
+                        {fieldErrors.comment && <Text style={styles.errorText}>{fieldErrors.comment}</Text>}
+                    </View>
+
+                    {/* Photos */}
+                    <View style={styles.inputGroup}>
+                        <Text style={styles.label}>
+                            {t('returns.photos', 'Photos ({{count}}/{{max}})')
+                                .replace('{{count}}', String(photos.length))
+                                .replace('{{max}}', String(MAX_RETURN_PHOTOS))}
+                        </Text>
+                        <View style={styles.photoRow}>
+                            {photos.map((uri) => (
+                                <View key={uri} style={styles.photoWrapper}>
+                                    <Image source={{ uri }} style={styles.photo} />
+                                    <TouchableOpacity style={styles.photoRemove} onPress={() => removePhoto(uri)}>
+                                        <Ionicons name="close" size={14} color={colors.white} />
+                                    </TouchableOpacity>
+                                </View>
+                            ))}
+                            {photos.length < MAX_RETURN_PHOTOS && (
+                                <TouchableOpacity style={[styles.photo, styles.photoAdd]} onPress={pickPhoto}>
+                                    <Ionicons name="camera-outline" size={24} color={colors.textSecondary} />
+                                </TouchableOpacity>
+                            )}
+                        </View>
+                        {fieldErrors.photos && <Text style={styles.errorText}>{fieldErrors.photos}</Text>}
+                    </View>
+
+                    {/* Submit */}
+                    <TouchableOpacity
+                        style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+                        onPress={handleSubmit}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? (
+                            <Loading fullScreen={false} />
+                        ) : (
+                            <Text style={styles.submitButtonText}>{t('returns.submit', 'Send Request')}</Text>
+                        )}
+                    </TouchableOpacity>
+                </ScrollView>
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.white,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    backButton: {
+        width: 40,
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: fontSize.xl,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        textAlign: 'center',
+    },
+    headerRight: {
+        width: 40,
+    },
+    content: {
+        padding: spacing.md,
+        paddingBottom: spacing.xl,
+    },
+    emptyContainer: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+    },
+    emptyText: {
+        marginTop: spacing.md,
+        fontSize: fontSize.lg,
+        color: colors.textSecondary,
+        textAlign: 'center',
+    },
+    inputGroup: {
+        marginBottom: spacing.lg,
+    },
+    label: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginBottom: spacing.xs,
+        fontWeight: fontWeight.medium,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+    },
+    textArea: {
+        minHeight: 96,
+    },
+    inputError: {
+        borderColor: colors.error,
+    },
+    errorText: {
+        fontSize: fontSize.sm,
+        color: colors.error,
+        marginTop: spacing.xs,
+    },
+    itemOption: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: spacing.sm,
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        marginBottom: spacing.sm,
+    },
+    itemOptionSelected: {
+        borderColor: colors.primary,
+    },
+    itemImage: {
+        width: 48,
+        height: 48,
+        borderRadius: borderRadius.sm,
+        backgroundColor: colors.background,
+    },
+    itemImagePlaceholder: {
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    itemInfo: {
+        flex: 1,
+        marginHorizontal: spacing.sm,
+    },
+    itemName: {
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+    },
+    itemMeta: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginTop: 2,
+    },
+    stepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-start',
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+    },
+    stepperButton: {
+        padding: spacing.sm,
+    },
+    stepperValue: {
+        minWidth: 32,
+        textAlign: 'center',
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    chip: {
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.md,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        marginRight: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    chipSelected: {
+        backgroundColor: colors.primary,
+        borderColor: colors.primary,
+    },
+    chipText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    chipTextSelected: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+    },
+    photoRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    photoWrapper: {
+        marginRight: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    photo: {
+        width: 72,
+        height: 72,
+        borderRadius: borderRadius.md,
+    },
+    photoAdd: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: colors.border,
+        backgroundColor: colors.background,
+    },
+    photoRemove: {
+        position: 'absolute',
+        top: 4,
+        right: 4,
+        width: 20,
+        height: 20,
+        borderRadius: 10,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    submitButton: {
+        backgroundColor: colors.primary,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.lg,
+        alignItems: 'center',
+        justifyContent: 'center',
+        height: 50,
+    },
+    submitButtonDisabled: {
+        opacity: 0.7,
+    },
+    submitButtonText: {
+        color: colors.white,
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+    },
+});
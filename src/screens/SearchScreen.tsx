@@ -9,149 +9,476 @@ import {
     TouchableOpacity,
     FlatList,
     ActivityIndicator,
+    ScrollView,
     StatusBar,
-    Alert,
     Keyboard,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
 import { ProductCard } from '../components';
-import { getWishlist, searchProducts, toggleWishlist } from '../services/endpoints';
-import type { Product } from '../types';
-import { useAuth } from '../context/AuthContext';
-import { useWishlist } from '../context';
-import { useTranslation } from '../context';
+import { searchProducts } from '../services/endpoints';
+import type { SearchOptions } from '../services/endpoints';
+import { categoriesQuery } from '../services/catalogQueries';
+import { getSortOption, SORT_OPTIONS } from '../services/productFilters';
+import {
+    addRecentSearch,
+    clearRecentSearches,
+    getRelaxedQueries,
+    getSearchSuggestions,
+    loadRecentSearches,
+    removeRecentSearch,
+} from '../services/search';
+import type { SearchSuggestion } from '../services/search';
+import { useQuery } from '../hooks/useQuery';
+import { getLocalizedField } from '../i18n/locale';
+import type { Product, RootStackParamList } from '../types';
+import { useLocalization, useTranslation } from '../context';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type SearchRouteProp = RouteProp<RootStackParamList, 'Search'>;
+
+const PAGE_SIZE = 20;
+const SUGGESTION_DEBOUNCE_MS = 250;
+
+type SearchFilters = Omit<SearchOptions, 'page' | 'per_page'>;
+
+const parsePriceInput = (value: string) => {
+    const parsed = Number.parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+const SUGGESTION_ICONS: Record<SearchSuggestion['type'], keyof typeof Ionicons.glyphMap> = {
+    product: 'cube-outline',
+    category: 'grid-outline',
+    vendor: 'storefront-outline',
+};
 
 export default function SearchScreen() {
-    const navigation = useNavigation();
-    const { isAuthenticated } = useAuth();
-    const { setWishlistCount } = useWishlist();
+    const navigation = useNavigation<NavigationProp>();
+    const route = useRoute<SearchRouteProp>();
+    const linkedQuery = route.params?.query;
     const { t } = useTranslation();
+    const { locale } = useLocalization();
+    const { data: categories } = useQuery(categoriesQuery(locale));
+
     const [query, setQuery] = useState('');
+    const [submittedQuery, setSubmittedQuery] = useState('');
+    const [filters, setFilters] = useState<SearchFilters>({});
     const [results, setResults] = useState<Product[]>([]);
+    const [page, setPage] = useState(1);
+    const [hasMore, setHasMore] = useState(false);
+    const [total, setTotal] = useState(0);
     const [isLoading, setIsLoading] = useState(false);
-    const [hasSearched, setHasSearched] = useState(false);
-    const [wishlistIds, setWishlistIds] = useState<Set<number>>(new Set());
-    const searchTimeout = useRef<NodeJS.Timeout | null>(null);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [recentSearches, setRecentSearches] = useState<string[]>([]);
+    const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+    const [showSuggestions, setShowSuggestions] = useState(false);
+    const [showFilters, setShowFilters] = useState(false);
+    const [minPriceText, setMinPriceText] = useState('');
+    const [maxPriceText, setMaxPriceText] = useState('');
     const inputRef = useRef<TextInput>(null);
+    // Only the latest search may write results; older responses are dropped
+    const requestIdRef = useRef(0);
 
     useEffect(() => {
-        // Focus input on mount
+        // Focus input on mount, unless a link already brought a query
+        if (linkedQuery) return;
         const timer = setTimeout(() => {
             inputRef.current?.focus();
         }, 100);
         return () => clearTimeout(timer);
     }, []);
 
-    const refreshWishlist = useCallback(async () => {
-        if (!isAuthenticated) {
-            setWishlistIds(new Set());
+    useEffect(() => {
+        loadRecentSearches().then(setRecentSearches);
+    }, []);
+
+    // Typeahead while the user is still typing
+    useEffect(() => {
+        if (!showSuggestions || query.trim().length < 2) {
+            setSuggestions([]);
             return;
         }
-        try {
-            const wishlist = await getWishlist();
-            setWishlistIds(new Set(wishlist.map((item) => item.id)));
-            setWishlistCount(wishlist.length);
-        } catch (err) {
-            console.error('Failed to load wishlist:', err);
-        }
-    }, [isAuthenticated, setWishlistCount]);
 
-    useFocusEffect(
-        useCallback(() => {
-            refreshWishlist();
-        }, [refreshWishlist])
-    );
+        let isActive = true;
+        const timer = setTimeout(async () => {
+            const next = await getSearchSuggestions(query, locale);
+            if (isActive) {
+                setSuggestions(next);
+            }
+        }, SUGGESTION_DEBOUNCE_MS);
 
-    const performSearch = useCallback(async (text: string) => {
-        if (!text.trim()) {
-            setResults([]);
-            setHasSearched(false);
-            setIsLoading(false);
-            return;
-        }
+        return () => {
+            isActive = false;
+            clearTimeout(timer);
+        };
+    }, [query, showSuggestions, locale]);
 
-        setIsLoading(true);
-        setHasSearched(true);
+    const fetchPage = useCallback(async (text: string, searchFilters: SearchFilters, pageNum: number) => {
+        const requestId = pageNum === 1 ? ++requestIdRef.current : requestIdRef.current;
+        if (pageNum === 1) {
+            setIsLoading(true);
+        } else {
+            setIsLoadingMore(true);
+        }
 
         try {
-            const response = await searchProducts(text);
-            const data = response.data || [];
-            // Handle pagination wrapper if response.data is paginated object
-            // Assuming endpoints.ts returns PaginatedResponse<Product> so response.data is Product[]
-            // Actually searchProducts returns PaginatedResponse<Product>, so we need response.data
-            setResults(data);
+            const response = await searchProducts(text, { ...searchFilters, page: pageNum, per_page: PAGE_SIZE });
+            if (requestId !== requestIdRef.current) return;
+
+            setResults(prev => (pageNum === 1 ? response.data : [...prev, ...response.data]));
+            setPage(response.meta.current_page);
+            setHasMore(response.meta.current_page < response.meta.last_page);
+            setTotal(response.meta.total);
         } catch (error) {
             console.error('Search failed:', error);
-            // Optionally show error state
+            if (pageNum === 1 && requestId === requestIdRef.current) {
+                setResults([]);
+                setHasMore(false);
+                setTotal(0);
+            }
         } finally {
-            setIsLoading(false);
+            if (requestId === requestIdRef.current) {
+                setIsLoading(false);
+                setIsLoadingMore(false);
+            }
         }
     }, []);
 
-    const handleTextChange = (text: string) => {
-        setQuery(text);
+    const submitSearch = (text: string) => {
+        const trimmed = text.trim();
+        if (!trimmed) return;
+
+        Keyboard.dismiss();
+        setQuery(trimmed);
+        setSubmittedQuery(trimmed);
+        setShowSuggestions(false);
+        addRecentSearch(trimmed).then(setRecentSearches);
+        fetchPage(trimmed, filters, 1);
+    };
 
-        if (searchTimeout.current) {
-            clearTimeout(searchTimeout.current);
+    // Opened with a query, e.g. from a tonas://search?query=... link
+    useEffect(() => {
+        if (linkedQuery) {
+            submitSearch(linkedQuery);
         }
+    }, [linkedQuery]);
 
-        if (text.trim().length > 2) {
-            searchTimeout.current = setTimeout(() => {
-                performSearch(text);
-            }, 600); // 600ms debounce
-        } else if (text.trim().length === 0) {
-            setResults([]);
-            setHasSearched(false);
-            setIsLoading(false);
+    const applyFilters = (next: SearchFilters) => {
+        setFilters(next);
+        if (submittedQuery) {
+            fetchPage(submittedQuery, next, 1);
         }
     };
 
-    const handleSubmit = () => {
-        if (searchTimeout.current) clearTimeout(searchTimeout.current);
-        performSearch(query);
+    const handleTextChange = (text: string) => {
+        setQuery(text);
+        setShowSuggestions(true);
+        if (text.trim().length === 0) {
+            requestIdRef.current += 1;
+            setSubmittedQuery('');
+            setResults([]);
+            setIsLoading(false);
+        }
     };
 
     const handleClear = () => {
+        requestIdRef.current += 1;
         setQuery('');
+        setSubmittedQuery('');
         setResults([]);
-        setHasSearched(false);
+        setSuggestions([]);
+        setIsLoading(false);
         inputRef.current?.focus();
     };
 
+    const handleLoadMore = () => {
+        if (!isLoading && !isLoadingMore && hasMore && submittedQuery) {
+            fetchPage(submittedQuery, filters, page + 1);
+        }
+    };
+
     const handleProductPress = (product: Product) => {
-        navigation.navigate('ProductDetail' as never, { slug: product.slug } as never);
+        navigation.navigate('ProductDetail', { slug: product.slug });
     };
 
-    const handleWishlistToggle = async (product: Product) => {
-        if (!isAuthenticated) {
-            Alert.alert(
-                t('auth.sign_in_required', 'Sign In Required'),
-                t('wishlist.sign_in_prompt', 'Please sign in to add items to your wishlist'),
-                [
-                    { text: t('common.cancel', 'Cancel'), style: 'cancel' },
-                    { text: t('auth.sign_in', 'Sign In'), onPress: () => navigation.navigate('Login' as never) },
-                ]
-            );
-            return;
+    const handleSuggestionPress = (suggestion: SearchSuggestion) => {
+        Keyboard.dismiss();
+        setShowSuggestions(false);
+        addRecentSearch(query).then(setRecentSearches);
+
+        switch (suggestion.type) {
+            case 'product':
+                navigation.navigate('ProductDetail', { slug: suggestion.product.slug });
+                break;
+            case 'category':
+                navigation.navigate('CategoryProducts', {
+                    categoryId: suggestion.category.id,
+                    categoryName: suggestion.label,
+                });
+                break;
+            case 'vendor':
+                navigation.navigate('VendorStore', { slug: suggestion.vendor.slug });
+                break;
         }
+    };
 
-        try {
-            const result = await toggleWishlist(product.id);
-            setWishlistIds((prev) => {
-                const next = new Set(prev);
-                if (result.added) {
-                    next.add(product.id);
-                } else {
-                    next.delete(product.id);
-                }
-                setWishlistCount(next.size);
-                return next;
-            });
-        } catch (err: any) {
-            Alert.alert(t('common.error', 'Error'), err.message || t('wishlist.update_failed', 'Failed to update wishlist'));
+    const handleRemoveRecent = async (item: string) => {
+        setRecentSearches(await removeRecentSearch(item));
+    };
+
+    const handleClearRecent = async () => {
+        await clearRecentSearches();
+        setRecentSearches([]);
+    };
+
+    const handleApplyPrice = () => {
+        let minPrice = parsePriceInput(minPriceText);
+        let maxPrice = parsePriceInput(maxPriceText);
+        if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+            [minPrice, maxPrice] = [maxPrice, minPrice];
+        }
+        applyFilters({ ...filters, min_price: minPrice, max_price: maxPrice });
+    };
+
+    const selectedSort = getSortOption(filters);
+    const relaxedQueries = getRelaxedQueries(submittedQuery);
+    const hasFilters = filters.category_id !== undefined
+        || filters.min_price !== undefined
+        || filters.max_price !== undefined;
+
+    const renderSuggestions = () => (
+        <FlatList
+            data={suggestions}
+            keyExtractor={(item) => `${item.type}-${item.id}`}
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+                <TouchableOpacity style={styles.listRow} onPress={() => handleSuggestionPress(item)}>
+                    <Ionicons name={SUGGESTION_ICONS[item.type]} size={18} color={colors.textSecondary} />
+                    <Text style={styles.listRowText} numberOfLines={1}>{item.label}</Text>
+                    <Text style={styles.suggestionType}>
+                        {t(`search.suggestion_${item.type}`, item.type)}
+                    </Text>
+                </TouchableOpacity>
+            )}
+            ListHeaderComponent={
+                <TouchableOpacity style={styles.listRow} onPress={() => submitSearch(query)}>
+                    <Ionicons name="search" size={18} color={colors.primary} />
+                    <Text style={[styles.listRowText, styles.searchForText]} numberOfLines={1}>
+                        {t('search.search_for', 'Search for "{{query}}"').replace('{{query}}', query.trim())}
+                    </Text>
+                </TouchableOpacity>
+            }
+        />
+    );
+
+    const renderRecentSearches = () => (
+        <View>
+            {recentSearches.length > 0 && (
+                <>
+                    <View style={styles.sectionHeader}>
+                        <Text style={styles.sectionTitle}>{t('search.recent', 'Recent searches')}</Text>
+                        <TouchableOpacity onPress={handleClearRecent}>
+                            <Text style={styles.sectionAction}>{t('search.clear_recent', 'Clear')}</Text>
+                        </TouchableOpacity>
+                    </View>
+                    {recentSearches.map((item) => (
+                        <TouchableOpacity key={item} style={styles.listRow} onPress={() => submitSearch(item)}>
+                            <Ionicons name="time-outline" size={18} color={colors.textSecondary} />
+                            <Text style={styles.listRowText} numberOfLines={1}>{item}</Text>
+                            <TouchableOpacity
+                                onPress={() => handleRemoveRecent(item)}
+                                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                            >
+                                <Ionicons name="close" size={18} color={colors.textLight} />
+                            </TouchableOpacity>
+                        </TouchableOpacity>
+                    ))}
+                </>
+            )}
+            <View style={styles.emptyContainer}>
+                <Ionicons name="pricetags-outline" size={64} color={colors.textLight} />
+                <Text style={styles.emptySubtitle}>{t('search.hint', 'Search for items by name, category, or brand')}</Text>
+            </View>
+        </View>
+    );
+
+    const renderFilterBar = () => (
+        <View style={styles.filterBar}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                <TouchableOpacity
+                    style={[styles.chip, (showFilters || hasFilters) && styles.chipSelected]}
+                    onPress={() => setShowFilters(prev => !prev)}
+                >
+                    <Ionicons
+                        name="options-outline"
+                        size={14}
+                        color={showFilters || hasFilters ? colors.white : colors.textSecondary}
+                    />
+                    <Text style={[styles.chipText, styles.chipIconText, (showFilters || hasFilters) && styles.chipTextSelected]}>
+                        {t('filters.title_short', 'Filters')}
+                    </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.chip, !selectedSort && styles.chipSelected]}
+                    onPress={() => applyFilters({ ...filters, sort_by: undefined, sort_order: undefined })}
+                >
+                    <Text style={[styles.chipText, !selectedSort && styles.chipTextSelected]}>
+                        {t('filters.sort_relevance', 'Relevance')}
+                    </Text>
+                </TouchableOpacity>
+                {SORT_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                        key={option.id}
+                        style={[styles.chip, selectedSort?.id === option.id && styles.chipSelected]}
+                        onPress={() => applyFilters({ ...filters, sort_by: option.sort_by, sort_order: option.sort_order })}
+                    >
+                        <Text style={[styles.chipText, selectedSort?.id === option.id && styles.chipTextSelected]}>
+                            {t(option.labelKey, option.label)}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </ScrollView>
+
+            {showFilters && (
+                <View style={styles.filterPanel}>
+                    <Text style={styles.filterLabel}>{t('filters.price', 'Price')}</Text>
+                    <View style={styles.priceRow}>
+                        <TextInput
+                            style={styles.priceInput}
+                            value={minPriceText}
+                            onChangeText={setMinPriceText}
+                            placeholder={t('filters.min', 'Min')}
+                            placeholderTextColor={colors.textLight}
+                            keyboardType="decimal-pad"
+                        />
+                        <Text style={styles.priceSeparator}>-</Text>
+                        <TextInput
+                            style={styles.priceInput}
+                            value={maxPriceText}
+                            onChangeText={setMaxPriceText}
+                            placeholder={t('filters.max', 'Max')}
+                            placeholderTextColor={colors.textLight}
+                            keyboardType="decimal-pad"
+                        />
+                        <TouchableOpacity style={styles.priceApply} onPress={handleApplyPrice}>
+                            <Text style={styles.priceApplyText}>{t('filters.apply', 'Apply')}</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    {(categories ?? []).length > 0 && (
+                        <>
+                            <Text style={styles.filterLabel}>{t('filters.category', 'Category')}</Text>
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                                {(categories ?? []).map((category) => {
+                                    const isSelected = filters.category_id === category.id;
+                                    return (
+                                        <TouchableOpacity
+                                            key={category.id}
+                                            style={[styles.chip, isSelected && styles.chipSelected]}
+                                            onPress={() => applyFilters({
+                                                ...filters,
+                                                category_id: isSelected ? undefined : category.id,
+                                            })}
+                                        >
+                                            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                                                {getLocalizedField(category as any, 'name', category.name)}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </ScrollView>
+                        </>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+
+    const renderNoResults = () => (
+        <View style={styles.emptyContainer}>
+            <Ionicons name="search-outline" size={64} color={colors.textLight} />
+            <Text style={styles.emptyTitle}>{t('search.no_results', 'No results found')}</Text>
+            <Text style={styles.emptySubtitle}>{t('search.adjust_terms', 'Try adjusting your search terms')}</Text>
+            {relaxedQueries.length > 0 && (
+                <>
+                    <Text style={styles.relaxedTitle}>{t('search.try_instead', 'Try searching for')}</Text>
+                    <View style={styles.relaxedRow}>
+                        {relaxedQueries.map((item) => (
+                            <TouchableOpacity key={item} style={styles.chip} onPress={() => submitSearch(item)}>
+                                <Text style={styles.chipText}>{item}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </>
+            )}
+            {hasFilters && (
+                <TouchableOpacity
+                    style={styles.clearFiltersButton}
+                    onPress={() => {
+                        setMinPriceText('');
+                        setMaxPriceText('');
+                        applyFilters({ sort_by: filters.sort_by, sort_order: filters.sort_order });
+                    }}
+                >
+                    <Text style={styles.clearFiltersText}>{t('filters.clear_all', 'Clear all')}</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+
+    const renderContent = () => {
+        if (showSuggestions && query.trim().length >= 2) {
+            return renderSuggestions();
         }
+        if (!submittedQuery) {
+            return renderRecentSearches();
+        }
+
+        return (
+            <>
+                {renderFilterBar()}
+                {isLoading ? (
+                    <View style={styles.loadingContainer}>
+                        <ActivityIndicator size="large" color={colors.primary} />
+                    </View>
+                ) : (
+                    <FlatList
+                        data={results}
+                        keyExtractor={(item) => item.id.toString()}
+                        renderItem={({ item }) => (
+                            <ProductCard
+                                product={item}
+                                onPress={() => handleProductPress(item)}
+                                showWishlist
+                                style={styles.card}
+                            />
+                        )}
+                        numColumns={2}
+                        contentContainerStyle={styles.listContent}
+                        columnWrapperStyle={styles.columnWrapper}
+                        onEndReached={handleLoadMore}
+                        onEndReachedThreshold={0.5}
+                        ListHeaderComponent={
+                            results.length > 0 ? (
+                                <Text style={styles.resultCount}>
+                                    {t('search.results_count', '{{count}} results').replace('{{count}}', String(total))}
+                                </Text>
+                            ) : null
+                        }
+                        ListFooterComponent={
+                            isLoadingMore ? (
+                                <ActivityIndicator style={styles.footerLoader} color={colors.primary} />
+                            ) : null
+                        }
+                        ListEmptyComponent={renderNoResults()}
+                    />
+                )}
+            </>
+        );
     };
 
     return (
@@ -172,7 +499,7 @@ export default function SearchScreen() {
                         placeholderTextColor={colors.textLight}
                         value={query}
                         onChangeText={handleTextChange}
-                        onSubmitEditing={handleSubmit}
+                        onSubmitEditing={() => submitSearch(query)}
                         returnKeyType="search"
                         autoCapitalize="none"
                         autoCorrect={false}
@@ -185,45 +512,7 @@ export default function SearchScreen() {
                 </View>
             </View>
 
-            {/* Results */}
-            {isLoading ? (
-                <View style={styles.loadingContainer}>
-                    <ActivityIndicator size="large" color={colors.primary} />
-                </View>
-            ) : (
-                <FlatList
-                    data={results}
-                    keyExtractor={(item) => item.id.toString()}
-                    renderItem={({ item }) => (
-                        <ProductCard
-                            product={item}
-                            onPress={() => handleProductPress(item)}
-                            onWishlistPress={() => handleWishlistToggle(item)}
-                            isInWishlist={wishlistIds.has(item.id)}
-                            style={styles.card}
-                        />
-                    )}
-                    numColumns={2}
-                    contentContainerStyle={styles.listContent}
-                    columnWrapperStyle={styles.columnWrapper}
-                    ListEmptyComponent={
-                        hasSearched && query.length > 2 ? (
-                            <View style={styles.emptyContainer}>
-                                <Ionicons name="search-outline" size={64} color={colors.textLight} />
-                                <Text style={styles.emptyTitle}>{t('search.no_results', 'No results found')}</Text>
-                                <Text style={styles.emptySubtitle}>{t('search.adjust_terms', 'Try adjusting your search terms')}</Text>
-                            </View>
-                        ) : (
-                            !hasSearched ? (
-                                <View style={styles.emptyContainer}>
-                                    <Ionicons name="pricetags-outline" size={64} color={colors.textLight} />
-                                    <Text style={styles.emptySubtitle}>{t('search.hint', 'Search for items by name, category, or brand')}</Text>
-                                </View>
-                            ) : null
-                        )
-                    }
-                />
-            )}
+            {renderContent()}
         </SafeAreaView>
     );
 }
@@ -301,4 +590,155 @@ const styles = StyleSheet.create({
         marginTop: spacing.sm,
         textAlign: 'center',
     },
+    sectionHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingTop: spacing.md,
+        paddingBottom: spacing.xs,
+    },
+    sectionTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    sectionAction: {
+        fontSize: fontSize.sm,
+        color: colors.primary,
+    },
+    listRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    listRowText: {
+        flex: 1,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        marginHorizontal: spacing.sm,
+    },
+    searchForText: {
+        color: colors.primary,
+        fontWeight: fontWeight.medium,
+    },
+    suggestionType: {
+        fontSize: fontSize.xs,
+        color: colors.textLight,
+        textTransform: 'uppercase',
+    },
+    filterBar: {
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    chipRow: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        alignItems: 'center',
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: spacing.xs,
+        paddingHorizontal: spacing.md,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.border,
+        marginRight: spacing.sm,
+        marginBottom: spacing.xs,
+    },
+    chipSelected: {
+        backgroundColor: colors.primary,
+        borderColor: colors.primary,
+    },
+    chipText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    chipIconText: {
+        marginLeft: spacing.xs,
+    },
+    chipTextSelected: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+    },
+    filterPanel: {
+        paddingBottom: spacing.sm,
+    },
+    filterLabel: {
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.semibold,
+        color: colors.textSecondary,
+        paddingHorizontal: spacing.md,
+        marginTop: spacing.xs,
+    },
+    priceRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+    },
+    priceInput: {
+        flex: 1,
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.sm,
+        height: 38,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+    },
+    priceSeparator: {
+        marginHorizontal: spacing.sm,
+        color: colors.textSecondary,
+    },
+    priceApply: {
+        marginLeft: spacing.sm,
+        paddingVertical: spacing.sm,
+        paddingHorizontal: spacing.md,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary,
+    },
+    priceApplyText: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+        fontSize: fontSize.sm,
+    },
+    resultCount: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginBottom: spacing.sm,
+        paddingHorizontal: spacing.xs,
+    },
+    footerLoader: {
+        paddingVertical: spacing.lg,
+    },
+    relaxedTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+        marginTop: spacing.lg,
+        marginBottom: spacing.sm,
+    },
+    relaxedRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+    },
+    clearFiltersButton: {
+        marginTop: spacing.md,
+        paddingVertical: spacing.sm,
+        paddingHorizontal: spacing.lg,
+        borderRadius: borderRadius.lg,
+        backgroundColor: colors.primary,
+    },
+    clearFiltersText: {
+        color: colors.white,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+    },
 });
@@ -0,0 +1,573 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    ScrollView,
+    TouchableOpacity,
+    ActivityIndicator,
+    Alert,
+    RefreshControl
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
+import { getErrorMessage } from '../services/errors';
+import {
+    ANALYTICS_RANGES,
+    exportAnalyticsCsv,
+    getAnalyticsReport,
+    getMetrics,
+    percentChange,
+    resolveRange,
+} from '../services/sellerAnalytics';
+import type { AnalyticsRangeId, AnalyticsReport, DateRange } from '../services/sellerAnalytics';
+import { DateField, LineChart } from '../components';
+import { useTranslation } from '../context';
+import type { AnalyticsRankedItem, RootStackParamList } from '../types';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+type ChartMetric = 'revenue' | 'orders';
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+const formatShortDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export default function SellerAnalyticsScreen() {
+    const navigation = useNavigation<NavigationProp>();
+    const { t } = useTranslation();
+    const [rangeId, setRangeId] = useState<AnalyticsRangeId>('30d');
+    const [customRange, setCustomRange] = useState<DateRange>({ from: '', to: '' });
+    const [chartMetric, setChartMetric] = useState<ChartMetric>('revenue');
+    const [report, setReport] = useState<AnalyticsReport | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Switching ranges quickly must not let an older response win
+    const requestIdRef = useRef(0);
+
+    const range = resolveRange(rangeId, customRange);
+    const rangeKey = range ? `${range.from}:${range.to}` : '';
+
+    const fetchReport = useCallback(async () => {
+        if (!range) {
+            setIsLoading(false);
+            setIsRefreshing(false);
+            return;
+        }
+        const requestId = ++requestIdRef.current;
+        setError(null);
+        try {
+            const result = await getAnalyticsReport(range);
+            if (requestId !== requestIdRef.current) return;
+            setReport(result);
+        } catch (err) {
+            if (requestId !== requestIdRef.current) return;
+            console.error('Fetch seller analytics error:', err);
+            setError(getErrorMessage(err, t('analytics.load_failed', 'Failed to load analytics')));
+        } finally {
+            if (requestId === requestIdRef.current) {
+                setIsLoading(false);
+                setIsRefreshing(false);
+            }
+        }
+    }, [rangeKey]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        fetchReport();
+    }, [fetchReport]);
+
+    const handleRefresh = () => {
+        setIsRefreshing(true);
+        fetchReport();
+    };
+
+    const handleExport = async () => {
+        if (!report) return;
+        setIsExporting(true);
+        try {
+            await exportAnalyticsCsv(report, t);
+        } catch (err) {
+            console.error('Export analytics error:', err);
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(err, t('analytics.export_failed', 'Failed to export the report')));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const renderChange = (current: number | null, previous: number | null) => {
+        const change = percentChange(current, previous);
+        if (change === null) {
+            return <Text style={styles.changeNeutral}>{t('analytics.no_comparison', 'No previous data')}</Text>;
+        }
+        const isUp = change >= 0;
+        return (
+            <View style={styles.changeRow}>
+                <Ionicons name={isUp ? 'arrow-up' : 'arrow-down'} size={12} color={isUp ? colors.success : colors.error} />
+                <Text style={[styles.changeText, { color: isUp ? colors.success : colors.error }]}>
+                    {Math.abs(change).toFixed(1)}%
+                </Text>
+            </View>
+        );
+    };
+
+    const renderMetric = (label: string, value: string, current: number | null, previous: number | null) => (
+        <View style={styles.metricCard}>
+            <Text style={styles.metricLabel}>{label}</Text>
+            <Text style={styles.metricValue}>{value}</Text>
+            {renderChange(current, previous)}
+        </View>
+    );
+
+    const renderRanking = (title: string, items: AnalyticsRankedItem[]) => {
+        const maxRevenue = Math.max(1, ...items.map((item) => item.revenue));
+        return (
+            <View style={styles.card}>
+                <Text style={styles.cardTitle}>{title}</Text>
+                {items.length === 0 ? (
+                    <Text style={styles.emptyText}>{t('analytics.no_sales', 'No sales in this period')}</Text>
+                ) : (
+                    items.map((item, index) => (
+                        <View key={item.id} style={styles.rankRow}>
+                            <Text style={styles.rankNumber}>{index + 1}</Text>
+                            <View style={styles.rankInfo}>
+                                <View style={styles.rankHeader}>
+                                    <Text style={styles.rankName} numberOfLines={1}>{item.name}</Text>
+                                    <Text style={styles.rankRevenue}>{formatMoney(item.revenue)}</Text>
+                                </View>
+                                <View style={styles.rankTrack}>
+                                    <View style={[styles.rankBar, { width: `${(item.revenue / maxRevenue) * 100}%` }]} />
+                                </View>
+                                <Text style={styles.rankMeta}>
+                                    {t('seller.units_sold', '{{count}} sold').replace('{{count}}', String(item.units_sold))}
+                                </Text>
+                            </View>
+                        </View>
+                    ))
+                )}
+            </View>
+        );
+    };
+
+    const renderReport = () => {
+        if (!range) {
+            return (
+                <Text style={styles.hintText}>
+                    {t('analytics.pick_range', 'Pick a start and end date to see this period.')}
+                </Text>
+            );
+        }
+        if (isLoading) {
+            return <ActivityIndicator style={styles.loader} size="large" color={colors.primary} />;
+        }
+        if (error || !report) {
+            return (
+                <View style={styles.errorContainer}>
+                    <Ionicons name="alert-circle-outline" size={48} color={colors.error} />
+                    <Text style={styles.errorText}>{error}</Text>
+                    <TouchableOpacity style={styles.retryButton} onPress={() => { setIsLoading(true); fetchReport(); }}>
+                        <Text style={styles.retryText}>{t('common.retry', 'Retry')}</Text>
+                    </TouchableOpacity>
+                </View>
+            );
+        }
+
+        const now = getMetrics(report.current);
+        const before = getMetrics(report.previous);
+        const values = report.current.series.map((point) => point[chartMetric]);
+        const comparison = report.previous.series.map((point) => point[chartMetric]);
+
+        return (
+            <>
+                <Text style={styles.periodText}>
+                    {t('analytics.compared_to', 'Compared to {{from}} - {{to}}')
+                        .replace('{{from}}', formatShortDate(report.previous.from))
+                        .replace('{{to}}', formatShortDate(report.previous.to))}
+                </Text>
+
+                <View style={styles.metricsGrid}>
+                    {renderMetric(t('analytics.revenue', 'Revenue'), formatMoney(now.revenue), now.revenue, before.revenue)}
+                    {renderMetric(t('analytics.orders', 'Orders'), String(now.orders), now.orders, before.orders)}
+                    {renderMetric(
+                        t('analytics.average_order_value', 'Average order value'),
+                        formatMoney(now.average_order_value),
+                        now.average_order_value,
+                        before.average_order_value
+                    )}
+                    {renderMetric(
+                        t('analytics.conversion_rate', 'Conversion rate'),
+                        now.conversion_rate === null ? '-' : `${now.conversion_rate.toFixed(1)}%`,
+                        now.conversion_rate,
+                        before.conversion_rate
+                    )}
+                </View>
+
+                <View style={styles.card}>
+                    <View style={styles.chartHeader}>
+                        {(['revenue', 'orders'] as ChartMetric[]).map((metric) => (
+                            <TouchableOpacity
+                                key={metric}
+                                style={[styles.segment, chartMetric === metric && styles.segmentActive]}
+                                onPress={() => setChartMetric(metric)}
+                            >
+                                <Text style={[styles.segmentText, chartMetric === metric && styles.segmentTextActive]}>
+                                    {metric === 'revenue' ? t('analytics.revenue', 'Revenue') : t('analytics.orders', 'Orders')}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <LineChart
+                        values={values}
+                        comparison={comparison}
+                        labels={report.current.series.map((point) => formatShortDate(point.date))}
+                        formatValue={(value) => (chartMetric === 'revenue' ? `$${Math.round(value)}` : String(Math.round(value)))}
+                    />
+                    <View style={styles.legend}>
+                        <View style={styles.legendItem}>
+                            <View style={[styles.legendLine, { backgroundColor: colors.primary }]} />
+                            <Text style={styles.legendText}>{t('analytics.this_period', 'This period')}</Text>
+                        </View>
+                        <View style={styles.legendItem}>
+                            <View style={[styles.legendLine, styles.legendLineDashed]} />
+                            <Text style={styles.legendText}>{t('analytics.previous_period', 'Previous period')}</Text>
+                        </View>
+                    </View>
+                </View>
+
+                {renderRanking(t('seller.top_products', 'Top Products'), report.current.top_products)}
+                {renderRanking(t('analytics.top_categories', 'Top Categories'), report.current.top_categories)}
+            </>
+        );
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{t('analytics.title', 'Sales Analytics')}</Text>
+                <TouchableOpacity
+                    style={styles.headerRight}
+                    onPress={handleExport}
+                    disabled={!report || isExporting}
+                    accessibilityLabel={t('analytics.export_csv', 'Export CSV')}
+                >
+                    {isExporting ? (
+                        <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                        <Ionicons name="download-outline" size={22} color={report ? colors.primary : colors.textLight} />
+                    )}
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView
+                contentContainerStyle={styles.content}
+                refreshControl={
+                    <RefreshControl
+                        refreshing={isRefreshing}
+                        onRefresh={handleRefresh}
+                        colors={[colors.primary]}
+                        tintColor={colors.primary}
+                    />
+                }
+            >
+                {/* Range */}
+                <View style={styles.rangeRow}>
+                    {ANALYTICS_RANGES.map((option) => (
+                        <TouchableOpacity
+                            key={option.id}
+                            style={[styles.rangeChip, rangeId === option.id && styles.rangeChipActive]}
+                            onPress={() => setRangeId(option.id)}
+                        >
+                            <Text style={[styles.rangeText, rangeId === option.id && styles.rangeTextActive]}>
+                                {t(option.labelKey, option.label)}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+                {rangeId === 'custom' && (
+                    <View style={styles.customRow}>
+                        <DateField
+                            style={styles.dateField}
+                            value={customRange.from}
+                            onChange={(from) => setCustomRange((prev) => ({ ...prev, from }))}
+                            placeholder={t('orders.date_from', 'From')}
+                            maximumDate={customRange.to ? new Date(`${customRange.to}T00:00:00`) : new Date()}
+                        />
+                        <DateField
+                            style={styles.dateField}
+                            value={customRange.to}
+                            onChange={(to) => setCustomRange((prev) => ({ ...prev, to }))}
+                            placeholder={t('orders.date_to', 'To')}
+                            minimumDate={customRange.from ? new Date(`${customRange.from}T00:00:00`) : undefined}
+                            maximumDate={new Date()}
+                        />
+                    </View>
+                )}
+
+                {renderReport()}
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F5F5F5',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.md,
+        backgroundColor: colors.white,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    backButton: {
+        width: 40,
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: fontSize.xl,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        textAlign: 'center',
+    },
+    headerRight: {
+        width: 40,
+        alignItems: 'flex-end',
+    },
+    content: {
+        padding: spacing.md,
+        paddingBottom: 40,
+    },
+    rangeRow: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+        marginBottom: spacing.md,
+    },
+    rangeChip: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.white,
+    },
+    rangeChipActive: {
+        borderColor: colors.primary,
+        backgroundColor: colors.primary,
+    },
+    rangeText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    rangeTextActive: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+    },
+    customRow: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+        marginBottom: spacing.md,
+    },
+    dateField: {
+        flex: 1,
+        backgroundColor: colors.white,
+    },
+    hintText: {
+        fontSize: fontSize.md,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        marginTop: spacing.xl,
+    },
+    loader: {
+        marginTop: spacing.xl,
+    },
+    errorContainer: {
+        alignItems: 'center',
+        marginTop: spacing.xl,
+    },
+    errorText: {
+        fontSize: fontSize.md,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        marginTop: spacing.md,
+    },
+    retryButton: {
+        marginTop: spacing.md,
+        paddingHorizontal: spacing.lg,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.primary,
+    },
+    retryText: {
+        color: colors.white,
+        fontWeight: fontWeight.bold,
+    },
+    periodText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginBottom: spacing.sm,
+    },
+    metricsGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        justifyContent: 'space-between',
+        marginBottom: spacing.sm,
+    },
+    metricCard: {
+        width: '48%',
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.md,
+        padding: spacing.md,
+        marginBottom: spacing.sm,
+        ...shadows.sm,
+    },
+    metricLabel: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    metricValue: {
+        fontSize: fontSize.xl,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        marginVertical: 4,
+    },
+    changeRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 2,
+    },
+    changeText: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.semibold,
+    },
+    changeNeutral: {
+        fontSize: fontSize.xs,
+        color: colors.textLight,
+    },
+    card: {
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.md,
+        padding: spacing.md,
+        marginBottom: spacing.md,
+        ...shadows.sm,
+    },
+    cardTitle: {
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        marginBottom: spacing.md,
+    },
+    chartHeader: {
+        flexDirection: 'row',
+        alignSelf: 'flex-start',
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.background,
+        padding: 2,
+        marginBottom: spacing.md,
+    },
+    segment: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: 6,
+        borderRadius: borderRadius.sm,
+    },
+    segmentActive: {
+        backgroundColor: colors.white,
+        ...shadows.sm,
+    },
+    segmentText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    segmentTextActive: {
+        color: colors.textPrimary,
+        fontWeight: fontWeight.semibold,
+    },
+    legend: {
+        flexDirection: 'row',
+        gap: spacing.lg,
+        marginTop: spacing.sm,
+    },
+    legendItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+    },
+    legendLine: {
+        width: 16,
+        height: 2,
+    },
+    legendLineDashed: {
+        borderTopWidth: 2,
+        borderStyle: 'dashed',
+        borderColor: colors.textLight,
+        height: 0,
+    },
+    legendText: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+    },
+    emptyText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    rankRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        marginBottom: spacing.md,
+    },
+    rankNumber: {
+        width: 24,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+        color: colors.textLight,
+    },
+    rankInfo: {
+        flex: 1,
+    },
+    rankHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        gap: spacing.sm,
+    },
+    rankName: {
+        flex: 1,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    rankRevenue: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    rankTrack: {
+        height: 6,
+        borderRadius: 3,
+        backgroundColor: colors.borderLight,
+        marginVertical: 4,
+        overflow: 'hidden',
+    },
+    rankBar: {
+        height: '100%',
+        borderRadius: 3,
+        backgroundColor: colors.primary,
+    },
+    rankMeta: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+    },
+});
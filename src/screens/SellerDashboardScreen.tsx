@@ -15,7 +15,7 @@ import { useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
 import { useAuth } from '../context/AuthContext';
 import { getSellerDashboard, getSellerProfile } from '../services/endpoints';
-import { Loading } from '../components';
+import { Loading, OrderStatusBadge } from '../components';
 import type { Vendor } from '../types';
 import { useTranslation } from '../context';
 
@@ -254,13 +254,38 @@ export default function SellerDashboardScreen() {
                             </View>
                             <Text style={styles.actionLabel}>{t('seller.coupons', 'Coupons')}</Text>
                         </TouchableOpacity>
+
+                        <TouchableOpacity
+                            style={styles.actionButton}
+                            onPress={() => navigation.navigate('SellerReviews' as never)}
+                        >
+                            <View style={[styles.actionIcon, { backgroundColor: colors.warning }]}>
+                                <Ionicons name="star" size={24} color={colors.white} />
+                            </View>
+                            <Text style={styles.actionLabel}>{t('seller.reviews', 'Reviews')}</Text>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                            style={styles.actionButton}
+                            onPress={() => navigation.navigate('SellerAnalytics' as never)}
+                        >
+                            <View style={[styles.actionIcon, { backgroundColor: colors.secondaryLight }]}>
+                                <Ionicons name="stats-chart" size={24} color={colors.white} />
+                            </View>
+                            <Text style={styles.actionLabel}>{t('seller.analytics', 'Analytics')}</Text>
+                        </TouchableOpacity>
                     </View>
                 </View>
 
                 {/* Sales Overview */}
                 {salesOverview.length > 0 && (
                     <View style={styles.section}>
-                        <Text style={styles.sectionTitle}>{t('seller.sales_last_7', 'Sales (Last 7 Days)')}</Text>
+                        <View style={styles.sectionHeader}>
+                            <Text style={styles.sectionTitle}>{t('seller.sales_last_7', 'Sales (Last 7 Days)')}</Text>
+                            <TouchableOpacity onPress={() => navigation.navigate('SellerAnalytics' as never)}>
+                                <Text style={styles.seeAllText}>{t('seller.view_analytics', 'View Analytics')}</Text>
+                            </TouchableOpacity>
+                        </View>
                         <View style={styles.chartContainer}>
                             {salesOverview.map((point) => (
                                 <View key={point.date} style={styles.chartItem}>
@@ -329,17 +354,7 @@ export default function SellerDashboardScreen() {
                                 <Text style={styles.orderTotal}>
                                     ${Number(order.total ?? order.total_amount ?? 0).toFixed(2)}
                                 </Text>
-                                <View style={[
-                                    styles.statusBadge,
-                                    order.status === 'delivered' ? styles.statusSuccess :
-                                        order.status === 'processing' || order.status === 'shipped' ? styles.statusInfo : styles.statusWarning
-                                ]}>
-                                    <Text style={[
-                                        styles.statusText,
-                                        order.status === 'delivered' ? styles.statusTextSuccess :
-                                            order.status === 'processing' || order.status === 'shipped' ? styles.statusTextInfo : styles.statusTextWarning
-                                    ]}>{order.status}</Text>
-                                </View>
+                                <OrderStatusBadge status={order.status} />
                             </View>
                         </View>
                     )))}
@@ -567,18 +582,6 @@ const styles = StyleSheet.create({
         color: colors.primary,
         marginBottom: 4,
     },
-    statusBadge: {
-        paddingHorizontal: spacing.sm,
-        paddingVertical: 2,
-        borderRadius: borderRadius.sm,
-    },
-    statusSuccess: { backgroundColor: '#E8F5E9' },
-    statusInfo: { backgroundColor: '#E3F2FD' },
-    statusWarning: { backgroundColor: '#FFF3E0' },
-    statusText: { fontSize: fontSize.xs, fontWeight: fontWeight.bold },
-    statusTextSuccess: { color: '#2E7D32' },
-    statusTextInfo: { color: '#1565C0' },
-    statusTextWarning: { color: '#EF6C00' },
     errorContainer: {
         flex: 1,
         justifyContent: 'center',
@@ -0,0 +1,340 @@
+import React, { useState, useCallback } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    StatusBar,
+    TouchableOpacity,
+    ScrollView,
+    ActivityIndicator,
+    Image,
+    Alert,
+    Linking,
+    RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { getSellerOrderById } from '../services/endpoints';
+import { getErrorMessage } from '../services/errors';
+import { getOrderStatus } from '../services/orders';
+import { sharePackingSlip } from '../services/packingSlip';
+import { PAYMENT_METHODS } from '../services/payments';
+import { OrderStatusBadge } from '../components';
+import type { RootStackParamList, SellerOrder } from '../types';
+import { useTranslation } from '../context';
+import { getLocalizedField } from '../i18n/locale';
+
+type SellerOrderDetailRouteProp = RouteProp<RootStackParamList, 'SellerOrderDetail'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const formatAmount = (value: string) => `$${(Number.parseFloat(value) || 0).toFixed(2)}`;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '');
+
+export default function SellerOrderDetailScreen() {
+    const navigation = useNavigation<NavigationProp>();
+    const route = useRoute<SellerOrderDetailRouteProp>();
+    const { orderId } = route.params;
+    const { t } = useTranslation();
+
+    const [order, setOrder] = useState<SellerOrder | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isSharing, setIsSharing] = useState(false);
+
+    const fetchOrder = useCallback(async () => {
+        try {
+            const data = await getSellerOrderById(orderId);
+            setOrder(data);
+        } catch (e) {
+            console.error('Failed to load seller order', e);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [orderId]);
+
+    // Picks up status changes made from the orders list
+    useFocusEffect(
+        useCallback(() => {
+            fetchOrder();
+        }, [fetchOrder])
+    );
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        await fetchOrder();
+        setIsRefreshing(false);
+    };
+
+    const handleShareSlip = async () => {
+        if (!order) return;
+        setIsSharing(true);
+        try {
+            await sharePackingSlip(order, t);
+        } catch (e) {
+            console.error('Failed to share packing slip', e);
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(e, t('packing_slip.failed', 'Could not create the packing slip')));
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const handleContact = async (url: string) => {
+        try {
+            await Linking.openURL(url);
+        } catch (e) {
+            console.error('Failed to open contact link', e);
+        }
+    };
+
+    if (isLoading) {
+        return <ActivityIndicator style={{ flex: 1 }} size="large" color={colors.primary} />;
+    }
+
+    if (!order) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
+                <View style={styles.header}>
+                    <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                        <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+                    </TouchableOpacity>
+                    <Text style={styles.headerTitle}>{t('orders.order', 'Order')}</Text>
+                    <View style={styles.headerRight} />
+                </View>
+                <Text style={styles.errorText}>{t('orders.not_found', 'Order not found.')}</Text>
+            </SafeAreaView>
+        );
+    }
+
+    const address = order.shipping_address;
+    const phone = address?.phone || order.customer?.phone;
+    const paymentMethod = PAYMENT_METHODS.find((method) => method.id === order.payment_method);
+    const discount = Number.parseFloat(order.discount) || 0;
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>
+                    {t('orders.order', 'Order')} {order.order_number}
+                </Text>
+                <TouchableOpacity
+                    style={styles.headerRight}
+                    onPress={handleShareSlip}
+                    disabled={isSharing}
+                    accessibilityLabel={t('packing_slip.share', 'Share packing slip')}
+                >
+                    {isSharing ? (
+                        <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                        <Ionicons name="share-outline" size={22} color={colors.primary} />
+                    )}
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView
+                contentContainerStyle={styles.content}
+                refreshControl={
+                    <RefreshControl
+                        refreshing={isRefreshing}
+                        onRefresh={handleRefresh}
+                        colors={[colors.primary]}
+                        tintColor={colors.primary}
+                    />
+                }
+            >
+                {/* Summary */}
+                <View style={styles.card}>
+                    <View style={styles.summaryRow}>
+                        <Text style={styles.cardText}>{formatDate(order.created_at)}</Text>
+                        <OrderStatusBadge status={order.status} />
+                    </View>
+                    {order.status === 'cancelled' && order.cancellation_reason ? (
+                        <Text style={styles.cardText}>
+                            {t('orders.cancellation_reason', 'Cancellation reason')}: {order.cancellation_reason}
+                        </Text>
+                    ) : null}
+                    {order.tracking && (
+                        <Text style={styles.cardText}>
+                            {t('orders.tracking', 'Tracking')}: {order.tracking.carrier} {order.tracking.tracking_number}
+                        </Text>
+                    )}
+                </View>
+
+                {/* Customer */}
+                <Text style={styles.sectionTitle}>{t('orders.customer', 'Customer')}</Text>
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>
+                        {order.customer?.name || address?.recipient_name || t('orders.customer_unknown', 'Unknown Customer')}
+                    </Text>
+                    {order.customer?.email ? (
+                        <TouchableOpacity style={styles.contactRow} onPress={() => handleContact(`mailto:${order.customer!.email}`)}>
+                            <Ionicons name="mail-outline" size={16} color={colors.primary} />
+                            <Text style={styles.contactText}>{order.customer.email}</Text>
+                        </TouchableOpacity>
+                    ) : null}
+                    {phone ? (
+                        <TouchableOpacity style={styles.contactRow} onPress={() => handleContact(`tel:${phone}`)}>
+                            <Ionicons name="call-outline" size={16} color={colors.primary} />
+                            <Text style={styles.contactText}>{phone}</Text>
+                        </TouchableOpacity>
+                    ) : null}
+                </View>
+
+                {/* Shipping address */}
+                {address && (
+                    <>
+                        <Text style={styles.sectionTitle}>{t('orders.shipping_address', 'Shipping Address')}</Text>
+                        <View style={styles.card}>
+                            <Text style={styles.cardTitle}>{address.recipient_name || address.label}</Text>
+                            <Text style={styles.cardText}>
+                                {address.full_address || [address.street_address, address.city, address.state, address.postal_code, address.country].filter(Boolean).join(', ')}
+                            </Text>
+                        </View>
+                    </>
+                )}
+
+                {/* Notes */}
+                {order.notes ? (
+                    <>
+                        <Text style={styles.sectionTitle}>{t('orders.notes', 'Order notes')}</Text>
+                        <View style={styles.card}>
+                            <Text style={styles.noteText}>{order.notes}</Text>
+                        </View>
+                    </>
+                ) : null}
+
+                {/* Line items */}
+                <Text style={styles.sectionTitle}>{t('orders.items', 'Items')}</Text>
+                <View style={styles.card}>
+                    {order.items.map((item) => (
+                        <View key={item.id} style={styles.itemRow}>
+                            {item.product.thumbnail ? (
+                                <Image source={{ uri: item.product.thumbnail }} style={styles.itemImage} />
+                            ) : (
+                                <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+                                    <Ionicons name="image-outline" size={20} color={colors.textLight} />
+                                </View>
+                            )}
+                            <View style={styles.itemInfo}>
+                                <Text style={styles.itemName} numberOfLines={2}>
+                                    {getLocalizedField(item.product as any, 'name', item.product.name)}
+                                </Text>
+                                {item.variant ? <Text style={styles.itemMeta}>{item.variant.name}</Text> : null}
+                                {item.variant?.sku ? (
+                                    <Text style={styles.itemMeta}>{t('variants.sku', 'SKU')}: {item.variant.sku}</Text>
+                                ) : null}
+                                <Text style={styles.itemMeta}>{item.quantity} × {formatAmount(item.unit_price)}</Text>
+                            </View>
+                            <Text style={styles.itemPrice}>{formatAmount(item.subtotal)}</Text>
+                        </View>
+                    ))}
+                    <View style={styles.totalRow}>
+                        <Text style={styles.cardText}>{t('cart.subtotal', 'Subtotal')}</Text>
+                        <Text style={styles.cardText}>{formatAmount(order.subtotal)}</Text>
+                    </View>
+                    <View style={styles.totalRow}>
+                        <Text style={styles.cardText}>{t('checkout.shipping', 'Shipping')}</Text>
+                        <Text style={styles.cardText}>{formatAmount(order.shipping)}</Text>
+                    </View>
+                    {discount > 0 && (
+                        <View style={styles.totalRow}>
+                            <Text style={styles.cardText}>{t('checkout.discount', 'Coupon discount')}</Text>
+                            <Text style={[styles.cardText, styles.discountText]}>-{formatAmount(order.discount)}</Text>
+                        </View>
+                    )}
+                    <View style={styles.totalRow}>
+                        <Text style={styles.totalLabel}>{t('orders.total', 'Total')}</Text>
+                        <Text style={styles.totalValue}>{formatAmount(order.total)}</Text>
+                    </View>
+                </View>
+
+                {/* Payment */}
+                <Text style={styles.sectionTitle}>{t('checkout.payment_method', 'Payment Method')}</Text>
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>
+                        {paymentMethod ? t(paymentMethod.labelKey, paymentMethod.label) : order.payment_method || '-'}
+                    </Text>
+                    {order.payment_status ? (
+                        <Text style={[styles.cardText, styles.capitalize]}>{order.payment_status}</Text>
+                    ) : null}
+                </View>
+
+                {/* History */}
+                {order.status_history.length > 0 && (
+                    <>
+                        <Text style={styles.sectionTitle}>{t('orders.history', 'History')}</Text>
+                        <View style={styles.card}>
+                            {order.status_history.map((event, index) => {
+                                const status = getOrderStatus(event.status);
+                                return (
+                                    <View key={`${event.status}-${index}`} style={styles.historyRow}>
+                                        <View style={styles.historyDot} />
+                                        <View style={styles.historyInfo}>
+                                            <Text style={styles.historyStatus}>{t(status.labelKey, status.label)}</Text>
+                                            <Text style={styles.itemMeta}>{formatDate(event.created_at)}</Text>
+                                            {event.note ? <Text style={styles.noteText}>{event.note}</Text> : null}
+                                        </View>
+                                    </View>
+                                );
+                            })}
+                        </View>
+                    </>
+                )}
+
+                <TouchableOpacity
+                    style={[styles.slipButton, isSharing && styles.slipButtonDisabled]}
+                    onPress={handleShareSlip}
+                    disabled={isSharing}
+                >
+                    <Ionicons name="document-text-outline" size={20} color={colors.white} />
+                    <Text style={styles.slipButtonText}>{t('packing_slip.share', 'Share packing slip')}</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: '#F5F5F5' },
+    header: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: spacing.md, paddingVertical: spacing.md, backgroundColor: colors.white, borderBottomWidth: 1, borderBottomColor: colors.borderLight },
+    backButton: { width: 40 },
+    headerTitle: { flex: 1, fontSize: fontSize.xl, fontWeight: fontWeight.bold, color: colors.textPrimary, textAlign: 'center' },
+    headerRight: { width: 40, alignItems: 'flex-end' },
+    content: { padding: spacing.md, paddingBottom: 40 },
+    errorText: { fontSize: fontSize.lg, color: colors.error, textAlign: 'center', marginTop: spacing.lg },
+    sectionTitle: { fontSize: fontSize.md, fontWeight: fontWeight.semibold, color: colors.textPrimary, marginTop: spacing.md, marginBottom: spacing.sm },
+    card: { backgroundColor: colors.white, borderRadius: borderRadius.lg, padding: spacing.md },
+    cardTitle: { fontSize: fontSize.md, fontWeight: fontWeight.semibold, color: colors.textPrimary, marginBottom: spacing.xs },
+    cardText: { fontSize: fontSize.sm, color: colors.textSecondary, marginTop: 2 },
+    capitalize: { textTransform: 'capitalize' },
+    summaryRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
+    contactRow: { flexDirection: 'row', alignItems: 'center', marginTop: spacing.xs },
+    contactText: { marginLeft: spacing.xs, fontSize: fontSize.sm, color: colors.primary },
+    noteText: { fontSize: fontSize.sm, color: colors.textPrimary, marginTop: 2 },
+    itemRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: spacing.sm, borderBottomWidth: 1, borderBottomColor: colors.borderLight },
+    itemImage: { width: 56, height: 56, borderRadius: borderRadius.sm, backgroundColor: colors.background },
+    itemImagePlaceholder: { alignItems: 'center', justifyContent: 'center' },
+    itemInfo: { flex: 1, marginHorizontal: spacing.sm },
+    itemName: { fontSize: fontSize.md, color: colors.textPrimary },
+    itemMeta: { fontSize: fontSize.sm, color: colors.textSecondary, marginTop: 2 },
+    itemPrice: { fontSize: fontSize.md, fontWeight: fontWeight.medium, color: colors.textPrimary },
+    totalRow: { flexDirection: 'row', justifyContent: 'space-between', paddingTop: spacing.xs },
+    discountText: { color: colors.success },
+    totalLabel: { fontSize: fontSize.md, fontWeight: fontWeight.bold, color: colors.textPrimary },
+    totalValue: { fontSize: fontSize.md, fontWeight: fontWeight.bold, color: colors.primary },
+    historyRow: { flexDirection: 'row', paddingVertical: spacing.xs },
+    historyDot: { width: 10, height: 10, borderRadius: 5, backgroundColor: colors.primary, marginTop: 5, marginRight: spacing.sm },
+    historyInfo: { flex: 1 },
+    historyStatus: { fontSize: fontSize.md, fontWeight: fontWeight.medium, color: colors.textPrimary },
+    slipButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: spacing.sm, backgroundColor: colors.primary, borderRadius: borderRadius.lg, paddingVertical: spacing.md, marginTop: spacing.lg },
+    slipButtonDisabled: { opacity: 0.6 },
+    slipButtonText: { color: colors.white, fontSize: fontSize.md, fontWeight: fontWeight.bold },
+});
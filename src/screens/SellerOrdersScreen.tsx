@@ -5,91 +5,388 @@ import {
     StyleSheet,
     SafeAreaView,
     ScrollView,
+    FlatList,
     TouchableOpacity,
     ActivityIndicator,
     Alert,
-    RefreshControl
+    Image,
+    RefreshControl,
+    Modal,
+    TextInput
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
-import { getSellerOrders, updateOrderStatus } from '../services/endpoints';
-import { Loading } from '../components';
+import { getSellerOrders, updateOrderStatus, updateReturnRequestStatus } from '../services/endpoints';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
+import { ORDER_STATUSES, ORDER_STATUS_FIELD_LABELS, getNextStatuses, getStatusFields } from '../services/orders';
+import type { OrderStatusField, OrderStatusUpdate } from '../services/orders';
+import { RETURN_STATUS_LABELS, getReturnReason } from '../services/returns';
+import { BULK_ORDER_STATUSES, SELLER_ORDER_TABS, bulkUpdateOrderStatus } from '../services/sellerOrders';
+import type { BulkStatusResult, SellerOrderTab } from '../services/sellerOrders';
+import { DateField, Loading, OrderStatusBadge } from '../components';
 import { useTranslation } from '../context';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import type { OrderStatus, ReturnRequest, RootStackParamList, SellerOrder } from '../types';
 
-interface OrderItem {
-    id: number;
-    product: {
-        id: number;
-        name: string;
-        base_price: string;
-    };
-    quantity: number;
-    price: string;
-}
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-interface Order {
-    id: number;
-    order_number: string;
-    total: string;
-    status: string;
-    created_at: string;
-    items: OrderItem[];
-    user: {
-        name: string;
-    };
+type StatusFormErrors = Partial<Record<OrderStatusField | 'status', string>>;
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Bulk shipping takes one carrier and a tracking number per order
+interface BulkShipForm {
+    carrier: string;
+    trackingNumbers: Record<number, string>;
 }
 
 export default function SellerOrdersScreen() {
-    const navigation = useNavigation();
+    const navigation = useNavigation<NavigationProp>();
     const { t } = useTranslation();
-    const [orders, setOrders] = useState<Order[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [statusTab, setStatusTab] = useState<SellerOrderTab>('all');
+    const [searchText, setSearchText] = useState('');
+    const [search, setSearch] = useState('');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
     const [updatingOrderId, setUpdatingOrderId] = useState<number | null>(null);
+    const [updatingReturnId, setUpdatingReturnId] = useState<number | null>(null);
+    // Transition waiting on tracking details or a cancellation reason
+    const [statusForm, setStatusForm] = useState<{ order: SellerOrder; update: OrderStatusUpdate } | null>(null);
+    const [statusFormErrors, setStatusFormErrors] = useState<StatusFormErrors>({});
+    const [bulkShipForm, setBulkShipForm] = useState<BulkShipForm | null>(null);
+    const [isBulkUpdating, setIsBulkUpdating] = useState(false);
+
+    const fetchOrders = useCallback((page: number) => getSellerOrders({
+        status: statusTab === 'all' ? undefined : statusTab,
+        search,
+        from: dateFrom,
+        to: dateTo,
+        page,
+    }), [statusTab, search, dateFrom, dateTo]);
+
+    const handleLoadError = (error: unknown) => {
+        console.error('Fetch seller orders error:', error);
+        Alert.alert(t('common.error', 'Error'), t('orders.load_failed', 'Failed to load orders'));
+    };
+
+    const {
+        items: orders,
+        setItems: setOrders,
+        total,
+        isLoading,
+        setIsLoading,
+        isRefreshing,
+        isLoadingMore,
+        selectedIds,
+        setSelectedIds,
+        toggleSelected,
+        refresh: handleRefresh,
+        loadMore: handleLoadMore,
+    } = usePaginatedList(fetchOrders, handleLoadError);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setSearch(searchText.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchText]);
+
+    const handleTabChange = (tab: SellerOrderTab) => {
+        if (tab === statusTab) return;
+        setIsLoading(true);
+        setStatusTab(tab);
+    };
 
-    const fetchOrders = useCallback(async () => {
+    // Orders that leave the current tab drop out of it
+    const applyStatus = (list: SellerOrder[], ids: number[], changes: (order: SellerOrder) => Partial<SellerOrder>) =>
+        list
+            .map((o) => (ids.includes(o.id) ? { ...o, ...changes(o) } : o))
+            .filter((o) => statusTab === 'all' || o.status === statusTab);
+
+    const submitStatusUpdate = async (order: SellerOrder, update: OrderStatusUpdate) => {
+        setUpdatingOrderId(order.id);
         try {
-            const data = await getSellerOrders();
-            setOrders(data);
+            await updateOrderStatus(order.id, order.status, update);
+            setOrders(prev => applyStatus(prev, [order.id], (o) => ({
+                status: update.status,
+                tracking: update.tracking_number
+                    ? {
+                        carrier: update.carrier ?? '',
+                        tracking_number: update.tracking_number,
+                        tracking_url: update.tracking_url || null,
+                        estimated_delivery: null,
+                    }
+                    : o.tracking,
+                cancellation_reason: update.cancellation_reason ?? o.cancellation_reason,
+            })));
+            setStatusForm(null);
+            const status = ORDER_STATUSES[update.status];
+            Alert.alert(t('common.success', 'Success'), t('orders.marked_as', 'Order marked as {{status}}').replace('{{status}}', t(status.labelKey, status.label)));
         } catch (error) {
-            console.error('Fetch seller orders error:', error);
-            Alert.alert(t('common.error', 'Error'), t('orders.load_failed', 'Failed to load orders'));
+            console.error('Update status error:', error);
+            setStatusFormErrors(mapFieldErrors<OrderStatusField | 'status'>(error));
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(error, t('orders.update_status_failed', 'Failed to update order status')));
         } finally {
-            setIsLoading(false);
-            setIsRefreshing(false);
+            setUpdatingOrderId(null);
         }
-    }, []);
+    };
 
-    useEffect(() => {
-        fetchOrders();
-    }, [fetchOrders]);
+    const handleStatusPress = (order: SellerOrder, status: OrderStatus) => {
+        if (getStatusFields(status).length > 0) {
+            setStatusFormErrors({});
+            setStatusForm({ order, update: { status } });
+            return;
+        }
+        submitStatusUpdate(order, { status });
+    };
 
-    const handleRefresh = () => {
-        setIsRefreshing(true);
-        fetchOrders();
+    const updateStatusFormField = (field: OrderStatusField, value: string) => {
+        if (!statusForm) return;
+        setStatusForm({ ...statusForm, update: { ...statusForm.update, [field]: value } });
+        if (statusFormErrors[field]) setStatusFormErrors({ ...statusFormErrors, [field]: undefined });
     };
 
-    const handleStatusUpdate = async (orderId: number, newStatus: string) => {
-        setUpdatingOrderId(orderId);
+    const showBulkResult = (status: OrderStatus, result: BulkStatusResult) => {
+        const definition = ORDER_STATUSES[status];
+        const summary = t('orders.bulk_summary', '{{updated}} marked as {{status}}, {{failed}} failed.')
+            .replace('{{updated}}', String(result.updated.length))
+            .replace('{{status}}', t(definition.labelKey, definition.label))
+            .replace('{{failed}}', String(result.failed.length));
+        const failures = result.failed.map((failure) => `${failure.order_number}: ${failure.message}`).join('\n');
+
+        Alert.alert(
+            result.failed.length > 0 ? t('orders.bulk_partial', 'Some orders were not updated') : t('common.success', 'Success'),
+            failures ? `${summary}\n\n${failures}` : summary
+        );
+    };
+
+    const runBulkUpdate = async (status: OrderStatus, buildUpdate: (order: SellerOrder) => OrderStatusUpdate) => {
+        const selected = orders.filter((o) => selectedIds.includes(o.id));
+        const updates = new Map(selected.map((order) => [order.id, buildUpdate(order)]));
+        setIsBulkUpdating(true);
         try {
-            await updateOrderStatus(orderId, newStatus);
-            // Optimistic update or refresh
+            const result = await bulkUpdateOrderStatus(selected, (order) => updates.get(order.id)!);
+            setOrders(prev => applyStatus(prev, result.updated, (o) => {
+                const update = updates.get(o.id)!;
+                return {
+                    status,
+                    tracking: update.tracking_number
+                        ? { carrier: update.carrier ?? '', tracking_number: update.tracking_number, tracking_url: null, estimated_delivery: null }
+                        : o.tracking,
+                };
+            }));
+            // Failed orders stay selected so they can be retried
+            setSelectedIds(result.failed.map((failure) => failure.id));
+            setBulkShipForm(null);
+            showBulkResult(status, result);
+        } finally {
+            setIsBulkUpdating(false);
+        }
+    };
+
+    const handleBulkAction = (status: OrderStatus) => {
+        if (status === 'shipped') {
+            setBulkShipForm({ carrier: '', trackingNumbers: {} });
+            return;
+        }
+        const definition = ORDER_STATUSES[status];
+        Alert.alert(
+            t('orders.bulk_confirm_title', 'Update {{count}} orders?').replace('{{count}}', String(selectedIds.length)),
+            t('orders.bulk_confirm_message', 'They will be marked as {{status}}.').replace('{{status}}', t(definition.labelKey, definition.label)),
+            [
+                { text: t('common.cancel', 'Cancel'), style: 'cancel' },
+                { text: t('common.confirm', 'Confirm'), onPress: () => runBulkUpdate(status, () => ({ status })) },
+            ]
+        );
+    };
+
+    const submitBulkShip = () => {
+        if (!bulkShipForm) return;
+        const { carrier, trackingNumbers } = bulkShipForm;
+        runBulkUpdate('shipped', (order) => ({
+            status: 'shipped',
+            carrier,
+            tracking_number: trackingNumbers[order.id] ?? '',
+        }));
+    };
+
+    const resolveReturn = async (orderId: number, request: ReturnRequest, status: 'approved' | 'rejected') => {
+        setUpdatingReturnId(request.id);
+        try {
+            const updated = await updateReturnRequestStatus(request.id, status);
             setOrders(prev => prev.map(o =>
-                o.id === orderId ? { ...o, status: newStatus } : o
+                o.id === orderId
+                    ? { ...o, return_requests: o.return_requests.map(r => (r.id === request.id ? { ...r, status, resolution_note: updated.resolution_note ?? r.resolution_note } : r)) }
+                    : o
             ));
-            Alert.alert(t('common.success', 'Success'), t('orders.marked_as', 'Order marked as {{status}}').replace('{{status}}', newStatus));
         } catch (error) {
-            console.error('Update status error:', error);
-            Alert.alert(t('common.error', 'Error'), t('orders.update_status_failed', 'Failed to update order status'));
+            console.error('Update return request error:', error);
+            Alert.alert(t('common.error', 'Error'), t('returns.update_failed', 'Failed to update the return request'));
         } finally {
-            setUpdatingOrderId(null);
+            setUpdatingReturnId(null);
         }
     };
 
-    if (isLoading) {
-        return <Loading message={t('orders.loading', 'Loading orders...')} />;
-    }
+    const handleReturnDecision = (orderId: number, request: ReturnRequest, status: 'approved' | 'rejected') => {
+        Alert.alert(
+            status === 'approved'
+                ? t('returns.approve_title', 'Approve this request?')
+                : t('returns.reject_title', 'Reject this request?'),
+            status === 'approved'
+                ? t('returns.approve_message', 'The customer will be refunded once the return is processed.')
+                : t('returns.reject_message', 'The customer will be told the request was rejected.'),
+            [
+                { text: t('common.cancel', 'Cancel'), style: 'cancel' },
+                {
+                    text: status === 'approved' ? t('returns.approve', 'Approve') : t('returns.reject', 'Reject'),
+                    style: status === 'approved' ? 'default' : 'destructive',
+                    onPress: () => resolveReturn(orderId, request, status),
+                },
+            ]
+        );
+    };
+
+    const renderOrder = ({ item: order }: { item: SellerOrder }) => (
+        <View style={[styles.orderCard, selectedIds.includes(order.id) && styles.orderCardSelected]}>
+            <View style={styles.orderHeader}>
+                <TouchableOpacity
+                    style={styles.checkbox}
+                    onPress={() => toggleSelected(order.id)}
+                    accessibilityLabel={t('orders.select', 'Select order')}
+                >
+                    <Ionicons
+                        name={selectedIds.includes(order.id) ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={selectedIds.includes(order.id) ? colors.primary : colors.textLight}
+                    />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={styles.orderSummary}
+                    onPress={() => navigation.navigate('SellerOrderDetail', { orderId: order.id })}
+                >
+                    <Text style={styles.orderNumber}>
+                        {order.order_number} <Ionicons name="chevron-forward" size={14} color={colors.textLight} />
+                    </Text>
+                    <Text style={styles.orderDate}>{order.created_at}</Text>
+                    <Text style={styles.customerName}>
+                        {t('orders.customer', 'Customer')}: {order.customer?.name || t('orders.customer_unknown', 'Unknown Customer')}
+                    </Text>
+                </TouchableOpacity>
+                <OrderStatusBadge status={order.status} />
+            </View>
+
+            <View style={styles.divider} />
+
+            <View style={styles.itemsList}>
+                {order.items?.map((item) => (
+                    <View key={item.id} style={styles.itemRow}>
+                        <Text style={styles.itemName}>
+                            {item.quantity}x {item.product.name}
+                        </Text>
+                        <Text style={styles.itemPrice}>${item.unit_price}</Text>
+                    </View>
+                ))}
+            </View>
+
+            <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>{t('orders.total', 'Total')}</Text>
+                <Text style={styles.totalValue}>${order.total}</Text>
+            </View>
+
+            {order.tracking && (
+                <Text style={styles.orderNote}>
+                    {t('orders.tracking', 'Tracking')}: {order.tracking.carrier} {order.tracking.tracking_number}
+                </Text>
+            )}
+            {order.status === 'cancelled' && order.cancellation_reason ? (
+                <Text style={styles.orderNote}>
+                    {t('orders.cancellation_reason', 'Cancellation reason')}: {order.cancellation_reason}
+                </Text>
+            ) : null}
+
+            {/* Return requests */}
+            {order.return_requests.length > 0 && (
+                <View style={styles.returnsList}>
+                    <Text style={styles.returnsTitle}>{t('returns.title', 'Returns & Refunds')}</Text>
+                    {order.return_requests.map((request) => {
+                        const item = order.items.find((line) => line.id === request.order_item_id);
+                        const reason = getReturnReason(request.reason);
+                        const statusLabel = RETURN_STATUS_LABELS[request.status];
+                        return (
+                            <View key={request.id} style={styles.returnRow}>
+                                <View style={styles.returnInfo}>
+                                    <Text style={styles.itemName}>
+                                        {request.quantity}x {item?.product.name ?? t('returns.item', 'Item')}
+                                    </Text>
+                                    <Text style={styles.returnMeta}>
+                                        {request.type === 'refund'
+                                            ? t('returns.type_refund', 'Refund only')
+                                            : t('returns.type_return', 'Return for refund')}
+                                        {' · '}
+                                        {reason ? t(reason.labelKey, reason.label) : request.reason}
+                                    </Text>
+                                    {request.comment ? <Text style={styles.returnMeta}>{request.comment}</Text> : null}
+                                    {request.photos.length > 0 && (
+                                        <View style={styles.returnPhotos}>
+                                            {request.photos.map((uri) => (
+                                                <Image key={uri} source={{ uri }} style={styles.returnPhoto} />
+                                            ))}
+                                        </View>
+                                    )}
+                                    <Text style={styles.returnStatus}>{t(statusLabel.labelKey, statusLabel.label)}</Text>
+                                </View>
+                                {request.status === 'pending' && (
+                                    updatingReturnId === request.id ? (
+                                        <ActivityIndicator color={colors.primary} />
+                                    ) : (
+                                        <View style={styles.returnActions}>
+                                            <TouchableOpacity
+                                                style={[styles.actionBtn, styles.completeBtn]}
+                                                onPress={() => handleReturnDecision(order.id, request, 'approved')}
+                                            >
+                                                <Text style={styles.actionBtnText}>{t('returns.approve', 'Approve')}</Text>
+                                            </TouchableOpacity>
+                                            <TouchableOpacity
+                                                style={[styles.actionBtn, styles.cancelBtn]}
+                                                onPress={() => handleReturnDecision(order.id, request, 'rejected')}
+                                            >
+                                                <Text style={[styles.actionBtnText, { color: colors.error }]}>{t('returns.reject', 'Reject')}</Text>
+                                            </TouchableOpacity>
+                                        </View>
+                                    )
+                                )}
+                            </View>
+                        );
+                    })}
+                </View>
+            )}
+
+            {/* Actions */}
+            {getNextStatuses(order.status).length > 0 && (
+                <View style={styles.actionsRow}>
+                    {getNextStatuses(order.status).map((status) => {
+                        const definition = ORDER_STATUSES[status];
+                        const isCancel = status === 'cancelled';
+                        return (
+                            <TouchableOpacity
+                                key={status}
+                                style={[styles.actionBtn, isCancel ? styles.cancelBtn : status === 'processing' ? styles.processBtn : styles.completeBtn]}
+                                onPress={() => handleStatusPress(order, status)}
+                                disabled={updatingOrderId === order.id}
+                            >
+                                <Text style={[styles.actionBtnText, isCancel && { color: colors.error }]}>
+                                    {t(definition.actionKey!, definition.action!)}
+                                </Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+            )}
+            {updatingOrderId === order.id && (
+                <ActivityIndicator style={{ marginTop: 10 }} color={colors.primary} />
+            )}
+        </View>
+    );
 
     return (
         <SafeAreaView style={styles.container}>
@@ -102,117 +399,267 @@ export default function SellerOrdersScreen() {
                 <View style={styles.headerRight} />
             </View>
 
-            <ScrollView
-                contentContainerStyle={styles.content}
-                refreshControl={
-                    <RefreshControl
-                        refreshing={isRefreshing}
-                        onRefresh={handleRefresh}
-                        colors={[colors.primary]}
-                        tintColor={colors.primary}
+            {/* Filters */}
+            <View style={styles.filters}>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tabs}>
+                    {SELLER_ORDER_TABS.map((tab) => {
+                        const label = tab === 'all'
+                            ? t('orders.filter_all', 'All')
+                            : t(ORDER_STATUSES[tab].labelKey, ORDER_STATUSES[tab].label);
+                        return (
+                            <TouchableOpacity
+                                key={tab}
+                                style={[styles.tab, statusTab === tab && styles.tabActive]}
+                                onPress={() => handleTabChange(tab)}
+                            >
+                                <Text style={[styles.tabText, statusTab === tab && styles.tabTextActive]}>{label}</Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </ScrollView>
+                <View style={styles.searchBox}>
+                    <Ionicons name="search" size={18} color={colors.textSecondary} />
+                    <TextInput
+                        style={styles.searchInput}
+                        value={searchText}
+                        onChangeText={setSearchText}
+                        placeholder={t('orders.search_placeholder', 'Search by order number')}
+                        placeholderTextColor={colors.textLight}
+                        autoCapitalize="characters"
+                        returnKeyType="search"
+                        onSubmitEditing={() => setSearch(searchText.trim())}
+                    />
+                    {searchText ? (
+                        <TouchableOpacity onPress={() => setSearchText('')}>
+                            <Ionicons name="close-circle" size={18} color={colors.textLight} />
+                        </TouchableOpacity>
+                    ) : null}
+                </View>
+                <View style={styles.dateRow}>
+                    <DateField
+                        style={styles.dateField}
+                        value={dateFrom}
+                        onChange={setDateFrom}
+                        placeholder={t('orders.date_from', 'From')}
+                        maximumDate={dateTo ? new Date(`${dateTo}T00:00:00`) : new Date()}
+                    />
+                    <DateField
+                        style={styles.dateField}
+                        value={dateTo}
+                        onChange={setDateTo}
+                        placeholder={t('orders.date_to', 'To')}
+                        minimumDate={dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined}
+                        maximumDate={new Date()}
                     />
-                }
+                </View>
+            </View>
+
+            {isLoading ? (
+                <Loading message={t('orders.loading', 'Loading orders...')} />
+            ) : (
+                <FlatList
+                    data={orders}
+                    keyExtractor={(item) => String(item.id)}
+                    renderItem={renderOrder}
+                    contentContainerStyle={styles.content}
+                    refreshControl={
+                        <RefreshControl
+                            refreshing={isRefreshing}
+                            onRefresh={handleRefresh}
+                            colors={[colors.primary]}
+                            tintColor={colors.primary}
+                        />
+                    }
+                    onEndReached={handleLoadMore}
+                    onEndReachedThreshold={0.5}
+                    ListHeaderComponent={
+                        orders.length > 0 ? (
+                            <Text style={styles.resultCount}>
+                                {t('orders.result_count', '{{count}} orders').replace('{{count}}', String(total))}
+                            </Text>
+                        ) : null
+                    }
+                    ListFooterComponent={isLoadingMore ? <ActivityIndicator color={colors.primary} /> : null}
+                    ListEmptyComponent={
+                        <View style={styles.emptyContainer}>
+                            <Ionicons name="clipboard-outline" size={64} color={colors.textLight} />
+                            <Text style={styles.emptyText}>
+                                {statusTab === 'all' && !search && !dateFrom && !dateTo
+                                    ? t('orders.empty', 'No orders yet')
+                                    : t('orders.empty_filtered', 'No orders match these filters')}
+                            </Text>
+                        </View>
+                    }
+                />
+            )}
+
+            {/* Bulk actions */}
+            {selectedIds.length > 0 && (
+                <View style={styles.bulkBar}>
+                    <TouchableOpacity onPress={() => setSelectedIds([])} disabled={isBulkUpdating}>
+                        <Ionicons name="close" size={22} color={colors.textPrimary} />
+                    </TouchableOpacity>
+                    <Text style={styles.bulkCount}>
+                        {t('orders.selected_count', '{{count}} selected').replace('{{count}}', String(selectedIds.length))}
+                    </Text>
+                    {isBulkUpdating ? (
+                        <ActivityIndicator color={colors.primary} />
+                    ) : (
+                        BULK_ORDER_STATUSES.map((status) => (
+                            <TouchableOpacity
+                                key={status}
+                                style={[styles.actionBtn, status === 'processing' ? styles.processBtn : styles.completeBtn]}
+                                onPress={() => handleBulkAction(status)}
+                            >
+                                <Text style={styles.actionBtnText}>
+                                    {t(ORDER_STATUSES[status].actionKey!, ORDER_STATUSES[status].action!)}
+                                </Text>
+                            </TouchableOpacity>
+                        ))
+                    )}
+                </View>
+            )}
+
+            {/* Tracking details / cancellation reason */}
+            <Modal
+                visible={statusForm !== null}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={() => setStatusForm(null)}
             >
-                {orders.length === 0 ? (
-                    <View style={styles.emptyContainer}>
-                        <Ionicons name="clipboard-outline" size={64} color={colors.textLight} />
-                        <Text style={styles.emptyText}>{t('orders.empty', 'No orders yet')}</Text>
-                    </View>
-                ) : (
-                    orders.map((order) => (
-                        <View key={order.id} style={styles.orderCard}>
-                            <View style={styles.orderHeader}>
-                                <View>
-                                    <Text style={styles.orderNumber}>{order.order_number}</Text>
-                                    <Text style={styles.orderDate}>{order.created_at}</Text>
-                                    <Text style={styles.customerName}>
-                                        {t('orders.customer', 'Customer')}: {order.user?.name || t('orders.customer_unknown', 'Unknown Customer')}
+                <View style={styles.modalOverlay}>
+                    {statusForm && (
+                        <View style={styles.modalContent}>
+                            <Text style={styles.modalTitle}>
+                                {t(ORDER_STATUSES[statusForm.update.status].actionKey!, ORDER_STATUSES[statusForm.update.status].action!)}
+                                {' · '}
+                                {statusForm.order.order_number}
+                            </Text>
+                            {statusFormErrors.status && <Text style={styles.errorText}>{statusFormErrors.status}</Text>}
+
+                            {getStatusFields(statusForm.update.status).map(({ field, required }) => (
+                                <View key={field} style={styles.inputGroup}>
+                                    <Text style={styles.label}>
+                                        {t(ORDER_STATUS_FIELD_LABELS[field].labelKey, ORDER_STATUS_FIELD_LABELS[field].label)}
+                                        {required ? ' *' : ''}
                                     </Text>
+                                    <TextInput
+                                        style={[
+                                            styles.input,
+                                            field === 'cancellation_reason' && styles.textArea,
+                                            statusFormErrors[field] && styles.inputError,
+                                        ]}
+                                        value={statusForm.update[field] ?? ''}
+                                        onChangeText={(value) => updateStatusFormField(field, value)}
+                                        placeholderTextColor={colors.textLight}
+                                        autoCapitalize={field === 'tracking_url' ? 'none' : 'sentences'}
+                                        keyboardType={field === 'tracking_url' ? 'url' : 'default'}
+                                        multiline={field === 'cancellation_reason'}
+                                        textAlignVertical={field === 'cancellation_reason' ? 'top' : 'center'}
+                                    />
+                                    {statusFormErrors[field] && <Text style={styles.errorText}>{statusFormErrors[field]}</Text>}
                                 </View>
-                                <View style={[
-                                    styles.statusBadge,
-                                    order.status === 'delivered' ? styles.statusSuccess :
-                                        order.status === 'processing' || order.status === 'shipped' ? styles.statusInfo :
-                                            order.status === 'cancelled' ? styles.statusError :
-                                                styles.statusWarning
-                                ]}>
-                                    <Text style={[
-                                        styles.statusText,
-                                        order.status === 'delivered' ? styles.statusTextSuccess :
-                                            order.status === 'processing' || order.status === 'shipped' ? styles.statusTextInfo :
-                                                order.status === 'cancelled' ? styles.statusTextError :
-                                                    styles.statusTextWarning
-                                    ]}>{order.status}</Text>
-                                </View>
-                            </View>
+                            ))}
 
-                            <View style={styles.divider} />
+                            <View style={styles.actionsRow}>
+                                <TouchableOpacity
+                                    style={[styles.actionBtn, styles.dismissBtn]}
+                                    onPress={() => setStatusForm(null)}
+                                    disabled={updatingOrderId !== null}
+                                >
+                                    <Text style={styles.actionBtnText}>{t('common.back', 'Back')}</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[
+                                        styles.actionBtn,
+                                        statusForm.update.status === 'cancelled' ? styles.cancelBtn : styles.completeBtn,
+                                    ]}
+                                    onPress={() => submitStatusUpdate(statusForm.order, statusForm.update)}
+                                    disabled={updatingOrderId !== null}
+                                >
+                                    {updatingOrderId === statusForm.order.id ? (
+                                        <ActivityIndicator size="small" color={colors.primary} />
+                                    ) : (
+                                        <Text style={[styles.actionBtnText, statusForm.update.status === 'cancelled' && { color: colors.error }]}>
+                                            {t('common.confirm', 'Confirm')}
+                                        </Text>
+                                    )}
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    )}
+                </View>
+            </Modal>
 
-                            <View style={styles.itemsList}>
-                                {order.items?.map((item) => (
-                                    <View key={item.id} style={styles.itemRow}>
-                                        <Text style={styles.itemName}>
-                                            {item.quantity}x {item.product?.name}
+            {/* Bulk shipping */}
+            <Modal
+                visible={bulkShipForm !== null}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={() => setBulkShipForm(null)}
+            >
+                <View style={styles.modalOverlay}>
+                    {bulkShipForm && (
+                        <View style={[styles.modalContent, styles.bulkModalContent]}>
+                            <Text style={styles.modalTitle}>
+                                {t('orders.bulk_ship_title', 'Ship {{count}} orders').replace('{{count}}', String(selectedIds.length))}
+                            </Text>
+                            <ScrollView keyboardShouldPersistTaps="handled">
+                                <View style={styles.inputGroup}>
+                                    <Text style={styles.label}>
+                                        {t(ORDER_STATUS_FIELD_LABELS.carrier.labelKey, ORDER_STATUS_FIELD_LABELS.carrier.label)} *
+                                    </Text>
+                                    <TextInput
+                                        style={styles.input}
+                                        value={bulkShipForm.carrier}
+                                        onChangeText={(carrier) => setBulkShipForm({ ...bulkShipForm, carrier })}
+                                        placeholderTextColor={colors.textLight}
+                                    />
+                                </View>
+                                {orders.filter((o) => selectedIds.includes(o.id)).map((order) => (
+                                    <View key={order.id} style={styles.inputGroup}>
+                                        <Text style={styles.label}>
+                                            {t(ORDER_STATUS_FIELD_LABELS.tracking_number.labelKey, ORDER_STATUS_FIELD_LABELS.tracking_number.label)}
+                                            {' · '}
+                                            {order.order_number}
                                         </Text>
-                                        <Text style={styles.itemPrice}>${item.price}</Text>
+                                        <TextInput
+                                            style={styles.input}
+                                            value={bulkShipForm.trackingNumbers[order.id] ?? ''}
+                                            onChangeText={(value) => setBulkShipForm({
+                                                ...bulkShipForm,
+                                                trackingNumbers: { ...bulkShipForm.trackingNumbers, [order.id]: value },
+                                            })}
+                                            placeholderTextColor={colors.textLight}
+                                            autoCapitalize="characters"
+                                        />
                                     </View>
                                 ))}
-                            </View>
-
-                            <View style={styles.totalRow}>
-                                <Text style={styles.totalLabel}>{t('orders.total', 'Total')}</Text>
-                                <Text style={styles.totalValue}>${order.total}</Text>
-                            </View>
-
-                            {/* Actions */}
-                            {order.status !== 'cancelled' && order.status !== 'delivered' && (
-                                <View style={styles.actionsRow}>
-                                    {order.status === 'pending' && (
-                                        <TouchableOpacity
-                                            style={[styles.actionBtn, styles.processBtn]}
-                                            onPress={() => handleStatusUpdate(order.id, 'processing')}
-                                            disabled={updatingOrderId === order.id}
-                                        >
-                                            <Text style={styles.actionBtnText}>{t('orders.process', 'Process')}</Text>
-                                        </TouchableOpacity>
-                                    )}
-
-                                    {order.status === 'processing' && (
-                                        <TouchableOpacity
-                                            style={[styles.actionBtn, styles.completeBtn]}
-                                            onPress={() => handleStatusUpdate(order.id, 'shipped')}
-                                            disabled={updatingOrderId === order.id}
-                                        >
-                                            <Text style={styles.actionBtnText}>{t('orders.ship', 'Ship')}</Text>
-                                        </TouchableOpacity>
+                            </ScrollView>
+                            <View style={styles.actionsRow}>
+                                <TouchableOpacity
+                                    style={[styles.actionBtn, styles.dismissBtn]}
+                                    onPress={() => setBulkShipForm(null)}
+                                    disabled={isBulkUpdating}
+                                >
+                                    <Text style={styles.actionBtnText}>{t('common.back', 'Back')}</Text>
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                    style={[styles.actionBtn, styles.completeBtn]}
+                                    onPress={submitBulkShip}
+                                    disabled={isBulkUpdating}
+                                >
+                                    {isBulkUpdating ? (
+                                        <ActivityIndicator size="small" color={colors.primary} />
+                                    ) : (
+                                        <Text style={styles.actionBtnText}>{t('common.confirm', 'Confirm')}</Text>
                                     )}
-
-                                    {order.status === 'shipped' && (
-                                        <TouchableOpacity
-                                            style={[styles.actionBtn, styles.completeBtn]}
-                                            onPress={() => handleStatusUpdate(order.id, 'delivered')}
-                                            disabled={updatingOrderId === order.id}
-                                        >
-                                            <Text style={styles.actionBtnText}>{t('orders.deliver', 'Deliver')}</Text>
-                                        </TouchableOpacity>
-                                    )}
-
-                                    <TouchableOpacity
-                                        style={[styles.actionBtn, styles.cancelBtn]}
-                                        onPress={() => handleStatusUpdate(order.id, 'cancelled')}
-                                        disabled={updatingOrderId === order.id}
-                                    >
-                                        <Text style={[styles.actionBtnText, { color: colors.error }]}>{t('common.cancel', 'Cancel')}</Text>
-                                    </TouchableOpacity>
-                                </View>
-                            )}
-                            {updatingOrderId === order.id && (
-                                <ActivityIndicator style={{ marginTop: 10 }} color={colors.primary} />
-                            )}
+                                </TouchableOpacity>
+                            </View>
                         </View>
-                    ))
-                )}
-            </ScrollView>
+                    )}
+                </View>
+            </Modal>
         </SafeAreaView>
     );
 }
@@ -248,6 +695,79 @@ const styles = StyleSheet.create({
         padding: spacing.md,
         paddingBottom: 40,
     },
+    filters: {
+        backgroundColor: colors.white,
+        paddingBottom: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    tabs: {
+        paddingHorizontal: spacing.sm,
+    },
+    tab: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 2,
+        borderBottomColor: 'transparent',
+    },
+    tabActive: {
+        borderBottomColor: colors.primary,
+    },
+    tabText: {
+        fontSize: fontSize.md,
+        color: colors.textSecondary,
+    },
+    tabTextActive: {
+        color: colors.primary,
+        fontWeight: fontWeight.bold,
+    },
+    searchBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginHorizontal: spacing.md,
+        marginTop: spacing.sm,
+        paddingHorizontal: spacing.sm,
+        height: 40,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.background,
+    },
+    searchInput: {
+        flex: 1,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+    },
+    dateRow: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+        marginHorizontal: spacing.md,
+        marginTop: spacing.sm,
+    },
+    dateField: {
+        flex: 1,
+    },
+    resultCount: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginBottom: spacing.sm,
+    },
+    bulkBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        padding: spacing.md,
+        backgroundColor: colors.white,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+        ...shadows.md,
+    },
+    bulkCount: {
+        flex: 1,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+
     emptyContainer: {
         alignItems: 'center',
         justifyContent: 'center',
@@ -265,11 +785,20 @@ const styles = StyleSheet.create({
         marginBottom: spacing.md,
         ...shadows.sm,
     },
+    orderCardSelected: {
+        borderWidth: 1,
+        borderColor: colors.primary,
+    },
     orderHeader: {
         flexDirection: 'row',
-        justifyContent: 'space-between',
         alignItems: 'flex-start',
     },
+    checkbox: {
+        marginRight: spacing.sm,
+    },
+    orderSummary: {
+        flex: 1,
+    },
     orderNumber: {
         fontSize: fontSize.md,
         fontWeight: fontWeight.bold,
@@ -286,20 +815,6 @@ const styles = StyleSheet.create({
         marginTop: 2,
         fontWeight: fontWeight.medium,
     },
-    statusBadge: {
-        paddingHorizontal: spacing.sm,
-        paddingVertical: 4,
-        borderRadius: borderRadius.sm,
-    },
-    statusSuccess: { backgroundColor: '#E8F5E9' },
-    statusInfo: { backgroundColor: '#E3F2FD' },
-    statusWarning: { backgroundColor: '#FFF3E0' },
-    statusError: { backgroundColor: '#FCE4EC' },
-    statusText: { fontSize: fontSize.xs, fontWeight: fontWeight.bold },
-    statusTextSuccess: { color: '#2E7D32' },
-    statusTextInfo: { color: '#1565C0' },
-    statusTextWarning: { color: '#EF6C00' },
-    statusTextError: { color: '#C2185B' },
     divider: {
         height: 1,
         backgroundColor: colors.borderLight,
@@ -342,6 +857,52 @@ const styles = StyleSheet.create({
         fontWeight: fontWeight.bold,
         color: colors.primary,
     },
+    returnsList: {
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+        paddingTop: spacing.sm,
+        marginBottom: spacing.md,
+    },
+    returnsTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        marginBottom: spacing.sm,
+    },
+    returnRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        marginBottom: spacing.sm,
+    },
+    returnInfo: {
+        flex: 1,
+        marginRight: spacing.sm,
+    },
+    returnMeta: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginTop: 2,
+    },
+    returnPhotos: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: spacing.xs,
+    },
+    returnPhoto: {
+        width: 48,
+        height: 48,
+        borderRadius: borderRadius.sm,
+        marginRight: spacing.xs,
+    },
+    returnStatus: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.bold,
+        color: colors.textSecondary,
+        marginTop: spacing.xs,
+    },
+    returnActions: {
+        gap: spacing.xs,
+    },
     actionsRow: {
         flexDirection: 'row',
         justifyContent: 'flex-end',
@@ -365,9 +926,71 @@ const styles = StyleSheet.create({
         backgroundColor: '#FFF',
         borderColor: colors.error,
     },
+    dismissBtn: {
+        backgroundColor: colors.white,
+        borderColor: colors.border,
+    },
     actionBtnText: {
         fontSize: fontSize.sm,
         fontWeight: fontWeight.bold,
         color: colors.textPrimary,
     },
+    orderNote: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginBottom: spacing.sm,
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    modalContent: {
+        backgroundColor: colors.white,
+        borderTopLeftRadius: borderRadius.xl,
+        borderTopRightRadius: borderRadius.xl,
+        padding: spacing.md,
+        paddingBottom: spacing.xl,
+    },
+    bulkModalContent: {
+        maxHeight: '80%',
+    },
+    modalTitle: {
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        marginBottom: spacing.md,
+    },
+    inputGroup: {
+        marginBottom: spacing.md,
+    },
+    label: {
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.medium,
+        color: colors.textSecondary,
+        marginBottom: spacing.xs,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+        height: 48,
+    },
+    textArea: {
+        height: 100,
+        paddingTop: spacing.sm,
+    },
+    inputError: {
+        borderColor: colors.error,
+    },
+    errorText: {
+        fontSize: fontSize.sm,
+        color: colors.error,
+        marginTop: spacing.xs,
+        marginBottom: spacing.xs,
+    },
 });
@@ -1,11 +1,15 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import {
+    ActivityIndicator,
     Alert,
+    FlatList,
+    Modal,
     RefreshControl,
     SafeAreaView,
     ScrollView,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
     Image,
@@ -13,60 +17,91 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
-import { deleteSellerProduct, getSellerDashboard, getSellerProducts } from '../services/endpoints';
+import { bulkUpdateSellerProducts, deleteSellerProduct, getSellerProducts } from '../services/endpoints';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
+import {
+    SELLER_PRODUCT_SORTS,
+    SELLER_PRODUCT_STATUS_FILTERS,
+    SELLER_PRODUCT_STOCK_LEVELS,
+    getStockLevel,
+} from '../services/sellerProducts';
+import type {
+    PriceAdjustmentMode,
+    SellerProductBulkAction,
+    SellerProductSort,
+    SellerProductStatusFilter,
+    SellerProductStockLevel,
+    StockAdjustmentMode,
+} from '../services/sellerProducts';
 import { Loading } from '../components';
-import type { Product } from '../types';
+import { usePaginatedList } from '../hooks/usePaginatedList';
+import type { SellerProduct } from '../types';
 import { useTranslation } from '../context';
 import { getLocalizedField } from '../i18n/locale';
 
+const SEARCH_DEBOUNCE_MS = 400;
+
+const STOCK_LEVEL_COLORS: Record<SellerProductStockLevel, string> = {
+    in_stock: colors.success,
+    low_stock: '#EF6C00',
+    out_of_stock: colors.error,
+};
+
+// Price or stock change waiting on an amount
+type AdjustForm =
+    | { action: 'adjust_price'; mode: PriceAdjustmentMode; amount: string }
+    | { action: 'adjust_stock'; mode: StockAdjustmentMode; amount: string };
+
 export default function SellerProductsScreen() {
     const navigation = useNavigation();
     const { t } = useTranslation();
-    const [products, setProducts] = useState<Product[]>([]);
-    const [salesByProduct, setSalesByProduct] = useState<Record<number, { unitsSold: number; revenue: number }>>({});
-    const [isLoading, setIsLoading] = useState(true);
-    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<SellerProductStatusFilter>('all');
+    const [stockLevel, setStockLevel] = useState<SellerProductStockLevel | null>(null);
+    const [sort, setSort] = useState<SellerProductSort>('newest');
+    const [searchText, setSearchText] = useState('');
+    const [search, setSearch] = useState('');
     const [deletingId, setDeletingId] = useState<number | null>(null);
+    const [adjustForm, setAdjustForm] = useState<AdjustForm | null>(null);
+    const [adjustError, setAdjustError] = useState<string | undefined>();
+    const [isBulkUpdating, setIsBulkUpdating] = useState(false);
 
-    const fetchProducts = useCallback(async () => {
-        try {
-            const data = await getSellerProducts();
-            setProducts(data);
+    const fetchProducts = useCallback((page: number) => {
+        const filter = SELLER_PRODUCT_STATUS_FILTERS.find((option) => option.id === statusFilter);
+        return getSellerProducts({
+            ...filter?.params,
+            search,
+            stock: stockLevel ?? undefined,
+            sort,
+            page,
+        });
+    }, [statusFilter, stockLevel, sort, search]);
 
-            try {
-                const dashboard = await getSellerDashboard();
-                const revenueItems = Array.isArray(dashboard?.product_revenue) ? dashboard.product_revenue : [];
-                const nextSales: Record<number, { unitsSold: number; revenue: number }> = {};
-                revenueItems.forEach((item: any) => {
-                    const productId = Number(item?.product_id);
-                    if (!Number.isFinite(productId) || productId <= 0) return;
-                    nextSales[productId] = {
-                        unitsSold: Number(item?.units_sold) || 0,
-                        revenue: Number(item?.revenue) || 0,
-                    };
-                });
-                setSalesByProduct(nextSales);
-            } catch (error) {
-                console.error('Failed to load product revenue:', error);
-                setSalesByProduct({});
-            }
-        } catch (error) {
-            console.error('Failed to load products:', error);
-            Alert.alert(t('common.error', 'Error'), t('seller.products_load_failed', 'Failed to load products'));
-        } finally {
-            setIsLoading(false);
-            setIsRefreshing(false);
-        }
-    }, []);
+    const handleLoadError = (error: unknown) => {
+        console.error('Failed to load products:', error);
+        Alert.alert(t('common.error', 'Error'), t('seller.products_load_failed', 'Failed to load products'));
+    };
 
-    useEffect(() => {
-        fetchProducts();
-    }, [fetchProducts]);
+    const {
+        items: products,
+        setItems: setProducts,
+        total,
+        setTotal,
+        isLoading,
+        isRefreshing,
+        isLoadingMore,
+        selectedIds,
+        setSelectedIds,
+        toggleSelected,
+        toggleSelectAll,
+        reload,
+        refresh: handleRefresh,
+        loadMore: handleLoadMore,
+    } = usePaginatedList<SellerProduct>(fetchProducts, handleLoadError);
 
-    const handleRefresh = () => {
-        setIsRefreshing(true);
-        fetchProducts();
-    };
+    useEffect(() => {
+        const timer = setTimeout(() => setSearch(searchText.trim()), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchText]);
 
     const handleDelete = (productId: number) => {
         Alert.alert(
@@ -82,6 +117,8 @@ export default function SellerProductsScreen() {
                             setDeletingId(productId);
                             await deleteSellerProduct(productId);
                             setProducts((prev) => prev.filter((item) => item.id !== productId));
+                            setSelectedIds((prev) => prev.filter((id) => id !== productId));
+                            setTotal((prev) => Math.max(0, prev - 1));
                         } catch (error) {
                             console.error('Delete product error:', error);
                             Alert.alert(t('common.error', 'Error'), t('seller.delete_product_failed', 'Failed to delete product'));
@@ -94,9 +131,140 @@ export default function SellerProductsScreen() {
         );
     };
 
-    if (isLoading) {
-        return <Loading message={t('products.loading', 'Loading products...')} />;
-    }
+    /**
+     * Prices and stock are recalculated on the server, so the list is
+     * reloaded afterwards rather than patched in place.
+     */
+    const runBulkAction = async (bulk: SellerProductBulkAction) => {
+        setIsBulkUpdating(true);
+        try {
+            await bulkUpdateSellerProducts(selectedIds, bulk);
+            setAdjustForm(null);
+            setSelectedIds([]);
+            reload();
+            Alert.alert(
+                t('common.success', 'Success'),
+                t('seller.bulk_products_updated', '{{count}} products updated').replace('{{count}}', String(selectedIds.length))
+            );
+        } catch (error) {
+            console.error('Bulk product update error:', error);
+            const fieldError = mapFieldErrors<'amount'>(error).amount;
+            if (adjustForm && fieldError) {
+                setAdjustError(fieldError);
+                return;
+            }
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(error, t('seller.bulk_products_failed', 'Failed to update products')));
+        } finally {
+            setIsBulkUpdating(false);
+        }
+    };
+
+    const handleBulkDelete = () => {
+        Alert.alert(
+            t('seller.bulk_delete_title', 'Delete {{count}} products?').replace('{{count}}', String(selectedIds.length)),
+            t('seller.bulk_delete_message', 'This cannot be undone.'),
+            [
+                { text: t('common.cancel', 'Cancel'), style: 'cancel' },
+                { text: t('common.delete', 'Delete'), style: 'destructive', onPress: () => runBulkAction({ action: 'delete' }) },
+            ]
+        );
+    };
+
+    const openAdjustForm = (action: AdjustForm['action']) => {
+        setAdjustError(undefined);
+        setAdjustForm(action === 'adjust_price'
+            ? { action, mode: 'percent', amount: '' }
+            : { action, mode: 'add', amount: '' });
+    };
+
+    const submitAdjustForm = () => {
+        if (!adjustForm) return;
+        const amount = adjustForm.amount.trim() === '' ? Number.NaN : Number(adjustForm.amount.replace(',', '.'));
+        runBulkAction(adjustForm.action === 'adjust_price'
+            ? { action: 'adjust_price', mode: adjustForm.mode, amount }
+            : { action: 'adjust_stock', mode: adjustForm.mode, amount });
+    };
+
+    const isFiltered = statusFilter !== 'all' || stockLevel !== null || search !== '';
+
+    const renderProduct = ({ item: product }: { item: SellerProduct }) => {
+        const isSelected = selectedIds.includes(product.id);
+        const level = getStockLevel(product.total_stock);
+        const levelOption = SELLER_PRODUCT_STOCK_LEVELS.find((option) => option.id === level)!;
+
+        return (
+            <View style={[styles.productCard, isSelected && styles.productCardSelected]}>
+                <TouchableOpacity
+                    style={styles.checkbox}
+                    onPress={() => toggleSelected(product.id)}
+                    accessibilityLabel={t('seller.select_product', 'Select product')}
+                >
+                    <Ionicons
+                        name={isSelected ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={isSelected ? colors.primary : colors.textLight}
+                    />
+                </TouchableOpacity>
+                <View style={styles.productImage}>
+                    {product.thumbnail ? (
+                        <Image
+                            source={{ uri: product.thumbnail }}
+                            style={styles.productImageContent}
+                            resizeMode="cover"
+                        />
+                    ) : (
+                        <Ionicons name="image-outline" size={28} color={colors.textLight} />
+                    )}
+                </View>
+                <View style={styles.productInfo}>
+                    <Text style={styles.productName} numberOfLines={1}>
+                        {getLocalizedField(product as any, 'name', product.name)}
+                    </Text>
+                    <Text style={styles.productPrice}>
+                        ${Number.parseFloat(product.price || '0').toFixed(2)}
+                    </Text>
+                    <Text style={styles.productSales}>
+                        {t('seller.sold', 'Sold')}: {product.units_sold}, {t('seller.revenue', 'Revenue')}: ${product.revenue.toFixed(2)}
+                    </Text>
+                    <View style={styles.tagRow}>
+                        <Text style={[styles.stockTag, { color: STOCK_LEVEL_COLORS[level] }]}>
+                            {t(levelOption.labelKey, levelOption.label)} ({product.total_stock})
+                        </Text>
+                        {product.is_active === false && (
+                            <Text style={styles.productStatus}>{t('seller.products_filter_inactive', 'Inactive')}</Text>
+                        )}
+                        {!!product.status && (
+                            <Text style={styles.productStatus}>{product.status}</Text>
+                        )}
+                    </View>
+                </View>
+                <View style={styles.actions}>
+                    <TouchableOpacity
+                        style={styles.editButton}
+                        onPress={() => navigation.navigate('AddProduct' as never, { productId: product.id } as never)}
+                        disabled={deletingId === product.id}
+                    >
+                        <Ionicons name="pencil-outline" size={20} color={colors.primary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={() => handleDelete(product.id)}
+                        disabled={deletingId === product.id}
+                    >
+                        <Ionicons name="trash-outline" size={20} color={colors.error} />
+                    </TouchableOpacity>
+                </View>
+            </View>
+        );
+    };
+
+    const bulkActions: { key: string; label: string; icon: keyof typeof Ionicons.glyphMap; color: string; onPress: () => void }[] = [
+        { key: 'activate', label: t('seller.activate', 'Activate'), icon: 'eye-outline', color: colors.success, onPress: () => runBulkAction({ action: 'activate' }) },
+        { key: 'deactivate', label: t('seller.deactivate', 'Deactivate'), icon: 'eye-off-outline', color: colors.textSecondary, onPress: () => runBulkAction({ action: 'deactivate' }) },
+        { key: 'price', label: t('seller.adjust_price', 'Price'), icon: 'pricetag-outline', color: colors.primary, onPress: () => openAdjustForm('adjust_price') },
+        { key: 'stock', label: t('seller.adjust_stock', 'Stock'), icon: 'layers-outline', color: colors.info, onPress: () => openAdjustForm('adjust_stock') },
+        { key: 'delete', label: t('common.delete', 'Delete'), icon: 'trash-outline', color: colors.error, onPress: handleBulkDelete },
+    ];
 
     return (
         <SafeAreaView style={styles.container}>
@@ -113,73 +281,232 @@ export default function SellerProductsScreen() {
                 </TouchableOpacity>
             </View>
 
-            <ScrollView
-                contentContainerStyle={styles.content}
-                refreshControl={
-                    <RefreshControl
-                        refreshing={isRefreshing}
-                        onRefresh={handleRefresh}
-                        colors={[colors.primary]}
-                        tintColor={colors.primary}
+            {/* Filters */}
+            <View style={styles.filters}>
+                <View style={styles.searchBox}>
+                    <Ionicons name="search" size={18} color={colors.textSecondary} />
+                    <TextInput
+                        style={styles.searchInput}
+                        value={searchText}
+                        onChangeText={setSearchText}
+                        placeholder={t('seller.products_search', 'Search by name or SKU')}
+                        placeholderTextColor={colors.textLight}
+                        returnKeyType="search"
+                        onSubmitEditing={() => setSearch(searchText.trim())}
                     />
-                }
-            >
-                {products.length === 0 ? (
-                    <View style={styles.emptyState}>
-                        <Ionicons name="cube-outline" size={64} color={colors.textLight} />
-                        <Text style={styles.emptyTitle}>{t('seller.no_products', 'No products yet')}</Text>
-                        <Text style={styles.emptyText}>{t('seller.add_first_product', 'Add your first product to start selling.')}</Text>
+                    {searchText ? (
+                        <TouchableOpacity onPress={() => setSearchText('')}>
+                            <Ionicons name="close-circle" size={18} color={colors.textLight} />
+                        </TouchableOpacity>
+                    ) : null}
+                </View>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                    {SELLER_PRODUCT_STATUS_FILTERS.map((option) => (
+                        <TouchableOpacity
+                            key={option.id}
+                            style={[styles.chip, statusFilter === option.id && styles.chipActive]}
+                            onPress={() => setStatusFilter(option.id)}
+                        >
+                            <Text style={[styles.chipText, statusFilter === option.id && styles.chipTextActive]}>
+                                {t(option.labelKey, option.label)}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                    <View style={styles.chipDivider} />
+                    {SELLER_PRODUCT_STOCK_LEVELS.map((option) => (
+                        <TouchableOpacity
+                            key={option.id}
+                            style={[styles.chip, stockLevel === option.id && styles.chipActive]}
+                            onPress={() => setStockLevel(stockLevel === option.id ? null : option.id)}
+                        >
+                            <Text style={[styles.chipText, stockLevel === option.id && styles.chipTextActive]}>
+                                {t(option.labelKey, option.label)}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                    <Ionicons name="swap-vertical" size={16} color={colors.textSecondary} />
+                    {SELLER_PRODUCT_SORTS.map((option) => (
+                        <TouchableOpacity
+                            key={option.id}
+                            style={[styles.sortChip, sort === option.id && styles.sortChipActive]}
+                            onPress={() => setSort(option.id)}
+                        >
+                            <Text style={[styles.chipText, sort === option.id && styles.sortTextActive]}>
+                                {t(option.labelKey, option.label)}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+            </View>
+
+            {isLoading ? (
+                <Loading message={t('products.loading', 'Loading products...')} />
+            ) : (
+                <FlatList
+                    data={products}
+                    keyExtractor={(item) => String(item.id)}
+                    renderItem={renderProduct}
+                    contentContainerStyle={styles.content}
+                    refreshControl={
+                        <RefreshControl
+                            refreshing={isRefreshing}
+                            onRefresh={handleRefresh}
+                            colors={[colors.primary]}
+                            tintColor={colors.primary}
+                        />
+                    }
+                    onEndReached={handleLoadMore}
+                    onEndReachedThreshold={0.5}
+                    ListHeaderComponent={
+                        products.length > 0 ? (
+                            <View style={styles.listHeader}>
+                                <Text style={styles.resultCount}>
+                                    {t('seller.products_count', '{{count}} products').replace('{{count}}', String(total))}
+                                </Text>
+                                <TouchableOpacity onPress={toggleSelectAll}>
+                                    <Text style={styles.selectAllText}>
+                                        {selectedIds.length === products.length
+                                            ? t('seller.select_none', 'Select none')
+                                            : t('seller.select_all', 'Select all')}
+                                    </Text>
+                                </TouchableOpacity>
+                            </View>
+                        ) : null
+                    }
+                    ListFooterComponent={isLoadingMore ? <ActivityIndicator color={colors.primary} /> : null}
+                    ListEmptyComponent={
+                        <View style={styles.emptyState}>
+                            <Ionicons name="cube-outline" size={64} color={colors.textLight} />
+                            {isFiltered ? (
+                                <Text style={styles.emptyTitle}>{t('seller.products_empty_filtered', 'No products match these filters')}</Text>
+                            ) : (
+                                <>
+                                    <Text style={styles.emptyTitle}>{t('seller.no_products', 'No products yet')}</Text>
+                                    <Text style={styles.emptyText}>{t('seller.add_first_product', 'Add your first product to start selling.')}</Text>
+                                </>
+                            )}
+                        </View>
+                    }
+                />
+            )}
+
+            {/* Bulk actions */}
+            {selectedIds.length > 0 && (
+                <View style={styles.bulkBar}>
+                    <View style={styles.bulkHeader}>
+                        <TouchableOpacity onPress={() => setSelectedIds([])} disabled={isBulkUpdating}>
+                            <Ionicons name="close" size={22} color={colors.textPrimary} />
+                        </TouchableOpacity>
+                        <Text style={styles.bulkCount}>
+                            {t('seller.selected_count', '{{count}} selected').replace('{{count}}', String(selectedIds.length))}
+                        </Text>
+                        {isBulkUpdating && <ActivityIndicator color={colors.primary} />}
                     </View>
-                ) : (
-                    products.map((product) => (
-                        <View key={product.id} style={styles.productCard}>
-                            <View style={styles.productImage}>
-                                {product.thumbnail ? (
-                                    <Image
-                                        source={{ uri: product.thumbnail }}
-                                        style={styles.productImageContent}
-                                        resizeMode="cover"
-                                    />
-                                ) : (
-                                    <Ionicons name="image-outline" size={28} color={colors.textLight} />
-                                )}
+                    <View style={styles.bulkActions}>
+                        {bulkActions.map((action) => (
+                            <TouchableOpacity
+                                key={action.key}
+                                style={styles.bulkAction}
+                                onPress={action.onPress}
+                                disabled={isBulkUpdating}
+                            >
+                                <Ionicons name={action.icon} size={20} color={action.color} />
+                                <Text style={styles.bulkActionText}>{action.label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </View>
+            )}
+
+            {/* Price / stock adjustment */}
+            <Modal
+                visible={adjustForm !== null}
+                animationType="slide"
+                transparent={true}
+                onRequestClose={() => setAdjustForm(null)}
+            >
+                <View style={styles.modalOverlay}>
+                    {adjustForm && (
+                        <View style={styles.modalContent}>
+                            <Text style={styles.modalTitle}>
+                                {(adjustForm.action === 'adjust_price'
+                                    ? t('seller.adjust_price_title', 'Adjust price of {{count}} products')
+                                    : t('seller.adjust_stock_title', 'Adjust stock of {{count}} products')
+                                ).replace('{{count}}', String(selectedIds.length))}
+                            </Text>
+
+                            <View style={styles.segments}>
+                                {(adjustForm.action === 'adjust_price'
+                                    ? [
+                                        { mode: 'percent', label: t('seller.adjust_by_percent', 'By %') },
+                                        { mode: 'amount', label: t('seller.adjust_by_amount', 'By amount') },
+                                    ]
+                                    : [
+                                        { mode: 'add', label: t('seller.adjust_stock_add', 'Add / remove') },
+                                        { mode: 'set', label: t('seller.adjust_stock_set', 'Set to') },
+                                    ]
+                                ).map((option) => (
+                                    <TouchableOpacity
+                                        key={option.mode}
+                                        style={[styles.segment, adjustForm.mode === option.mode && styles.segmentActive]}
+                                        onPress={() => setAdjustForm({ ...adjustForm, mode: option.mode } as AdjustForm)}
+                                    >
+                                        <Text style={[styles.chipText, adjustForm.mode === option.mode && styles.segmentTextActive]}>
+                                            {option.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
                             </View>
-                            <View style={styles.productInfo}>
-                                <Text style={styles.productName} numberOfLines={1}>
-                                    {getLocalizedField(product as any, 'name', product.name)}
-                                </Text>
-                                <Text style={styles.productPrice}>
-                                    ${Number.parseFloat(product.price || '0').toFixed(2)}
-                                </Text>
-                                {salesByProduct[product.id] && (
-                                    <Text style={styles.productSales}>
-                                        {t('seller.sold', 'Sold')}: {salesByProduct[product.id].unitsSold}, {t('seller.revenue', 'Revenue')}: ${salesByProduct[product.id].revenue.toFixed(2)}
+
+                            <View style={styles.inputGroup}>
+                                <TextInput
+                                    style={[styles.input, adjustError && styles.inputError]}
+                                    value={adjustForm.amount}
+                                    onChangeText={(amount) => {
+                                        setAdjustForm({ ...adjustForm, amount });
+                                        setAdjustError(undefined);
+                                    }}
+                                    placeholder={adjustForm.mode === 'percent' ? '-10' : '0'}
+                                    placeholderTextColor={colors.textLight}
+                                    keyboardType="numbers-and-punctuation"
+                                />
+                                {adjustError ? (
+                                    <Text style={styles.errorText}>{adjustError}</Text>
+                                ) : (
+                                    <Text style={styles.hintText}>
+                                        {adjustForm.mode === 'set'
+                                            ? t('seller.adjust_stock_set_hint', 'Selected products will have exactly this many units.')
+                                            : t('seller.adjust_negative_hint', 'Use a negative number to lower the value.')}
                                     </Text>
                                 )}
-                                {product.status && (
-                                    <Text style={styles.productStatus}>{product.status}</Text>
-                                )}
                             </View>
-                            <View style={styles.actions}>
+
+                            <View style={styles.modalActions}>
                                 <TouchableOpacity
-                                    style={styles.editButton}
-                                    onPress={() => navigation.navigate('AddProduct' as never, { productId: product.id } as never)}
-                                    disabled={deletingId === product.id}
+                                    style={[styles.modalButton, styles.dismissButton]}
+                                    onPress={() => setAdjustForm(null)}
+                                    disabled={isBulkUpdating}
                                 >
-                                    <Ionicons name="pencil-outline" size={20} color={colors.primary} />
+                                    <Text style={styles.dismissButtonText}>{t('common.back', 'Back')}</Text>
                                 </TouchableOpacity>
                                 <TouchableOpacity
-                                    style={styles.deleteButton}
-                                    onPress={() => handleDelete(product.id)}
-                                    disabled={deletingId === product.id}
+                                    style={[styles.modalButton, styles.confirmButton]}
+                                    onPress={submitAdjustForm}
+                                    disabled={isBulkUpdating}
                                 >
-                                    <Ionicons name="trash-outline" size={20} color={colors.error} />
+                                    {isBulkUpdating ? (
+                                        <ActivityIndicator size="small" color={colors.white} />
+                                    ) : (
+                                        <Text style={styles.confirmButtonText}>{t('common.apply', 'Apply')}</Text>
+                                    )}
                                 </TouchableOpacity>
                             </View>
                         </View>
-                    ))
-                )}
-            </ScrollView>
+                    )}
+                </View>
+            </Modal>
         </SafeAreaView>
     );
 }
@@ -216,10 +543,88 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         justifyContent: 'center',
     },
+    filters: {
+        paddingTop: spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    searchBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginHorizontal: spacing.md,
+        paddingHorizontal: spacing.sm,
+        height: 40,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.background,
+    },
+    searchInput: {
+        flex: 1,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+    },
+    chipRow: {
+        alignItems: 'center',
+        gap: spacing.xs,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: 6,
+        borderRadius: borderRadius.full,
+        borderWidth: 1,
+        borderColor: colors.border,
+    },
+    chipActive: {
+        backgroundColor: colors.primary,
+        borderColor: colors.primary,
+    },
+    chipText: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    chipTextActive: {
+        color: colors.white,
+        fontWeight: fontWeight.semibold,
+    },
+    chipDivider: {
+        width: 1,
+        height: 20,
+        backgroundColor: colors.border,
+        marginHorizontal: spacing.xs,
+    },
+    sortChip: {
+        paddingHorizontal: spacing.sm,
+        paddingVertical: 4,
+    },
+    sortChipActive: {
+        borderBottomWidth: 2,
+        borderBottomColor: colors.primary,
+    },
+    sortTextActive: {
+        color: colors.primary,
+        fontWeight: fontWeight.semibold,
+    },
     content: {
         padding: spacing.md,
         paddingBottom: spacing.xl,
     },
+    listHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: spacing.sm,
+    },
+    resultCount: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+    },
+    selectAllText: {
+        fontSize: fontSize.sm,
+        color: colors.primary,
+        fontWeight: fontWeight.semibold,
+    },
     productCard: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -231,6 +636,12 @@ const styles = StyleSheet.create({
         borderColor: colors.borderLight,
         ...shadows.sm,
     },
+    productCardSelected: {
+        borderColor: colors.primary,
+    },
+    checkbox: {
+        marginRight: spacing.sm,
+    },
     productImage: {
         width: 56,
         height: 56,
@@ -258,10 +669,19 @@ const styles = StyleSheet.create({
         color: colors.textSecondary,
         marginTop: 2,
     },
+    tagRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: spacing.sm,
+        marginTop: 2,
+    },
+    stockTag: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.semibold,
+    },
     productStatus: {
         fontSize: fontSize.xs,
         color: colors.textLight,
-        marginTop: 2,
     },
     productSales: {
         fontSize: fontSize.xs,
@@ -294,4 +714,129 @@ const styles = StyleSheet.create({
         marginTop: spacing.sm,
         textAlign: 'center',
     },
+    bulkBar: {
+        padding: spacing.md,
+        backgroundColor: colors.white,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+        ...shadows.md,
+    },
+    bulkHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    bulkCount: {
+        flex: 1,
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    bulkActions: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+    },
+    bulkAction: {
+        alignItems: 'center',
+        flex: 1,
+    },
+    bulkActionText: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+        marginTop: 2,
+    },
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+        justifyContent: 'flex-end',
+    },
+    modalContent: {
+        backgroundColor: colors.white,
+        borderTopLeftRadius: borderRadius.xl,
+        borderTopRightRadius: borderRadius.xl,
+        padding: spacing.md,
+        paddingBottom: spacing.xl,
+    },
+    modalTitle: {
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        marginBottom: spacing.md,
+    },
+    segments: {
+        flexDirection: 'row',
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.background,
+        padding: 2,
+        marginBottom: spacing.md,
+    },
+    segment: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.sm,
+    },
+    segmentActive: {
+        backgroundColor: colors.white,
+        ...shadows.sm,
+    },
+    segmentTextActive: {
+        color: colors.textPrimary,
+        fontWeight: fontWeight.semibold,
+    },
+    inputGroup: {
+        marginBottom: spacing.md,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+        height: 48,
+    },
+    inputError: {
+        borderColor: colors.error,
+    },
+    errorText: {
+        fontSize: fontSize.sm,
+        color: colors.error,
+        marginTop: spacing.xs,
+    },
+    hintText: {
+        fontSize: fontSize.xs,
+        color: colors.textSecondary,
+        marginTop: spacing.xs,
+    },
+    modalActions: {
+        flexDirection: 'row',
+        gap: spacing.sm,
+    },
+    modalButton: {
+        flex: 1,
+        height: 44,
+        borderRadius: borderRadius.md,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    dismissButton: {
+        borderWidth: 1,
+        borderColor: colors.border,
+    },
+    dismissButtonText: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    confirmButton: {
+        backgroundColor: colors.primary,
+    },
+    confirmButtonText: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.white,
+    },
 });
@@ -0,0 +1,453 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    FlatList,
+    TouchableOpacity,
+    TextInput,
+    Image,
+    Alert,
+    RefreshControl,
+    ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize, fontWeight, borderRadius, shadows } from '../theme';
+import { getSellerReviews, replyToReview } from '../services/endpoints';
+import { getErrorMessage } from '../services/errors';
+import { Loading, StarRating } from '../components';
+import type { Review, RootStackParamList } from '../types';
+import { useTranslation } from '../context';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+export default function SellerReviewsScreen() {
+    const navigation = useNavigation<NavigationProp>();
+    const { t } = useTranslation();
+    const [reviews, setReviews] = useState<Review[]>([]);
+    const [onlyUnreplied, setOnlyUnreplied] = useState(false);
+    const [page, setPage] = useState(1);
+    const [lastPage, setLastPage] = useState(1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [replyingId, setReplyingId] = useState<number | null>(null);
+    const [replyText, setReplyText] = useState('');
+    const [isSendingReply, setIsSendingReply] = useState(false);
+
+    const fetchReviews = useCallback(async (nextPage: number) => {
+        try {
+            const result = await getSellerReviews({ unreplied: onlyUnreplied, page: nextPage });
+            setReviews((prev) => (nextPage === 1 ? result.data : [...prev, ...result.data]));
+            setPage(result.meta.current_page);
+            setLastPage(result.meta.last_page);
+        } catch (error) {
+            console.error('Failed to load seller reviews:', error);
+            Alert.alert(t('common.error', 'Error'), t('reviews.load_failed', 'Failed to load reviews'));
+        } finally {
+            setIsLoading(false);
+            setIsRefreshing(false);
+            setIsLoadingMore(false);
+        }
+    }, [onlyUnreplied]);
+
+    useEffect(() => {
+        fetchReviews(1);
+    }, [fetchReviews]);
+
+    const handleRefresh = () => {
+        setIsRefreshing(true);
+        fetchReviews(1);
+    };
+
+    const handleLoadMore = () => {
+        if (isLoadingMore || page >= lastPage) return;
+        setIsLoadingMore(true);
+        fetchReviews(page + 1);
+    };
+
+    const handleFilterChange = (unreplied: boolean) => {
+        if (unreplied === onlyUnreplied) return;
+        setIsLoading(true);
+        setOnlyUnreplied(unreplied);
+    };
+
+    const startReply = (review: Review) => {
+        setReplyingId(review.id);
+        setReplyText(review.reply?.body ?? '');
+    };
+
+    const handleSendReply = async (review: Review) => {
+        const body = replyText.trim();
+        if (!body) {
+            Alert.alert(t('common.error', 'Error'), t('reviews.reply_required', 'Write a reply first'));
+            return;
+        }
+
+        setIsSendingReply(true);
+        try {
+            const updated = await replyToReview(review.id, body);
+            const reply = updated.reply ?? { body, created_at: new Date().toISOString() };
+            setReviews((prev) => {
+                // Answered reviews drop out of the "awaiting reply" list
+                if (onlyUnreplied) return prev.filter((item) => item.id !== review.id);
+                return prev.map((item) => (item.id === review.id ? { ...item, reply } : item));
+            });
+            setReplyingId(null);
+            setReplyText('');
+        } catch (error) {
+            console.error('Reply to review error:', error);
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(error, t('reviews.reply_failed', 'Could not send your reply')));
+        } finally {
+            setIsSendingReply(false);
+        }
+    };
+
+    const renderReview = ({ item: review }: { item: Review }) => (
+        <View style={styles.reviewCard}>
+            {review.product && (
+                <TouchableOpacity
+                    style={styles.productRow}
+                    disabled={!review.product.slug}
+                    onPress={() => navigation.navigate('ProductDetail', { slug: review.product!.slug })}
+                >
+                    {review.product.thumbnail ? (
+                        <Image source={{ uri: review.product.thumbnail }} style={styles.productImage} />
+                    ) : null}
+                    <Text style={styles.productName} numberOfLines={1}>{review.product.name}</Text>
+                </TouchableOpacity>
+            )}
+
+            <View style={styles.reviewHeader}>
+                <StarRating rating={review.rating} size={14} />
+                <Text style={styles.reviewDate}>
+                    {review.created_at ? new Date(review.created_at).toLocaleDateString() : ''}
+                </Text>
+            </View>
+            {review.title ? <Text style={styles.reviewTitle}>{review.title}</Text> : null}
+            {review.body ? <Text style={styles.reviewBody}>{review.body}</Text> : null}
+            {review.photos.length > 0 && (
+                <View style={styles.photoRow}>
+                    {review.photos.map((uri) => (
+                        <Image key={uri} source={{ uri }} style={styles.photo} />
+                    ))}
+                </View>
+            )}
+            <Text style={styles.authorName}>{review.author_name || t('reviews.anonymous', 'Customer')}</Text>
+
+            {replyingId === review.id ? (
+                <View style={styles.replyForm}>
+                    <TextInput
+                        style={styles.replyInput}
+                        value={replyText}
+                        onChangeText={setReplyText}
+                        placeholder={t('reviews.reply_placeholder', 'Write a public reply')}
+                        placeholderTextColor={colors.textLight}
+                        multiline
+                        textAlignVertical="top"
+                        autoFocus
+                    />
+                    <View style={styles.replyActions}>
+                        <TouchableOpacity
+                            style={[styles.actionBtn, styles.cancelBtn]}
+                            onPress={() => setReplyingId(null)}
+                            disabled={isSendingReply}
+                        >
+                            <Text style={styles.actionBtnText}>{t('common.cancel', 'Cancel')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.actionBtn, styles.sendBtn]}
+                            onPress={() => handleSendReply(review)}
+                            disabled={isSendingReply}
+                        >
+                            {isSendingReply ? (
+                                <ActivityIndicator size="small" color={colors.white} />
+                            ) : (
+                                <Text style={[styles.actionBtnText, styles.sendBtnText]}>{t('reviews.send_reply', 'Reply')}</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ) : review.reply ? (
+                <View style={styles.reply}>
+                    <View style={styles.replyHeader}>
+                        <Text style={styles.replyLabel}>{t('reviews.your_reply', 'Your reply')}</Text>
+                        <TouchableOpacity onPress={() => startReply(review)}>
+                            <Text style={styles.linkText}>{t('common.edit', 'Edit')}</Text>
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={styles.reviewBody}>{review.reply.body}</Text>
+                </View>
+            ) : (
+                <TouchableOpacity style={styles.replyButton} onPress={() => startReply(review)}>
+                    <Ionicons name="chatbubble-outline" size={16} color={colors.primary} />
+                    <Text style={styles.linkText}>{t('reviews.reply', 'Reply')}</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={styles.container}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{t('seller.reviews', 'Reviews')}</Text>
+                <View style={styles.headerRight} />
+            </View>
+
+            <View style={styles.tabs}>
+                {[
+                    { value: false, label: t('reviews.filter_all', 'All') },
+                    { value: true, label: t('reviews.filter_unreplied', 'Awaiting reply') },
+                ].map((tab) => (
+                    <TouchableOpacity
+                        key={String(tab.value)}
+                        style={[styles.tab, onlyUnreplied === tab.value && styles.tabActive]}
+                        onPress={() => handleFilterChange(tab.value)}
+                    >
+                        <Text style={[styles.tabText, onlyUnreplied === tab.value && styles.tabTextActive]}>{tab.label}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            {isLoading ? (
+                <Loading message={t('reviews.loading', 'Loading reviews...')} />
+            ) : (
+                <FlatList
+                    data={reviews}
+                    keyExtractor={(item) => String(item.id)}
+                    renderItem={renderReview}
+                    contentContainerStyle={styles.content}
+                    keyboardShouldPersistTaps="handled"
+                    refreshControl={
+                        <RefreshControl
+                            refreshing={isRefreshing}
+                            onRefresh={handleRefresh}
+                            colors={[colors.primary]}
+                            tintColor={colors.primary}
+                        />
+                    }
+                    onEndReached={handleLoadMore}
+                    onEndReachedThreshold={0.5}
+                    ListFooterComponent={isLoadingMore ? <ActivityIndicator color={colors.primary} /> : null}
+                    ListEmptyComponent={
+                        <View style={styles.emptyContainer}>
+                            <Ionicons name="star-outline" size={64} color={colors.textLight} />
+                            <Text style={styles.emptyText}>
+                                {onlyUnreplied
+                                    ? t('reviews.none_unreplied', 'Every review has a reply')
+                                    : t('reviews.empty', 'No reviews yet.')}
+                            </Text>
+                        </View>
+                    }
+                />
+            )}
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#F5F5F5',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.md,
+        backgroundColor: colors.white,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    backButton: {
+        width: 40,
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: fontSize.xl,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        textAlign: 'center',
+    },
+    headerRight: {
+        width: 40,
+    },
+    tabs: {
+        flexDirection: 'row',
+        backgroundColor: colors.white,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    tab: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: spacing.sm,
+        borderBottomWidth: 2,
+        borderBottomColor: 'transparent',
+    },
+    tabActive: {
+        borderBottomColor: colors.primary,
+    },
+    tabText: {
+        fontSize: fontSize.md,
+        color: colors.textSecondary,
+    },
+    tabTextActive: {
+        color: colors.primary,
+        fontWeight: fontWeight.bold,
+    },
+    content: {
+        padding: spacing.md,
+        paddingBottom: 40,
+    },
+    emptyContainer: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginTop: 60,
+    },
+    emptyText: {
+        marginTop: spacing.md,
+        fontSize: fontSize.lg,
+        color: colors.textSecondary,
+    },
+    reviewCard: {
+        backgroundColor: colors.white,
+        borderRadius: borderRadius.lg,
+        padding: spacing.md,
+        marginBottom: spacing.md,
+        ...shadows.sm,
+    },
+    productRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: spacing.sm,
+    },
+    productImage: {
+        width: 32,
+        height: 32,
+        borderRadius: borderRadius.sm,
+        marginRight: spacing.sm,
+    },
+    productName: {
+        flex: 1,
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+    },
+    reviewHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    reviewDate: {
+        fontSize: fontSize.xs,
+        color: colors.textLight,
+    },
+    reviewTitle: {
+        fontSize: fontSize.md,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+        marginTop: spacing.xs,
+    },
+    reviewBody: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginTop: spacing.xs,
+        lineHeight: 20,
+    },
+    photoRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        marginTop: spacing.sm,
+    },
+    photo: {
+        width: 56,
+        height: 56,
+        borderRadius: borderRadius.sm,
+        marginRight: spacing.xs,
+    },
+    authorName: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.medium,
+        color: colors.textPrimary,
+        marginTop: spacing.sm,
+    },
+    replyButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        alignSelf: 'flex-end',
+        gap: spacing.xs,
+        marginTop: spacing.sm,
+    },
+    linkText: {
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.semibold,
+        color: colors.primary,
+    },
+    reply: {
+        marginTop: spacing.sm,
+        padding: spacing.sm,
+        borderRadius: borderRadius.md,
+        backgroundColor: colors.background,
+    },
+    replyHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    replyLabel: {
+        fontSize: fontSize.xs,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    replyForm: {
+        marginTop: spacing.sm,
+    },
+    replyInput: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        padding: spacing.sm,
+        minHeight: 80,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+    },
+    replyActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: spacing.sm,
+        marginTop: spacing.sm,
+    },
+    actionBtn: {
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        borderRadius: borderRadius.md,
+        borderWidth: 1,
+        minWidth: 72,
+        alignItems: 'center',
+    },
+    cancelBtn: {
+        backgroundColor: colors.white,
+        borderColor: colors.borderLight,
+    },
+    sendBtn: {
+        backgroundColor: colors.primary,
+        borderColor: colors.primary,
+    },
+    actionBtnText: {
+        fontSize: fontSize.sm,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+    },
+    sendBtnText: {
+        color: colors.white,
+    },
+});
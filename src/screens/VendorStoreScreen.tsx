@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React from 'react';
 import {
     View,
     Text,
@@ -15,10 +15,12 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useRoute, useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
-import { getVendorBySlug } from '../services/endpoints';
+import { vendorQuery } from '../services/catalogQueries';
+import { useQuery } from '../hooks/useQuery';
+import { NotFoundError } from '../services/errors';
 import { ProductCard, Loading } from '../components';
-import type { Product, Vendor, RootStackParamList } from '../types';
-import { useTranslation } from '../context';
+import type { RootStackParamList } from '../types';
+import { useLocalization, useTranslation } from '../context';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -28,41 +30,16 @@ export default function VendorStoreScreen() {
     const { slug } = route.params as { slug: string };
     const { t } = useTranslation();
 
-    const [vendor, setVendor] = useState<Vendor | null>(null);
-    const [products, setProducts] = useState<Product[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-
-    const mountedRef = useRef(true);
-
-    useEffect(() => {
-        const fetchVendorData = async () => {
-            try {
-                const data = await getVendorBySlug(slug);
-                if (mountedRef.current) {
-                    setVendor(data.vendor);
-                    setProducts(data.products || []);
-                }
-            } catch (error: any) {
-                const errorMessage = error.response?.status === 404
-                    ? t('vendor.not_found', 'Vendor not found')
-                    : t('vendor.load_failed', 'Failed to load vendor data');
-                if (mountedRef.current) {
-                    setError(errorMessage);
-                }
-            } finally {
-                if (mountedRef.current) {
-                    setIsLoading(false);
-                }
-            }
-        };
-
-        fetchVendorData();
-
-        return () => {
-            mountedRef.current = false;
-        };
-    }, [slug]);
+    const { locale } = useLocalization();
+    const { data, error: vendorError, isLoading } = useQuery(vendorQuery(slug, locale));
+    const vendor = data?.vendor ?? null;
+    const products = data?.products ?? [];
+    // Keep showing cached data if only the background refresh failed
+    const error = vendorError && !data
+        ? vendorError instanceof NotFoundError
+            ? t('vendor.not_found', 'Vendor not found')
+            : t('vendor.load_failed', 'Failed to load vendor data')
+        : null;
 
     if (isLoading) {
         return <Loading />;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
     View,
     Text,
@@ -15,7 +15,6 @@ import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
 import { Loading } from '../components';
-import { getWishlist, removeFromWishlist, addToCart } from '../services/endpoints';
 import { useAuth } from '../context/AuthContext';
 import { useCart, useWishlist } from '../context';
 import type { Product } from '../types';
@@ -25,60 +24,28 @@ import { getLocalizedField } from '../i18n/locale';
 export default function WishlistScreen() {
     const navigation = useNavigation();
     const { isAuthenticated, user } = useAuth();
-    const { syncCart } = useCart();
-    const { setWishlistCount } = useWishlist();
+    const { addToCart } = useCart();
+    const { items: wishlistItems, isLoading, refreshWishlist, remove } = useWishlist();
     const { t } = useTranslation();
-    const [wishlistItems, setWishlistItems] = useState<Product[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [processingId, setProcessingId] = useState<number | null>(null);
 
-    const fetchWishlist = useCallback(async () => {
-        if (!isAuthenticated) {
-            setIsLoading(false);
-            setIsRefreshing(false);
-            return;
-        }
-
-        try {
-            const data = await getWishlist();
-            // Ensure data is array to prevent 'undefined.length' crash
-            setWishlistItems(Array.isArray(data) ? data : []);
-            setWishlistCount(Array.isArray(data) ? data.length : 0);
-        } catch (err: any) {
-            console.error('Failed to fetch wishlist:', err);
-            setWishlistItems([]); // Fallback to empty array
-            setWishlistCount(0);
-        } finally {
-            setIsLoading(false);
-            setIsRefreshing(false);
-        }
-    }, [isAuthenticated]);
-
-    useEffect(() => {
-        fetchWishlist();
-    }, [fetchWishlist]);
-
     useFocusEffect(
         useCallback(() => {
-            fetchWishlist();
-        }, [fetchWishlist])
+            refreshWishlist();
+        }, [refreshWishlist])
     );
 
-    const handleRefresh = () => {
+    const handleRefresh = async () => {
         setIsRefreshing(true);
-        fetchWishlist();
+        await refreshWishlist();
+        setIsRefreshing(false);
     };
 
     const handleRemoveFromWishlist = async (productId: number) => {
         try {
             setProcessingId(productId);
-            await removeFromWishlist(productId);
-            setWishlistItems(prev => {
-                const next = prev.filter(item => item.id !== productId);
-                setWishlistCount(next.length);
-                return next;
-            });
+            await remove(productId);
         } catch (err: any) {
             Alert.alert(t('common.error', 'Error'), err.message || t('wishlist.remove_failed', 'Failed to remove from wishlist'));
         } finally {
@@ -89,8 +56,7 @@ export default function WishlistScreen() {
     const handleAddToCart = async (product: Product) => {
         try {
             setProcessingId(product.id);
-            const cart = await addToCart(product.id);
-            syncCart(cart);
+            await addToCart(product);
             const productName = getLocalizedField(product as any, 'name', product.name);
             Alert.alert(t('common.success', 'Success'), `${productName} ${t('cart.added_to_cart', 'added to cart!')}`);
         } catch (err: any) {
@@ -104,36 +70,10 @@ export default function WishlistScreen() {
         navigation.navigate('ProductDetail', { slug: product.slug });
     };
 
-    if (isLoading) {
+    if (isLoading && wishlistItems.length === 0) {
         return <Loading message={t('wishlist.loading', 'Loading wishlist...')} />;
     }
 
-    if (!isAuthenticated) {
-        return (
-            <SafeAreaView style={styles.container}>
-                <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
-                <View style={styles.header}>
-                    <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
-                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
-                </TouchableOpacity>
-                <Text style={styles.headerTitle}>{t('wishlist.title', 'Wishlist')}</Text>
-                <View style={styles.headerRight} />
-            </View>
-            <View style={styles.authPrompt}>
-                <Ionicons name="heart-outline" size={80} color={colors.textLight} />
-                <Text style={styles.authTitle}>{t('wishlist.sign_in_title', 'Sign in to view your wishlist')}</Text>
-                <Text style={styles.authText}>{t('wishlist.sign_in_subtitle', 'Save your favorite items and access them anytime')}</Text>
-                <TouchableOpacity
-                    style={styles.signInButton}
-                    onPress={() => navigation.navigate('Login' as never)}
-                >
-                    <Text style={styles.signInButtonText}>{t('auth.sign_in', 'Sign In')}</Text>
-                </TouchableOpacity>
-            </View>
-        </SafeAreaView>
-    );
-    }
-
     return (
         <SafeAreaView style={styles.container}>
             <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
@@ -147,6 +87,19 @@ export default function WishlistScreen() {
                 <View style={styles.headerRight} />
             </View>
 
+            {!isAuthenticated && (
+                <TouchableOpacity
+                    style={styles.guestBanner}
+                    onPress={() => navigation.navigate('Login' as never)}
+                >
+                    <Ionicons name="person-circle-outline" size={20} color={colors.primary} />
+                    <Text style={styles.guestBannerText}>
+                        {t('wishlist.guest_banner', 'Sign in to save your wishlist to your account')}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={18} color={colors.primary} />
+                </TouchableOpacity>
+            )}
+
             {wishlistItems.length === 0 ? (
                 <View style={styles.emptyState}>
                     <Ionicons name="heart-outline" size={80} color={colors.textLight} />
@@ -356,34 +309,17 @@ const styles = StyleSheet.create({
         fontSize: fontSize.md,
         fontWeight: fontWeight.semibold,
     },
-    authPrompt: {
-        flex: 1,
-        justifyContent: 'center',
+    guestBanner: {
+        flexDirection: 'row',
         alignItems: 'center',
-        padding: spacing.xl,
-    },
-    authTitle: {
-        fontSize: fontSize.xl,
-        fontWeight: fontWeight.bold,
-        color: colors.textPrimary,
-        marginTop: spacing.md,
-    },
-    authText: {
-        fontSize: fontSize.md,
-        color: colors.textSecondary,
-        marginTop: spacing.sm,
-        textAlign: 'center',
-    },
-    signInButton: {
-        backgroundColor: colors.primary,
+        gap: spacing.sm,
+        paddingHorizontal: spacing.md,
         paddingVertical: spacing.sm,
-        paddingHorizontal: spacing.xl,
-        borderRadius: borderRadius.lg,
-        marginTop: spacing.lg,
+        backgroundColor: colors.background,
     },
-    signInButtonText: {
-        color: colors.white,
-        fontSize: fontSize.md,
-        fontWeight: fontWeight.semibold,
+    guestBannerText: {
+        flex: 1,
+        fontSize: fontSize.sm,
+        color: colors.textPrimary,
     },
 });
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    SafeAreaView,
+    StatusBar,
+    TouchableOpacity,
+    TextInput,
+    ScrollView,
+    Image,
+    Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize, fontWeight, borderRadius } from '../theme';
+import { createReview } from '../services/endpoints';
+import { getErrorMessage, mapFieldErrors } from '../services/errors';
+import { MAX_REVIEW_PHOTOS, REVIEW_BODY_MIN_LENGTH, buildReviewFormData } from '../services/reviews';
+import { Loading, StarRating } from '../components';
+import type { RootStackParamList } from '../types';
+import { useTranslation } from '../context';
+
+type WriteReviewRouteProp = RouteProp<RootStackParamList, 'WriteReview'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+type ReviewField = 'rating' | 'title' | 'body' | 'photos';
+
+export default function WriteReviewScreen() {
+    const navigation = useNavigation<NavigationProp>();
+    const route = useRoute<WriteReviewRouteProp>();
+    const { productId, productName, orderId } = route.params;
+    const { t } = useTranslation();
+
+    const [rating, setRating] = useState(0);
+    const [title, setTitle] = useState('');
+    const [body, setBody] = useState('');
+    const [photos, setPhotos] = useState<string[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [fieldErrors, setFieldErrors] = useState<Partial<Record<ReviewField, string>>>({});
+
+    const clearFieldError = (field: ReviewField) => {
+        if (fieldErrors[field]) setFieldErrors({ ...fieldErrors, [field]: undefined });
+    };
+
+    const pickPhoto = async () => {
+        try {
+            const result = await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ImagePicker.MediaTypeOptions.Images,
+                allowsMultipleSelection: true,
+                selectionLimit: MAX_REVIEW_PHOTOS - photos.length,
+                quality: 0.7,
+            });
+
+            if (!result.canceled) {
+                const uris = result.assets.map((asset) => asset.uri).filter(Boolean);
+                setPhotos((prev) => [...prev, ...uris].slice(0, MAX_REVIEW_PHOTOS));
+            }
+        } catch (error) {
+            console.error('Image picker error:', error);
+            Alert.alert(t('common.error', 'Error'), t('reviews.photo_pick_failed', 'Failed to pick photo'));
+        }
+    };
+
+    const validate = () => {
+        const errors: Partial<Record<ReviewField, string>> = {};
+        if (rating < 1) {
+            errors.rating = t('reviews.rating_required', 'Tap a star to rate this product');
+        }
+        if (body.trim().length < REVIEW_BODY_MIN_LENGTH) {
+            errors.body = t('reviews.body_too_short', 'Write at least {{count}} characters')
+                .replace('{{count}}', String(REVIEW_BODY_MIN_LENGTH));
+        }
+        setFieldErrors(errors);
+        return Object.keys(errors).length === 0;
+    };
+
+    const handleSubmit = async () => {
+        if (!validate()) return;
+
+        setIsSubmitting(true);
+        try {
+            const formData = await buildReviewFormData({ orderId, rating, title, body, photos });
+            await createReview(productId, formData);
+            Alert.alert(
+                t('reviews.submitted_title', 'Thanks for your review'),
+                t('reviews.submitted_message', 'Your review has been posted.'),
+                [{ text: t('common.ok', 'OK'), onPress: () => navigation.goBack() }]
+            );
+        } catch (error) {
+            console.error('Create review error:', error);
+            setFieldErrors(mapFieldErrors<ReviewField>(error));
+            Alert.alert(t('common.error', 'Error'), getErrorMessage(error, t('reviews.submit_failed', 'Could not post your review')));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <StatusBar barStyle="dark-content" backgroundColor={colors.white} />
+
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                    <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{t('reviews.write', 'Write a Review')}</Text>
+                <View style={styles.headerRight} />
+            </View>
+
+            <ScrollView contentContainerStyle={styles.content}>
+                <Text style={styles.productName} numberOfLines={2}>{productName}</Text>
+
+                {/* Rating */}
+                <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{t('reviews.your_rating', 'Your rating')}</Text>
+                    <StarRating
+                        rating={rating}
+                        size={32}
+                        onChange={(value) => {
+                            setRating(value);
+                            clearFieldError('rating');
+                        }}
+                    />
+                    {fieldErrors.rating && <Text style={styles.errorText}>{fieldErrors.rating}</Text>}
+                </View>
+
+                {/* Title */}
+                <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{t('reviews.review_title', 'Title')}</Text>
+                    <TextInput
+                        style={[styles.input, fieldErrors.title && styles.inputError]}
+                        value={title}
+                        onChangeText={(value) => {
+                            setTitle(value);
+                            clearFieldError('title');
+                        }}
+                        placeholder={t('reviews.title_placeholder', 'Sum it up (optional)')}
+                        placeholderTextColor={colors.textLight}
+                        maxLength={120}
+                    />
+                    {fieldErrors.title && <Text style={styles.errorText}>{fieldErrors.title}</Text>}
+                </View>
+
+                {/* Body */}
+                <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{t('reviews.review_body', 'Review')}</Text>
+                    <TextInput
+                        style={[styles.input, styles.textArea, fieldErrors.body && styles.inputError]}
+                        value={body}
+                        onChangeText={(value) => {
+                            setBody(value);
+                            clearFieldError('body');
+                        }}
+                        placeholder={t('reviews.body_placeholder', 'What did you like or dislike?')}
+                        placeholderTextColor={colors.textLight}
+                        multiline
+                        textAlignVertical="top"
+                    />
+                    {fieldErrors.body && <Text style={styles.errorText}>{fieldErrors.body}</Text>}
+                </View>
+
+                {/* Photos */}
+                <View style={styles.inputGroup}>
+                    <Text style={styles.label}>
+                        {t('reviews.photos', 'Photos ({{count}}/{{max}})')
+                            .replace('{{count}}', String(photos.length))
+                            .replace('{{max}}', String(MAX_REVIEW_PHOTOS))}
+                    </Text>
+                    <View style={styles.photoRow}>
+                        {photos.map((uri) => (
+                            <View key={uri} style={styles.photoWrapper}>
+                                <Image source={{ uri }} style={styles.photo} />
+                                <TouchableOpacity
+                                    style={styles.photoRemove}
+                                    onPress={() => setPhotos((prev) => prev.filter((photo) => photo !== uri))}
+                                >
+                                    <Ionicons name="close" size={14} color={colors.white} />
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                        {photos.length < MAX_REVIEW_PHOTOS && (
+                            <TouchableOpacity style={[styles.photo, styles.photoAdd]} onPress={pickPhoto}>
+                                <Ionicons name="camera-outline" size={24} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                    {fieldErrors.photos && <Text style={styles.errorText}>{fieldErrors.photos}</Text>}
+                </View>
+
+                {/* Submit */}
+                <TouchableOpacity
+                    style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+                    onPress={handleSubmit}
+                    disabled={isSubmitting}
+                >
+                    {isSubmitting ? (
+                        <Loading fullScreen={false} />
+                    ) : (
+                        <Text style={styles.submitButtonText}>{t('reviews.submit', 'Post Review')}</Text>
+                    )}
+                </TouchableOpacity>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: colors.white,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    },
+    backButton: {
+        width: 40,
+    },
+    headerTitle: {
+        flex: 1,
+        fontSize: fontSize.xl,
+        fontWeight: fontWeight.bold,
+        color: colors.textPrimary,
+        textAlign: 'center',
+    },
+    headerRight: {
+        width: 40,
+    },
+    content: {
+        padding: spacing.md,
+        paddingBottom: spacing.xl,
+    },
+    productName: {
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.semibold,
+        color: colors.textPrimary,
+        marginBottom: spacing.lg,
+    },
+    inputGroup: {
+        marginBottom: spacing.lg,
+    },
+    label: {
+        fontSize: fontSize.sm,
+        color: colors.textSecondary,
+        marginBottom: spacing.xs,
+        fontWeight: fontWeight.medium,
+    },
+    input: {
+        borderWidth: 1,
+        borderColor: colors.borderLight,
+        borderRadius: borderRadius.md,
+        paddingHorizontal: spacing.md,
+        paddingVertical: spacing.sm,
+        fontSize: fontSize.md,
+        color: colors.textPrimary,
+        backgroundColor: colors.background,
+    },
+    textArea: {
+        minHeight: 120,
+    },
+    inputError: {
+        borderColor: colors.error,
+    },
+    errorText: {
+        fontSize: fontSize.sm,
+        color: colors.error,
+        marginTop: spacing.xs,
+    },
+    photoRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+    },
+    photoWrapper: {
+        marginRight: spacing.sm,
+        marginBottom: spacing.sm,
+    },
+    photo: {
+        width: 72,
+        height: 72,
+        borderRadius: borderRadius.md,
+    },
+    photoAdd: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: colors.border,
+        backgroundColor: colors.background,
+    },
+    photoRemove: {
+        position: 'absolute',
+        top: 4,
+        right: 4,
+        width: 20,
+        height: 20,
+        borderRadius: 10,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    submitButton: {
+        backgroundColor: colors.primary,
+        paddingVertical: spacing.md,
+        borderRadius: borderRadius.lg,
+        alignItems: 'center',
+        justifyContent: 'center',
+        height: 50,
+    },
+    submitButtonDisabled: {
+        opacity: 0.7,
+    },
+    submitButtonText: {
+        color: colors.white,
+        fontSize: fontSize.lg,
+        fontWeight: fontWeight.bold,
+    },
+});
@@ -0,0 +1,25 @@
+export type AnalyticsProperties = Record<string, string | number | boolean | null | undefined>;
+
+export type AnalyticsHandler = (event: string, properties: AnalyticsProperties) => void;
+
+// Dev builds log events; a real provider plugs in through setAnalyticsHandler
+let handler: AnalyticsHandler = (event, properties) => {
+    if (__DEV__) {
+        console.log(`[analytics] ${event}`, properties);
+    }
+};
+
+export const setAnalyticsHandler = (next: AnalyticsHandler) => {
+    handler = next;
+};
+
+/**
+ * Fire-and-forget: a failing analytics provider never breaks the UI.
+ */
+export const trackEvent = (event: string, properties: AnalyticsProperties = {}) => {
+    try {
+        handler(event, properties);
+    } catch (error) {
+        console.warn('Analytics event failed:', event, error);
+    }
+};
@@ -1,7 +1,8 @@
-import axios, { AxiosError, AxiosInstance } from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import { Platform } from 'react-native';
 import { getLocale } from '../i18n/locale';
+import { toApiError } from './errors';
+import { getSecureStorage, migrateFromAsyncStorage } from './secureStorage';
 
 const normalizeApiUrl = (url: string) => {
     const trimmed = url.replace(/\/+$/, '');
@@ -61,7 +62,16 @@ export const getImageUrl = (path: string | null | undefined): string | undefined
 };
 
 export const BASE_URL = getBaseUrl();
-const TOKEN_KEY = '@tonas_auth_token';
+const TOKEN_KEY = 'tonas_auth_token';
+const REFRESH_TOKEN_KEY = 'tonas_refresh_token';
+// Where tokens lived before they moved to secure storage
+const LEGACY_TOKEN_KEYS: Record<string, string> = {
+    '@tonas_auth_token': TOKEN_KEY,
+    '@tonas_refresh_token': REFRESH_TOKEN_KEY,
+};
+const REFRESH_PATH = '/refresh';
+// Requests whose 401 means "bad credentials", not "expired session"
+const AUTH_PATHS = ['/login', '/register', '/verify-2fa', '/logout', '/seller/login', REFRESH_PATH];
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
@@ -91,15 +101,12 @@ api.interceptors.request.use(
         }
 
         try {
-            const token = await AsyncStorage.getItem(TOKEN_KEY);
+            const token = await getAuthToken();
             if (token) {
                 config.headers.Authorization = `Bearer ${token}`;
-                console.log('[API] Request with auth token attached');
-            } else {
-                console.log('[API] Request WITHOUT auth token - user not logged in');
             }
         } catch (error) {
-            console.log('Error getting token:', error);
+            console.warn('Failed to read auth token');
         }
         return config;
     },
@@ -108,45 +115,160 @@ api.interceptors.request.use(
     }
 );
 
-// Response interceptor - handle errors
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+// Session expiry listeners (AuthProvider logs out and routes to Login)
+type SessionExpiredListener = () => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+    sessionExpiredListeners.add(listener);
+    return () => {
+        sessionExpiredListeners.delete(listener);
+    };
+};
+
+const notifySessionExpired = () => {
+    sessionExpiredListeners.forEach((listener) => listener());
+};
+
+// Reject with a typed ApiError so callers can branch on the failure kind
+const rejectWithApiError = (error: unknown) => {
+    const apiError = toApiError(error);
+    console.error('API Error:', apiError.message);
+    return Promise.reject(apiError);
+};
+
+// Refresh responses that mean the refresh token itself is no longer valid
+const REFRESH_REJECTED_STATUSES = [400, 401, 403, 422];
+
+/**
+ * Exchanges the stored refresh token for a new access token.
+ * Resolves null (after clearing the session and notifying listeners)
+ * when the server rejects the refresh token. Network failures, rate
+ * limits and server errors are rethrown with the tokens kept, so an
+ * outage never signs the user out.
+ */
+const refreshSession = async (): Promise<string | null> => {
+    await migrateLegacyCredentials();
+    const refreshToken = await getSecureStorage().getItem(REFRESH_TOKEN_KEY);
+
+    if (refreshToken) {
+        try {
+            // Plain axios so the refresh call never re-enters these interceptors
+            const response = await axios.post(
+                `${BASE_URL}${REFRESH_PATH}`,
+                { refresh_token: refreshToken },
+                { headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' }, timeout: 30000 }
+            );
+            const data = response.data ?? {};
+            const token = data.token || data.access_token;
+            if (token) {
+                await setAuthToken(token, data.refresh_token ?? refreshToken);
+                return token;
+            }
+        } catch (error) {
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+            if (status === undefined || !REFRESH_REJECTED_STATUSES.includes(status)) {
+                throw error;
+            }
+        }
+    }
+
+    await removeAuthToken();
+    notifySessionExpired();
+    return null;
+};
+
+// Single-flight: concurrent 401s wait on the same refresh and are replayed after it
+let refreshPromise: Promise<string | null> | null = null;
+
+const recoverSession = () => {
+    if (!refreshPromise) {
+        refreshPromise = refreshSession().finally(() => {
+            refreshPromise = null;
+        });
+    }
+    return refreshPromise;
+};
+
+const isAuthRequest = (url?: string) => {
+    if (!url) return false;
+    return AUTH_PATHS.some((path) => url === path || url.endsWith(path));
+};
+
+// Response interceptor - refresh expired sessions, then normalize errors
 api.interceptors.response.use(
     (response) => response,
-    (error: AxiosError) => {
-        if (error.response?.status === 401) {
-            // Token expired or invalid - clear storage
-            AsyncStorage.removeItem(TOKEN_KEY);
-            // You might want to navigate to login here
-        }
+    async (error: AxiosError) => {
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
 
-        // Extract error message from response
-        const errorMessage = (error.response?.data as any)?.message || error.message;
-        console.error('API Error:', errorMessage);
+        if (
+            error.response?.status === 401 &&
+            originalRequest &&
+            !originalRequest._retry &&
+            !isAuthRequest(originalRequest.url)
+        ) {
+            const hadToken = !!(await getAuthToken());
+            if (hadToken) {
+                originalRequest._retry = true;
+                try {
+                    const token = await recoverSession();
+                    if (token) {
+                        originalRequest.headers.Authorization = `Bearer ${token}`;
+                        return api(originalRequest);
+                    }
+                } catch (refreshError) {
+                    return rejectWithApiError(refreshError);
+                }
+            }
+        }
 
-        return Promise.reject(new Error(errorMessage));
+        return rejectWithApiError(error);
     }
 );
 
 // Auth helpers
-export const setAuthToken = async (token: string): Promise<boolean> => {
+let migrationPromise: Promise<void> | null = null;
+
+/**
+ * One-time move of tokens saved by older builds from AsyncStorage into
+ * secure storage. Safe to call repeatedly; later calls reuse the first run.
+ */
+export const migrateLegacyCredentials = () => {
+    if (!migrationPromise) {
+        migrationPromise = migrateFromAsyncStorage(LEGACY_TOKEN_KEYS).catch(() => {
+            console.warn('Failed to migrate stored credentials');
+            migrationPromise = null;
+        });
+    }
+    return migrationPromise;
+};
+
+export const setAuthToken = async (token: string, refreshToken?: string | null): Promise<boolean> => {
     try {
-        await AsyncStorage.setItem(TOKEN_KEY, token);
-        console.log('[API] Token saved to storage');
-        // Verify it was saved
-        const saved = await AsyncStorage.getItem(TOKEN_KEY);
-        console.log('[API] Token verification:', saved ? 'OK' : 'FAILED');
+        await migrateLegacyCredentials();
+        const storage = getSecureStorage();
+        await storage.setItem(TOKEN_KEY, token);
+        if (refreshToken) {
+            await storage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+        }
         return true;
     } catch (error) {
-        console.error('[API] Failed to save token:', error);
+        console.warn('Failed to save auth token');
         return false;
     }
 };
 
 export const getAuthToken = async () => {
-    return await AsyncStorage.getItem(TOKEN_KEY);
+    await migrateLegacyCredentials();
+    return getSecureStorage().getItem(TOKEN_KEY);
 };
 
 export const removeAuthToken = async () => {
-    await AsyncStorage.removeItem(TOKEN_KEY);
+    await migrateLegacyCredentials();
+    const storage = getSecureStorage();
+    await Promise.all([storage.removeItem(TOKEN_KEY), storage.removeItem(REFRESH_TOKEN_KEY)]);
 };
 
 export const isAuthenticated = async () => {
@@ -0,0 +1,375 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addToCart, getCart, removeFromCart, updateCartItem } from './endpoints';
+import { isNetworkError } from './errors';
+import type { Cart, CartConflict, CartItem, CartMutation, Product, ProductVariant } from '../types';
+
+const CART_KEY = '@tonas_cart';
+const CART_QUEUE_KEY = '@tonas_cart_queue';
+const GUEST_CART_KEY = '@tonas_guest_cart';
+
+export const emptyCart: Cart = {
+    items: [],
+    items_count: 0,
+    subtotal: '0.00',
+    discount: '0.00',
+    total: '0.00',
+    coupon: null,
+    coupon_messages: [],
+};
+
+const parsePrice = (value: string | null | undefined) => {
+    const parsed = Number.parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Identifies a cart line independently of its server id, so optimistic lines
+// (negative ids) can be matched against the lines the server hands back.
+export const getCartLineKey = (productId: number, variantId?: number | null) =>
+    `${productId}:${variantId ?? 0}`;
+
+const getItemKey = (item: CartItem) => getCartLineKey(item.product.id, item.variant?.id);
+
+let lastTempLineId = 0;
+
+// Temporary ids for lines that only exist locally until the queued add is replayed.
+export const nextTempLineId = () => {
+    lastTempLineId = Math.min(-Date.now(), lastTempLineId - 1);
+    return lastTempLineId;
+};
+
+export const isTempLineId = (itemId: number) => itemId < 0;
+
+// Keeps the last known coupon discount (capped at the new subtotal) until
+// the server recalculates it
+export const calculateCartTotals = (items: CartItem[], discount: string = '0') => {
+    const itemsCount = items.reduce((total, item) => total + item.quantity, 0);
+    const subtotalValue = items.reduce((total, item) => total + parsePrice(item.unit_price) * item.quantity, 0);
+    const discountValue = Math.min(parsePrice(discount), subtotalValue);
+
+    return {
+        items_count: itemsCount,
+        subtotal: subtotalValue.toFixed(2),
+        discount: discountValue.toFixed(2),
+        total: (subtotalValue - discountValue).toFixed(2),
+    };
+};
+
+// Snapshots saved by older builds predate the coupon fields
+const withCartDefaults = (cart: Cart): Cart => ({ ...emptyCart, ...cart });
+
+const withQuantity = (item: CartItem, quantity: number): CartItem => ({
+    ...item,
+    quantity,
+    subtotal: (parsePrice(item.unit_price) * quantity).toFixed(2),
+});
+
+const buildLine = (
+    lineId: number,
+    product: Product,
+    variant: ProductVariant | null,
+    quantity: number
+): CartItem => {
+    const unitPrice = variant?.price ?? product.price;
+    return {
+        id: lineId,
+        product,
+        variant,
+        quantity,
+        unit_price: unitPrice,
+        subtotal: (parsePrice(unitPrice) * quantity).toFixed(2),
+    };
+};
+
+/**
+ * Applies a mutation to a local cart the same way the backend would,
+ * so the UI can reflect it before (or without) a server round trip.
+ */
+export const applyCartMutation = (cart: Cart, mutation: CartMutation): Cart => {
+    let items: CartItem[];
+
+    switch (mutation.type) {
+        case 'add': {
+            const key = getCartLineKey(mutation.product.id, mutation.variant?.id);
+            const existing = cart.items.find((item) => getItemKey(item) === key);
+            items = existing
+                ? cart.items.map((item) =>
+                    item === existing ? withQuantity(item, item.quantity + mutation.quantity) : item
+                )
+                : [...cart.items, buildLine(mutation.lineId, mutation.product, mutation.variant, mutation.quantity)];
+            break;
+        }
+        case 'update':
+            items = cart.items.map((item) =>
+                item.id === mutation.itemId ? withQuantity(item, mutation.quantity) : item
+            );
+            break;
+        case 'remove':
+            items = cart.items.filter((item) => item.id !== mutation.itemId);
+            break;
+        default:
+            items = cart.items;
+    }
+
+    return {
+        ...cart,
+        items,
+        ...calculateCartTotals(items, cart.discount),
+    };
+};
+
+/**
+ * Appends a mutation to the offline queue, folding it into earlier entries
+ * where possible so a replay sends the fewest requests.
+ */
+export const enqueueCartMutation = (queue: CartMutation[], mutation: CartMutation): CartMutation[] => {
+    if (mutation.type === 'add') {
+        const key = getCartLineKey(mutation.product.id, mutation.variant?.id);
+        const index = queue.findIndex(
+            (entry) => entry.type === 'add' && getCartLineKey(entry.product.id, entry.variant?.id) === key
+        );
+        if (index === -1) return [...queue, mutation];
+        return queue.map((entry, i) =>
+            i === index && entry.type === 'add'
+                ? { ...entry, quantity: entry.quantity + mutation.quantity }
+                : entry
+        );
+    }
+
+    // Lines that were never sent only need their queued add adjusted.
+    if (isTempLineId(mutation.itemId)) {
+        if (mutation.type === 'remove') {
+            return queue.filter((entry) => !(entry.type === 'add' && entry.lineId === mutation.itemId));
+        }
+        return queue.map((entry) =>
+            entry.type === 'add' && entry.lineId === mutation.itemId
+                ? { ...entry, quantity: mutation.quantity }
+                : entry
+        );
+    }
+
+    const withoutUpdates = queue.filter(
+        (entry) => !(entry.type === 'update' && entry.itemId === mutation.itemId)
+    );
+    return [...withoutUpdates, mutation];
+};
+
+/**
+ * Sends a single queued mutation to the API. Resolves with the server cart.
+ */
+export const sendCartMutation = (mutation: CartMutation): Promise<Cart> => {
+    switch (mutation.type) {
+        case 'add':
+            return addToCart(mutation.product.id, mutation.variant?.id, mutation.quantity);
+        case 'update':
+            return updateCartItem(mutation.itemId, mutation.quantity);
+        case 'remove':
+            return removeFromCart(mutation.itemId);
+    }
+};
+
+export const describeRejectedMutation = (
+    mutation: CartMutation,
+    cart: Cart | null,
+    error: unknown
+): CartConflict | null => {
+    if (mutation.type === 'remove') return null;
+
+    const item = mutation.type === 'add'
+        ? null
+        : cart?.items.find((line) => line.id === mutation.itemId);
+    const product = mutation.type === 'add' ? mutation.product : item?.product;
+    if (!product) return null;
+
+    const variantId = mutation.type === 'add' ? mutation.variant?.id : item?.variant?.id;
+    return {
+        key: getCartLineKey(product.id, variantId),
+        reason: 'rejected',
+        product_name: product.name,
+        message: error instanceof Error ? error.message : undefined,
+        requested_quantity: mutation.quantity,
+    };
+};
+
+/**
+ * Compares the cart the shopper saw locally with what the server returned
+ * after a replay and reports lines whose price or availability changed.
+ */
+export const reconcileCart = (localCart: Cart | null, serverCart: Cart): CartConflict[] => {
+    if (!localCart) return [];
+
+    const serverItems = new Map(serverCart.items.map((item) => [getItemKey(item), item]));
+    const conflicts: CartConflict[] = [];
+
+    localCart.items.forEach((localItem) => {
+        const key = getItemKey(localItem);
+        const serverItem = serverItems.get(key);
+
+        if (!serverItem) {
+            conflicts.push({
+                key,
+                reason: 'unavailable',
+                product_name: localItem.product.name,
+                requested_quantity: localItem.quantity,
+                available_quantity: 0,
+            });
+            return;
+        }
+
+        if (serverItem.quantity < localItem.quantity) {
+            conflicts.push({
+                key,
+                reason: 'stock_reduced',
+                product_name: serverItem.product.name,
+                requested_quantity: localItem.quantity,
+                available_quantity: serverItem.quantity,
+            });
+        }
+
+        if (parsePrice(serverItem.unit_price) !== parsePrice(localItem.unit_price)) {
+            conflicts.push({
+                key,
+                reason: 'price_changed',
+                product_name: serverItem.product.name,
+                previous_price: localItem.unit_price,
+                current_price: serverItem.unit_price,
+            });
+        }
+    });
+
+    return conflicts;
+};
+
+// ============ PERSISTENCE ============
+export const loadCartSnapshot = async (): Promise<Cart | null> => {
+    try {
+        const raw = await AsyncStorage.getItem(CART_KEY);
+        return raw ? withCartDefaults(JSON.parse(raw) as Cart) : null;
+    } catch (error) {
+        console.warn('Failed to load saved cart:', error);
+        return null;
+    }
+};
+
+export const saveCartSnapshot = async (cart: Cart) => {
+    try {
+        await AsyncStorage.setItem(CART_KEY, JSON.stringify(cart));
+    } catch (error) {
+        console.warn('Failed to save cart:', error);
+    }
+};
+
+export const loadCartQueue = async (): Promise<CartMutation[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(CART_QUEUE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.warn('Failed to load pending cart changes:', error);
+        return [];
+    }
+};
+
+export const saveCartQueue = async (queue: CartMutation[]) => {
+    try {
+        if (queue.length === 0) {
+            await AsyncStorage.removeItem(CART_QUEUE_KEY);
+        } else {
+            await AsyncStorage.setItem(CART_QUEUE_KEY, JSON.stringify(queue));
+        }
+    } catch (error) {
+        console.warn('Failed to save pending cart changes:', error);
+    }
+};
+
+export const clearCartStorage = async () => {
+    await AsyncStorage.multiRemove([CART_KEY, CART_QUEUE_KEY]);
+};
+
+// ============ GUEST CART ============
+export const loadGuestCart = async (): Promise<Cart | null> => {
+    try {
+        const raw = await AsyncStorage.getItem(GUEST_CART_KEY);
+        return raw ? withCartDefaults(JSON.parse(raw) as Cart) : null;
+    } catch (error) {
+        console.warn('Failed to load guest cart:', error);
+        return null;
+    }
+};
+
+export const saveGuestCart = async (cart: Cart) => {
+    try {
+        await AsyncStorage.setItem(GUEST_CART_KEY, JSON.stringify(cart));
+    } catch (error) {
+        console.warn('Failed to save guest cart:', error);
+    }
+};
+
+export const clearGuestCart = async () => {
+    await AsyncStorage.removeItem(GUEST_CART_KEY);
+};
+
+let guestMergeRequest: Promise<CartConflict[]> | null = null;
+
+/**
+ * Moves the device-local guest cart into the signed-in account's cart.
+ * A line that exists on both sides keeps the larger quantity rather than
+ * the sum, since it is usually the same item picked on two devices.
+ * Each line leaves the stored guest cart once it is handled, so a network
+ * failure keeps only the unsent lines for the next attempt and rethrows.
+ */
+export const mergeGuestCart = (): Promise<CartConflict[]> => {
+    // Sign-in and a cart refresh can both ask; never send the same lines twice
+    if (!guestMergeRequest) {
+        guestMergeRequest = runGuestCartMerge().finally(() => {
+            guestMergeRequest = null;
+        });
+    }
+    return guestMergeRequest;
+};
+
+const runGuestCartMerge = async (): Promise<CartConflict[]> => {
+    const guestCart = await loadGuestCart();
+    if (!guestCart || guestCart.items.length === 0) return [];
+
+    const serverCart = await getCart();
+    const serverItems = new Map(serverCart.items.map((item) => [getItemKey(item), item]));
+    const notices: CartConflict[] = [];
+    let remaining = guestCart.items;
+
+    for (const item of guestCart.items) {
+        const key = getItemKey(item);
+        const existing = serverItems.get(key);
+
+        try {
+            if (existing) {
+                if (item.quantity > existing.quantity) {
+                    await updateCartItem(existing.id, item.quantity);
+                }
+                notices.push({
+                    key,
+                    reason: 'merged',
+                    product_name: item.product.name,
+                    requested_quantity: item.quantity,
+                    available_quantity: Math.max(item.quantity, existing.quantity),
+                });
+            } else {
+                await addToCart(item.product.id, item.variant?.id, item.quantity);
+            }
+        } catch (error) {
+            if (isNetworkError(error)) throw error;
+            notices.push({
+                key,
+                reason: 'rejected',
+                product_name: item.product.name,
+                message: error instanceof Error ? error.message : undefined,
+                requested_quantity: item.quantity,
+            });
+        }
+
+        remaining = remaining.filter((line) => line !== item);
+        await saveGuestCart({ ...guestCart, items: remaining, ...calculateCartTotals(remaining) });
+    }
+
+    await clearGuestCart();
+    return notices;
+};
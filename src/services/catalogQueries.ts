@@ -0,0 +1,52 @@
+import { getCategories, getHome, getProducts, getVendorBySlug, getVendors } from './endpoints';
+import type { ProductFilters } from './endpoints';
+import { buildQueryKey, CATALOG_QUERY } from './queryCache';
+import type { QueryDefinition, QueryOptions } from './queryCache';
+import type { Category, HomeResponse, PaginatedResponse, Product, Vendor } from '../types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const HOME_OPTIONS: QueryOptions = { staleTime: 5 * MINUTE, maxAge: DAY };
+const CATEGORIES_OPTIONS: QueryOptions = { staleTime: HOUR, maxAge: 7 * DAY };
+const PRODUCTS_OPTIONS: QueryOptions = { staleTime: 2 * MINUTE, maxAge: DAY };
+const VENDOR_OPTIONS: QueryOptions = { staleTime: 10 * MINUTE, maxAge: 3 * DAY };
+const VENDORS_OPTIONS: QueryOptions = { staleTime: HOUR, maxAge: 7 * DAY };
+
+// ============ QUERIES ============
+export const homeQuery = (locale?: string): QueryDefinition<HomeResponse> => ({
+    key: buildQueryKey(CATALOG_QUERY.home, {}, locale),
+    fetcher: getHome,
+    options: HOME_OPTIONS,
+});
+
+export const categoriesQuery = (locale?: string): QueryDefinition<Category[]> => ({
+    key: buildQueryKey(CATALOG_QUERY.categories, {}, locale),
+    fetcher: getCategories,
+    options: CATEGORIES_OPTIONS,
+});
+
+export const productsQuery = (
+    filters: ProductFilters,
+    locale?: string
+): QueryDefinition<PaginatedResponse<Product>> => ({
+    key: buildQueryKey(CATALOG_QUERY.products, { ...filters }, locale),
+    fetcher: () => getProducts(filters),
+    options: PRODUCTS_OPTIONS,
+});
+
+export const vendorQuery = (
+    slug: string,
+    locale?: string
+): QueryDefinition<{ vendor: Vendor; products: Product[] }> => ({
+    key: buildQueryKey(CATALOG_QUERY.vendor, { slug }, locale),
+    fetcher: () => getVendorBySlug(slug),
+    options: VENDOR_OPTIONS,
+});
+
+export const vendorsQuery = (locale?: string): QueryDefinition<Vendor[]> => ({
+    key: buildQueryKey(CATALOG_QUERY.vendors, {}, locale),
+    fetcher: getVendors,
+    options: VENDORS_OPTIONS,
+});
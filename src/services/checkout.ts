@@ -0,0 +1,85 @@
+import type { Cart, CartItem, CheckoutQuote, Vendor } from '../types';
+
+// One future order: the backend splits checkout into an order per vendor
+export interface VendorOrderGroup {
+    key: string;
+    vendor: Vendor | null;
+    items: CartItem[];
+    itemsCount: number;
+    subtotal: number;
+    // null until a quote prices shipping for the selected address
+    shipping: number | null;
+    isCouponEligible: boolean;
+}
+
+export interface CheckoutSummary {
+    groups: VendorOrderGroup[];
+    subtotal: number;
+    shipping: number | null;
+    couponCode: string | null;
+    discount: number;
+    total: number;
+}
+
+const parsePrice = (value: string | null | undefined) => {
+    const parsed = Number.parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const getLineTotal = (item: CartItem) =>
+    item.subtotal ? parsePrice(item.subtotal) : parsePrice(item.unit_price) * item.quantity;
+
+export const groupCartByVendor = (items: CartItem[]): VendorOrderGroup[] => {
+    const groups = new Map<string, VendorOrderGroup>();
+
+    items.forEach((item) => {
+        const vendor = item.product.vendor ?? null;
+        const key = vendor ? `vendor-${vendor.id}` : 'vendor-none';
+        const group = groups.get(key) ?? {
+            key,
+            vendor,
+            items: [],
+            itemsCount: 0,
+            subtotal: 0,
+            shipping: null,
+            isCouponEligible: false,
+        };
+
+        group.items.push(item);
+        group.itemsCount += item.quantity;
+        group.subtotal += getLineTotal(item);
+        groups.set(key, group);
+    });
+
+    return Array.from(groups.values());
+};
+
+/**
+ * Totals shown on the review step. Without a quote the discount is the
+ * cart's coupon discount and shipping stays unknown rather than being
+ * shown as free.
+ */
+export const buildCheckoutSummary = (cart: Cart | null, quote?: CheckoutQuote | null): CheckoutSummary => {
+    const groups = groupCartByVendor(cart?.items ?? []).map((group) => {
+        const fee = group.vendor ? quote?.shipping_by_vendor[group.vendor.id] : undefined;
+        const eligibleVendorIds = cart?.coupon?.eligible_vendor_ids;
+        return {
+            ...group,
+            shipping: fee !== undefined ? parsePrice(fee) : quote ? 0 : null,
+            isCouponEligible: !!cart?.coupon && (!eligibleVendorIds || (!!group.vendor && eligibleVendorIds.includes(group.vendor.id))),
+        };
+    });
+
+    const subtotal = groups.reduce((total, group) => total + group.subtotal, 0);
+    const shipping = quote
+        ? groups.reduce((total, group) => total + (group.shipping ?? 0), 0)
+        : null;
+    const discount = quote
+        ? parsePrice(quote.discount)
+        : parsePrice(cart?.discount);
+    const total = quote?.total !== null && quote?.total !== undefined
+        ? parsePrice(quote.total)
+        : Math.max(0, subtotal + (shipping ?? 0) - discount);
+
+    return { groups, subtotal, shipping, couponCode: cart?.coupon?.code ?? null, discount, total };
+};
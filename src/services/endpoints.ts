@@ -3,27 +3,52 @@ import type {
     Address,
     Cart,
     Category,
+    CheckoutQuote,
     Coupon,
     HomeResponse,
     Order,
+    OrderStatus,
     PaginatedResponse,
+    PaymentMethodId,
+    PaymentSession,
     Product,
+    ReturnRequest,
+    Review,
+    ReviewSort,
+    ReviewSummary,
+    SellerAnalytics,
+    SellerOrder,
+    SellerProduct,
     User,
     Vendor,
 } from '../types';
 import {
     normalizeAddress,
     normalizeCart,
+    normalizeCartCoupon,
     normalizeCategory,
+    normalizeCheckoutQuote,
     normalizeCoupon,
     normalizeOrder,
+    normalizePaymentSession,
     normalizeProduct,
-    normalizeSellerOrders,
+    normalizeReturnRequest,
+    normalizeReview,
+    normalizeReviewSummary,
+    normalizeSellerAnalytics,
+    normalizeSellerOrder,
+    normalizeSellerProduct,
     normalizeSlide,
     normalizeUser,
     normalizeVendor,
     unwrapResource,
 } from './normalizers';
+import { CATALOG_QUERY, invalidateQueries } from './queryCache';
+import { ValidationError } from './errors';
+import { getStatusFields, validateStatusUpdate } from './orders';
+import type { OrderStatusUpdate } from './orders';
+import { SELLER_PRODUCT_SORTS, validateBulkAction } from './sellerProducts';
+import type { SellerProductBulkAction, SellerProductSort, SellerProductStockLevel } from './sellerProducts';
 
 const unwrapCollection = (value: any): any[] => {
     if (Array.isArray(value)) return value;
@@ -31,6 +56,13 @@ const unwrapCollection = (value: any): any[] => {
     return [];
 };
 
+// Cached listings show stock and the per-user wishlist flag, so cart and
+// wishlist writes mark them stale; seller edits can touch any catalog data.
+const invalidateListings = () =>
+    invalidateQueries([CATALOG_QUERY.home, CATALOG_QUERY.products, CATALOG_QUERY.vendor]);
+
+const invalidateCatalog = () => invalidateQueries(Object.values(CATALOG_QUERY));
+
 // ============ HOME ============
 export const getHome = async (): Promise<HomeResponse> => {
     const response = await api.get('/home');
@@ -60,12 +92,15 @@ export const getCategoryBySlug = async (slug: string): Promise<{ category: Categ
 };
 
 // ============ PRODUCTS ============
-interface ProductFilters {
+export interface ProductFilters {
     category_id?: number;
     vendor_id?: number;
     min_price?: number;
     max_price?: number;
     q?: string;
+    in_stock?: boolean;
+    min_rating?: number;
+    attributes?: Record<string, string[]>;
     sort_by?: 'price' | 'name' | 'created_at';
     sort_order?: 'asc' | 'desc';
     per_page?: number;
@@ -73,7 +108,10 @@ interface ProductFilters {
 }
 
 export const getProducts = async (filters: ProductFilters = {}): Promise<PaginatedResponse<Product>> => {
-    const response = await api.get('/products', { params: filters });
+    const response = await api.get('/products', {
+        // Laravel's boolean rule rejects the string "true"
+        params: { ...filters, in_stock: filters.in_stock ? 1 : undefined },
+    });
     const payload = response.data ?? {};
     const data = unwrapCollection(payload).map(normalizeProduct);
     const meta = payload.meta ?? payload.pagination ?? {};
@@ -89,8 +127,18 @@ export const getProducts = async (filters: ProductFilters = {}): Promise<Paginat
     };
 };
 
-export const searchProducts = async (query: string): Promise<PaginatedResponse<Product>> => {
-    const response = await api.get('/products/search', { params: { q: query } });
+export interface SearchOptions {
+    category_id?: number;
+    min_price?: number;
+    max_price?: number;
+    sort_by?: 'price' | 'name' | 'created_at';
+    sort_order?: 'asc' | 'desc';
+    per_page?: number;
+    page?: number;
+}
+
+export const searchProducts = async (query: string, options: SearchOptions = {}): Promise<PaginatedResponse<Product>> => {
+    const response = await api.get('/products/search', { params: { ...options, q: query } });
     const payload = response.data ?? {};
     const data = unwrapCollection(payload).map(normalizeProduct);
     const meta = payload.meta ?? payload.pagination ?? {};
@@ -115,6 +163,45 @@ export const getProductBySlug = async (slug: string): Promise<{ product: Product
     };
 };
 
+// ============ REVIEWS ============
+export interface ReviewQuery {
+    sort?: ReviewSort;
+    rating?: number;
+    page?: number;
+    per_page?: number;
+}
+
+export const getProductReviews = async (
+    productId: number,
+    query: ReviewQuery = {}
+): Promise<{ reviews: PaginatedResponse<Review>; summary: ReviewSummary }> => {
+    const response = await api.get(`/products/${productId}/reviews`, { params: query });
+    const payload = response.data ?? {};
+    const data = unwrapCollection(payload).map(normalizeReview);
+    const meta = payload.meta ?? payload.pagination ?? {};
+
+    return {
+        reviews: {
+            data,
+            meta: {
+                current_page: meta.current_page ?? 1,
+                last_page: meta.last_page ?? 1,
+                per_page: meta.per_page ?? data.length,
+                total: meta.total ?? data.length,
+            },
+        },
+        summary: normalizeReviewSummary(payload.summary ?? meta),
+    };
+};
+
+// Multipart: order_id, rating, title, body and photos[]
+export const createReview = async (productId: number, data: FormData): Promise<Review> => {
+    const response = await api.post(`/products/${productId}/reviews`, data);
+    // Listings show the average rating
+    invalidateListings();
+    return normalizeReview(response.data?.review ?? unwrapResource(response.data));
+};
+
 // ============ CART ============
 export const getCart = async (): Promise<Cart> => {
     const response = await api.get('/cart');
@@ -127,38 +214,50 @@ export const addToCart = async (productId: number, variantId?: number, quantity:
         variant_id: variantId,
         quantity,
     });
+    invalidateListings();
     return getCart();
 };
 
 export const updateCartItem = async (itemId: number, quantity: number): Promise<Cart> => {
     await api.put(`/cart/${itemId}`, { quantity });
+    invalidateListings();
     return getCart();
 };
 
 export const removeFromCart = async (itemId: number): Promise<Cart> => {
     await api.delete(`/cart/${itemId}`);
+    invalidateListings();
     return getCart();
 };
 
 export const clearCart = async (): Promise<void> => {
     await api.delete('/cart');
+    invalidateListings();
 };
 
 export const applyCoupon = async (code: string): Promise<Cart> => {
-    const [cartResponse, couponResponse] = await Promise.all([
-        api.get('/cart'),
-        api.post('/cart/coupon', { code }),
-    ]);
-    const cart = normalizeCart(cartResponse.data);
-    const couponData = couponResponse.data ?? {};
+    // Read the cart only after the coupon is stored so it reflects the discount
+    const couponResponse = await api.post('/cart/coupon', { code });
+    const cart = await getCart();
+    if (cart.coupon) return cart;
 
+    // Backends that do not include the coupon in /cart only echo it here
+    const couponData = couponResponse.data ?? {};
+    const coupon = normalizeCartCoupon({ code, ...(couponData.coupon ?? couponData) });
     return {
         ...cart,
+        coupon,
         subtotal: String(couponData.subtotal ?? cart.subtotal),
+        discount: String(couponData.discount ?? coupon?.discount ?? cart.discount),
         total: String(couponData.total ?? cart.total),
     };
 };
 
+export const removeCoupon = async (): Promise<Cart> => {
+    await api.delete('/cart/coupon');
+    return getCart();
+};
+
 // ============ WISHLIST ============
 export const getWishlist = async (): Promise<Product[]> => {
     const response = await api.get('/wishlist');
@@ -168,15 +267,18 @@ export const getWishlist = async (): Promise<Product[]> => {
 
 export const addToWishlist = async (productId: number): Promise<void> => {
     await api.post('/wishlist', { product_id: productId });
+    invalidateListings();
 };
 
 export const toggleWishlist = async (productId: number): Promise<{ added: boolean }> => {
     const response = await api.post('/wishlist/toggle', { product_id: productId });
+    invalidateListings();
     return { added: !!response.data?.wishlisted };
 };
 
 export const removeFromWishlist = async (productId: number): Promise<void> => {
     await api.delete(`/wishlist/${productId}`);
+    invalidateListings();
 };
 
 // ============ AUTH ============
@@ -195,6 +297,7 @@ interface RegisterData {
 interface AuthResponse {
     user: User;
     token: string;
+    refresh_token?: string;
 }
 
 export const login = async (credentials: LoginCredentials): Promise<AuthResponse> => {
@@ -266,7 +369,25 @@ export const getOrders = async (): Promise<Order[]> => {
     return unwrapCollection(response.data).map(normalizeOrder);
 };
 
-export const createOrder = async (addressId: number, paymentMethod: string = 'cod'): Promise<Order[]> => {
+// One page of the order list, for callers that need every order
+export const getOrdersPage = async (page: number = 1): Promise<PaginatedResponse<Order>> => {
+    const response = await api.get('/orders', { params: { page } });
+    const payload = response.data ?? {};
+    const data = unwrapCollection(payload.data ?? payload).map(normalizeOrder);
+    const meta = payload.meta ?? payload.pagination ?? {};
+
+    return {
+        data,
+        meta: {
+            current_page: meta.current_page ?? page,
+            last_page: meta.last_page ?? page,
+            per_page: meta.per_page ?? data.length,
+            total: meta.total ?? data.length,
+        },
+    };
+};
+
+export const createOrder = async (addressId: number, paymentMethod: PaymentMethodId = 'cod'): Promise<Order[]> => {
     const response = await api.post('/orders', {
         address_id: addressId,
         payment_method: paymentMethod,
@@ -274,6 +395,12 @@ export const createOrder = async (addressId: number, paymentMethod: string = 'co
     return unwrapCollection(response.data?.orders).map(normalizeOrder);
 };
 
+// Shipping per vendor and discounts for the cart, priced for one address
+export const getCheckoutQuote = async (addressId: number): Promise<CheckoutQuote> => {
+    const response = await api.post('/checkout/quote', { address_id: addressId });
+    return normalizeCheckoutQuote(response.data?.quote ?? unwrapResource(response.data));
+};
+
 export const getOrderById = async (id: number): Promise<Order> => {
     const response = await api.get(`/orders/${id}`);
     return normalizeOrder(unwrapResource(response.data));
@@ -284,6 +411,37 @@ export const cancelOrder = async (id: number): Promise<Order> => {
     return normalizeOrder(response.data?.order ?? unwrapResource(response.data));
 };
 
+// ============ RETURNS ============
+// Multipart: order_item_id, type, quantity, reason, comment and photos[]
+export const createReturnRequest = async (orderId: number, data: FormData): Promise<ReturnRequest> => {
+    const response = await api.post(`/orders/${orderId}/returns`, data);
+    return normalizeReturnRequest(response.data?.return_request ?? unwrapResource(response.data));
+};
+
+// ============ PAYMENTS ============
+export const createPayment = async (
+    orderIds: number[],
+    method: PaymentMethodId,
+    returnUrl: string
+): Promise<PaymentSession> => {
+    const response = await api.post('/payments', {
+        order_ids: orderIds,
+        payment_method: method,
+        return_url: returnUrl,
+    });
+    return normalizePaymentSession(response.data?.payment ?? unwrapResource(response.data));
+};
+
+export const getPayment = async (id: string): Promise<PaymentSession> => {
+    const response = await api.get(`/payments/${id}`);
+    return normalizePaymentSession(response.data?.payment ?? unwrapResource(response.data));
+};
+
+export const cancelPayment = async (id: string): Promise<PaymentSession> => {
+    const response = await api.post(`/payments/${id}/cancel`);
+    return normalizePaymentSession(response.data?.payment ?? unwrapResource(response.data));
+};
+
 // ============ VENDORS ============
 export const getVendors = async (): Promise<Vendor[]> => {
     const response = await api.get('/vendors');
@@ -323,6 +481,12 @@ export const getSellerDashboard = async (): Promise<any> => {
     return response.data;
 };
 
+// Dates are inclusive YYYY-MM-DD bounds
+export const getSellerAnalytics = async (range: { from: string; to: string }): Promise<SellerAnalytics> => {
+    const response = await api.get('/seller/analytics', { params: range });
+    return normalizeSellerAnalytics(unwrapResource(response.data) ?? {}, range);
+};
+
 export const getSellerProfile = async (): Promise<{ user: User; vendor: Vendor }> => {
     const response = await api.get('/seller/me');
     return {
@@ -336,9 +500,42 @@ export const updateSellerProfile = async (data: FormData): Promise<Vendor> => {
     return normalizeVendor(response.data?.vendor ?? response.data);
 };
 
-export const getSellerProducts = async (): Promise<Product[]> => {
-    const response = await api.get('/seller/products');
-    return unwrapCollection(response.data).map(normalizeProduct);
+export interface SellerProductQuery {
+    // Matches names and SKUs
+    search?: string;
+    status?: string;
+    is_active?: boolean;
+    stock?: SellerProductStockLevel;
+    sort?: SellerProductSort;
+    page?: number;
+    per_page?: number;
+}
+
+export const getSellerProducts = async (query: SellerProductQuery = {}): Promise<PaginatedResponse<SellerProduct>> => {
+    const { sort, is_active, ...filters } = query;
+    const sortOption = SELLER_PRODUCT_SORTS.find((option) => option.id === sort);
+    const response = await api.get('/seller/products', {
+        params: {
+            ...filters,
+            search: filters.search?.trim() || undefined,
+            is_active: is_active === undefined ? undefined : is_active ? 1 : 0,
+            sort_by: sortOption?.sort_by,
+            sort_order: sortOption?.sort_order,
+        },
+    });
+    const payload = response.data ?? {};
+    const data = unwrapCollection(payload.data ?? payload).map(normalizeSellerProduct);
+    const meta = payload.meta ?? payload.pagination ?? {};
+
+    return {
+        data,
+        meta: {
+            current_page: meta.current_page ?? 1,
+            last_page: meta.last_page ?? 1,
+            per_page: meta.per_page ?? data.length,
+            total: meta.total ?? data.length,
+        },
+    };
 };
 
 export const getSellerProductById = async (id: number): Promise<Product> => {
@@ -348,31 +545,134 @@ export const getSellerProductById = async (id: number): Promise<Product> => {
 
 export const deleteSellerProduct = async (id: number): Promise<void> => {
     await api.delete(`/seller/products/${id}`);
+    invalidateCatalog();
+};
+
+/**
+ * Applies one action to several products at once. Adjustments the client can
+ * already tell are invalid are rejected with a ValidationError.
+ */
+export const bulkUpdateSellerProducts = async (ids: number[], bulk: SellerProductBulkAction): Promise<any> => {
+    const fieldErrors = validateBulkAction(ids, bulk);
+    if (fieldErrors) {
+        throw new ValidationError(Object.values(fieldErrors)[0][0], fieldErrors);
+    }
+
+    const response = await api.post('/seller/products/bulk', { ids, ...bulk });
+    invalidateCatalog();
+    return response.data;
 };
 
 export const createSellerProduct = async (productData: FormData): Promise<any> => {
     const response = await api.post('/seller/products', productData);
+    invalidateCatalog();
     return response.data;
 };
 
 export const updateSellerProduct = async (id: number, productData: FormData): Promise<any> => {
     const response = await api.post(`/seller/products/${id}`, productData);
+    invalidateCatalog();
     return response.data;
 };
 
-export const updateOrderStatus = async (orderId: number, status: string): Promise<any> => {
-    const response = await api.put(`/seller/orders/${orderId}/status`, { status });
+/**
+ * Moves a seller order along the status state machine. Transitions the
+ * machine does not allow, or that miss required data, are rejected here with
+ * a ValidationError before reaching the server.
+ */
+export const updateOrderStatus = async (
+    orderId: number,
+    currentStatus: OrderStatus,
+    update: OrderStatusUpdate
+): Promise<any> => {
+    const fieldErrors = validateStatusUpdate(currentStatus, update);
+    if (fieldErrors) {
+        throw new ValidationError(Object.values(fieldErrors)[0][0], fieldErrors);
+    }
+
+    const payload: Record<string, string> = { status: update.status };
+    getStatusFields(update.status).forEach(({ field }) => {
+        const value = update[field]?.trim();
+        if (value) payload[field] = value;
+    });
+
+    const response = await api.put(`/seller/orders/${orderId}/status`, payload);
     return response.data;
 };
 
-export const getSellerOrders = async (): Promise<any[]> => {
-    const response = await api.get('/seller/orders');
-    return normalizeSellerOrders(response.data);
+export interface SellerOrderQuery {
+    status?: OrderStatus;
+    // Matches order numbers
+    search?: string;
+    // YYYY-MM-DD, both inclusive
+    from?: string;
+    to?: string;
+    page?: number;
+    per_page?: number;
+}
+
+export const getSellerOrders = async (query: SellerOrderQuery = {}): Promise<PaginatedResponse<SellerOrder>> => {
+    const response = await api.get('/seller/orders', {
+        params: {
+            ...query,
+            search: query.search?.trim() || undefined,
+            from: query.from || undefined,
+            to: query.to || undefined,
+        },
+    });
+    const payload = response.data ?? {};
+    const data = unwrapCollection(payload.data ?? payload).map(normalizeSellerOrder);
+    const meta = payload.meta ?? payload.pagination ?? {};
+
+    return {
+        data,
+        meta: {
+            current_page: meta.current_page ?? 1,
+            last_page: meta.last_page ?? 1,
+            per_page: meta.per_page ?? data.length,
+            total: meta.total ?? data.length,
+        },
+    };
 };
 
-export const getSellerOrderById = async (id: number): Promise<any> => {
+export const getSellerOrderById = async (id: number): Promise<SellerOrder> => {
     const response = await api.get(`/seller/orders/${id}`);
-    return response.data;
+    return normalizeSellerOrder(response.data?.order ?? unwrapResource(response.data));
+};
+
+export const updateReturnRequestStatus = async (
+    id: number,
+    status: 'approved' | 'rejected',
+    note?: string
+): Promise<ReturnRequest> => {
+    const response = await api.put(`/seller/returns/${id}`, { status, resolution_note: note });
+    return normalizeReturnRequest(response.data?.return_request ?? unwrapResource(response.data));
+};
+
+export const getSellerReviews = async (
+    query: { unreplied?: boolean; page?: number } = {}
+): Promise<PaginatedResponse<Review>> => {
+    const response = await api.get('/seller/reviews', {
+        params: { ...query, unreplied: query.unreplied ? 1 : undefined },
+    });
+    const payload = response.data ?? {};
+    const data = unwrapCollection(payload).map(normalizeReview);
+    const meta = payload.meta ?? payload.pagination ?? {};
+
+    return {
+        data,
+        meta: {
+            current_page: meta.current_page ?? 1,
+            last_page: meta.last_page ?? 1,
+            per_page: meta.per_page ?? data.length,
+            total: meta.total ?? data.length,
+        },
+    };
+};
+
+export const replyToReview = async (id: number, body: string): Promise<Review> => {
+    const response = await api.post(`/seller/reviews/${id}/reply`, { body });
+    return normalizeReview(response.data?.review ?? unwrapResource(response.data));
 };
 
 export const getSellerCoupons = async (): Promise<Coupon[]> => {
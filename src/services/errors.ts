@@ -0,0 +1,152 @@
+import axios, { AxiosError } from 'axios';
+
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * Base class for every error the API client rejects with.
+ * `data` keeps the raw response body for flags like `two_factor`.
+ */
+export class ApiError extends Error {
+    readonly status?: number;
+    readonly data?: any;
+
+    constructor(message: string, status?: number, data?: any) {
+        super(message);
+        // Keep instanceof working when classes are compiled down to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = new.target.name;
+        this.status = status;
+        this.data = data;
+    }
+}
+
+// 422 with Laravel's `errors` map: { field: ['message', ...] }
+export class ValidationError extends ApiError {
+    readonly fieldErrors: FieldErrors;
+
+    constructor(message: string, fieldErrors: FieldErrors, data?: any) {
+        super(message, 422, data);
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+// 401 / 403
+export class AuthError extends ApiError {}
+
+// 404
+export class NotFoundError extends ApiError {}
+
+// 429
+export class RateLimitError extends ApiError {
+    readonly retryAfter?: number;
+
+    constructor(message: string, retryAfter?: number, data?: any) {
+        super(message, 429, data);
+        this.retryAfter = retryAfter;
+    }
+}
+
+// 5xx
+export class ServerError extends ApiError {}
+
+// The request never got a response (offline, DNS, CORS, ...)
+export class NetworkError extends ApiError {}
+
+// The request was sent but did not complete within the client timeout
+export class TimeoutError extends NetworkError {}
+
+const normalizeFieldErrors = (value: any): FieldErrors => {
+    if (!value || typeof value !== 'object') return {};
+    return Object.entries(value).reduce<FieldErrors>((result, [field, messages]) => {
+        const list = Array.isArray(messages) ? messages : [messages];
+        result[field] = list.filter(Boolean).map((message) => String(message));
+        return result;
+    }, {});
+};
+
+const parseRetryAfter = (value: unknown) => {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) ? seconds : undefined;
+};
+
+/**
+ * Maps an axios failure onto the ApiError hierarchy.
+ */
+export const toApiError = (error: unknown): ApiError => {
+    if (error instanceof ApiError) return error;
+
+    if (!axios.isAxiosError(error)) {
+        return new ApiError(error instanceof Error ? error.message : 'Unexpected error');
+    }
+
+    const axiosError = error as AxiosError<any>;
+    const response = axiosError.response;
+
+    if (!response) {
+        const isTimeout = axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT';
+        return isTimeout
+            ? new TimeoutError('The request timed out. Please try again.')
+            : new NetworkError(axiosError.message || 'Network Error');
+    }
+
+    const { status, data } = response;
+    const message = data?.message || axiosError.message;
+
+    if (status === 422) {
+        return new ValidationError(message, normalizeFieldErrors(data?.errors), data);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthError(message, status, data);
+    }
+    if (status === 404) {
+        return new NotFoundError(message, status, data);
+    }
+    if (status === 429) {
+        return new RateLimitError(message, parseRetryAfter(response.headers?.['retry-after']), data);
+    }
+    if (status >= 500) {
+        return new ServerError(message, status, data);
+    }
+    return new ApiError(message, status, data);
+};
+
+// ============ HELPERS ============
+export const isNetworkError = (error: unknown): error is NetworkError => error instanceof NetworkError;
+
+export const getErrorMessage = (error: unknown, fallback: string) => {
+    if (error instanceof Error && error.message) return error.message;
+    return fallback;
+};
+
+/**
+ * First message for a backend field, or undefined if the field is valid.
+ */
+export const getFieldError = (error: unknown, field: string): string | undefined => {
+    if (!(error instanceof ValidationError)) return undefined;
+    return error.fieldErrors[field]?.[0];
+};
+
+/**
+ * Maps backend field errors onto form inputs. `fieldMap` translates backend
+ * names to form names (e.g. { address_line_1: 'street' }); unmapped fields
+ * keep their backend name. Errors for array entries (`photos.0`) land on
+ * the array's own field.
+ */
+export const mapFieldErrors = <TField extends string = string>(
+    error: unknown,
+    fieldMap: Record<string, TField> = {}
+): Partial<Record<TField, string>> => {
+    if (!(error instanceof ValidationError)) return {};
+
+    return Object.entries(error.fieldErrors).reduce<Partial<Record<TField, string>>>(
+        (result, [field, messages]) => {
+            const baseField = field.split('.')[0];
+            const formField = (fieldMap[field] ?? fieldMap[baseField] ?? baseField) as TField;
+            if (messages[0] && !result[formField]) {
+                result[formField] = messages[0];
+            }
+            return result;
+        },
+        {}
+    );
+};
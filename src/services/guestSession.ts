@@ -0,0 +1,99 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addToWishlist, getWishlist } from './endpoints';
+import { mergeGuestCart } from './cartSync';
+import { isNetworkError } from './errors';
+import type { GuestMergeResult, Product } from '../types';
+
+const GUEST_WISHLIST_KEY = '@tonas_guest_wishlist';
+
+// ============ GUEST WISHLIST ============
+export const loadGuestWishlist = async (): Promise<Product[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(GUEST_WISHLIST_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.warn('Failed to load guest wishlist:', error);
+        return [];
+    }
+};
+
+export const saveGuestWishlist = async (products: Product[]) => {
+    try {
+        await AsyncStorage.setItem(GUEST_WISHLIST_KEY, JSON.stringify(products));
+    } catch (error) {
+        console.warn('Failed to save guest wishlist:', error);
+    }
+};
+
+export const clearGuestWishlist = async () => {
+    await AsyncStorage.removeItem(GUEST_WISHLIST_KEY);
+};
+
+let guestWishlistMergeRequest: Promise<number> | null = null;
+
+/**
+ * Adds the guest's saved products to the account wishlist, skipping
+ * anything the account already has. Returns how many were added.
+ * Like the cart merge, a network failure keeps the unsent products for
+ * the next attempt and rethrows.
+ */
+export const mergeGuestWishlist = (): Promise<number> => {
+    if (!guestWishlistMergeRequest) {
+        guestWishlistMergeRequest = runGuestWishlistMerge().finally(() => {
+            guestWishlistMergeRequest = null;
+        });
+    }
+    return guestWishlistMergeRequest;
+};
+
+const runGuestWishlistMerge = async (): Promise<number> => {
+    const guestItems = await loadGuestWishlist();
+    if (guestItems.length === 0) return 0;
+
+    const existing = await getWishlist();
+    const existingIds = new Set(existing.map((product) => product.id));
+    let remaining = guestItems;
+    let added = 0;
+
+    for (const product of guestItems) {
+        if (!existingIds.has(product.id)) {
+            try {
+                await addToWishlist(product.id);
+                existingIds.add(product.id);
+                added += 1;
+            } catch (error) {
+                if (isNetworkError(error)) throw error;
+                console.warn(`Failed to move product ${product.id} to wishlist:`, error);
+            }
+        }
+
+        remaining = remaining.filter((item) => item !== product);
+        await saveGuestWishlist(remaining);
+    }
+
+    await clearGuestWishlist();
+    return added;
+};
+
+/**
+ * Runs once the auth token is stored: moves the guest cart and wishlist
+ * into the account. A failure here never blocks the sign-in itself.
+ */
+export const mergeGuestSession = async (): Promise<GuestMergeResult> => {
+    const result: GuestMergeResult = { cart: [], wishlist_added: 0 };
+
+    try {
+        result.cart = await mergeGuestCart();
+    } catch (error) {
+        console.warn('Failed to merge guest cart:', error);
+    }
+
+    try {
+        result.wishlist_added = await mergeGuestWishlist();
+    } catch (error) {
+        console.warn('Failed to merge guest wishlist:', error);
+    }
+
+    return result;
+};
@@ -1,17 +1,34 @@
 import type {
     Address,
+    AnalyticsPoint,
+    AnalyticsRankedItem,
     Cart,
+    CartCoupon,
     CartItem,
     Category,
+    CheckoutQuote,
     Coupon,
     Order,
+    OrderItem,
+    OrderStatusEvent,
+    OrderTracking,
+    PaymentSession,
+    PaymentStatus,
     Product,
     ProductVariant,
+    ReturnRequest,
+    ReturnRequestStatus,
+    Review,
+    ReviewSummary,
+    SellerAnalytics,
+    SellerOrder,
+    SellerProduct,
     Slide,
     User,
     Vendor,
 } from '../types';
 import { getImageUrl } from './api';
+import { toOrderStatus } from './orders';
 import { getLocalizedField } from '../i18n/locale';
 
 const safeString = (value: unknown, fallback = '') => {
@@ -83,16 +100,27 @@ export const normalizeSlide = (slide: any): Slide => {
     };
 };
 
+// Hero images come as plain URLs or as slide-like objects with a link
+const normalizeHeroSlide = (item: any, index: number): Slide => {
+    if (typeof item === 'string') {
+        return { id: index, title: '', subtitle: '', image: getImageUrl(item) || '', link_type: 'none', link_value: '' };
+    }
+    return { ...normalizeSlide(item), id: item?.id ?? index };
+};
+
 export const normalizeCategory = (category: any): Category => {
+    const heroSlides: Slide[] = Array.isArray(category?.hero_images)
+        ? category.hero_images.map(normalizeHeroSlide).filter((slide: Slide) => Boolean(slide.image))
+        : [];
+
     return {
         id: category?.id ?? 0,
         name: getLocalizedField(category, 'name', safeString(category?.name)),
         slug: safeString(category?.slug),
         icon: safeString(category?.icon),
         image: getImageUrl(category?.image_url ?? category?.image) || '',
-        hero_images: Array.isArray(category?.hero_images)
-            ? category.hero_images.map((item: string) => getImageUrl(item)).filter(Boolean)
-            : [],
+        hero_images: heroSlides.map((slide) => slide.image),
+        hero_slides: heroSlides,
         name_en: safeString(category?.name_en ?? category?.name),
         name_ar: safeString(category?.name_ar),
         name_ku: safeString(category?.name_ku),
@@ -121,8 +149,28 @@ export const normalizeVendor = (vendor: any): Vendor => {
 
 export const normalizeProductVariant = (variant: any): ProductVariant => {
     const attributes: Record<string, string> = {};
+    // Extra options arrive as { material: 'Cotton' } or [{ name, value }]
+    const rawAttributes = variant?.attributes ?? variant?.options;
+    if (Array.isArray(rawAttributes)) {
+        rawAttributes.forEach((attribute: any) => {
+            if (attribute?.name && attribute?.value) {
+                attributes[safeString(attribute.name).toLowerCase()] = safeString(attribute.value);
+            }
+        });
+    } else if (rawAttributes && typeof rawAttributes === 'object') {
+        Object.entries(rawAttributes).forEach(([name, value]) => {
+            if (value !== null && value !== undefined && value !== '') {
+                attributes[name.toLowerCase()] = safeString(value);
+            }
+        });
+    }
     if (variant?.size) attributes.size = safeString(variant.size);
     if (variant?.color) attributes.color = safeString(variant.color);
+    const rawImages = Array.isArray(variant?.images)
+        ? variant.images
+        : variant?.image_url ?? variant?.image
+            ? [variant.image_url ?? variant.image]
+            : [];
 
     const nameParts = [variant?.name, variant?.size, variant?.color]
         .filter(Boolean)
@@ -137,6 +185,7 @@ export const normalizeProductVariant = (variant: any): ProductVariant => {
         compare_price: variant?.compare_price ?? null,
         stock: safeNumber(variant?.stock, 0),
         attributes,
+        images: rawImages.map((image: any) => getImageUrl(image)).filter(Boolean) as string[],
     };
 };
 
@@ -188,11 +237,26 @@ export const normalizeProduct = (product: any): Product => {
         vendor: product?.vendor ? normalizeVendor(product.vendor) : undefined,
         variants,
         in_stock: inStock,
+        stock: product?.stock !== undefined && product?.stock !== null ? safeNumber(product.stock, 0) : undefined,
         average_rating: safeNumber(product?.average_rating, 0),
         reviews_count: safeNumber(product?.reviews_count, 0),
     };
 };
 
+export const normalizeSellerProduct = (product: any): SellerProduct => {
+    const normalized = normalizeProduct(product);
+    const variantStock = (normalized.variants ?? []).reduce((sum, variant) => sum + variant.stock, 0);
+    return {
+        ...normalized,
+        units_sold: safeNumber(product?.units_sold ?? product?.sales_count, 0),
+        revenue: safeNumber(product?.revenue, 0),
+        total_stock: safeNumber(
+            product?.total_stock,
+            normalized.variants && normalized.variants.length > 0 ? variantStock : normalized.stock ?? 0
+        ),
+    };
+};
+
 export const normalizeCartItem = (item: any): CartItem => {
     return {
         id: item?.id ?? 0,
@@ -204,6 +268,24 @@ export const normalizeCartItem = (item: any): CartItem => {
     };
 };
 
+const toMessages = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map((item) => safeString(item)).filter(Boolean);
+    const message = safeString(value);
+    return message ? [message] : [];
+};
+
+export const normalizeCartCoupon = (coupon: any): CartCoupon | null => {
+    const code = safeString(coupon?.code ?? coupon?.coupon_code);
+    if (!code) return null;
+
+    const vendorIds = coupon?.eligible_vendor_ids ?? coupon?.vendor_ids;
+    return {
+        code,
+        discount: safeString(coupon?.discount ?? coupon?.discount_amount ?? '0'),
+        eligible_vendor_ids: Array.isArray(vendorIds) ? vendorIds.map(Number) : null,
+    };
+};
+
 export const normalizeCart = (payload: any): Cart => {
     const items = unwrapCollection(payload?.items).map(normalizeCartItem);
     const summary = payload?.summary ?? {};
@@ -212,12 +294,38 @@ export const normalizeCart = (payload: any): Cart => {
         items.reduce((total, item) => total + (item.quantity || 0), 0);
     const subtotal = summary.subtotal ?? summary.total ?? '0';
     const total = summary.total ?? subtotal ?? '0';
+    // The coupon may be nested in the summary or sit next to it
+    const coupon = normalizeCartCoupon(summary.coupon ?? payload?.coupon ?? (summary.coupon_code ? {
+        code: summary.coupon_code,
+        discount: summary.discount,
+        eligible_vendor_ids: summary.eligible_vendor_ids,
+    } : null));
+    const discount = summary.discount ?? coupon?.discount ?? '0';
 
     return {
         items,
         items_count: safeNumber(itemsCount, 0),
         subtotal: safeString(subtotal),
+        discount: safeString(discount),
         total: safeString(total),
+        coupon,
+        coupon_messages: toMessages(summary.coupon_messages ?? payload?.coupon?.messages ?? summary.coupon_message),
+    };
+};
+
+export const normalizeCheckoutQuote = (quote: any): CheckoutQuote => {
+    const vendors = unwrapCollection(quote?.vendors ?? quote?.shipping);
+
+    return {
+        shipping_by_vendor: vendors.reduce<Record<number, string>>((result, entry) => {
+            const vendorId = entry?.vendor_id ?? entry?.vendor?.id;
+            if (vendorId) {
+                result[vendorId] = safeString(entry?.shipping ?? entry?.shipping_fee ?? '0');
+            }
+            return result;
+        }, {}),
+        discount: safeString(quote?.discount ?? '0'),
+        total: quote?.total !== undefined && quote?.total !== null ? safeString(quote.total) : null,
     };
 };
 
@@ -237,17 +345,176 @@ export const normalizeAddress = (address: any): Address => {
     };
 };
 
+// Order lines may embed the product or only carry a snapshot of its name and image
+export const normalizeOrderItem = (item: any, index: number): OrderItem => {
+    const product = normalizeProduct({
+        id: item?.product_id,
+        name: item?.product_name ?? item?.name,
+        image: item?.product_image ?? item?.image,
+        price: item?.unit_price ?? item?.price,
+        ...(item?.product ?? {}),
+    });
+    const quantity = safeNumber(item?.quantity, 0);
+    const unitPrice = safeString(item?.unit_price ?? item?.price ?? product.price);
+
+    return {
+        id: item?.id ?? index,
+        product,
+        variant: item?.variant ? normalizeProductVariant(item.variant) : null,
+        quantity,
+        unit_price: unitPrice,
+        subtotal: safeString(item?.subtotal ?? item?.total ?? (Number.parseFloat(unitPrice) * quantity).toFixed(2)),
+        reviewed: toBool(item?.reviewed ?? item?.is_reviewed ?? !!(item?.review_id ?? item?.review), 'order_item.reviewed'),
+    };
+};
+
+const normalizeStatusEvent = (event: any): OrderStatusEvent => ({
+    status: toOrderStatus(safeString(event?.status ?? event?.to_status)),
+    created_at: safeString(event?.created_at ?? event?.changed_at),
+    note: event?.note ?? event?.comment ?? null,
+});
+
+const normalizeTracking = (order: any): OrderTracking | null => {
+    const tracking = order?.tracking ?? order?.shipment ?? {};
+    const trackingNumber = safeString(tracking.tracking_number ?? order?.tracking_number);
+    if (!trackingNumber) return null;
+
+    return {
+        carrier: safeString(tracking.carrier ?? order?.carrier),
+        tracking_number: trackingNumber,
+        tracking_url: tracking.tracking_url ?? order?.tracking_url ?? null,
+        estimated_delivery: tracking.estimated_delivery ?? order?.estimated_delivery ?? null,
+    };
+};
+
+// Uploaded photos come back as paths or { url } objects
+const normalizePhotos = (value: any): string[] =>
+    unwrapCollection(value)
+        .map((photo: any) => getImageUrl(typeof photo === 'string' ? photo : photo?.url ?? photo?.path) || '')
+        .filter(Boolean);
+
+const RETURN_STATUSES: ReturnRequestStatus[] = ['pending', 'approved', 'rejected', 'refunded', 'cancelled'];
+
+export const normalizeReturnRequest = (request: any): ReturnRequest => {
+    const status = safeString(request?.status).toLowerCase() as ReturnRequestStatus;
+
+    return {
+        id: request?.id ?? 0,
+        order_id: safeNumber(request?.order_id, 0),
+        order_item_id: safeNumber(request?.order_item_id ?? request?.item_id, 0),
+        type: request?.type === 'refund' ? 'refund' : 'return',
+        quantity: safeNumber(request?.quantity, 1),
+        reason: safeString(request?.reason),
+        comment: safeString(request?.comment ?? request?.description),
+        photos: normalizePhotos(request?.photos ?? request?.images),
+        status: RETURN_STATUSES.includes(status) ? status : 'pending',
+        resolution_note: request?.resolution_note ?? request?.seller_note ?? null,
+        refund_amount: request?.refund_amount !== undefined && request?.refund_amount !== null
+            ? safeString(request.refund_amount)
+            : null,
+        created_at: safeString(request?.created_at),
+    };
+};
+
+export const normalizeReview = (review: any): Review => {
+    const reply = review?.reply ?? review?.seller_reply;
+    const replyBody = typeof reply === 'string' ? reply : safeString(reply?.body ?? reply?.comment);
+    const product = review?.product;
+
+    return {
+        id: review?.id ?? 0,
+        product_id: safeNumber(review?.product_id ?? product?.id, 0),
+        rating: Math.min(5, Math.max(1, Math.round(safeNumber(review?.rating, 5)))),
+        title: safeString(review?.title),
+        body: safeString(review?.body ?? review?.comment),
+        photos: normalizePhotos(review?.photos ?? review?.images),
+        author_name: safeString(review?.author_name ?? review?.user?.name),
+        is_verified_purchase: toBool(review?.is_verified_purchase ?? review?.verified, 'review.is_verified_purchase'),
+        created_at: safeString(review?.created_at),
+        reply: replyBody
+            ? { body: replyBody, created_at: safeString(reply?.created_at ?? review?.replied_at) }
+            : null,
+        product: product
+            ? {
+                id: product.id ?? 0,
+                name: safeString(product.name),
+                slug: safeString(product.slug),
+                thumbnail: getImageUrl(product.thumbnail ?? product.image_url ?? product.image) || '',
+            }
+            : null,
+    };
+};
+
+export const normalizeReviewSummary = (summary: any): ReviewSummary => {
+    const breakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    const rawBreakdown = summary?.breakdown ?? summary?.rating_breakdown ?? {};
+    [1, 2, 3, 4, 5].forEach((star) => {
+        breakdown[star] = safeNumber(rawBreakdown[star] ?? rawBreakdown[String(star)], 0);
+    });
+
+    return {
+        average_rating: safeNumber(summary?.average_rating ?? summary?.average, 0),
+        reviews_count: safeNumber(summary?.reviews_count ?? summary?.total, 0),
+        breakdown,
+    };
+};
+
 export const normalizeOrder = (order: any): Order => {
     const total = order?.total ?? order?.total_amount ?? order?.subtotal ?? '0';
+    const address = order?.shipping_address ?? order?.address;
 
     return {
         id: order?.id ?? 0,
         order_number: safeString(order?.order_number ?? order?.order_no ?? ''),
-        status: safeString(order?.status),
-        items: [],
+        status: toOrderStatus(safeString(order?.status)),
+        items: unwrapCollection(order?.items).map(normalizeOrderItem),
         subtotal: safeString(order?.subtotal ?? total),
+        shipping: safeString(order?.shipping ?? order?.shipping_fee ?? '0'),
+        discount: safeString(order?.discount ?? order?.discount_amount ?? '0'),
         total: safeString(total),
         created_at: safeString(order?.created_at),
+        vendor: order?.vendor ? normalizeVendor(order.vendor) : null,
+        shipping_address: address && typeof address === 'object' ? normalizeAddress(address) : null,
+        payment_method: safeString(order?.payment_method ?? order?.payment?.method),
+        payment_status: safeString(order?.payment_status ?? order?.payment?.status),
+        status_history: unwrapCollection(order?.status_history ?? order?.history)
+            .map(normalizeStatusEvent)
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()),
+        tracking: normalizeTracking(order),
+        cancellation_reason: order?.cancellation_reason ?? order?.cancel_reason ?? null,
+        return_requests: unwrapCollection(order?.return_requests ?? order?.returns).map(normalizeReturnRequest),
+    };
+};
+
+export const normalizeSellerOrder = (order: any): SellerOrder => {
+    const customer = order?.customer ?? order?.user;
+
+    return {
+        ...normalizeOrder(order),
+        customer: customer
+            ? {
+                name: safeString(customer.name),
+                email: safeString(customer.email),
+                phone: customer.phone ?? order?.shipping_address?.phone ?? null,
+            }
+            : null,
+        notes: order?.notes ?? order?.customer_note ?? null,
+    };
+};
+
+const PAYMENT_STATUSES: PaymentStatus[] = ['pending', 'processing', 'paid', 'failed', 'cancelled', 'expired'];
+
+export const normalizePaymentSession = (payment: any): PaymentSession => {
+    const status = safeString(payment?.status).toLowerCase() as PaymentStatus;
+
+    return {
+        id: safeString(payment?.id ?? payment?.session_id),
+        method: payment?.method ?? payment?.payment_method ?? 'cod',
+        status: PAYMENT_STATUSES.includes(status) ? status : 'pending',
+        order_ids: Array.isArray(payment?.order_ids) ? payment.order_ids.map(Number) : [],
+        amount: safeString(payment?.amount ?? '0'),
+        redirect_url: payment?.redirect_url ?? payment?.payment_url ?? null,
+        failure_reason: payment?.failure_reason ?? payment?.message ?? null,
     };
 };
 
@@ -284,26 +551,32 @@ export const unwrapResource = (value: any) => {
     return value;
 };
 
-export const normalizeSellerOrders = (payload: any) => {
-    const data = unwrapCollection(payload?.data ?? payload);
-    return data.map((order: any) => ({
-        id: order?.id ?? 0,
-        order_number: safeString(order?.order_number ?? `#${order?.id ?? ''}`),
-        total: safeString(order?.total ?? order?.total_amount ?? '0'),
-        status: safeString(order?.status),
-        created_at: safeString(order?.created_at),
-        user: order?.user ? { name: safeString(order.user.name) } : undefined,
-        items: Array.isArray(order?.items)
-            ? order.items.map((item: any, index: number) => ({
-                id: item?.id ?? index,
-                product: {
-                    id: item?.product_id ?? index,
-                    name: safeString(item?.name ?? item?.product?.name),
-                    base_price: safeString(item?.price ?? item?.product?.base_price ?? '0'),
-                },
-                quantity: safeNumber(item?.quantity, 0),
-                price: safeString(item?.price ?? '0'),
-            }))
-            : [],
-    }));
+const normalizeRankedItem = (item: any, index: number): AnalyticsRankedItem => ({
+    id: item?.id ?? item?.product_id ?? item?.category_id ?? index,
+    name: getLocalizedField(item, 'name', safeString(item?.name ?? item?.product_name)),
+    units_sold: safeNumber(item?.units_sold ?? item?.quantity, 0),
+    revenue: safeNumber(item?.revenue ?? item?.total, 0),
+});
+
+const normalizeAnalyticsPoint = (point: any): AnalyticsPoint => ({
+    date: safeString(point?.date).split('T')[0],
+    revenue: safeNumber(point?.revenue ?? point?.total, 0),
+    orders: safeNumber(point?.orders ?? point?.orders_count, 0),
+});
+
+export const normalizeSellerAnalytics = (payload: any, range: { from: string; to: string }): SellerAnalytics => {
+    const summary = payload?.summary ?? payload?.stats ?? {};
+    return {
+        from: range.from,
+        to: range.to,
+        summary: {
+            revenue: safeNumber(summary?.revenue ?? summary?.total_revenue, 0),
+            orders: safeNumber(summary?.orders ?? summary?.total_orders, 0),
+            units_sold: safeNumber(summary?.units_sold, 0),
+            visitors: safeNumber(summary?.visitors ?? summary?.store_views, 0),
+        },
+        series: unwrapCollection(payload?.series ?? payload?.sales_overview).map(normalizeAnalyticsPoint),
+        top_products: unwrapCollection(payload?.top_products).map(normalizeRankedItem),
+        top_categories: unwrapCollection(payload?.top_categories).map(normalizeRankedItem),
+    };
 };
@@ -0,0 +1,191 @@
+import type { FieldErrors } from './errors';
+import type { Order, OrderStatus } from '../types';
+
+export type OrderStatusTone = 'warning' | 'info' | 'success' | 'error' | 'neutral';
+
+interface OrderStatusDefinition {
+    label: string;
+    labelKey: string;
+    tone: OrderStatusTone;
+    // Label for the seller action that moves an order into this status
+    action?: string;
+    actionKey?: string;
+    next: OrderStatus[];
+}
+
+/**
+ * The order lifecycle shared by the buyer and seller views. An order only
+ * moves along `next`; delivered, cancelled and unknown are final.
+ */
+export const ORDER_STATUSES: Record<OrderStatus, OrderStatusDefinition> = {
+    pending: {
+        label: 'Pending', labelKey: 'orders.status_pending', tone: 'warning',
+        next: ['processing', 'cancelled'],
+    },
+    processing: {
+        label: 'Processing', labelKey: 'orders.status_processing', tone: 'info',
+        action: 'Process', actionKey: 'orders.process',
+        next: ['shipped', 'cancelled'],
+    },
+    shipped: {
+        label: 'Shipped', labelKey: 'orders.status_shipped', tone: 'info',
+        action: 'Ship', actionKey: 'orders.ship',
+        next: ['delivered'],
+    },
+    delivered: {
+        label: 'Delivered', labelKey: 'orders.status_delivered', tone: 'success',
+        action: 'Deliver', actionKey: 'orders.deliver',
+        next: [],
+    },
+    cancelled: {
+        label: 'Cancelled', labelKey: 'orders.status_cancelled', tone: 'error',
+        action: 'Cancel Order', actionKey: 'orders.cancel_order',
+        next: [],
+    },
+    unknown: {
+        label: 'Unknown', labelKey: 'orders.status_unknown', tone: 'neutral',
+        next: [],
+    },
+};
+
+// Spellings the backend has used for the same statuses
+const ORDER_STATUS_ALIASES: Record<string, OrderStatus> = {
+    canceled: 'cancelled',
+    completed: 'delivered',
+};
+
+/**
+ * Reads a raw status into the state machine. Anything unrecognised becomes
+ * `unknown` rather than an open status, so it never offers cancel or ship.
+ */
+export const toOrderStatus = (value: string | null | undefined): OrderStatus => {
+    const status = (value ?? '').trim().toLowerCase();
+    if (status in ORDER_STATUS_ALIASES) return ORDER_STATUS_ALIASES[status];
+    return status in ORDER_STATUSES ? (status as OrderStatus) : 'unknown';
+};
+
+export const ORDER_STATUS_TONES: Record<OrderStatusTone, { color: string; background: string }> = {
+    warning: { color: '#EF6C00', background: '#FFF3E0' },
+    info: { color: '#1565C0', background: '#E3F2FD' },
+    success: { color: '#2E7D32', background: '#E8F5E9' },
+    error: { color: '#C2185B', background: '#FCE4EC' },
+    neutral: { color: '#616161', background: '#F5F5F5' },
+};
+
+export interface OrderStatusUpdate {
+    status: OrderStatus;
+    carrier?: string;
+    tracking_number?: string;
+    tracking_url?: string;
+    cancellation_reason?: string;
+}
+
+export type OrderStatusField = Exclude<keyof OrderStatusUpdate, 'status'>;
+
+// Data the seller gives when moving an order into a status
+const STATUS_FIELDS: Partial<Record<OrderStatus, { field: OrderStatusField; required: boolean }[]>> = {
+    shipped: [
+        { field: 'carrier', required: true },
+        { field: 'tracking_number', required: true },
+        { field: 'tracking_url', required: false },
+    ],
+    cancelled: [{ field: 'cancellation_reason', required: true }],
+};
+
+export const ORDER_STATUS_FIELD_LABELS: Record<OrderStatusField, { label: string; labelKey: string }> = {
+    carrier: { label: 'Carrier', labelKey: 'orders.carrier' },
+    tracking_number: { label: 'Tracking number', labelKey: 'orders.tracking_number' },
+    tracking_url: { label: 'Tracking link', labelKey: 'orders.tracking_url' },
+    cancellation_reason: { label: 'Cancellation reason', labelKey: 'orders.cancellation_reason' },
+};
+
+// Also used for raw history events, so the status goes through the aliases
+export const getOrderStatus = (status: string): OrderStatusDefinition => ORDER_STATUSES[toOrderStatus(status)];
+
+export const getNextStatuses = (status: OrderStatus): OrderStatus[] => ORDER_STATUSES[status]?.next ?? [];
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => getNextStatuses(from).includes(to);
+
+export const getStatusFields = (status: OrderStatus) => STATUS_FIELDS[status] ?? [];
+
+/**
+ * Checks an update against the state machine, in the same shape as the
+ * backend's 422 errors so forms can map either onto their inputs.
+ */
+export const validateStatusUpdate = (from: OrderStatus, update: OrderStatusUpdate): FieldErrors | null => {
+    if (!canTransition(from, update.status)) {
+        return {
+            status: [`An order that is ${getOrderStatus(from).label.toLowerCase()} cannot be marked as ${getOrderStatus(update.status).label.toLowerCase()}.`],
+        };
+    }
+
+    const errors: FieldErrors = {};
+    getStatusFields(update.status).forEach(({ field, required }) => {
+        if (required && !update[field]?.trim()) {
+            errors[field] = [`${ORDER_STATUS_FIELD_LABELS[field].label} is required.`];
+        }
+    });
+    return Object.keys(errors).length > 0 ? errors : null;
+};
+
+export interface OrderTimelineStep {
+    status: string;
+    label: string;
+    labelKey: string;
+    // When the order reached this step, if it has
+    reachedAt: string | null;
+    isComplete: boolean;
+    isCurrent: boolean;
+}
+
+const TIMELINE_STEPS = [
+    { status: 'pending', label: 'Placed', labelKey: 'orders.timeline_placed' },
+    { status: 'processing', label: 'Processing', labelKey: 'orders.timeline_processing' },
+    { status: 'shipped', label: 'Shipped', labelKey: 'orders.timeline_shipped' },
+    { status: 'delivered', label: 'Delivered', labelKey: 'orders.timeline_delivered' },
+];
+
+const CANCELLED_STEP = { status: 'cancelled', label: 'Cancelled', labelKey: 'orders.timeline_cancelled' };
+
+// Buyers may cancel until the seller ships
+export const canCancelOrder = (order: Order) => canTransition(order.status, 'cancelled');
+
+const findReachedAt = (order: Order, status: string) => {
+    const event = order.status_history.find((item) => item.status === status);
+    if (event) return event.created_at;
+    return status === 'pending' ? order.created_at : null;
+};
+
+/**
+ * Placed → processing → shipped → delivered, with timestamps from the status
+ * history. A cancelled order stops at the last step it reached, followed by
+ * the cancellation.
+ */
+export const buildOrderTimeline = (order: Order): OrderTimelineStep[] => {
+    const isCancelled = order.status === 'cancelled';
+    const currentIndex = TIMELINE_STEPS.findIndex((step) => step.status === order.status);
+    // Cancelled orders went as far as their history says
+    const lastReachedIndex = isCancelled
+        ? TIMELINE_STEPS.reduce((last, step, index) => (findReachedAt(order, step.status) ? index : last), 0)
+        : Math.max(currentIndex, 0);
+
+    const steps = TIMELINE_STEPS
+        .filter((_, index) => !isCancelled || index <= lastReachedIndex)
+        .map((step, index) => ({
+            ...step,
+            reachedAt: index <= lastReachedIndex ? findReachedAt(order, step.status) : null,
+            isComplete: index <= lastReachedIndex,
+            isCurrent: !isCancelled && index === lastReachedIndex,
+        }));
+
+    if (isCancelled) {
+        steps.push({
+            ...CANCELLED_STEP,
+            reachedAt: findReachedAt(order, 'cancelled'),
+            isComplete: true,
+            isCurrent: true,
+        });
+    }
+
+    return steps;
+};
@@ -0,0 +1,134 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { PAYMENT_METHODS } from './payments';
+import type { SellerOrder } from '../types';
+
+type Translate = (key: string, fallback?: string) => string;
+
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+const formatAmount = (value: string) => `$${(Number.parseFloat(value) || 0).toFixed(2)}`;
+
+/**
+ * Packing slip and invoice for one order, as a printable HTML page. Text is
+ * escaped since names, addresses and notes come from the buyer.
+ */
+export const buildPackingSlipHtml = (order: SellerOrder, t: Translate) => {
+    const address = order.shipping_address;
+    const addressLines = address
+        ? [
+            address.recipient_name,
+            address.full_address || [address.street_address, address.city, address.state, address.postal_code, address.country].filter(Boolean).join(', '),
+            address.phone || order.customer?.phone || '',
+        ]
+        : [order.customer?.name ?? '', order.customer?.phone ?? ''];
+
+    const rows = order.items.map((item) => `
+        <tr>
+            <td>${escapeHtml(item.product.name)}${item.variant ? `<div class="muted">${escapeHtml(item.variant.name)}</div>` : ''}</td>
+            <td>${escapeHtml(item.variant?.sku || '-')}</td>
+            <td class="num">${item.quantity}</td>
+            <td class="num">${formatAmount(item.unit_price)}</td>
+            <td class="num">${formatAmount(item.subtotal)}</td>
+        </tr>`).join('');
+
+    const discount = Number.parseFloat(order.discount) || 0;
+    const paymentMethod = PAYMENT_METHODS.find((method) => method.id === order.payment_method);
+    const paymentLabel = paymentMethod ? t(paymentMethod.labelKey, paymentMethod.label) : order.payment_method || '-';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #212121; padding: 24px; font-size: 12px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    .muted { color: #757575; font-size: 11px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    .block { margin-bottom: 16px; }
+    .label { font-weight: bold; text-transform: uppercase; font-size: 10px; color: #757575; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    th { text-align: left; border-bottom: 2px solid #212121; padding: 6px 4px; font-size: 11px; }
+    td { border-bottom: 1px solid #E0E0E0; padding: 6px 4px; vertical-align: top; }
+    .num { text-align: right; }
+    .totals td { border: none; padding: 2px 4px; }
+    .grand td { font-weight: bold; font-size: 14px; }
+</style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1>${escapeHtml(t('packing_slip.title', 'Packing Slip'))}</h1>
+            <div>${escapeHtml(order.vendor?.name ?? '')}</div>
+        </div>
+        <div class="num">
+            <div><strong>${escapeHtml(t('orders.order', 'Order'))} ${escapeHtml(order.order_number)}</strong></div>
+            <div class="muted">${escapeHtml(new Date(order.created_at).toLocaleDateString())}</div>
+        </div>
+    </div>
+
+    <div class="block">
+        <div class="label">${escapeHtml(t('orders.ship_to', 'Ship to'))}</div>
+        ${addressLines.filter(Boolean).map((line) => `<div>${escapeHtml(line)}</div>`).join('')}
+    </div>
+
+    ${order.notes ? `
+    <div class="block">
+        <div class="label">${escapeHtml(t('orders.notes', 'Order notes'))}</div>
+        <div>${escapeHtml(order.notes)}</div>
+    </div>` : ''}
+
+    <table>
+        <thead>
+            <tr>
+                <th>${escapeHtml(t('orders.item', 'Item'))}</th>
+                <th>${escapeHtml(t('variants.sku', 'SKU'))}</th>
+                <th class="num">${escapeHtml(t('orders.quantity', 'Qty'))}</th>
+                <th class="num">${escapeHtml(t('product.price', 'Price'))}</th>
+                <th class="num">${escapeHtml(t('orders.total', 'Total'))}</th>
+            </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+    </table>
+
+    <table class="totals">
+        <tr><td class="num">${escapeHtml(t('cart.subtotal', 'Subtotal'))}</td><td class="num">${formatAmount(order.subtotal)}</td></tr>
+        <tr><td class="num">${escapeHtml(t('checkout.shipping', 'Shipping'))}</td><td class="num">${formatAmount(order.shipping)}</td></tr>
+        ${discount > 0 ? `<tr><td class="num">${escapeHtml(t('checkout.discount', 'Coupon discount'))}</td><td class="num">-${formatAmount(order.discount)}</td></tr>` : ''}
+        <tr class="grand"><td class="num">${escapeHtml(t('orders.total', 'Total'))}</td><td class="num">${formatAmount(order.total)}</td></tr>
+    </table>
+
+    <div class="muted">${escapeHtml(t('checkout.payment_method', 'Payment Method'))}: ${escapeHtml(paymentLabel)}${order.payment_status ? ` (${escapeHtml(order.payment_status)})` : ''}</div>
+</body>
+</html>`;
+};
+
+/**
+ * Renders the packing slip to a PDF and opens the share sheet. Web has no
+ * file sharing, so the browser's print dialog is used instead.
+ */
+export const sharePackingSlip = async (order: SellerOrder, t: Translate) => {
+    const html = buildPackingSlipHtml(order, t);
+
+    if (Platform.OS === 'web') {
+        await Print.printAsync({ html });
+        return;
+    }
+
+    const { uri } = await Print.printToFileAsync({ html });
+    if (!(await Sharing.isAvailableAsync())) {
+        await Print.printAsync({ uri });
+        return;
+    }
+    await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: `${t('packing_slip.title', 'Packing Slip')} ${order.order_number}`,
+    });
+};
@@ -0,0 +1,232 @@
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { cancelPayment, createPayment, getPayment } from './endpoints';
+import { isNetworkError } from './errors';
+import type { PaymentMethodId, PaymentSession, PaymentStatus } from '../types';
+
+export interface PaymentProvider {
+    name: string;
+    createSession: (orderIds: number[], method: PaymentMethodId, returnUrl: string) => Promise<PaymentSession>;
+    getSession: (id: string) => Promise<PaymentSession>;
+    cancelSession: (id: string) => Promise<PaymentSession>;
+}
+
+export interface PaymentMethodOption {
+    id: PaymentMethodId;
+    label: string;
+    labelKey: string;
+    description: string;
+    descriptionKey: string;
+    icon: string;
+    // Paid online on a hosted page; otherwise settled outside the app
+    isOnline: boolean;
+}
+
+export const PAYMENT_METHODS: PaymentMethodOption[] = [
+    {
+        id: 'cod',
+        label: 'Cash on Delivery',
+        labelKey: 'payment.cod',
+        description: 'Pay when your order arrives',
+        descriptionKey: 'payment.cod_description',
+        icon: 'cash-outline',
+        isOnline: false,
+    },
+    {
+        id: 'card',
+        label: 'Credit / Debit Card',
+        labelKey: 'payment.card',
+        description: 'Visa, Mastercard on a secure payment page',
+        descriptionKey: 'payment.card_description',
+        icon: 'card-outline',
+        isOnline: true,
+    },
+    {
+        id: 'zaincash',
+        label: 'ZainCash',
+        labelKey: 'payment.zaincash',
+        description: 'Pay with your ZainCash wallet',
+        descriptionKey: 'payment.zaincash_description',
+        icon: 'wallet-outline',
+        isOnline: true,
+    },
+    {
+        id: 'fastpay',
+        label: 'FastPay',
+        labelKey: 'payment.fastpay',
+        description: 'Pay with your FastPay wallet',
+        descriptionKey: 'payment.fastpay_description',
+        icon: 'phone-portrait-outline',
+        isOnline: true,
+    },
+];
+
+// The hosted page redirects here; the path is ignored by the navigator
+export const PAYMENT_RETURN_PATH = 'payment-callback';
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 2 * 60 * 1000;
+
+const FINAL_STATUSES: PaymentStatus[] = ['paid', 'failed', 'cancelled', 'expired'];
+
+export const isFinalPaymentStatus = (status: PaymentStatus) => FINAL_STATUSES.includes(status);
+
+export const getPaymentMethod = (id: PaymentMethodId) =>
+    PAYMENT_METHODS.find((method) => method.id === id) ?? PAYMENT_METHODS[0];
+
+// ============ PROVIDERS ============
+export const apiPaymentProvider: PaymentProvider = {
+    name: 'api',
+    createSession: createPayment,
+    getSession: getPayment,
+    cancelSession: cancelPayment,
+};
+
+export interface FakePaymentOptions {
+    // Final status every session settles on
+    outcome?: Extract<PaymentStatus, 'paid' | 'failed' | 'cancelled' | 'expired'>;
+    // Status checks that report `processing` before the outcome
+    pollsUntilSettled?: number;
+}
+
+/**
+ * In-memory provider for local runs and tests: no hosted page is opened and
+ * every session settles on `outcome` after a few status checks.
+ */
+export const createFakePaymentProvider = ({
+    outcome = 'paid',
+    pollsUntilSettled = 2,
+}: FakePaymentOptions = {}): PaymentProvider => {
+    const sessions = new Map<string, { session: PaymentSession; polls: number }>();
+    let nextId = 1;
+
+    const getEntry = (id: string) => {
+        const entry = sessions.get(id);
+        if (!entry) {
+            throw new Error(`Unknown payment session ${id}`);
+        }
+        return entry;
+    };
+
+    return {
+        name: 'fake',
+        createSession: async (orderIds, method) => {
+            const session: PaymentSession = {
+                id: `fake_${nextId++}`,
+                method,
+                status: 'pending',
+                order_ids: orderIds,
+                amount: '0',
+                redirect_url: null,
+                failure_reason: null,
+            };
+            sessions.set(session.id, { session, polls: 0 });
+            return { ...session };
+        },
+        getSession: async (id) => {
+            const entry = getEntry(id);
+            if (!isFinalPaymentStatus(entry.session.status)) {
+                entry.polls += 1;
+                entry.session = entry.polls >= pollsUntilSettled
+                    ? {
+                        ...entry.session,
+                        status: outcome,
+                        failure_reason: outcome === 'failed' ? 'Card declined (fake provider)' : null,
+                    }
+                    : { ...entry.session, status: 'processing' };
+            }
+            return { ...entry.session };
+        },
+        cancelSession: async (id) => {
+            const entry = getEntry(id);
+            if (!isFinalPaymentStatus(entry.session.status)) {
+                entry.session = { ...entry.session, status: 'cancelled' };
+            }
+            return { ...entry.session };
+        },
+    };
+};
+
+let provider: PaymentProvider = process.env.EXPO_PUBLIC_FAKE_PAYMENTS === 'true'
+    ? createFakePaymentProvider()
+    : apiPaymentProvider;
+
+export const getPaymentProvider = () => provider;
+
+export const setPaymentProvider = (next: PaymentProvider) => {
+    provider = next;
+};
+
+// ============ FLOW ============
+interface PaymentFlowOptions {
+    // Checked between steps; lets a closed screen stop polling
+    isCancelled?: () => boolean;
+    onStatusChange?: (session: PaymentSession) => void;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Polls until the session reaches a final status. Gives up after the
+ * timeout and returns the last known (still pending) session.
+ */
+export const waitForPayment = async (
+    session: PaymentSession,
+    { isCancelled, onStatusChange }: PaymentFlowOptions = {}
+): Promise<PaymentSession> => {
+    const startedAt = Date.now();
+    let current = session;
+
+    while (!isFinalPaymentStatus(current.status) && Date.now() - startedAt < POLL_TIMEOUT_MS) {
+        await wait(POLL_INTERVAL_MS);
+        if (isCancelled?.()) break;
+
+        try {
+            const next = await provider.getSession(current.id);
+            if (next.status !== current.status) {
+                onStatusChange?.(next);
+            }
+            current = next;
+        } catch (error) {
+            // Keep polling through flaky connections; anything else is final
+            if (!isNetworkError(error)) throw error;
+        }
+    }
+
+    return current;
+};
+
+/**
+ * Pays for freshly created orders with an online method: opens the hosted
+ * page and resolves once the provider reports a final status. Closing the
+ * page without paying cancels the session. Cash on delivery needs no
+ * session, so callers skip this for offline methods.
+ */
+export const payForOrders = async (
+    orderIds: number[],
+    method: PaymentMethodId,
+    options: PaymentFlowOptions = {}
+): Promise<PaymentSession> => {
+    const returnUrl = Linking.createURL(PAYMENT_RETURN_PATH);
+    let session = await provider.createSession(orderIds, method, returnUrl);
+    options.onStatusChange?.(session);
+
+    if (isFinalPaymentStatus(session.status)) {
+        return session;
+    }
+
+    if (session.redirect_url) {
+        const result = await WebBrowser.openAuthSessionAsync(session.redirect_url, returnUrl);
+        if (result.type !== 'success') {
+            // The page may have completed before it was closed
+            session = await provider.getSession(session.id);
+            if (!isFinalPaymentStatus(session.status)) {
+                session = await provider.cancelSession(session.id);
+            }
+            options.onStatusChange?.(session);
+            return session;
+        }
+    }
+
+    return waitForPayment(session, options);
+};
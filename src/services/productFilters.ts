@@ -0,0 +1,146 @@
+import type { Product, ProductFilterState, Vendor } from '../types';
+
+export interface ProductFacets {
+    vendors: Vendor[];
+    // Attribute name -> values seen across variants, e.g. { color: ['Red', 'Blue'] }
+    attributes: Record<string, string[]>;
+    minPrice: number | null;
+    maxPrice: number | null;
+}
+
+// Filter sheet sort options, mapped onto the API's sort_by/sort_order
+export const SORT_OPTIONS = [
+    { id: 'newest', sort_by: 'created_at', sort_order: 'desc', label: 'Newest', labelKey: 'filters.sort_newest' },
+    { id: 'price_asc', sort_by: 'price', sort_order: 'asc', label: 'Price: Low to High', labelKey: 'filters.sort_price_asc' },
+    { id: 'price_desc', sort_by: 'price', sort_order: 'desc', label: 'Price: High to Low', labelKey: 'filters.sort_price_desc' },
+    { id: 'name_asc', sort_by: 'name', sort_order: 'asc', label: 'Name: A to Z', labelKey: 'filters.sort_name_asc' },
+] as const;
+
+export const RATING_OPTIONS = [4, 3, 2];
+
+const parsePrice = (value: string | null | undefined) => {
+    const parsed = Number.parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const hasValue = <T>(value: T | undefined | null): value is T => value !== undefined && value !== null;
+
+export const getSortOption = (filters: ProductFilterState) =>
+    SORT_OPTIONS.find(
+        (option) => option.sort_by === filters.sort_by && option.sort_order === filters.sort_order
+    );
+
+/**
+ * Drops empty values so an untouched sheet produces `{}` and identical
+ * filters always serialize (and cache) the same way.
+ */
+export const cleanProductFilters = (filters: ProductFilterState): ProductFilterState => {
+    const attributes = Object.entries(filters.attributes ?? {}).reduce<Record<string, string[]>>(
+        (result, [name, values]) => {
+            if (values.length > 0) result[name] = [...values].sort();
+            return result;
+        },
+        {}
+    );
+
+    const cleaned: ProductFilterState = {
+        min_price: filters.min_price,
+        max_price: filters.max_price,
+        vendor_id: filters.vendor_id,
+        in_stock: filters.in_stock || undefined,
+        min_rating: filters.min_rating,
+        attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+        sort_by: filters.sort_by,
+        sort_order: filters.sort_by ? filters.sort_order : undefined,
+    };
+
+    return Object.fromEntries(
+        Object.entries(cleaned).filter(([, value]) => hasValue(value))
+    ) as ProductFilterState;
+};
+
+export const countActiveFilters = (filters: ProductFilterState) => {
+    const { sort_by, sort_order, attributes, ...rest } = cleanProductFilters(filters);
+    const attributeCount = Object.values(attributes ?? {}).reduce((total, values) => total + values.length, 0);
+    return Object.keys(rest).length + attributeCount;
+};
+
+/**
+ * Client-side check mirroring the filters sent to the API, so results stay
+ * correct even when the backend ignores a facet it does not support yet.
+ * Stock and attributes are only checked when the listing carries variants;
+ * list payloads often leave them out, and the API already applies both.
+ */
+export const matchesProductFilters = (product: Product, filters: ProductFilterState) => {
+    const price = parsePrice(product.price) ?? 0;
+    if (hasValue(filters.min_price) && price < filters.min_price) return false;
+    if (hasValue(filters.max_price) && price > filters.max_price) return false;
+    if (hasValue(filters.vendor_id) && product.vendor?.id !== filters.vendor_id) return false;
+    if (hasValue(filters.min_rating) && (product.average_rating ?? 0) < filters.min_rating) return false;
+
+    const variants = product.variants ?? [];
+    if (variants.length === 0) return true;
+
+    if (filters.in_stock && !variants.some((variant) => variant.stock > 0)) return false;
+
+    const attributeFilters = Object.entries(filters.attributes ?? {}).filter(([, values]) => values.length > 0);
+    if (attributeFilters.length > 0) {
+        const matchesVariant = variants.some((variant) =>
+            attributeFilters.every(([name, values]) => values.includes(variant.attributes?.[name]))
+        );
+        if (!matchesVariant) return false;
+    }
+
+    return true;
+};
+
+/**
+ * Builds the choices offered in the filter sheet from a sample of products.
+ */
+export const collectProductFacets = (products: Product[]): ProductFacets => {
+    const vendors = new Map<number, Vendor>();
+    const attributes: Record<string, Set<string>> = {};
+    let minPrice: number | null = null;
+    let maxPrice: number | null = null;
+
+    products.forEach((product) => {
+        if (product.vendor?.id) {
+            vendors.set(product.vendor.id, product.vendor);
+        }
+
+        const price = parsePrice(product.price);
+        if (price !== null) {
+            minPrice = minPrice === null ? price : Math.min(minPrice, price);
+            maxPrice = maxPrice === null ? price : Math.max(maxPrice, price);
+        }
+
+        (product.variants ?? []).forEach((variant) => {
+            Object.entries(variant.attributes ?? {}).forEach(([name, value]) => {
+                if (!value) return;
+                attributes[name] = attributes[name] ?? new Set<string>();
+                attributes[name].add(String(value));
+            });
+        });
+    });
+
+    return {
+        vendors: Array.from(vendors.values()).sort((a, b) => a.name.localeCompare(b.name)),
+        attributes: Object.fromEntries(
+            Object.entries(attributes).map(([name, values]) => [name, Array.from(values).sort()])
+        ),
+        minPrice,
+        maxPrice,
+    };
+};
+
+export const toggleAttributeValue = (
+    filters: ProductFilterState,
+    name: string,
+    value: string
+): ProductFilterState => {
+    const current = filters.attributes?.[name] ?? [];
+    const values = current.includes(value)
+        ? current.filter((item) => item !== value)
+        : [...current, value];
+    return { ...filters, attributes: { ...filters.attributes, [name]: values } };
+};
@@ -0,0 +1,224 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLocale } from '../i18n/locale';
+
+export interface QueryOptions {
+    // How long data is served without revalidating
+    staleTime: number;
+    // How long data may be shown at all, even while revalidating
+    maxAge: number;
+}
+
+export interface QueryDefinition<T> {
+    key: string;
+    fetcher: () => Promise<T>;
+    options: QueryOptions;
+}
+
+export interface CacheEntry<T = unknown> {
+    data: T;
+    updatedAt: number;
+    invalidated?: boolean;
+}
+
+type QueryListener = () => void;
+
+const STORAGE_PREFIX = '@tonas_query:';
+// Longest maxAge of any query; persisted entries older than this are pruned on launch
+const PERSISTED_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Endpoints served through the cache; keys start with these names
+export const CATALOG_QUERY = {
+    home: 'home',
+    categories: 'categories',
+    products: 'products',
+    vendor: 'vendor',
+    vendors: 'vendors',
+} as const;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+// Bumped by clearQueryCache; responses from an older generation are not stored
+let generation = 0;
+const listeners = new Map<string, Set<QueryListener>>();
+
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const pairs = Object.keys(value as Record<string, unknown>)
+            .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${pairs.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Cache key for an endpoint call. Param order does not matter and the locale
+ * is part of the key, since localized fields come back from the backend.
+ */
+export const buildQueryKey = (
+    endpoint: string,
+    params: Record<string, unknown> = {},
+    locale: string = getLocale()
+) => `${endpoint}|${locale}|${stableStringify(params)}`;
+
+const matchesEndpoint = (key: string, endpoints: string[]) =>
+    endpoints.some((endpoint) => key.startsWith(`${endpoint}|`));
+
+const notify = (key: string) => {
+    listeners.get(key)?.forEach((listener) => listener());
+};
+
+// ============ PERSISTENCE ============
+let hydratePromise: Promise<void> | null = null;
+
+/**
+ * Loads entries saved by the previous launch into memory once,
+ * dropping anything past the longest allowed age.
+ */
+const hydrate = () => {
+    if (!hydratePromise) {
+        hydratePromise = (async () => {
+            try {
+                const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(STORAGE_PREFIX));
+                if (keys.length === 0) return;
+
+                const expired: string[] = [];
+                const stored = await AsyncStorage.multiGet(keys);
+                stored.forEach(([storageKey, raw]) => {
+                    const key = storageKey.slice(STORAGE_PREFIX.length);
+                    try {
+                        const entry = raw ? (JSON.parse(raw) as CacheEntry) : null;
+                        if (!entry || Date.now() - entry.updatedAt > PERSISTED_MAX_AGE) {
+                            expired.push(storageKey);
+                        } else if (!entries.has(key)) {
+                            entries.set(key, entry);
+                        }
+                    } catch {
+                        expired.push(storageKey);
+                    }
+                });
+
+                if (expired.length > 0) {
+                    await AsyncStorage.multiRemove(expired);
+                }
+            } catch (error) {
+                console.warn('Failed to restore query cache:', error);
+            }
+        })();
+    }
+    return hydratePromise;
+};
+
+const persist = async (key: string, entry: CacheEntry) => {
+    try {
+        await AsyncStorage.setItem(`${STORAGE_PREFIX}${key}`, JSON.stringify(entry));
+    } catch (error) {
+        console.warn('Failed to persist query cache:', error);
+    }
+};
+
+// ============ READS ============
+/**
+ * Synchronous lookup of what is already in memory, so screens can render
+ * cached data on the first frame instead of a spinner.
+ */
+export const peekQuery = <T>(key: string, options: QueryOptions): CacheEntry<T> | null => {
+    const entry = entries.get(key) as CacheEntry<T> | undefined;
+    if (!entry) return null;
+    if (Date.now() - entry.updatedAt > options.maxAge) {
+        entries.delete(key);
+        AsyncStorage.removeItem(`${STORAGE_PREFIX}${key}`).catch((error) => {
+            console.warn('Failed to remove expired query:', error);
+        });
+        return null;
+    }
+    return entry;
+};
+
+export const readQuery = async <T>(key: string, options: QueryOptions): Promise<CacheEntry<T> | null> => {
+    await hydrate();
+    return peekQuery<T>(key, options);
+};
+
+export const isQueryStale = (entry: CacheEntry, options: QueryOptions) =>
+    !!entry.invalidated || Date.now() - entry.updatedAt > options.staleTime;
+
+// ============ FETCHING ============
+/**
+ * Runs the fetcher and stores the result. Concurrent calls for the same key
+ * share one request.
+ */
+export const fetchQuery = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key) as Promise<T> | undefined;
+    if (pending) return pending;
+
+    const requestGeneration = generation;
+    const request: Promise<T> = fetcher()
+        .then((data) => {
+            if (requestGeneration !== generation) return data;
+            const entry: CacheEntry<T> = { data, updatedAt: Date.now() };
+            entries.set(key, entry);
+            persist(key, entry);
+            notify(key);
+            return data;
+        })
+        .finally(() => {
+            if (inFlight.get(key) === request) {
+                inFlight.delete(key);
+            }
+        });
+
+    inFlight.set(key, request);
+    return request;
+};
+
+export const subscribeQuery = (key: string, listener: QueryListener) => {
+    const keyListeners = listeners.get(key) ?? new Set<QueryListener>();
+    keyListeners.add(listener);
+    listeners.set(key, keyListeners);
+    return () => {
+        keyListeners.delete(listener);
+        if (keyListeners.size === 0) {
+            listeners.delete(key);
+        }
+    };
+};
+
+// ============ INVALIDATION ============
+/**
+ * Marks every cached call to the given endpoints as stale. Cached data keeps
+ * being shown; mounted screens revalidate right away, others on next mount.
+ */
+export const invalidateQueries = async (endpoints: string[]) => {
+    await hydrate();
+
+    entries.forEach((entry, key) => {
+        if (matchesEndpoint(key, endpoints) && !entry.invalidated) {
+            const invalidated = { ...entry, invalidated: true };
+            entries.set(key, invalidated);
+            persist(key, invalidated);
+            notify(key);
+        }
+    });
+};
+
+/**
+ * Drops every cached response. Listings carry per-user fields such as
+ * wishlist flags, so this runs whenever the signed-in account changes.
+ * Requests still in flight finish for their callers but are not stored.
+ */
+export const clearQueryCache = async () => {
+    generation += 1;
+    inFlight.clear();
+    entries.clear();
+    try {
+        const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(STORAGE_PREFIX));
+        await AsyncStorage.multiRemove(keys);
+    } catch (error) {
+        console.warn('Failed to clear query cache:', error);
+    }
+};
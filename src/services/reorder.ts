@@ -0,0 +1,122 @@
+import { getProductBySlug } from './endpoints';
+import type { Order, OrderItem, Product, ProductVariant } from '../types';
+
+// `unresolved` lines were saved without a slug, so the product cannot be looked up
+export type ReorderSkipReason = 'unavailable' | 'unresolved' | 'variant_unavailable' | 'out_of_stock' | 'failed';
+
+export interface ReorderLine {
+    item: OrderItem;
+    product: Product;
+    variant: ProductVariant | null;
+    quantity: number;
+    // Set when today's price differs from what was paid
+    previousPrice: string | null;
+}
+
+export interface ReorderResult {
+    added: ReorderLine[];
+    skipped: { item: OrderItem; reason: ReorderSkipReason }[];
+    // Added with fewer units than ordered because of stock
+    reduced: ReorderLine[];
+}
+
+type AddLine = (product: Product, variant: ProductVariant | null, quantity: number) => Promise<void>;
+
+const parsePrice = (value: string | null | undefined) => {
+    const parsed = Number.parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Checks an ordered line against the current product: it must still be
+ * listed, the variant must still exist, and stock caps the quantity.
+ */
+const resolveLine = async (item: OrderItem): Promise<ReorderLine | ReorderSkipReason> => {
+    if (!item.product.slug) return 'unresolved';
+
+    let product: Product;
+    try {
+        ({ product } = await getProductBySlug(item.product.slug));
+    } catch {
+        return 'unavailable';
+    }
+    if (product.is_active === false) return 'unavailable';
+
+    const variants = product.variants ?? [];
+    let variant: ProductVariant | null = null;
+    if (item.variant) {
+        variant = variants.find((candidate) => candidate.id === item.variant!.id) ?? null;
+        if (!variant) return 'variant_unavailable';
+    } else if (variants.length > 0) {
+        // Ordered before the product had variants: there is no line to match
+        return 'variant_unavailable';
+    }
+
+    // Without a stock count, an in-stock product is assumed to cover the order
+    const stock = variant
+        ? variant.stock
+        : product.stock ?? (product.in_stock === false ? 0 : item.quantity);
+    if (stock <= 0) return 'out_of_stock';
+
+    const currentPrice = variant?.price ?? product.price;
+    return {
+        item,
+        product,
+        variant,
+        quantity: Math.min(item.quantity, stock),
+        previousPrice: parsePrice(currentPrice) !== parsePrice(item.unit_price) ? item.unit_price : null,
+    };
+};
+
+/**
+ * Re-adds ordered lines to the cart at today's prices. Lines that can no
+ * longer be bought are reported instead of failing the whole reorder.
+ */
+export const reorderItems = async (items: OrderItem[], addLine: AddLine): Promise<ReorderResult> => {
+    const result: ReorderResult = { added: [], skipped: [], reduced: [] };
+
+    // Sequential so the cart's optimistic updates apply in order
+    for (const item of items) {
+        const line = await resolveLine(item);
+        if (typeof line === 'string') {
+            result.skipped.push({ item, reason: line });
+            continue;
+        }
+
+        try {
+            await addLine(line.product, line.variant, line.quantity);
+            result.added.push(line);
+            if (line.quantity < item.quantity) {
+                result.reduced.push(line);
+            }
+        } catch (error) {
+            console.error('Failed to re-add order item:', error);
+            result.skipped.push({ item, reason: 'failed' });
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Distinct products from past orders, most recent first, for the
+ * "previously purchased" shelf. Cancelled orders are left out, as are lines
+ * without a slug, since the product page is opened by slug.
+ */
+export const getPreviouslyPurchased = (orders: Order[], limit: number = 10): Product[] => {
+    const seen = new Set<number>();
+    const products: Product[] = [];
+
+    [...orders]
+        .filter((order) => order.status !== 'cancelled')
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .forEach((order) => {
+            order.items.forEach((item) => {
+                if (!item.product.id || !item.product.slug || seen.has(item.product.id)) return;
+                seen.add(item.product.id);
+                products.push(item.product);
+            });
+        });
+
+    return products.slice(0, limit);
+};
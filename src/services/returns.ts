@@ -0,0 +1,70 @@
+import { appendImage } from './uploads';
+import type { Order, OrderItem, ReturnRequestStatus, ReturnRequestType } from '../types';
+
+export interface ReturnReason {
+    id: string;
+    label: string;
+    labelKey: string;
+    // Sellers need to see the problem before approving
+    requiresPhotos: boolean;
+}
+
+export const RETURN_REASONS: ReturnReason[] = [
+    { id: 'damaged', label: 'Arrived damaged', labelKey: 'returns.reason_damaged', requiresPhotos: true },
+    { id: 'wrong_item', label: 'Wrong item received', labelKey: 'returns.reason_wrong_item', requiresPhotos: true },
+    { id: 'not_as_described', label: 'Not as described', labelKey: 'returns.reason_not_as_described', requiresPhotos: true },
+    { id: 'size_fit', label: 'Size or fit issue', labelKey: 'returns.reason_size_fit', requiresPhotos: false },
+    { id: 'changed_mind', label: 'Changed my mind', labelKey: 'returns.reason_changed_mind', requiresPhotos: false },
+    { id: 'other', label: 'Other', labelKey: 'returns.reason_other', requiresPhotos: false },
+];
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, { label: string; labelKey: string }> = {
+    pending: { label: 'Awaiting review', labelKey: 'returns.status_pending' },
+    approved: { label: 'Approved', labelKey: 'returns.status_approved' },
+    rejected: { label: 'Rejected', labelKey: 'returns.status_rejected' },
+    refunded: { label: 'Refunded', labelKey: 'returns.status_refunded' },
+    cancelled: { label: 'Cancelled', labelKey: 'returns.status_cancelled' },
+};
+
+export const MAX_RETURN_PHOTOS = 4;
+
+// Rejected and cancelled requests give the units back
+const RELEASED_STATUSES: ReturnRequestStatus[] = ['rejected', 'cancelled'];
+
+export const getReturnReason = (id: string) => RETURN_REASONS.find((reason) => reason.id === id);
+
+export const getItemReturnRequests = (order: Order, itemId: number) =>
+    order.return_requests.filter((request) => request.order_item_id === itemId);
+
+// Units of a line that are not already covered by an open or settled request
+export const getReturnableQuantity = (order: Order, item: OrderItem) => {
+    const claimed = getItemReturnRequests(order, item.id)
+        .filter((request) => !RELEASED_STATUSES.includes(request.status))
+        .reduce((total, request) => total + request.quantity, 0);
+    return Math.max(0, item.quantity - claimed);
+};
+
+export const canRequestReturn = (order: Order) =>
+    order.status === 'delivered' && order.items.some((item) => getReturnableQuantity(order, item) > 0);
+
+export const buildReturnFormData = async (request: {
+    itemId: number;
+    type: ReturnRequestType;
+    quantity: number;
+    reason: string;
+    comment: string;
+    photos: string[];
+}): Promise<FormData> => {
+    const formData = new FormData();
+    formData.append('order_item_id', request.itemId.toString());
+    formData.append('type', request.type);
+    formData.append('quantity', request.quantity.toString());
+    formData.append('reason', request.reason);
+    formData.append('comment', request.comment.trim());
+
+    for (const [index, uri] of request.photos.entries()) {
+        await appendImage(formData, 'photos[]', uri, `return-${index}.jpg`);
+    }
+
+    return formData;
+};
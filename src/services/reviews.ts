@@ -0,0 +1,63 @@
+import { getOrderById, getOrdersPage } from './endpoints';
+import { appendImage } from './uploads';
+import type { Order, ReviewSort } from '../types';
+
+export const REVIEW_SORT_OPTIONS: { id: ReviewSort; label: string; labelKey: string }[] = [
+    { id: 'newest', label: 'Newest', labelKey: 'reviews.sort_newest' },
+    { id: 'highest', label: 'Highest rated', labelKey: 'reviews.sort_highest' },
+    { id: 'lowest', label: 'Lowest rated', labelKey: 'reviews.sort_lowest' },
+    { id: 'with_photos', label: 'With photos', labelKey: 'reviews.sort_with_photos' },
+];
+
+export const MAX_REVIEW_PHOTOS = 4;
+
+export const REVIEW_BODY_MIN_LENGTH = 10;
+
+const byNewest = (a: Order, b: Order) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+/**
+ * Only buyers whose order for the product was delivered, and who have not
+ * reviewed it yet, may review it. The most recent such order is sent along
+ * so the backend can verify it. Every page of orders is checked, and lines
+ * the list leaves out are loaded from the order itself.
+ */
+export const findReviewableOrder = async (productId: number): Promise<Order | null> => {
+    let reviewable: Order | null = null;
+
+    for (let page = 1, lastPage = 1; page <= lastPage; page += 1) {
+        const result = await getOrdersPage(page);
+        lastPage = result.meta.last_page;
+
+        for (const order of result.data.filter((item) => item.status === 'delivered').sort(byNewest)) {
+            const items = order.items.length > 0 ? order.items : (await getOrderById(order.id)).items;
+            const line = items.find((item) => item.product.id === productId);
+            if (!line) continue;
+            if (line.reviewed) return null;
+            if (!reviewable || byNewest(order, reviewable) < 0) {
+                reviewable = order;
+            }
+        }
+    }
+
+    return reviewable;
+};
+
+export const buildReviewFormData = async (review: {
+    orderId: number;
+    rating: number;
+    title: string;
+    body: string;
+    photos: string[];
+}): Promise<FormData> => {
+    const formData = new FormData();
+    formData.append('order_id', review.orderId.toString());
+    formData.append('rating', review.rating.toString());
+    formData.append('title', review.title.trim());
+    formData.append('body', review.body.trim());
+
+    for (const [index, uri] of review.photos.entries()) {
+        await appendImage(formData, 'photos[]', uri, `review-${index}.jpg`);
+    }
+
+    return formData;
+};
@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { searchProducts } from './endpoints';
+import { categoriesQuery, vendorsQuery } from './catalogQueries';
+import { fetchQuery, isQueryStale, readQuery } from './queryCache';
+import type { QueryDefinition } from './queryCache';
+import { getLocalizedField } from '../i18n/locale';
+import type { Category, Product, Vendor } from '../types';
+
+const RECENT_SEARCHES_KEY = '@tonas_recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+const MAX_SUGGESTIONS_PER_TYPE = 4;
+
+export type SearchSuggestion =
+    | { type: 'product'; id: number; label: string; product: Product }
+    | { type: 'category'; id: number; label: string; category: Category }
+    | { type: 'vendor'; id: number; label: string; vendor: Vendor };
+
+// ============ RECENT SEARCHES ============
+export const loadRecentSearches = async (): Promise<string[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(RECENT_SEARCHES_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter((item) => typeof item === 'string') : [];
+    } catch (error) {
+        console.warn('Failed to load recent searches:', error);
+        return [];
+    }
+};
+
+const saveRecentSearches = async (searches: string[]) => {
+    try {
+        await AsyncStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+    } catch (error) {
+        console.warn('Failed to save recent searches:', error);
+    }
+};
+
+/**
+ * Moves the query to the front of the list (case-insensitive de-dupe)
+ * and returns the updated list.
+ */
+export const addRecentSearch = async (query: string): Promise<string[]> => {
+    const trimmed = query.trim();
+    const current = await loadRecentSearches();
+    if (!trimmed) return current;
+
+    const next = [
+        trimmed,
+        ...current.filter((item) => item.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_RECENT_SEARCHES);
+    await saveRecentSearches(next);
+    return next;
+};
+
+export const removeRecentSearch = async (query: string): Promise<string[]> => {
+    const next = (await loadRecentSearches()).filter((item) => item !== query);
+    await saveRecentSearches(next);
+    return next;
+};
+
+export const clearRecentSearches = async () => {
+    await AsyncStorage.removeItem(RECENT_SEARCHES_KEY);
+};
+
+// ============ SUGGESTIONS ============
+const readCached = async <T>(query: QueryDefinition<T>): Promise<T> => {
+    const cached = await readQuery<T>(query.key, query.options);
+    if (cached && !isQueryStale(cached, query.options)) return cached.data;
+    return fetchQuery(query.key, query.fetcher);
+};
+
+const matchesText = (value: string, needle: string) => value.toLowerCase().includes(needle);
+
+/**
+ * Typeahead for the search box: a few matching products from the API plus
+ * categories and vendors matched locally against the cached catalog lists.
+ */
+export const getSearchSuggestions = async (query: string, locale?: string): Promise<SearchSuggestion[]> => {
+    const needle = query.trim().toLowerCase();
+    if (needle.length < 2) return [];
+
+    const [products, categories, vendors] = await Promise.all([
+        searchProducts(needle, { per_page: MAX_SUGGESTIONS_PER_TYPE })
+            .then((response) => response.data)
+            .catch(() => [] as Product[]),
+        readCached(categoriesQuery(locale)).catch(() => [] as Category[]),
+        readCached(vendorsQuery(locale)).catch(() => [] as Vendor[]),
+    ]);
+
+    const categorySuggestions: SearchSuggestion[] = categories
+        .map((category) => ({ category, label: getLocalizedField(category as any, 'name', category.name) }))
+        .filter(({ label }) => matchesText(label, needle))
+        .slice(0, MAX_SUGGESTIONS_PER_TYPE)
+        .map(({ category, label }) => ({ type: 'category', id: category.id, label, category }));
+
+    const vendorSuggestions: SearchSuggestion[] = vendors
+        .filter((vendor) => matchesText(vendor.name, needle))
+        .slice(0, MAX_SUGGESTIONS_PER_TYPE)
+        .map((vendor) => ({ type: 'vendor', id: vendor.id, label: vendor.name, vendor }));
+
+    const productSuggestions: SearchSuggestion[] = products
+        .slice(0, MAX_SUGGESTIONS_PER_TYPE)
+        .map((product) => ({
+            type: 'product',
+            id: product.id,
+            label: getLocalizedField(product as any, 'name', product.name),
+            product,
+        }));
+
+    return [...categorySuggestions, ...vendorSuggestions, ...productSuggestions];
+};
+
+// ============ RELAXED QUERIES ============
+/**
+ * Broader alternatives offered when a search has no results: the query
+ * without its last word, each longer word on its own, and a singular form.
+ */
+export const getRelaxedQueries = (query: string, limit: number = 3): string[] => {
+    const normalized = query.trim().replace(/\s+/g, ' ');
+    const words = normalized.split(' ').filter(Boolean);
+    const candidates: string[] = [];
+
+    if (words.length > 1) {
+        candidates.push(words.slice(0, -1).join(' '));
+        [...words]
+            .filter((word) => word.length > 2)
+            .sort((a, b) => b.length - a.length)
+            .forEach((word) => candidates.push(word));
+    }
+
+    const lastWord = words[words.length - 1] ?? '';
+    if (lastWord.length > 3 && /s$/i.test(lastWord)) {
+        candidates.push([...words.slice(0, -1), lastWord.slice(0, -1)].join(' '));
+    }
+
+    if (words.length === 1 && normalized.length > 4) {
+        candidates.push(normalized.slice(0, Math.ceil(normalized.length * 0.7)));
+    }
+
+    const seen = new Set([normalized.toLowerCase()]);
+    return candidates.filter((candidate) => {
+        const key = candidate.toLowerCase();
+        if (!candidate || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    }).slice(0, limit);
+};
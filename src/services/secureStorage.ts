@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Platform } from 'react-native';
+
+/**
+ * Key/value store for credentials. Mirrors the async subset of
+ * expo-secure-store so backends can be swapped without touching callers.
+ * Keys may only contain letters, digits, ".", "-" and "_".
+ */
+export interface SecureStorage {
+    getItem: (key: string) => Promise<string | null>;
+    setItem: (key: string, value: string) => Promise<void>;
+    removeItem: (key: string) => Promise<void>;
+}
+
+// ============ BACKENDS ============
+// iOS Keychain / Android Keystore-encrypted preferences
+export const createKeychainStorage = (): SecureStorage => ({
+    getItem: (key) => SecureStore.getItemAsync(key),
+    setItem: (key, value) =>
+        SecureStore.setItemAsync(key, value, {
+            keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+        }),
+    removeItem: (key) => SecureStore.deleteItemAsync(key),
+});
+
+// Process-local storage; nothing survives a restart
+export const createMemoryStorage = (initial: Record<string, string> = {}): SecureStorage => {
+    const values = new Map(Object.entries(initial));
+    return {
+        getItem: async (key) => values.get(key) ?? null,
+        setItem: async (key, value) => {
+            values.set(key, value);
+        },
+        removeItem: async (key) => {
+            values.delete(key);
+        },
+    };
+};
+
+/**
+ * Browsers have no keychain: fall back to localStorage, or memory when
+ * storage is unavailable (private mode, SSR).
+ */
+export const createWebStorage = (): SecureStorage => {
+    const storage = typeof window !== 'undefined' ? window.localStorage : undefined;
+    if (!storage) return createMemoryStorage();
+
+    return {
+        getItem: async (key) => storage.getItem(key),
+        setItem: async (key, value) => storage.setItem(key, value),
+        removeItem: async (key) => storage.removeItem(key),
+    };
+};
+
+let activeStorage: SecureStorage = Platform.OS === 'web' ? createWebStorage() : createKeychainStorage();
+
+export const getSecureStorage = () => activeStorage;
+
+// Swap the backend, e.g. an in-memory store in tests
+export const setSecureStorage = (storage: SecureStorage) => {
+    activeStorage = storage;
+};
+
+// ============ MIGRATION ============
+const MIGRATION_FLAG_KEY = '@tonas_secure_storage_migrated';
+
+/**
+ * Moves values from plain AsyncStorage into secure storage once per install.
+ * `keys` maps legacy AsyncStorage keys to their secure storage keys. A value
+ * already present in secure storage wins over the legacy copy.
+ */
+export const migrateFromAsyncStorage = async (keys: Record<string, string>) => {
+    if (await AsyncStorage.getItem(MIGRATION_FLAG_KEY)) return;
+
+    const storage = getSecureStorage();
+    const legacyKeys = Object.keys(keys);
+    const entries = await AsyncStorage.multiGet(legacyKeys);
+
+    for (const [legacyKey, value] of entries) {
+        if (!value) continue;
+        const secureKey = keys[legacyKey];
+        if (!(await storage.getItem(secureKey))) {
+            await storage.setItem(secureKey, value);
+        }
+    }
+
+    await AsyncStorage.multiRemove(legacyKeys);
+    await AsyncStorage.setItem(MIGRATION_FLAG_KEY, '1');
+};
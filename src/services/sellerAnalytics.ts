@@ -0,0 +1,187 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { getSellerAnalytics } from './endpoints';
+import type { AnalyticsPoint, AnalyticsRankedItem, SellerAnalytics } from '../types';
+
+type Translate = (key: string, fallback?: string) => string;
+
+export type AnalyticsRangeId = '7d' | '30d' | '90d' | 'custom';
+
+export interface DateRange {
+    from: string;
+    to: string;
+}
+
+export const ANALYTICS_RANGES: { id: AnalyticsRangeId; days: number; label: string; labelKey: string }[] = [
+    { id: '7d', days: 7, label: '7 days', labelKey: 'analytics.range_7d' },
+    { id: '30d', days: 30, label: '30 days', labelKey: 'analytics.range_30d' },
+    { id: '90d', days: 90, label: '90 days', labelKey: 'analytics.range_90d' },
+    { id: 'custom', days: 0, label: 'Custom', labelKey: 'analytics.range_custom' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ranges are whole UTC days so they line up with the API's YYYY-MM-DD keys
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+const parseDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const addDays = (value: string, days: number) => toDateString(new Date(parseDate(value).getTime() + days * DAY_MS));
+
+// The seller's calendar day, not UTC's, which can already be tomorrow or still yesterday
+const localToday = () => {
+    const now = new Date();
+    return toDateString(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+};
+
+export const countDays = (range: DateRange) =>
+    Math.round((parseDate(range.to).getTime() - parseDate(range.from).getTime()) / DAY_MS) + 1;
+
+/**
+ * Preset ranges end today. A custom range needs both ends in order; until
+ * then there is nothing to load and this returns null.
+ */
+export const resolveRange = (id: AnalyticsRangeId, custom: DateRange): DateRange | null => {
+    if (id === 'custom') {
+        if (!custom.from || !custom.to || custom.from > custom.to) return null;
+        return custom;
+    }
+    const days = ANALYTICS_RANGES.find((range) => range.id === id)?.days ?? 7;
+    const to = localToday();
+    return { from: addDays(to, -(days - 1)), to };
+};
+
+// The same number of days immediately before the range
+export const previousPeriod = (range: DateRange): DateRange => ({
+    from: addDays(range.from, -countDays(range)),
+    to: addDays(range.from, -1),
+});
+
+// The API leaves out days without sales; charts need every day in the range
+export const fillSeries = (series: AnalyticsPoint[], range: DateRange): AnalyticsPoint[] => {
+    const byDate = new Map(series.map((point) => [point.date, point]));
+    return Array.from({ length: countDays(range) }, (_, index) => {
+        const date = addDays(range.from, index);
+        return byDate.get(date) ?? { date, revenue: 0, orders: 0 };
+    });
+};
+
+export interface AnalyticsMetrics {
+    revenue: number;
+    orders: number;
+    average_order_value: number;
+    // Percent of visitors who ordered; null when visits are not tracked
+    conversion_rate: number | null;
+}
+
+export const getMetrics = ({ summary }: SellerAnalytics): AnalyticsMetrics => ({
+    revenue: summary.revenue,
+    orders: summary.orders,
+    average_order_value: summary.orders > 0 ? summary.revenue / summary.orders : 0,
+    conversion_rate: summary.visitors > 0 ? (summary.orders / summary.visitors) * 100 : null,
+});
+
+// Null when there is nothing to compare against
+export const percentChange = (current: number | null, previous: number | null): number | null => {
+    if (current === null || previous === null || previous === 0) return null;
+    return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+export interface AnalyticsReport {
+    current: SellerAnalytics;
+    previous: SellerAnalytics;
+}
+
+export const getAnalyticsReport = async (range: DateRange): Promise<AnalyticsReport> => {
+    const previousRange = previousPeriod(range);
+    const [current, previous] = await Promise.all([
+        getSellerAnalytics(range),
+        getSellerAnalytics(previousRange),
+    ]);
+    return {
+        current: { ...current, series: fillSeries(current.series, range) },
+        previous: { ...previous, series: fillSeries(previous.series, previousRange) },
+    };
+};
+
+// ============ CSV EXPORT ============
+
+const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (rows: (string | number)[][]) => rows.map((row) => row.map(csvCell).join(',')).join('\n');
+
+const formatDecimal = (value: number | null) => (value === null ? '' : value.toFixed(2));
+
+const rankedRows = (items: AnalyticsRankedItem[]) =>
+    items.map((item) => [item.name, item.units_sold, formatDecimal(item.revenue)]);
+
+/**
+ * One file with a section per table: the summary against the previous
+ * period, the daily series side by side, then top products and categories.
+ */
+export const buildAnalyticsCsv = ({ current, previous }: AnalyticsReport, t: Translate) => {
+    const now = getMetrics(current);
+    const before = getMetrics(previous);
+    const summaryRow = (label: string, a: number | null, b: number | null) =>
+        [label, formatDecimal(a), formatDecimal(b), formatDecimal(percentChange(a, b))];
+
+    const sections = [
+        csvRows([
+            [t('analytics.metric', 'Metric'), `${current.from} - ${current.to}`, `${previous.from} - ${previous.to}`, t('analytics.change_percent', 'Change %')],
+            summaryRow(t('analytics.revenue', 'Revenue'), now.revenue, before.revenue),
+            summaryRow(t('analytics.orders', 'Orders'), now.orders, before.orders),
+            summaryRow(t('analytics.average_order_value', 'Average order value'), now.average_order_value, before.average_order_value),
+            summaryRow(t('analytics.conversion_rate', 'Conversion rate %'), now.conversion_rate, before.conversion_rate),
+        ]),
+        csvRows([
+            [t('analytics.date', 'Date'), t('analytics.revenue', 'Revenue'), t('analytics.orders', 'Orders'), t('analytics.previous_date', 'Previous date'), t('analytics.previous_revenue', 'Previous revenue'), t('analytics.previous_orders', 'Previous orders')],
+            ...current.series.map((point, index) => {
+                const earlier = previous.series[index];
+                return [point.date, formatDecimal(point.revenue), point.orders, earlier?.date ?? '', formatDecimal(earlier?.revenue ?? null), earlier?.orders ?? ''];
+            }),
+        ]),
+        csvRows([
+            [t('analytics.product', 'Product'), t('analytics.units_sold', 'Units sold'), t('analytics.revenue', 'Revenue')],
+            ...rankedRows(current.top_products),
+        ]),
+        csvRows([
+            [t('analytics.category', 'Category'), t('analytics.units_sold', 'Units sold'), t('analytics.revenue', 'Revenue')],
+            ...rankedRows(current.top_categories),
+        ]),
+    ];
+
+    return `${sections.join('\n\n')}\n`;
+};
+
+/**
+ * Writes the report to a CSV file and opens the share sheet. Web downloads
+ * the file directly instead.
+ */
+export const exportAnalyticsCsv = async (report: AnalyticsReport, t: Translate) => {
+    const csv = buildAnalyticsCsv(report, t);
+    const fileName = `sales-${report.current.from}-to-${report.current.to}.csv`;
+
+    if (Platform.OS === 'web') {
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error(t('analytics.export_unavailable', 'Sharing is not available on this device'));
+    }
+    const file = new File(Paths.cache, fileName);
+    file.create({ overwrite: true });
+    file.write(csv);
+    await Sharing.shareAsync(file.uri, {
+        mimeType: 'text/csv',
+        UTI: 'public.comma-separated-values-text',
+        dialogTitle: t('analytics.export_title', 'Export sales report'),
+    });
+};
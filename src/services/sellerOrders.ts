@@ -0,0 +1,52 @@
+import { updateOrderStatus } from './endpoints';
+import { getErrorMessage } from './errors';
+import type { OrderStatusUpdate } from './orders';
+import type { OrderStatus } from '../types';
+
+export type SellerOrderTab = OrderStatus | 'all';
+
+export const SELLER_ORDER_TABS: SellerOrderTab[] = ['all', 'pending', 'processing', 'shipped', 'delivered', 'cancelled'];
+
+// Statuses sellers can move several orders into at once
+export const BULK_ORDER_STATUSES: OrderStatus[] = ['processing', 'shipped'];
+
+interface BulkOrder {
+    id: number;
+    order_number: string;
+    status: OrderStatus;
+}
+
+export interface BulkStatusResult {
+    updated: number[];
+    failed: { id: number; order_number: string; message: string }[];
+}
+
+/**
+ * Sends one status update per order and reports each outcome. Orders the
+ * state machine does not allow fail on their own without blocking the rest.
+ */
+export const bulkUpdateOrderStatus = async (
+    orders: BulkOrder[],
+    buildUpdate: (order: BulkOrder) => OrderStatusUpdate
+): Promise<BulkStatusResult> => {
+    const results = await Promise.allSettled(
+        orders.map((order) => updateOrderStatus(order.id, order.status, buildUpdate(order)))
+    );
+
+    return results.reduce<BulkStatusResult>(
+        (summary, result, index) => {
+            const order = orders[index];
+            if (result.status === 'fulfilled') {
+                summary.updated.push(order.id);
+            } else {
+                summary.failed.push({
+                    id: order.id,
+                    order_number: order.order_number,
+                    message: getErrorMessage(result.reason, 'Failed to update order status'),
+                });
+            }
+            return summary;
+        },
+        { updated: [], failed: [] }
+    );
+};
@@ -0,0 +1,90 @@
+import type { FieldErrors } from './errors';
+
+export type SellerProductStatusFilter = 'all' | 'active' | 'inactive' | 'pending' | 'rejected';
+
+export type SellerProductStockLevel = 'in_stock' | 'low_stock' | 'out_of_stock';
+
+export type SellerProductSort = 'newest' | 'best_selling' | 'stock_low' | 'stock_high';
+
+/**
+ * Active and inactive are the seller's own on/off switch (`is_active`);
+ * pending and rejected come from catalog review (`status`).
+ */
+export const SELLER_PRODUCT_STATUS_FILTERS: {
+    id: SellerProductStatusFilter;
+    label: string;
+    labelKey: string;
+    params: { status?: string; is_active?: boolean };
+}[] = [
+    { id: 'all', label: 'All', labelKey: 'seller.products_filter_all', params: {} },
+    { id: 'active', label: 'Active', labelKey: 'seller.products_filter_active', params: { is_active: true } },
+    { id: 'inactive', label: 'Inactive', labelKey: 'seller.products_filter_inactive', params: { is_active: false } },
+    { id: 'pending', label: 'In review', labelKey: 'seller.products_filter_pending', params: { status: 'pending' } },
+    { id: 'rejected', label: 'Rejected', labelKey: 'seller.products_filter_rejected', params: { status: 'rejected' } },
+];
+
+export const SELLER_PRODUCT_STOCK_LEVELS: { id: SellerProductStockLevel; label: string; labelKey: string }[] = [
+    { id: 'in_stock', label: 'In stock', labelKey: 'seller.stock_in' },
+    { id: 'low_stock', label: 'Low stock', labelKey: 'seller.stock_low' },
+    { id: 'out_of_stock', label: 'Out of stock', labelKey: 'seller.stock_out' },
+];
+
+export const SELLER_PRODUCT_SORTS: {
+    id: SellerProductSort;
+    label: string;
+    labelKey: string;
+    sort_by: 'created_at' | 'units_sold' | 'stock';
+    sort_order: 'asc' | 'desc';
+}[] = [
+    { id: 'newest', label: 'Newest', labelKey: 'seller.sort_newest', sort_by: 'created_at', sort_order: 'desc' },
+    { id: 'best_selling', label: 'Best selling', labelKey: 'seller.sort_best_selling', sort_by: 'units_sold', sort_order: 'desc' },
+    { id: 'stock_low', label: 'Stock: low to high', labelKey: 'seller.sort_stock_low', sort_by: 'stock', sort_order: 'asc' },
+    { id: 'stock_high', label: 'Stock: high to low', labelKey: 'seller.sort_stock_high', sort_by: 'stock', sort_order: 'desc' },
+];
+
+// Matches the server's low_stock filter so badges agree with the list
+export const LOW_STOCK_THRESHOLD = 5;
+
+export const getStockLevel = (stock: number): SellerProductStockLevel => {
+    if (stock <= 0) return 'out_of_stock';
+    return stock <= LOW_STOCK_THRESHOLD ? 'low_stock' : 'in_stock';
+};
+
+export type PriceAdjustmentMode = 'percent' | 'amount';
+
+export type StockAdjustmentMode = 'set' | 'add';
+
+// Amounts are signed: -10 with `percent` takes 10% off, -3 with `add` removes 3 units
+export type SellerProductBulkAction =
+    | { action: 'activate' | 'deactivate' | 'delete' }
+    | { action: 'adjust_price'; mode: PriceAdjustmentMode; amount: number }
+    | { action: 'adjust_stock'; mode: StockAdjustmentMode; amount: number };
+
+export const validateBulkAction = (ids: number[], bulk: SellerProductBulkAction): FieldErrors | null => {
+    if (ids.length === 0) {
+        return { ids: ['Select at least one product.'] };
+    }
+
+    if (bulk.action === 'adjust_price') {
+        if (!Number.isFinite(bulk.amount) || bulk.amount === 0) {
+            return { amount: ['Enter a non-zero adjustment.'] };
+        }
+        if (bulk.mode === 'percent' && bulk.amount <= -100) {
+            return { amount: ['A discount must be less than 100%.'] };
+        }
+    }
+
+    if (bulk.action === 'adjust_stock') {
+        if (!Number.isInteger(bulk.amount)) {
+            return { amount: ['Stock must be a whole number.'] };
+        }
+        if (bulk.mode === 'set' && bulk.amount < 0) {
+            return { amount: ['Stock cannot be negative.'] };
+        }
+        if (bulk.mode === 'add' && bulk.amount === 0) {
+            return { amount: ['Enter a non-zero adjustment.'] };
+        }
+    }
+
+    return null;
+};
@@ -0,0 +1,82 @@
+import * as Linking from 'expo-linking';
+import type { Slide } from '../types';
+
+export const SLIDE_LINK_TYPES = ['product', 'category', 'vendor', 'search', 'coupon', 'url'] as const;
+
+export type SlideLinkType = typeof SLIDE_LINK_TYPES[number];
+
+export type SlideAction =
+    | { type: 'product'; slug: string }
+    | { type: 'category'; categoryId: number }
+    | { type: 'vendor'; slug: string }
+    | { type: 'search'; query: string }
+    | { type: 'coupon'; code: string }
+    | { type: 'url'; url: string; isInternal: boolean }
+    | { type: 'none' }
+    | { type: 'invalid'; reason: string };
+
+type SlideLink = Pick<Slide, 'link_type' | 'link_value'>;
+
+// Older CMS entries use these names for the same link types
+const LINK_TYPE_ALIASES: Record<string, SlideLinkType> = {
+    products: 'product',
+    categories: 'category',
+    store: 'vendor',
+    vendors: 'vendor',
+    query: 'search',
+    promo: 'coupon',
+    link: 'url',
+    external: 'url',
+};
+
+const APP_URL_PREFIX = Linking.createURL('/');
+
+const isSlideLinkType = (value: string): value is SlideLinkType =>
+    (SLIDE_LINK_TYPES as readonly string[]).includes(value);
+
+export const normalizeLinkType = (linkType?: string): SlideLinkType | null => {
+    const key = (linkType ?? '').trim().toLowerCase();
+    if (isSlideLinkType(key)) return key;
+    return LINK_TYPE_ALIASES[key] ?? null;
+};
+
+/**
+ * Turns a slide's link_type/link_value into what tapping it should do.
+ * Slides without a link resolve to `none`; unknown types or malformed
+ * values resolve to `invalid` so callers can report them instead of
+ * navigating somewhere broken.
+ */
+export const resolveSlideAction = (slide: SlideLink): SlideAction => {
+    const value = (slide.link_value ?? '').trim();
+    if (!value || slide.link_type === 'none') {
+        return { type: 'none' };
+    }
+
+    const linkType = normalizeLinkType(slide.link_type);
+    switch (linkType) {
+        case 'product':
+            return { type: 'product', slug: value };
+        case 'category': {
+            const categoryId = Number.parseInt(value, 10);
+            return Number.isInteger(categoryId) && categoryId > 0
+                ? { type: 'category', categoryId }
+                : { type: 'invalid', reason: `Invalid category id "${value}"` };
+        }
+        case 'vendor':
+            return { type: 'vendor', slug: value };
+        case 'search':
+            return { type: 'search', query: value };
+        case 'coupon':
+            return { type: 'coupon', code: value.toUpperCase() };
+        case 'url': {
+            if (value.startsWith(APP_URL_PREFIX)) {
+                return { type: 'url', url: value, isInternal: true };
+            }
+            return /^https?:\/\//i.test(value)
+                ? { type: 'url', url: value, isInternal: false }
+                : { type: 'invalid', reason: `Unsupported URL "${value}"` };
+        }
+        default:
+            return { type: 'invalid', reason: `Unknown link type "${slide.link_type}"` };
+    }
+};
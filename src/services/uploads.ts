@@ -0,0 +1,25 @@
+import { Platform } from 'react-native';
+
+const getMimeType = (filename: string) => {
+    const ext = filename.split('.').pop()?.toLowerCase();
+    if (ext === 'png') return 'image/png';
+    if (ext === 'gif') return 'image/gif';
+    if (ext === 'webp') return 'image/webp';
+    return 'image/jpeg';
+};
+
+/**
+ * Appends a picked image to multipart form data. Web needs a real File;
+ * native FormData takes the { uri, name, type } descriptor.
+ */
+export const appendImage = async (formData: FormData, field: string, uri: string, fallbackName: string) => {
+    const filename = uri.split('/').pop() || fallbackName;
+    if (Platform.OS === 'web') {
+        const response = await fetch(uri);
+        const blob = await response.blob();
+        formData.append(field, new File([blob], filename, { type: blob.type || 'image/jpeg' }));
+    } else {
+        // @ts-ignore
+        formData.append(field, { uri, name: filename, type: getMimeType(filename) });
+    }
+};
@@ -0,0 +1,145 @@
+import { VARIANT_NAME_ATTRIBUTE, getVariantAttributes } from './variants';
+import type { ProductVariant } from '../types';
+
+// One option the seller sells the product in, e.g. color: Red, Blue
+export interface VariantAxis {
+    name: string;
+    values: string[];
+}
+
+// A generated combination, edited as text until the form is saved
+export interface VariantDraft {
+    key: string;
+    // Set for variants that already exist on the server
+    id: number | null;
+    attributes: Record<string, string>;
+    sku: string;
+    price: string;
+    compare_price: string;
+    stock: string;
+}
+
+export type VariantDraftField = 'sku' | 'price' | 'compare_price' | 'stock';
+
+export const MAX_VARIANT_AXES = 3;
+
+export const SUGGESTED_AXES = ['color', 'size', 'material'];
+
+// The backend keeps these as variant columns; other axes go under attributes
+const COLUMN_ATTRIBUTES = ['size', 'color'];
+
+export const normalizeAxisName = (name: string) => name.trim().toLowerCase();
+
+const buildKey = (attributes: Record<string, string>) =>
+    Object.keys(attributes)
+        .sort()
+        .map((name) => `${name}=${attributes[name]}`)
+        .join('|');
+
+export const getDraftLabel = (draft: VariantDraft, axes: VariantAxis[]) =>
+    axes.map((axis) => draft.attributes[axis.name]).filter(Boolean).join(' / ');
+
+/** Axes and drafts for a product loaded from the seller API. */
+export const draftsFromVariants = (variants: ProductVariant[]): { axes: VariantAxis[]; drafts: VariantDraft[] } => {
+    const axes = getVariantAttributes(variants).map(({ name, values }) => ({ name, values }));
+    const drafts = variants.map((variant) => {
+        const attributes = Object.keys(variant.attributes).length > 0
+            ? variant.attributes
+            : { [VARIANT_NAME_ATTRIBUTE]: variant.name };
+        return {
+            key: buildKey(attributes),
+            id: variant.id || null,
+            attributes,
+            sku: variant.sku,
+            price: variant.price,
+            compare_price: variant.compare_price ? String(variant.compare_price) : '',
+            stock: String(variant.stock),
+        };
+    });
+    return { axes, drafts };
+};
+
+/**
+ * Every combination of the axis values. Combinations that already had a
+ * draft keep their id, SKU, prices and stock; new ones start at the base
+ * price with no stock.
+ */
+export const generateVariantDrafts = (
+    axes: VariantAxis[],
+    existing: VariantDraft[],
+    basePrice: string
+): VariantDraft[] => {
+    const usableAxes = axes.filter((axis) => axis.name && axis.values.length > 0);
+    if (usableAxes.length === 0) return [];
+
+    const combinations = usableAxes.reduce<Record<string, string>[]>(
+        (partials, axis) => partials.flatMap((partial) =>
+            axis.values.map((value) => ({ ...partial, [axis.name]: value }))
+        ),
+        [{}]
+    );
+    const existingByKey = new Map(existing.map((draft) => [draft.key, draft]));
+
+    return combinations.map((attributes) => {
+        const key = buildKey(attributes);
+        return existingByKey.get(key) ?? {
+            key,
+            id: null,
+            attributes,
+            sku: '',
+            price: basePrice,
+            compare_price: '',
+            stock: '0',
+        };
+    });
+};
+
+/** The first field that would be rejected, so the form can point at it. */
+export const findInvalidDraft = (drafts: VariantDraft[]): { draft: VariantDraft; field: VariantDraftField } | null => {
+    const skus = new Set<string>();
+    for (const draft of drafts) {
+        const price = Number(draft.price);
+        if (!draft.price || !Number.isFinite(price) || price <= 0) return { draft, field: 'price' };
+
+        if (draft.compare_price) {
+            const comparePrice = Number(draft.compare_price);
+            if (!Number.isFinite(comparePrice) || comparePrice <= price) return { draft, field: 'compare_price' };
+        }
+
+        const stock = Number(draft.stock);
+        if (draft.stock === '' || !Number.isInteger(stock) || stock < 0) return { draft, field: 'stock' };
+
+        const sku = draft.sku.trim().toLowerCase();
+        if (sku) {
+            if (skus.has(sku)) return { draft, field: 'sku' };
+            skus.add(sku);
+        }
+    }
+    return null;
+};
+
+/**
+ * Adds the variant set to the product form. The backend replaces the whole
+ * set on update, so variants left out are deleted.
+ */
+export const appendVariants = (formData: FormData, drafts: VariantDraft[]) => {
+    formData.append('sync_variants', '1');
+    drafts.forEach((draft, index) => {
+        const prefix = `variants[${index}]`;
+        if (draft.id) formData.append(`${prefix}[id]`, draft.id.toString());
+        formData.append(`${prefix}[sku]`, draft.sku.trim());
+        formData.append(`${prefix}[price]`, draft.price);
+        formData.append(`${prefix}[compare_price]`, draft.compare_price);
+        formData.append(`${prefix}[stock]`, draft.stock);
+
+        Object.entries(draft.attributes).forEach(([name, value]) => {
+            if (name === VARIANT_NAME_ATTRIBUTE) {
+                formData.append(`${prefix}[name]`, value);
+            } else if (COLUMN_ATTRIBUTES.includes(name)) {
+                formData.append(`${prefix}[${name}]`, value);
+            } else {
+                formData.append(`${prefix}[attributes][${name}]`, value);
+            }
+        });
+    });
+};
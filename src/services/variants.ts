@@ -0,0 +1,120 @@
+import type { ProductVariant } from '../types';
+
+export interface VariantAttribute {
+    name: string;
+    values: string[];
+}
+
+// Attribute name -> chosen value
+export type VariantSelection = Record<string, string>;
+
+// Picked in this order; anything else follows alphabetically
+const ATTRIBUTE_ORDER = ['color', 'size'];
+
+// Variants without size/color/attributes are chosen by name instead
+export const VARIANT_NAME_ATTRIBUTE = 'option';
+
+const getOptions = (variant: ProductVariant): VariantSelection =>
+    Object.keys(variant.attributes).length > 0
+        ? variant.attributes
+        : { [VARIANT_NAME_ATTRIBUTE]: variant.name };
+
+const compareAttributes = (a: string, b: string) => {
+    const indexA = ATTRIBUTE_ORDER.indexOf(a);
+    const indexB = ATTRIBUTE_ORDER.indexOf(b);
+    if (indexA !== -1 || indexB !== -1) {
+        return (indexA === -1 ? ATTRIBUTE_ORDER.length : indexA) - (indexB === -1 ? ATTRIBUTE_ORDER.length : indexB);
+    }
+    return a.localeCompare(b);
+};
+
+/** The attributes to pick, in picking order, with values in first-seen order. */
+export const getVariantAttributes = (variants: ProductVariant[]): VariantAttribute[] => {
+    const values = new Map<string, string[]>();
+    variants.forEach((variant) => {
+        Object.entries(getOptions(variant)).forEach(([name, value]) => {
+            const list = values.get(name) ?? [];
+            if (!list.includes(value)) list.push(value);
+            values.set(name, list);
+        });
+    });
+
+    return Array.from(values.keys())
+        .sort(compareAttributes)
+        .map((name) => ({ name, values: values.get(name)! }));
+};
+
+const matches = (variant: ProductVariant, selection: VariantSelection) => {
+    const options = getOptions(variant);
+    return Object.entries(selection).every(([name, value]) => options[name] === value);
+};
+
+/** The variant matching every attribute, or null while the selection is incomplete. */
+export const findVariant = (
+    variants: ProductVariant[],
+    attributes: VariantAttribute[],
+    selection: VariantSelection
+): ProductVariant | null => {
+    if (attributes.some((attribute) => !selection[attribute.name])) return null;
+    return variants.find((variant) => matches(variant, selection)) ?? null;
+};
+
+// Choices made before this attribute in picking order
+const getPriorSelection = (attributes: VariantAttribute[], selection: VariantSelection, name: string) => {
+    const prior: VariantSelection = {};
+    for (const attribute of attributes) {
+        if (attribute.name === name) break;
+        if (selection[attribute.name]) prior[attribute.name] = selection[attribute.name];
+    }
+    return prior;
+};
+
+/**
+ * Whether a value can still be bought given the earlier picks: picking a
+ * color limits the sizes, never the other way round.
+ */
+export const isOptionAvailable = (
+    variants: ProductVariant[],
+    attributes: VariantAttribute[],
+    selection: VariantSelection,
+    name: string,
+    value: string
+) => {
+    const candidate = { ...getPriorSelection(attributes, selection, name), [name]: value };
+    return variants.some((variant) => variant.stock > 0 && matches(variant, candidate));
+};
+
+/**
+ * Applies a pick and drops later picks that no longer exist in stock. A
+ * later attribute with a single remaining value is filled in.
+ */
+export const selectOption = (
+    variants: ProductVariant[],
+    attributes: VariantAttribute[],
+    selection: VariantSelection,
+    name: string,
+    value: string
+): VariantSelection => {
+    const next: VariantSelection = { ...selection, [name]: value };
+    const index = attributes.findIndex((attribute) => attribute.name === name);
+
+    attributes.slice(index + 1).forEach((attribute) => {
+        const available = attribute.values.filter((option) =>
+            isOptionAvailable(variants, attributes, next, attribute.name, option)
+        );
+        if (!available.includes(next[attribute.name])) {
+            delete next[attribute.name];
+        }
+        if (!next[attribute.name] && available.length === 1) {
+            next[attribute.name] = available[0];
+        }
+    });
+
+    return next;
+};
+
+/** Starts on the first variant in stock, or the first one if none are. */
+export const getInitialSelection = (variants: ProductVariant[]): VariantSelection => {
+    const variant = variants.find((item) => item.stock > 0) ?? variants[0];
+    return variant ? { ...getOptions(variant) } : {};
+};
@@ -1,3 +1,5 @@
+import type { NavigatorScreenParams } from '@react-navigation/native';
+
 // API Response Types
 
 export interface Slide {
@@ -26,6 +28,8 @@ export interface Category {
     icon?: string;
     image?: string;
     hero_images?: string[];
+    // Same images with the action they trigger when tapped
+    hero_slides?: Slide[];
     name_en?: string;
     name_ar?: string;
     name_ku?: string;
@@ -44,6 +48,8 @@ export interface ProductVariant {
     compare_price?: string | null;
     stock: number;
     attributes: Record<string, string>;
+    // Photos of this variant; the product's images are used when empty
+    images: string[];
 }
 
 export interface Vendor {
@@ -84,10 +90,20 @@ export interface Product {
     vendor?: Vendor;
     variants?: ProductVariant[];
     in_stock?: boolean;
+    // Units on hand for products without variants, when the API sends it
+    stock?: number;
     average_rating?: number;
     reviews_count?: number;
 }
 
+// A row in the seller's product list, with sales and stock rolled up
+export interface SellerProduct extends Product {
+    units_sold: number;
+    revenue: number;
+    // Product stock, or the sum across variants
+    total_stock: number;
+}
+
 export interface CartItem {
     id: number;
     product: Product;
@@ -97,11 +113,55 @@ export interface CartItem {
     subtotal: string;
 }
 
+export interface CartCoupon {
+    code: string;
+    discount: string;
+    // Vendors whose items the coupon discounts; null when it applies to the whole cart
+    eligible_vendor_ids: number[] | null;
+}
+
 export interface Cart {
     items: CartItem[];
     items_count?: number;
     subtotal: string;
+    discount: string;
     total: string;
+    coupon: CartCoupon | null;
+    // Why the coupon was limited or dropped, e.g. a minimum order not met
+    coupon_messages: string[];
+}
+
+// Server-side pricing of the checkout for the chosen address
+export interface CheckoutQuote {
+    // Vendor id -> shipping fee for that vendor's order
+    shipping_by_vendor: Record<number, string>;
+    discount: string;
+    total: string | null;
+}
+
+// Offline cart: mutations applied locally and replayed against /cart once online
+export type CartMutation =
+    | { type: 'add'; lineId: number; product: Product; variant: ProductVariant | null; quantity: number }
+    | { type: 'update'; itemId: number; quantity: number }
+    | { type: 'remove'; itemId: number };
+
+export type CartConflictReason = 'price_changed' | 'stock_reduced' | 'unavailable' | 'rejected' | 'merged';
+
+export interface CartConflict {
+    key: string;
+    reason: CartConflictReason;
+    product_name: string;
+    message?: string;
+    previous_price?: string;
+    current_price?: string;
+    requested_quantity?: number;
+    available_quantity?: number;
+}
+
+// Outcome of moving a guest's cart and wishlist into their account on sign-in
+export interface GuestMergeResult {
+    cart: CartConflict[];
+    wishlist_added: number;
 }
 
 export interface Address {
@@ -127,14 +187,54 @@ export interface User {
     is_vendor: boolean;
 }
 
+// `unknown` is a status the app does not recognise; it allows no transitions
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'unknown';
+
 export interface Order {
     id: number;
     order_number: string;
-    status: string;
+    status: OrderStatus;
     items: OrderItem[];
     subtotal: string;
+    shipping: string;
+    discount: string;
     total: string;
     created_at: string;
+    vendor: Vendor | null;
+    shipping_address: Address | null;
+    payment_method: string;
+    payment_status: string;
+    // Oldest first
+    status_history: OrderStatusEvent[];
+    tracking: OrderTracking | null;
+    cancellation_reason: string | null;
+    return_requests: ReturnRequest[];
+}
+
+export interface OrderCustomer {
+    name: string;
+    email: string;
+    phone: string | null;
+}
+
+// An order as the seller sees it, with the buyer's contact details
+export interface SellerOrder extends Order {
+    customer: OrderCustomer | null;
+    // Left by the buyer at checkout
+    notes: string | null;
+}
+
+export interface OrderStatusEvent {
+    status: string;
+    created_at: string;
+    note: string | null;
+}
+
+export interface OrderTracking {
+    carrier: string;
+    tracking_number: string;
+    tracking_url: string | null;
+    estimated_delivery: string | null;
 }
 
 export interface OrderItem {
@@ -144,6 +244,75 @@ export interface OrderItem {
     quantity: number;
     unit_price: string;
     subtotal: string;
+    // The buyer has already reviewed this product
+    reviewed: boolean;
+}
+
+export type ReviewSort = 'newest' | 'highest' | 'lowest' | 'with_photos';
+
+export interface ReviewReply {
+    body: string;
+    created_at: string;
+}
+
+export interface Review {
+    id: number;
+    product_id: number;
+    rating: number;
+    title: string;
+    body: string;
+    photos: string[];
+    author_name: string;
+    is_verified_purchase: boolean;
+    created_at: string;
+    // The seller's public answer, one per review
+    reply: ReviewReply | null;
+    // Only embedded in seller listings, which span products
+    product: { id: number; name: string; slug: string; thumbnail: string } | null;
+}
+
+export interface ReviewSummary {
+    average_rating: number;
+    reviews_count: number;
+    // Star (1-5) -> number of reviews
+    breakdown: Record<number, number>;
+}
+
+export type ReturnRequestType = 'return' | 'refund';
+
+export type ReturnRequestStatus = 'pending' | 'approved' | 'rejected' | 'refunded' | 'cancelled';
+
+// A customer's request to send back (or be refunded for) part of an order line
+export interface ReturnRequest {
+    id: number;
+    order_id: number;
+    order_item_id: number;
+    type: ReturnRequestType;
+    quantity: number;
+    reason: string;
+    comment: string;
+    photos: string[];
+    status: ReturnRequestStatus;
+    // Seller's note when approving or rejecting
+    resolution_note: string | null;
+    refund_amount: string | null;
+    created_at: string;
+}
+
+export type PaymentMethodId = 'cod' | 'card' | 'zaincash' | 'fastpay';
+
+export type PaymentStatus = 'pending' | 'processing' | 'paid' | 'failed' | 'cancelled' | 'expired';
+
+// A payment attempt for one checkout; retries create a new session
+export interface PaymentSession {
+    id: string;
+    method: PaymentMethodId;
+    status: PaymentStatus;
+    order_ids: number[];
+    amount: string;
+    // Hosted payment page, absent for cash on delivery
+    redirect_url: string | null;
+    failure_reason: string | null;
 }
 
 export interface Coupon {
@@ -155,6 +324,37 @@ export interface Coupon {
     is_active: boolean;
 }
 
+// Seller analytics for one date range; ratios are derived on the client
+export interface AnalyticsSummary {
+    revenue: number;
+    orders: number;
+    units_sold: number;
+    // Storefront visits, used for the conversion rate
+    visitors: number;
+}
+
+export interface AnalyticsPoint {
+    date: string;
+    revenue: number;
+    orders: number;
+}
+
+export interface AnalyticsRankedItem {
+    id: number;
+    name: string;
+    units_sold: number;
+    revenue: number;
+}
+
+export interface SellerAnalytics {
+    from: string;
+    to: string;
+    summary: AnalyticsSummary;
+    series: AnalyticsPoint[];
+    top_products: AnalyticsRankedItem[];
+    top_categories: AnalyticsRankedItem[];
+}
+
 // API Response wrappers
 export interface PaginatedResponse<T> {
     data: T[];
@@ -174,13 +374,26 @@ export interface HomeResponse {
     popular_products: Product[];
 }
 
+// Catalog filters picked in the filter sheet; kept in route params
+export interface ProductFilterState {
+    min_price?: number;
+    max_price?: number;
+    vendor_id?: number;
+    in_stock?: boolean;
+    min_rating?: number;
+    // Variant attribute name -> accepted values, e.g. { size: ['M', 'L'] }
+    attributes?: Record<string, string[]>;
+    sort_by?: 'price' | 'name' | 'created_at';
+    sort_order?: 'asc' | 'desc';
+}
+
 // Navigation types
 export type RootStackParamList = {
-    Main: undefined;
+    Main: NavigatorScreenParams<MainTabParamList> | undefined;
     ProductDetail: { slug: string };
-    CategoryProducts: { categoryId: number; categoryName: string };
+    CategoryProducts: { categoryId: number; categoryName: string; filters?: ProductFilterState };
     VendorStore: { slug: string };
-    Search: undefined;
+    Search: { query?: string } | undefined;
     Login: undefined;
     Register: undefined;
     BecomeSeller: undefined;
@@ -189,12 +402,17 @@ export type RootStackParamList = {
     SellerProducts: undefined;
     SellerStoreProfile: undefined;
     SellerCoupons: undefined;
+    SellerReviews: undefined;
+    SellerAnalytics: undefined;
     Checkout: undefined;
-    OrderSuccess: { orderId: number };
+    OrderSuccess: { orderIds: number[] };
     OrderHistory: undefined;
     OrderDetail: { orderId: number };
+    RequestReturn: { orderId: number; itemId?: number };
+    WriteReview: { productId: number; productName: string; orderId: number };
     AddAddress: undefined;
     SellerOrders: undefined;
+    SellerOrderDetail: { orderId: number };
 };
 
 export type MainTabParamList = {